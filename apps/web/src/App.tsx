@@ -6,6 +6,7 @@ import OverviewPage from './pages/OverviewPage'
 import TaskBoardPage from './pages/TaskBoardPage'
 import MyTasksPage from './pages/MyTasksPage'
 import CompanyChatPage from './pages/CompanyChatPage'
+import ChannelChatPage from './pages/ChannelChatPage'
 import UpdateCalendarPage from './pages/UpdateCalendarPage'
 import InProgressTasksPage from './pages/InProgressTasksPage'
 import DepartmentsPage from './pages/DepartmentsPage'
@@ -15,6 +16,10 @@ import AutomationPage from './pages/AutomationPage'
 import SettingsPage from './pages/SettingsPage'
 import LoginPage from './pages/LoginPage'
 import LeaveRequestsPage from './pages/LeaveRequestsPage'
+import DependencyGraphPage from './pages/DependencyGraphPage'
+import TemplatesPage from './pages/TemplatesPage'
+import TimesheetsPage from './pages/TimesheetsPage'
+import TimelinePage from './pages/TimelinePage'
 
 function App() {
   return (
@@ -33,8 +38,18 @@ function App() {
             } 
           />
           <Route path="company-chat" element={<ProtectedRoute><CompanyChatPage /></ProtectedRoute>} />
+          <Route path="chat/:channelId" element={<ProtectedRoute><ChannelChatPage /></ProtectedRoute>} />
           <Route path="update-calendar" element={<ProtectedRoute><UpdateCalendarPage /></ProtectedRoute>} />
+          <Route path="timeline" element={<ProtectedRoute><TimelinePage /></ProtectedRoute>} />
           <Route path="leave-requests" element={<ProtectedRoute><LeaveRequestsPage /></ProtectedRoute>} />
+          <Route 
+            path="timesheets" 
+            element={
+              <ProtectedRoute allowedRoles={['Admin', 'Manager', 'DepartmentHead', 'Specialist']}>
+                <TimesheetsPage />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="in-progress" 
             element={
@@ -51,6 +66,14 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="dependencies" 
+            element={
+              <ProtectedRoute allowedRoles={['Admin', 'Manager', 'DepartmentHead']}>
+                <DependencyGraphPage />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="reports" 
             element={
@@ -67,6 +90,14 @@ function App() {
               </ProtectedRoute>
             } 
           />
+          <Route 
+            path="templates" 
+            element={
+              <ProtectedRoute allowedRoles={['Admin', 'Manager']}>
+                <TemplatesPage />
+              </ProtectedRoute>
+            } 
+          />
           <Route 
             path="automation" 
             element={
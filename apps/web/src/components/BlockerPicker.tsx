@@ -0,0 +1,140 @@
+import { useMemo, useState } from 'react'
+import type { Task } from '../context/AppDataContext'
+
+type BlockerPickerProps = {
+  tasks: Task[]
+  value: string[]
+  onChange: (blockerIds: string[]) => void
+  excludeTaskId?: string
+  disabled?: boolean
+}
+
+const MAX_SUGGESTIONS = 8
+
+export function BlockerPicker({ tasks, value, onChange, excludeTaskId, disabled }: BlockerPickerProps) {
+  const [search, setSearch] = useState('')
+
+  const tasksById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks])
+
+  const suggestions = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return tasks
+      .filter((task) => task.id !== excludeTaskId && !value.includes(task.id))
+      .filter(
+        (task) =>
+          task.title.toLowerCase().includes(term) ||
+          task.id.toLowerCase().includes(term) ||
+          task.department.toLowerCase().includes(term),
+      )
+      .slice(0, MAX_SUGGESTIONS)
+  }, [tasks, search, excludeTaskId, value])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {value.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+          {value.map((blockerId) => {
+            const blocker = tasksById.get(blockerId)
+            return (
+              <span
+                key={blockerId}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '0.375rem',
+                  padding: '0.25rem 0.5rem',
+                  borderRadius: '0.375rem',
+                  background: blocker?.status === 'Completed' ? 'var(--surface-elevated)' : 'var(--accent-soft)',
+                  border: '1px solid var(--border-soft)',
+                  fontSize: '0.8rem',
+                  textDecoration: blocker?.status === 'Completed' ? 'line-through' : 'none',
+                }}
+                title={blocker ? `${blocker.department} · ${blocker.status}` : 'Task not found'}
+              >
+                {blocker?.title ?? blockerId}
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(value.filter((id) => id !== blockerId))}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      cursor: 'pointer',
+                      color: 'var(--text-muted)',
+                      fontSize: '0.9rem',
+                      lineHeight: 1,
+                    }}
+                    aria-label={`Remove blocker ${blocker?.title ?? blockerId}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            )
+          })}
+        </div>
+      )}
+      {!disabled && (
+        <div style={{ position: 'relative' }}>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Search tasks by title, ID or department"
+            style={{ width: '100%' }}
+          />
+          {suggestions.length > 0 && (
+            <ul
+              style={{
+                position: 'absolute',
+                left: 0,
+                right: 0,
+                top: 'calc(100% + 0.25rem)',
+                margin: 0,
+                padding: '0.25rem 0',
+                listStyle: 'none',
+                background: 'var(--surface-default)',
+                border: '1px solid var(--border-soft)',
+                borderRadius: '0.5rem',
+                boxShadow: '0 12px 32px rgba(15, 23, 42, 0.18)',
+                zIndex: 20,
+              }}
+            >
+              {suggestions.map((task) => (
+                <li key={task.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onChange([...value, task.id])
+                      setSearch('')
+                    }}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      gap: '0.5rem',
+                      width: '100%',
+                      padding: '0.5rem 0.75rem',
+                      border: 'none',
+                      background: 'transparent',
+                      color: 'var(--text-primary)',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      fontSize: '0.85rem',
+                    }}
+                  >
+                    <span>{task.title}</span>
+                    <span style={{ color: 'var(--text-muted)', whiteSpace: 'nowrap' }}>
+                      {task.department} · {task.status}
+                    </span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
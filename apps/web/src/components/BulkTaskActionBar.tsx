@@ -0,0 +1,358 @@
+import { useEffect, useRef, useState } from 'react'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  BULK_UNDO_WINDOW_MS,
+  applyBulkTaskUpdates,
+  buildUndoUpdates,
+  deleteTasksInBulk,
+  planBulkStatusChange,
+  type BulkTaskFailure,
+  type BulkTaskUpdate,
+} from '../lib/bulkTaskActions'
+import { MAX_TASK_ASSIGNEES, buildAssigneeFields } from '../lib/taskAssignees'
+import { UserPicker } from './UserPicker'
+
+type BulkTaskActionBarProps = {
+  selectedTasks: Task[]
+  onClearSelection: () => void
+}
+
+type BulkField = 'status' | 'priority' | 'assignees' | 'department' | 'dueDate'
+
+type PendingUndo =
+  | { kind: 'update'; message: string; items: BulkTaskUpdate[] }
+  | { kind: 'delete'; message: string; tasks: Task[] }
+
+const FIELD_LABELS: Record<BulkField, string> = {
+  status: 'Status',
+  priority: 'Priority',
+  assignees: 'Assignees',
+  department: 'Department',
+  dueDate: 'Due date',
+}
+
+export function BulkTaskActionBar({ selectedTasks, onClearSelection }: BulkTaskActionBarProps) {
+  const { firestore, userProfile, tasks: allTasks, departments, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [field, setField] = useState<BulkField>('status')
+  const [status, setStatus] = useState<Task['status']>('In Progress')
+  const [priority, setPriority] = useState<Task['priority']>('Medium')
+  const [assigneeIds, setAssigneeIds] = useState<string[]>([])
+  const [department, setDepartment] = useState('')
+  const [dueDate, setDueDate] = useState('')
+  const [working, setWorking] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [failures, setFailures] = useState<BulkTaskFailure[]>([])
+  const [pendingUndo, setPendingUndo] = useState<PendingUndo | null>(null)
+  const undoTimerRef = useRef<number | null>(null)
+  // Mirrors a pending delete so it can still be carried out if the page is left during the undo window
+  const pendingDeleteRef = useRef<Task[] | null>(null)
+
+  const isAdmin = userProfile?.role === 'Admin'
+
+  const clearUndoTimer = () => {
+    if (undoTimerRef.current !== null) {
+      window.clearTimeout(undoTimerRef.current)
+      undoTimerRef.current = null
+    }
+  }
+
+  useEffect(() => {
+    return () => {
+      if (undoTimerRef.current !== null) {
+        window.clearTimeout(undoTimerRef.current)
+      }
+      const pendingDelete = pendingDeleteRef.current
+      if (firestore && user && pendingDelete) {
+        void deleteTasksInBulk(firestore, user.uid, pendingDelete)
+      }
+    }
+  }, [firestore, user])
+
+  const runDelete = async (tasksToDelete: Task[]) => {
+    pendingDeleteRef.current = null
+    setPendingUndo(null)
+    if (!firestore || !user) return
+    const deleteFailures = await deleteTasksInBulk(firestore, user.uid, tasksToDelete)
+    setFailures(deleteFailures)
+  }
+
+  const startUndoWindow = (undo: PendingUndo) => {
+    clearUndoTimer()
+    setPendingUndo(undo)
+    undoTimerRef.current = window.setTimeout(() => {
+      undoTimerRef.current = null
+      if (undo.kind === 'delete') {
+        void runDelete(undo.tasks)
+      } else {
+        setPendingUndo(null)
+      }
+    }, BULK_UNDO_WINDOW_MS)
+  }
+
+  const buildItems = (): { items: BulkTaskUpdate[]; skipped: BulkTaskFailure[] } | null => {
+    switch (field) {
+      case 'status': {
+        const plan = planBulkStatusChange(selectedTasks, status, allTasks, departments)
+        if (
+          plan.warnings.length > 0 &&
+          !window.confirm(`${plan.warnings.join('\n')}\n\nThat is over the work-in-progress limit. Move the tasks anyway?`)
+        ) {
+          return null
+        }
+        return { items: plan.items, skipped: plan.skipped }
+      }
+      case 'priority':
+        return {
+          items: selectedTasks.filter((task) => task.priority !== priority).map((task) => ({ task, updates: { priority } })),
+          skipped: [],
+        }
+      case 'assignees': {
+        if (assigneeIds.length === 0) {
+          setError('Pick at least one assignee.')
+          return null
+        }
+        const assigneeFields = buildAssigneeFields(assigneeIds, allUserProfiles)
+        return { items: selectedTasks.map((task) => ({ task, updates: { ...assigneeFields } })), skipped: [] }
+      }
+      case 'department':
+        if (!department) {
+          setError('Pick a department.')
+          return null
+        }
+        return {
+          items: selectedTasks.filter((task) => task.department !== department).map((task) => ({ task, updates: { department } })),
+          skipped: [],
+        }
+      case 'dueDate':
+        if (!dueDate) {
+          setError('Pick a due date.')
+          return null
+        }
+        return {
+          items: selectedTasks.filter((task) => task.dueDate !== dueDate).map((task) => ({ task, updates: { dueDate } })),
+          skipped: [],
+        }
+    }
+  }
+
+  const handleApply = async () => {
+    if (!firestore || !user) return
+    setError(null)
+    const plan = buildItems()
+    if (!plan) return
+    if (plan.items.length === 0) {
+      setFailures(plan.skipped)
+      if (plan.skipped.length === 0) {
+        setError(`The selected tasks already have that ${FIELD_LABELS[field].toLowerCase()}.`)
+      }
+      return
+    }
+
+    setWorking(true)
+    try {
+      const writeFailures = await applyBulkTaskUpdates(firestore, user.uid, plan.items)
+      const applied = plan.items.filter((item) => !writeFailures.some((failure) => failure.taskId === item.task.id))
+      setFailures([...plan.skipped, ...writeFailures])
+      if (applied.length > 0) {
+        startUndoWindow({
+          kind: 'update',
+          message: `Updated ${FIELD_LABELS[field].toLowerCase()} on ${applied.length} task${applied.length === 1 ? '' : 's'}.`,
+          items: buildUndoUpdates(applied),
+        })
+        onClearSelection()
+      }
+    } catch (err) {
+      console.error('Failed to apply bulk task change', err)
+      setError('Failed to update the selected tasks. Please try again.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleDelete = () => {
+    if (!window.confirm(`Delete ${selectedTasks.length} task${selectedTasks.length === 1 ? '' : 's'}? They move to the trash, where an admin can restore them.`)) {
+      return
+    }
+    setError(null)
+    setFailures([])
+    // The delete itself is held back until the undo window closes, so undo never has to recreate tasks
+    pendingDeleteRef.current = selectedTasks
+    startUndoWindow({
+      kind: 'delete',
+      message: `Deleting ${selectedTasks.length} task${selectedTasks.length === 1 ? '' : 's'}…`,
+      tasks: selectedTasks,
+    })
+    onClearSelection()
+  }
+
+  const handleUndo = async () => {
+    if (!pendingUndo) return
+    clearUndoTimer()
+    const undo = pendingUndo
+    setPendingUndo(null)
+    if (undo.kind === 'delete') {
+      pendingDeleteRef.current = null
+      return
+    }
+    if (!firestore || !user) return
+
+    setWorking(true)
+    try {
+      setFailures(await applyBulkTaskUpdates(firestore, user.uid, undo.items))
+    } catch (err) {
+      console.error('Failed to undo bulk task change', err)
+      setError('Failed to undo the change. Please try again.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const isDeletePending = (task: Task) =>
+    pendingUndo?.kind === 'delete' && pendingUndo.tasks.some((pending) => pending.id === task.id)
+
+  return (
+    <>
+      {selectedTasks.length > 0 && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            alignItems: 'center',
+            gap: '0.5rem',
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            background: 'var(--accent-soft)',
+            border: '1px solid var(--border-soft)',
+            borderRadius: '0.75rem',
+          }}
+        >
+          <strong style={{ fontSize: '0.9rem' }}>{selectedTasks.length} selected</strong>
+          <select value={field} onChange={(e) => setField(e.target.value as BulkField)} disabled={working}>
+            {(Object.keys(FIELD_LABELS) as BulkField[]).map((option) => (
+              <option key={option} value={option}>
+                Set {FIELD_LABELS[option].toLowerCase()}
+              </option>
+            ))}
+          </select>
+          {field === 'status' && (
+            <select value={status} onChange={(e) => setStatus(e.target.value as Task['status'])} disabled={working}>
+              <option value="Backlog">Backlog</option>
+              <option value="In Progress">In Progress</option>
+              <option value="Review">Review</option>
+              <option value="Completed">Completed</option>
+            </select>
+          )}
+          {field === 'priority' && (
+            <select value={priority} onChange={(e) => setPriority(e.target.value as Task['priority'])} disabled={working}>
+              <option value="Low">Low</option>
+              <option value="Medium">Medium</option>
+              <option value="High">High</option>
+            </select>
+          )}
+          {field === 'assignees' && (
+            <div style={{ flex: '1 1 240px' }}>
+              <UserPicker
+                profiles={allUserProfiles}
+                value={assigneeIds}
+                onChange={setAssigneeIds}
+                max={MAX_TASK_ASSIGNEES}
+                disabled={working}
+              />
+            </div>
+          )}
+          {field === 'department' && (
+            <select value={department} onChange={(e) => setDepartment(e.target.value)} disabled={working}>
+              <option value="">Choose department</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.name}>
+                  {dept.name}
+                </option>
+              ))}
+            </select>
+          )}
+          {field === 'dueDate' && (
+            <input type="date" value={dueDate} onChange={(e) => setDueDate(e.target.value)} disabled={working} />
+          )}
+          <button type="button" className="primary-button" onClick={() => void handleApply()} disabled={working}>
+            {working ? 'Applying...' : 'Apply'}
+          </button>
+          {isAdmin && (
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={handleDelete}
+              disabled={working || selectedTasks.some(isDeletePending)}
+              style={{ color: '#dc2626', borderColor: '#dc2626' }}
+            >
+              Delete
+            </button>
+          )}
+          <button type="button" className="ghost-button" onClick={onClearSelection} disabled={working}>
+            Clear selection
+          </button>
+        </div>
+      )}
+
+      {pendingUndo && (
+        <div
+          role="status"
+          style={{
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'space-between',
+            gap: '1rem',
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            background: 'var(--surface-elevated)',
+            border: '1px solid var(--border-soft)',
+            borderRadius: '0.75rem',
+            fontSize: '0.9rem',
+          }}
+        >
+          <span>{pendingUndo.message}</span>
+          <button type="button" className="ghost-button" onClick={() => void handleUndo()} disabled={working}>
+            Undo
+          </button>
+        </div>
+      )}
+
+      {error && <p className="login-error">{error}</p>}
+
+      {failures.length > 0 && (
+        <div
+          style={{
+            padding: '0.75rem 1rem',
+            marginBottom: '1rem',
+            border: '1px solid #dc262640',
+            background: '#dc262610',
+            borderRadius: '0.75rem',
+            fontSize: '0.85rem',
+          }}
+        >
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+            <strong style={{ color: '#dc2626' }}>
+              {failures.length} task{failures.length === 1 ? ' was' : 's were'} not changed
+            </strong>
+            <button
+              type="button"
+              onClick={() => setFailures([])}
+              style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer' }}
+              aria-label="Dismiss"
+            >
+              ×
+            </button>
+          </div>
+          <ul style={{ margin: 0, paddingLeft: '1.25rem', display: 'grid', gap: '0.25rem' }}>
+            {failures.map((failure) => (
+              <li key={failure.taskId}>
+                <strong>{failure.title}</strong>: {failure.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,79 @@
+import { useState } from 'react'
+import { formatFileSize, isPreviewableImage, type ChatAttachment } from '../lib/storage'
+
+type ChatAttachmentListProps = {
+  attachments: ChatAttachment[]
+}
+
+/**
+ * Files shared with a chat message: images as inline thumbnails, anything else as a download link
+ */
+export function ChatAttachmentList({ attachments }: ChatAttachmentListProps) {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+
+  if (attachments.length === 0) {
+    return null
+  }
+
+  return (
+    <>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem', marginBottom: '0.25rem' }}>
+        {attachments.map((attachment) =>
+          isPreviewableImage(attachment.contentType) ? (
+            <button
+              key={attachment.path}
+              type="button"
+              onClick={() => setPreviewUrl(attachment.url)}
+              style={{ padding: 0, border: 'none', background: 'none', cursor: 'zoom-in' }}
+              title={attachment.name}
+            >
+              <img
+                src={attachment.url}
+                alt={attachment.name}
+                loading="lazy"
+                style={{ maxWidth: '200px', maxHeight: '160px', objectFit: 'cover', borderRadius: '0.5rem', display: 'block' }}
+              />
+            </button>
+          ) : (
+            <a
+              key={attachment.path}
+              href={attachment.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '0.5rem',
+                maxWidth: '240px',
+                padding: '0.4rem 0.6rem',
+                borderRadius: '0.5rem',
+                border: '1px solid var(--border-soft)',
+                color: 'inherit',
+                textDecoration: 'none',
+                fontSize: '0.8rem',
+              }}
+            >
+              <span style={{ fontSize: '1.1rem' }}>📄</span>
+              <span style={{ minWidth: 0 }}>
+                <span style={{ display: 'block', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {attachment.name}
+                </span>
+                <span style={{ opacity: 0.7 }}>{formatFileSize(attachment.size)}</span>
+              </span>
+            </a>
+          ),
+        )}
+      </div>
+
+      {previewUrl && (
+        <div className="modal-backdrop" onClick={() => setPreviewUrl(null)} role="dialog" aria-label="Image preview">
+          <img
+            src={previewUrl}
+            alt="Attachment preview"
+            style={{ maxWidth: '90vw', maxHeight: '90vh', borderRadius: '0.5rem', boxShadow: 'var(--shadow-soft)' }}
+          />
+        </div>
+      )}
+    </>
+  )
+}
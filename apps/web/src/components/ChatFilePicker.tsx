@@ -0,0 +1,89 @@
+import { useRef } from 'react'
+import { MAX_ATTACHMENTS_PER_MESSAGE, formatFileSize, validateChatAttachment } from '../lib/storage'
+
+type ChatFilePickerProps = {
+  files: File[]
+  onChange: (files: File[]) => void
+  onError: (message: string | null) => void
+  disabled?: boolean
+}
+
+/**
+ * Attach button for a chat composer plus the files waiting to be sent with the next message
+ */
+export function ChatFilePicker({ files, onChange, onError, disabled }: ChatFilePickerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  const handleFiles = (selected: File[]) => {
+    if (selected.length === 0) return
+    if (files.length + selected.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+      onError(`A message can have at most ${MAX_ATTACHMENTS_PER_MESSAGE} files.`)
+      return
+    }
+    const invalid = selected.map(validateChatAttachment).find((message) => message !== null)
+    if (invalid) {
+      onError(`${invalid}. Chat files can be images, PDFs or design files (PSD, AI, EPS, Sketch, Figma, XD).`)
+      return
+    }
+    onError(null)
+    onChange([...files, ...selected])
+  }
+
+  return (
+    <>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => fileInputRef.current?.click()}
+        disabled={disabled}
+        title="Attach files"
+        aria-label="Attach files"
+        style={{ minWidth: 'auto', padding: '0.35rem 0.6rem' }}
+      >
+        📎
+      </button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        multiple
+        accept="image/png,image/jpeg,image/gif,image/webp,image/bmp,image/avif,image/heic,image/heif,image/tiff,application/pdf,.psd,.ai,.eps,.sketch,.fig,.xd"
+        style={{ display: 'none' }}
+        onChange={(e) => {
+          const selected = Array.from(e.target.files ?? [])
+          // Reset so selecting the same file again still triggers a change
+          e.target.value = ''
+          handleFiles(selected)
+        }}
+      />
+      {files.length > 0 && (
+        <div style={{ flexBasis: '100%', gridColumn: '1 / -1', display: 'flex', flexWrap: 'wrap', gap: '0.35rem', order: -1 }}>
+          {files.map((file, index) => (
+            <span
+              key={`${file.name}-${index}`}
+              style={{
+                display: 'inline-flex',
+                alignItems: 'center',
+                gap: '0.35rem',
+                padding: '0.2rem 0.5rem',
+                borderRadius: '999px',
+                border: '1px solid var(--border-soft)',
+                fontSize: '0.75rem',
+              }}
+            >
+              {file.name} ({formatFileSize(file.size)})
+              <button
+                type="button"
+                onClick={() => onChange(files.filter((_, fileIndex) => fileIndex !== index))}
+                disabled={disabled}
+                aria-label={`Remove ${file.name}`}
+                style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', color: 'inherit' }}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+    </>
+  )
+}
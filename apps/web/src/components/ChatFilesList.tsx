@@ -0,0 +1,125 @@
+import { useEffect, useState } from 'react'
+import { collection, onSnapshot, query, where } from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import type { ChatCollection } from '../lib/chatThreads'
+import { formatFileSize, isPreviewableImage, parseChatAttachments, type ChatAttachment } from '../lib/storage'
+import { isTrashed } from '../lib/trash'
+
+type ChatFilesListProps = {
+  collectionName: ChatCollection
+  department?: string // Limits a department chat to its own channel
+}
+
+type SharedFile = ChatAttachment & {
+  messageId: string
+  author: string
+  sharedAt: Date
+}
+
+/**
+ * Every file shared in a chat channel, newest first. Queried separately from the message
+ * feed, which only holds recent messages.
+ */
+export function ChatFilesList({ collectionName, department }: ChatFilesListProps) {
+  const { firestore } = useAppData()
+  const [files, setFiles] = useState<SharedFile[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!firestore) return () => {}
+
+    const filesQuery =
+      department !== undefined
+        ? query(
+            collection(firestore, collectionName),
+            where('hasAttachments', '==', true),
+            where('department', '==', department),
+          )
+        : query(collection(firestore, collectionName), where('hasAttachments', '==', true))
+
+    // Sorted here rather than in the query, so no composite index is needed
+    const unsubscribe = onSnapshot(
+      filesQuery,
+      (snapshot) => {
+        setFiles(
+          snapshot.docs
+            .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+            .flatMap((docSnapshot) => {
+              const data = docSnapshot.data()
+              return parseChatAttachments(data.attachments).map((attachment) => ({
+                ...attachment,
+                messageId: docSnapshot.id,
+                author: data.author ?? '',
+                sharedAt: data.createdAt?.toDate?.() ?? new Date(),
+              }))
+            })
+            .sort((a, b) => b.sharedAt.getTime() - a.sharedAt.getTime()),
+        )
+      },
+      (err) => {
+        console.error('Failed to load shared files', err)
+        setError('Failed to load shared files.')
+      },
+    )
+    return () => unsubscribe()
+  }, [firestore, collectionName, department])
+
+  if (error) {
+    return <p className="login-error">{error}</p>
+  }
+  if (files === null) {
+    return <p style={{ color: 'var(--text-muted)' }}>Loading files…</p>
+  }
+  if (files.length === 0) {
+    return (
+      <div className="empty-state" style={{ padding: '2rem', margin: 0 }}>
+        <p>No files have been shared here yet.</p>
+      </div>
+    )
+  }
+
+  return (
+    <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.5rem' }}>
+      {files.map((file) => (
+        <li key={`${file.messageId}-${file.path}`} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+          {isPreviewableImage(file.contentType) ? (
+            <img
+              src={file.url}
+              alt={file.name}
+              loading="lazy"
+              style={{ width: '48px', height: '48px', objectFit: 'cover', borderRadius: '0.375rem', display: 'block' }}
+            />
+          ) : (
+            <span
+              style={{
+                width: '48px',
+                height: '48px',
+                borderRadius: '0.375rem',
+                background: 'var(--surface-elevated)',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                fontSize: '1.25rem',
+              }}
+            >
+              📄
+            </span>
+          )}
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <a
+              href={file.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              style={{ color: 'var(--accent)', textDecoration: 'none', wordBreak: 'break-all', fontSize: '0.9rem' }}
+            >
+              {file.name}
+            </a>
+            <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+              {formatFileSize(file.size)} · {file.author} · {file.sharedAt.toLocaleDateString()}
+            </div>
+          </div>
+        </li>
+      ))}
+    </ul>
+  )
+}
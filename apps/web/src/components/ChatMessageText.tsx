@@ -0,0 +1,168 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  editChatMessage,
+  getEditDeadline,
+  loadChatMessageVersions,
+  type ChatEditFields,
+  type ChatMessageVersion,
+} from '../lib/chatEdits'
+import type { ChatCollection } from '../lib/chatThreads'
+
+type ChatMessageTextProps = {
+  collectionName: ChatCollection
+  message: {
+    id: string
+    authorId: string
+    createdAt: Date
+    text: string
+  } & ChatEditFields
+  className?: string
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })
+}
+
+const linkButtonStyle = {
+  background: 'none',
+  border: 'none',
+  padding: 0,
+  fontSize: '0.75rem',
+  color: 'var(--accent)',
+  cursor: 'pointer',
+}
+
+/**
+ * A chat message's text with its "edited" marker. Authors can edit it within the workspace
+ * edit window, and admins can look through the versions it replaced.
+ */
+export function ChatMessageText({ collectionName, message, className }: ChatMessageTextProps) {
+  const { firestore, userProfile, workspaceSettings } = useAppData()
+  const { user } = useAuth()
+  const [now, setNow] = useState(() => Date.now())
+  const [draft, setDraft] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [historyOpen, setHistoryOpen] = useState(false)
+  const [versions, setVersions] = useState<ChatMessageVersion[] | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const isAuthor = Boolean(user && message.authorId === user.uid)
+  const deadline = getEditDeadline(message.createdAt, workspaceSettings.chatEditWindowMinutes).getTime()
+  const canEdit = isAuthor && now < deadline
+  const isAdmin = userProfile?.role === 'Admin'
+
+  // Hide the Edit button once the window closes; only the author's recent messages need the timer
+  useEffect(() => {
+    if (!isAuthor || Date.now() >= deadline) return
+    const timeout = setTimeout(() => setNow(Date.now()), deadline - Date.now())
+    return () => clearTimeout(timeout)
+  }, [isAuthor, deadline])
+
+  const handleSave = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!firestore || draft === null) return
+    const text = draft.trim()
+    if (!text || text === message.text) {
+      setDraft(null)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await editChatMessage(firestore, collectionName, message.id, text)
+      setDraft(null)
+    } catch (err) {
+      console.error('Failed to edit message', err)
+      setError('Unable to save your edit. The edit window may have closed.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  // The history is fetched each time it is opened, so edits made since then show up
+  const toggleHistory = async () => {
+    if (historyOpen) {
+      setHistoryOpen(false)
+      return
+    }
+    if (!firestore) return
+    setHistoryOpen(true)
+    setVersions(null)
+    setError(null)
+    try {
+      setVersions(await loadChatMessageVersions(firestore, collectionName, message.id))
+    } catch (err) {
+      console.error('Failed to load edit history', err)
+      setError('Unable to load the edit history.')
+      setHistoryOpen(false)
+    }
+  }
+
+  return (
+    <>
+      {draft !== null ? (
+        <form onSubmit={handleSave} style={{ display: 'flex', gap: '0.35rem' }}>
+          <input
+            type="text"
+            value={draft}
+            onChange={(event) => setDraft(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Escape') setDraft(null)
+            }}
+            aria-label="Edit message"
+            autoFocus
+            style={{ flex: 1, minWidth: 0 }}
+          />
+          <button type="submit" className="primary-button" disabled={saving || !draft.trim()}>
+            Save
+          </button>
+          <button type="button" className="ghost-button" onClick={() => setDraft(null)} disabled={saving}>
+            Cancel
+          </button>
+        </form>
+      ) : message.text || message.editedAt ? (
+        <p className={className} style={{ marginTop: 0 }}>
+          {message.text}
+          {message.editedAt && (
+            <span
+              title={`Edited ${formatTimestamp(message.editedAt)}`}
+              style={{ marginLeft: '0.35rem', fontSize: '0.75rem', opacity: 0.7 }}
+            >
+              (edited)
+            </span>
+          )}
+        </p>
+      ) : null}
+      {((canEdit && draft === null) || (isAdmin && message.editCount > 0)) && (
+        <div style={{ display: 'flex', gap: '0.75rem' }}>
+          {canEdit && draft === null && (
+            <button type="button" onClick={() => setDraft(message.text)} style={linkButtonStyle}>
+              Edit
+            </button>
+          )}
+          {isAdmin && message.editCount > 0 && (
+            <button type="button" onClick={toggleHistory} style={linkButtonStyle}>
+              {historyOpen ? 'Hide history' : `History (${message.editCount})`}
+            </button>
+          )}
+        </div>
+      )}
+      {historyOpen && isAdmin && !versions && (
+        <span style={{ fontSize: '0.8rem', opacity: 0.7 }}>Loading history…</span>
+      )}
+      {historyOpen && isAdmin && versions && (
+        <ol style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.8rem', display: 'grid', gap: '0.25rem' }}>
+          {versions.map((version, index) => (
+            <li key={index}>
+              <span style={{ opacity: 0.7 }}>{formatTimestamp(version.writtenAt)}:</span> {version.text}
+            </li>
+          ))}
+        </ol>
+      )}
+      {error && <span style={{ fontSize: '0.75rem', color: '#dc2626' }}>{error}</span>}
+    </>
+  )
+}
@@ -0,0 +1,106 @@
+import { useState } from 'react'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { CHAT_REACTIONS, summarizeReactions, toggleChatReaction, type ChatCollection, type ChatReactionMap } from '../lib/chatThreads'
+
+type ChatReactionsProps = {
+  collectionName: ChatCollection
+  messageId: string
+  reactions: ChatReactionMap
+}
+
+export function ChatReactions({ collectionName, messageId, reactions }: ChatReactionsProps) {
+  const { firestore, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [pickerOpen, setPickerOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const summaries = summarizeReactions(reactions, user?.uid)
+
+  const handleToggle = async (emoji: string) => {
+    if (!firestore || !user) return
+    setPickerOpen(false)
+    setError(null)
+    const reacted = summaries.some((summary) => summary.emoji === emoji && summary.reacted)
+    try {
+      await toggleChatReaction(firestore, collectionName, messageId, user.uid, emoji, reacted)
+    } catch (err) {
+      console.error('Failed to update reaction', err)
+      setError('Failed to update your reaction.')
+    }
+  }
+
+  const chipStyle = (active: boolean) => ({
+    display: 'inline-flex',
+    alignItems: 'center',
+    gap: '0.25rem',
+    padding: '0.1rem 0.45rem',
+    fontSize: '0.8rem',
+    borderRadius: '999px',
+    border: `1px solid ${active ? 'var(--accent)' : 'var(--border-soft)'}`,
+    background: active ? 'var(--accent-soft)' : 'transparent',
+    color: 'inherit',
+    cursor: 'pointer',
+  })
+
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '0.25rem', marginTop: '0.25rem' }}>
+      {summaries.map((summary) => (
+        <button
+          key={summary.emoji}
+          type="button"
+          onClick={() => void handleToggle(summary.emoji)}
+          style={chipStyle(summary.reacted)}
+          title={summary.userIds
+            .map((id) => allUserProfiles.find((profile) => profile.id === id)?.displayName ?? 'Former team member')
+            .join(', ')}
+        >
+          <span>{summary.emoji}</span>
+          <span>{summary.userIds.length}</span>
+        </button>
+      ))}
+      <div style={{ position: 'relative' }}>
+        <button
+          type="button"
+          onClick={() => setPickerOpen((open) => !open)}
+          style={chipStyle(false)}
+          title="Add reaction"
+          aria-label="Add reaction"
+          disabled={!user}
+        >
+          +☺
+        </button>
+        {pickerOpen && (
+          <div
+            style={{
+              position: 'absolute',
+              bottom: '100%',
+              left: 0,
+              zIndex: 10,
+              display: 'flex',
+              gap: '0.25rem',
+              padding: '0.35rem',
+              marginBottom: '0.25rem',
+              background: 'var(--surface-elevated)',
+              border: '1px solid var(--border-soft)',
+              borderRadius: '0.5rem',
+            }}
+          >
+            {CHAT_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                type="button"
+                onClick={() => void handleToggle(emoji)}
+                style={{ background: 'none', border: 'none', cursor: 'pointer', fontSize: '1.1rem', padding: '0.15rem' }}
+                aria-label={`React with ${emoji}`}
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+      {error && <span style={{ fontSize: '0.75rem', color: '#dc2626' }}>{error}</span>}
+    </div>
+  )
+}
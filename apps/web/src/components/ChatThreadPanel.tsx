@@ -0,0 +1,190 @@
+import { useEffect, useState, type FormEvent } from 'react'
+import { Timestamp, addDoc, collection, onSnapshot, query, where } from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { parseChatEditFields, type ChatEditFields } from '../lib/chatEdits'
+import { parseChatThreadFields, type ChatCollection, type ChatThreadFields } from '../lib/chatThreads'
+import { parseChatAttachments, type ChatAttachment } from '../lib/storage'
+import { isTrashed } from '../lib/trash'
+import { Avatar } from './Avatar'
+import { ChatAttachmentList } from './ChatAttachmentList'
+import { ChatMessageText } from './ChatMessageText'
+import { ChatReactions } from './ChatReactions'
+
+type ThreadMessage = {
+  id: string
+  author: string
+  authorId: string
+  createdAt: Date
+  text: string
+  attachments: ChatAttachment[]
+} & ChatThreadFields & ChatEditFields
+
+type ChatThreadPanelProps = {
+  collectionName: ChatCollection
+  parent: ThreadMessage
+  department?: string // Replies in a department chat belong to the parent's department
+  canDeleteMessage: (message: ThreadMessage) => boolean
+  onDeleteMessage: (messageId: string) => void
+  onClose: () => void
+}
+
+function formatTime(date: Date): string {
+  return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+}
+
+/**
+ * Side panel with a message and its replies. Replies are messages in the same collection
+ * whose parentId is the parent message, so they share the trash, reactions and rules.
+ */
+export function ChatThreadPanel({
+  collectionName,
+  parent,
+  department,
+  canDeleteMessage,
+  onDeleteMessage,
+  onClose,
+}: ChatThreadPanelProps) {
+  const { firestore, userProfile, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [replies, setReplies] = useState<ThreadMessage[]>([])
+  const [replyText, setReplyText] = useState('')
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!firestore) return () => {}
+
+    // Sorted here rather than in the query, so no composite index is needed
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, collectionName), where('parentId', '==', parent.id)),
+      (snapshot) => {
+        setReplies(
+          snapshot.docs
+            .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+            .map((docSnapshot) => {
+              const data = docSnapshot.data()
+              return {
+                id: docSnapshot.id,
+                author: data.author ?? '',
+                authorId: data.authorId ?? '',
+                createdAt: data.createdAt?.toDate?.() ?? new Date(),
+                text: data.text ?? '',
+                attachments: parseChatAttachments(data.attachments),
+                ...parseChatThreadFields(data),
+                ...parseChatEditFields(data),
+              }
+            })
+            .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime()),
+        )
+      },
+      (err) => {
+        console.error('Failed to load thread replies', err)
+        setError('Failed to load replies.')
+      },
+    )
+    return () => unsubscribe()
+  }, [firestore, collectionName, parent.id])
+
+  const handleReply = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!firestore || !user || !replyText.trim()) return
+
+    try {
+      await addDoc(collection(firestore, collectionName), {
+        author: user.displayName ?? user.email ?? 'Anonymous',
+        authorId: user.uid,
+        role: userProfile?.role ?? 'Viewer',
+        ...(department !== undefined ? { department } : {}),
+        text: replyText.trim(),
+        parentId: parent.id,
+        createdAt: Timestamp.now(),
+      })
+      setReplyText('')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to send reply', err)
+      setError('Unable to send your reply right now. Please try again later.')
+    }
+  }
+
+  const renderMessage = (message: ThreadMessage) => (
+    <article key={message.id} className="chat-message">
+      <div className="chat-author">
+        <Avatar
+          displayName={message.author}
+          profileImageUrl={allUserProfiles.find((profile) => profile.id === message.authorId)?.profileImageUrl}
+          size="small"
+          className="chat-avatar"
+        />
+        <div>
+          <strong>{message.author}</strong>
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+          <span className="chat-time">{formatTime(message.createdAt)}</span>
+          {message.id !== parent.id && canDeleteMessage(message) && (
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => onDeleteMessage(message.id)}
+              style={{
+                fontSize: '0.75rem',
+                padding: '0.25rem 0.5rem',
+                color: '#dc2626',
+                borderColor: '#dc2626',
+                minWidth: 'auto',
+              }}
+              title="Delete reply"
+            >
+              ×
+            </button>
+          )}
+        </div>
+      </div>
+      <ChatAttachmentList attachments={message.attachments} />
+      <ChatMessageText collectionName={collectionName} message={message} />
+      <ChatReactions collectionName={collectionName} messageId={message.id} reactions={message.reactions} />
+    </article>
+  )
+
+  return (
+    <aside
+      aria-label="Thread"
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        width: '360px',
+        maxWidth: '100%',
+        minHeight: 0,
+        borderLeft: '1px solid var(--border-soft)',
+        paddingLeft: '1rem',
+      }}
+    >
+      <header style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+        <strong>Thread</strong>
+        <button type="button" className="ghost-button" onClick={onClose}>
+          Close
+        </button>
+      </header>
+      <div className="chat-feed" style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}>
+        {renderMessage(parent)}
+        <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)', margin: '0.5rem 0' }}>
+          {replies.length} repl{replies.length === 1 ? 'y' : 'ies'}
+        </div>
+        {replies.map(renderMessage)}
+      </div>
+      <form className="chat-input" aria-label="Reply in thread" onSubmit={handleReply}>
+        <input
+          type="text"
+          placeholder="Reply in thread…"
+          value={replyText}
+          onChange={(event) => setReplyText(event.target.value)}
+          disabled={!user || !firestore}
+        />
+        <button type="submit" disabled={!user || !firestore || !replyText.trim()}>
+          Reply
+        </button>
+      </form>
+      {error && <p className="login-error">{error}</p>}
+    </aside>
+  )
+}
@@ -0,0 +1,403 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { KeyboardEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { collection, getDocs, type QueryDocumentSnapshot } from 'firebase/firestore'
+import { navItems } from '../config/navigation'
+import { useAppData } from '../context/AppDataContext'
+import { formatAssignees } from '../lib/taskAssignees'
+import { isTrashed } from '../lib/trash'
+import { DEFAULT_TASK_FILTERS } from '../lib/taskFields'
+
+type CommandPaletteProps = {
+  onClose: () => void
+  onCreateTask: () => void
+}
+
+type PaletteItem = {
+  id: string
+  group: string
+  title: string
+  subtitle?: string
+  run: () => void
+}
+
+type SearchableCalendarUpdate = {
+  id: string
+  month: string
+  year: number
+  taskDetails: string
+  assigneeNames: string[]
+}
+
+type SearchableChatMessage = {
+  id: string
+  author: string
+  department?: string
+  text: string
+  createdAt: Date
+}
+
+const MAX_RESULTS_PER_GROUP = 5
+
+/**
+ * Whether every word of the search term appears somewhere in the given fields
+ */
+function matchesSearch(words: string[], fields: Array<string | number | undefined>): boolean {
+  const haystack = fields
+    .filter((field) => field !== undefined)
+    .join(' ')
+    .toLowerCase()
+  return words.every((word) => haystack.includes(word))
+}
+
+function parseSearchableChatMessages(docs: QueryDocumentSnapshot[]): SearchableChatMessage[] {
+  return docs
+    .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+    .map((docSnapshot) => {
+      const data = docSnapshot.data()
+      return {
+        id: docSnapshot.id,
+        author: data.author ?? '',
+        department: data.department,
+        text: data.text ?? '',
+        createdAt: data.createdAt?.toDate?.() ?? new Date(),
+      }
+    })
+}
+
+/**
+ * The fetched messages together with the ones loaded in the chat views, which also hold messages
+ * posted since the palette opened and any older pages the reader scrolled back to
+ */
+function mergeChatMessages(fetched: SearchableChatMessage[], loaded: SearchableChatMessage[]): SearchableChatMessage[] {
+  return [...new Map([...fetched, ...loaded].map((message) => [message.id, message])).values()]
+}
+
+function truncate(text: string, length = 90): string {
+  return text.length > length ? `${text.slice(0, length)}…` : text
+}
+
+export function CommandPalette({ onClose, onCreateTask }: CommandPaletteProps) {
+  const navigate = useNavigate()
+  const {
+    firestore,
+    userProfile,
+    tasks,
+    filteredTasks,
+    setFilters,
+    chatMessages,
+    companyChatMessages,
+    loadChatSearchWindow,
+    leaveRequests,
+    allUserProfiles,
+  } = useAppData()
+  const [search, setSearch] = useState('')
+  const [activeIndex, setActiveIndex] = useState(0)
+  const [calendarUpdates, setCalendarUpdates] = useState<SearchableCalendarUpdate[]>([])
+  const [recentChats, setRecentChats] = useState<{
+    company: SearchableChatMessage[]
+    department: SearchableChatMessage[]
+  }>({ company: [], department: [] })
+
+  const role = userProfile?.role ?? 'Viewer'
+
+  // Calendar updates are only loaded by their own page, so fetch a snapshot for searching
+  useEffect(() => {
+    if (!firestore) return
+    let cancelled = false
+
+    getDocs(collection(firestore, 'calendarUpdates'))
+      .then((snapshot) => {
+        if (cancelled) return
+        setCalendarUpdates(
+          snapshot.docs.map((docSnapshot) => {
+            const data = docSnapshot.data()
+            const assignees: Array<{ name?: string }> = Array.isArray(data.assignees) ? data.assignees : []
+            return {
+              id: docSnapshot.id,
+              month: data.month ?? '',
+              year: typeof data.year === 'number' ? data.year : Number(data.year) || new Date().getFullYear(),
+              taskDetails: data.taskDetails ?? '',
+              assigneeNames: assignees.map((assignee) => assignee.name ?? '').filter(Boolean),
+            }
+          }),
+        )
+      })
+      .catch((error) => {
+        console.error('Failed to load calendar updates for search', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [firestore])
+
+  // The chat views only hold the pages scrolled through so far, so a window of recent messages is
+  // searched too. It is only loaded once something is typed, and only once per session.
+  const hasSearchTerm = search.trim() !== ''
+  useEffect(() => {
+    if (!hasSearchTerm) return
+    let cancelled = false
+
+    loadChatSearchWindow()
+      .then((searchWindow) => {
+        if (cancelled) return
+        setRecentChats({
+          company: parseSearchableChatMessages(searchWindow.company),
+          department: parseSearchableChatMessages(searchWindow.department),
+        })
+      })
+      .catch((error) => {
+        console.error('Failed to load chat messages for search', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [hasSearchTerm, loadChatSearchWindow])
+
+  const items = useMemo(() => {
+    const words = search.trim().toLowerCase().split(/\s+/).filter(Boolean)
+    const go = (path: string) => {
+      onClose()
+      navigate(path)
+    }
+
+    const actions: PaletteItem[] = []
+    if (['Admin', 'Manager', 'DepartmentHead', 'Specialist'].includes(role)) {
+      actions.push({
+        id: 'action-create-task',
+        group: 'Actions',
+        title: 'Create task',
+        run: () => {
+          onClose()
+          onCreateTask()
+        },
+      })
+    }
+    actions.push({
+      id: 'action-request-leave',
+      group: 'Actions',
+      title: 'Request leave or work from home',
+      run: () => go('/leave-requests?new=1'),
+    })
+
+    const pages: PaletteItem[] = navItems
+      .filter((item) => !item.allowedRoles || item.allowedRoles.includes(role))
+      .map((item) => ({
+        id: `page-${item.path}`,
+        group: 'Go to',
+        title: item.label,
+        run: () => go(item.path),
+      }))
+
+    if (words.length === 0) {
+      return [...actions, ...pages]
+    }
+
+    const taskResults: PaletteItem[] = tasks
+      .filter((task) =>
+        matchesSearch(words, [task.title, task.summary, task.department, task.status, formatAssignees(task)]),
+      )
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((task) => ({
+        id: `task-${task.id}`,
+        group: 'Tasks',
+        title: task.title,
+        subtitle: `${task.status} · ${task.department} · ${formatAssignees(task)}`,
+        run: () => {
+          // Make sure the board isn't hiding the task behind the current filters
+          if (!filteredTasks.some((item) => item.id === task.id)) {
+            setFilters(DEFAULT_TASK_FILTERS)
+          }
+          go(`/tasks?task=${task.id}`)
+        },
+      }))
+
+    const companyChatResults: PaletteItem[] = mergeChatMessages(recentChats.company, companyChatMessages)
+      .filter((message) => matchesSearch(words, [message.text, message.author]))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((message) => ({
+        id: `company-chat-${message.id}`,
+        group: 'Company Chat',
+        title: truncate(message.text),
+        subtitle: `${message.author} · ${message.createdAt.toLocaleDateString()}`,
+        run: () => go(`/company-chat?message=${message.id}`),
+      }))
+
+    const departmentChatResults: PaletteItem[] = mergeChatMessages(recentChats.department, chatMessages)
+      .filter((message) => matchesSearch(words, [message.text, message.author]))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((message) => ({
+        id: `department-chat-${message.id}`,
+        group: 'Department Chat',
+        title: truncate(message.text),
+        subtitle: `${message.author} · ${message.department} · ${message.createdAt.toLocaleDateString()}`,
+        run: () => go(`/tasks?chat=${message.id}`),
+      }))
+
+    const calendarResults: PaletteItem[] = calendarUpdates
+      .filter((update) => matchesSearch(words, [update.month, update.year, update.taskDetails, ...update.assigneeNames]))
+      .sort((a, b) => b.year - a.year)
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((update) => ({
+        id: `calendar-${update.id}`,
+        group: 'Calendar Updates',
+        title: `${update.month} ${update.year}`,
+        subtitle: truncate(update.taskDetails),
+        run: () => go(`/update-calendar?year=${update.year}&month=${encodeURIComponent(update.month)}&update=${update.id}`),
+      }))
+
+    const leaveResults: PaletteItem[] = leaveRequests
+      .filter((request) =>
+        matchesSearch(words, [request.userName, request.type, request.status, request.reason, request.department]),
+      )
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((request) => ({
+        id: `leave-${request.id}`,
+        group: 'Leave Requests',
+        title: `${request.type} · ${request.userName}`,
+        subtitle: `${request.status} · ${request.numberOfDays} day${request.numberOfDays === 1 ? '' : 's'} · ${truncate(request.reason, 60)}`,
+        run: () => go(`/leave-requests?request=${request.id}`),
+      }))
+
+    const peopleResults: PaletteItem[] = allUserProfiles
+      .filter((profile) => matchesSearch(words, [profile.displayName, profile.email, profile.department, profile.role]))
+      .slice(0, MAX_RESULTS_PER_GROUP)
+      .map((profile) => ({
+        id: `person-${profile.id}`,
+        group: 'People',
+        title: profile.displayName,
+        subtitle: `${profile.role} · ${profile.department} · ${profile.email}`,
+        run: () => {
+          // Only admins can manage users; everyone else gets the person's email
+          if (role === 'Admin') {
+            go(`/settings?tab=users&user=${profile.id}`)
+          } else {
+            onClose()
+            window.location.href = `mailto:${profile.email}`
+          }
+        },
+      }))
+
+    return [
+      ...actions.filter((item) => matchesSearch(words, [item.title])),
+      ...pages.filter((item) => matchesSearch(words, [item.title])),
+      ...taskResults,
+      ...companyChatResults,
+      ...departmentChatResults,
+      ...calendarResults,
+      ...leaveResults,
+      ...peopleResults,
+    ]
+  }, [
+    search,
+    role,
+    tasks,
+    filteredTasks,
+    setFilters,
+    companyChatMessages,
+    chatMessages,
+    recentChats,
+    calendarUpdates,
+    leaveRequests,
+    allUserProfiles,
+    navigate,
+    onClose,
+    onCreateTask,
+  ])
+
+  const safeActiveIndex = Math.min(activeIndex, Math.max(items.length - 1, 0))
+
+  useEffect(() => {
+    document.getElementById(`command-palette-item-${safeActiveIndex}`)?.scrollIntoView({ block: 'nearest' })
+  }, [safeActiveIndex])
+
+  const handleKeyDown = (event: KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown') {
+      event.preventDefault()
+      setActiveIndex(Math.min(safeActiveIndex + 1, items.length - 1))
+    } else if (event.key === 'ArrowUp') {
+      event.preventDefault()
+      setActiveIndex(Math.max(safeActiveIndex - 1, 0))
+    } else if (event.key === 'Enter') {
+      event.preventDefault()
+      items[safeActiveIndex]?.run()
+    } else if (event.key === 'Escape') {
+      event.preventDefault()
+      onClose()
+    }
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose} style={{ placeItems: 'start center', paddingTop: '12vh' }}>
+      <div
+        className="modal"
+        role="dialog"
+        aria-modal="true"
+        aria-label="Search and commands"
+        onClick={(e) => e.stopPropagation()}
+        style={{ width: 'min(640px, 100%)', padding: '1rem', gap: '0.75rem', maxHeight: '70vh' }}
+      >
+        <input
+          type="text"
+          value={search}
+          onChange={(e) => {
+            setSearch(e.target.value)
+            setActiveIndex(0)
+          }}
+          onKeyDown={handleKeyDown}
+          placeholder="Search tasks, chats, calendar updates, leave requests and people…"
+          autoFocus
+          aria-label="Search"
+          style={{ width: '100%', fontSize: '1rem', padding: '0.75rem 1rem' }}
+        />
+        <ul role="listbox" style={{ listStyle: 'none', margin: 0, padding: 0, overflowY: 'auto', minHeight: 0 }}>
+          {items.length === 0 ? (
+            <li style={{ padding: '1rem', color: 'var(--text-muted)', textAlign: 'center' }}>
+              No results for &ldquo;{search.trim()}&rdquo;
+            </li>
+          ) : (
+            items.map((item, index) => (
+              <li key={item.id}>
+                {(index === 0 || items[index - 1].group !== item.group) && (
+                  <span className="section-label" style={{ display: 'block', padding: '0.75rem 0.75rem 0.25rem' }}>
+                    {item.group}
+                  </span>
+                )}
+                <button
+                  id={`command-palette-item-${index}`}
+                  type="button"
+                  role="option"
+                  aria-selected={index === safeActiveIndex}
+                  onClick={() => item.run()}
+                  onMouseMove={() => setActiveIndex(index)}
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '0.125rem',
+                    width: '100%',
+                    padding: '0.5rem 0.75rem',
+                    border: 'none',
+                    borderRadius: '0.5rem',
+                    background: index === safeActiveIndex ? 'var(--accent-soft)' : 'transparent',
+                    color: 'var(--text-primary)',
+                    cursor: 'pointer',
+                    textAlign: 'left',
+                  }}
+                >
+                  <span style={{ fontSize: '0.9rem' }}>{item.title}</span>
+                  {item.subtitle && (
+                    <span style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>{item.subtitle}</span>
+                  )}
+                </button>
+              </li>
+            ))
+          )}
+        </ul>
+      </div>
+    </div>
+  )
+}
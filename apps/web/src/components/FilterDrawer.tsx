@@ -1,7 +1,9 @@
 import { useState, useEffect } from 'react'
 import type { FormEvent } from 'react'
+import { addDoc, collection } from 'firebase/firestore'
 import { useAppData, type TaskFilters } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
+import { DEFAULT_TASK_FILTERS } from '../lib/taskFields'
 
 type FilterDrawerProps = {
   isOpen: boolean
@@ -9,9 +11,14 @@ type FilterDrawerProps = {
 }
 
 export function FilterDrawer({ isOpen, onClose }: FilterDrawerProps) {
-  const { departments, filters, setFilters } = useAppData()
+  const { departments, filters, setFilters, taskLabels, customFieldDefinitions, firestore, userProfile } = useAppData()
   const { user } = useAuth()
   const [localFilters, setLocalFilters] = useState<TaskFilters>(filters)
+  const [isSavingView, setIsSavingView] = useState(false)
+  const [viewName, setViewName] = useState('')
+  const [shareWithDepartment, setShareWithDepartment] = useState(false)
+  const [viewError, setViewError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
 
   useEffect(() => {
     setLocalFilters(filters)
@@ -53,6 +60,59 @@ export function FilterDrawer({ isOpen, onClose }: FilterDrawerProps) {
     }))
   }
 
+  const handleLabelChange = (labelId: string, checked: boolean) => {
+    setLocalFilters((prev) => ({
+      ...prev,
+      labels: checked
+        ? [...(prev.labels ?? []), labelId]
+        : (prev.labels ?? []).filter((id) => id !== labelId),
+    }))
+  }
+
+  const handleCustomFieldChange = (fieldId: string, value: string) => {
+    setLocalFilters((prev) => {
+      const customFields = { ...(prev.customFields ?? {}) }
+      if (value) {
+        customFields[fieldId] = value
+      } else {
+        delete customFields[fieldId]
+      }
+      return { ...prev, customFields }
+    })
+  }
+
+  const handleSaveView = async () => {
+    if (!firestore || !user || !userProfile) return
+    const name = viewName.trim()
+    if (!name) {
+      setViewError('Give the view a name.')
+      return
+    }
+
+    setSaving(true)
+    setViewError(null)
+    try {
+      await addDoc(collection(firestore, 'taskViews'), {
+        name,
+        filters: localFilters,
+        ownerId: user.uid,
+        ownerName: userProfile.displayName,
+        visibility: shareWithDepartment ? 'department' : 'personal',
+        department: userProfile.department,
+        createdAt: new Date().toISOString(),
+      })
+      setFilters(localFilters)
+      setIsSavingView(false)
+      setViewName('')
+      setShareWithDepartment(false)
+    } catch (err) {
+      console.error('Failed to save view', err)
+      setViewError('Failed to save the view. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
   const handleApply = (event: FormEvent) => {
     event.preventDefault()
     setFilters(localFilters)
@@ -67,14 +127,8 @@ export function FilterDrawer({ isOpen, onClose }: FilterDrawerProps) {
   }
 
   const handleReset = () => {
-    const defaultFilters: TaskFilters = {
-      statuses: ['Backlog', 'In Progress', 'Review', 'Completed'],
-      priorities: ['High', 'Medium', 'Low'],
-      departments: [],
-      assignedToMe: false,
-    }
-    setLocalFilters(defaultFilters)
-    setFilters(defaultFilters)
+    setLocalFilters(DEFAULT_TASK_FILTERS)
+    setFilters(DEFAULT_TASK_FILTERS)
   }
 
   return (
@@ -82,7 +136,7 @@ export function FilterDrawer({ isOpen, onClose }: FilterDrawerProps) {
       <header className="filter-header">
         <div>
           <h3>Filter Tasks</h3>
-          <p>Refine by status, priority, and department.</p>
+          <p>Refine by status, priority, department, labels and fields.</p>
         </div>
         <button type="button" className="ghost-button" onClick={onClose}>
           Close
@@ -141,6 +195,89 @@ export function FilterDrawer({ isOpen, onClose }: FilterDrawerProps) {
             </label>
           ))}
         </fieldset>
+        {taskLabels.length > 0 && (
+          <fieldset>
+            <legend>Labels</legend>
+            {taskLabels.map((label) => (
+              <label key={label.id}>
+                <input
+                  type="checkbox"
+                  checked={(localFilters.labels ?? []).includes(label.id)}
+                  onChange={(e) => handleLabelChange(label.id, e.target.checked)}
+                />
+                <span style={{ width: '0.6rem', height: '0.6rem', borderRadius: '50%', background: label.color }} />
+                <span>{label.name}</span>
+              </label>
+            ))}
+          </fieldset>
+        )}
+        {customFieldDefinitions.length > 0 && (
+          <fieldset>
+            <legend>Custom Fields</legend>
+            {customFieldDefinitions.map((field) => {
+              const value = localFilters.customFields?.[field.id] ?? ''
+              return (
+                <label key={field.id} style={{ display: 'grid', gap: '0.25rem' }}>
+                  <span>{field.name}</span>
+                  {field.type === 'select' ? (
+                    <select value={value} onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}>
+                      <option value="">Any</option>
+                      {field.options.map((option) => (
+                        <option key={option} value={option}>
+                          {option}
+                        </option>
+                      ))}
+                    </select>
+                  ) : (
+                    <input
+                      type={field.type === 'text' ? 'text' : field.type}
+                      value={value}
+                      placeholder={field.type === 'text' ? 'Contains…' : 'Any'}
+                      onChange={(e) => handleCustomFieldChange(field.id, e.target.value)}
+                    />
+                  )}
+                </label>
+              )
+            })}
+          </fieldset>
+        )}
+        {user && userProfile && (
+          <fieldset>
+            <legend>Saved Views</legend>
+            {isSavingView ? (
+              <>
+                <input
+                  type="text"
+                  value={viewName}
+                  onChange={(e) => setViewName(e.target.value)}
+                  placeholder="View name"
+                  maxLength={60}
+                />
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={shareWithDepartment}
+                    onChange={(e) => setShareWithDepartment(e.target.checked)}
+                  />
+                  <span>Share with {userProfile.department}</span>
+                </label>
+                {viewError && <p className="login-error">{viewError}</p>}
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  <button type="button" className="ghost-button" onClick={() => setIsSavingView(false)}>
+                    Cancel
+                  </button>
+                  <button type="button" className="primary-button" onClick={() => void handleSaveView()} disabled={saving}>
+                    {saving ? 'Saving...' : 'Save View'}
+                  </button>
+                </div>
+              </>
+            ) : (
+              <button type="button" className="ghost-button" onClick={() => setIsSavingView(true)}>
+                Save these filters as a view
+              </button>
+            )}
+          </fieldset>
+        )}
       </form>
       <footer className="filter-footer">
         <button type="button" className="ghost-button" onClick={handleReset}>
@@ -0,0 +1,185 @@
+import { useRef, useState, type KeyboardEvent } from 'react'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { getOpenBlockers } from '../lib/taskDependencies'
+import { formatAssignees } from '../lib/taskAssignees'
+import { getColumnWipLoads } from '../lib/wipLimits'
+import { SlaBadge } from './SlaBadge'
+import { ChecklistProgress } from './TaskChecklist'
+import { TaskLabelChips } from './TaskFieldsSection'
+
+const KANBAN_COLUMNS: Task['status'][] = ['Backlog', 'In Progress', 'Review', 'Completed']
+
+const priorityLabel: Record<Task['priority'], string> = {
+  High: 'priority priority-high',
+  Medium: 'priority priority-medium',
+  Low: 'priority priority-low',
+}
+
+type KanbanBoardProps = {
+  tasks: Task[]
+  selectedId: string
+  movingId: string | null
+  canMoveTask: (task: Task) => boolean
+  onMove: (task: Task, status: Task['status']) => Promise<boolean>
+  onOpen: (task: Task) => void
+}
+
+/**
+ * Column view of tasks by status. Cards are moved by dragging them to another column,
+ * or from the keyboard with Shift+Left/Right while a card is focused.
+ */
+export function KanbanBoard({ tasks, selectedId, movingId, canMoveTask, onMove, onOpen }: KanbanBoardProps) {
+  const { tasks: allTasks, departments } = useAppData()
+  const [draggingId, setDraggingId] = useState<string | null>(null)
+  const [dragOverStatus, setDragOverStatus] = useState<Task['status'] | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+  // A moved card remounts in its new column, so focus is restored when it renders there
+  const pendingFocus = useRef<{ taskId: string; status: Task['status'] } | null>(null)
+
+  const moveTask = async (task: Task, status: Task['status']) => {
+    if (task.status === status || !canMoveTask(task)) return
+    // Set before the update: the local snapshot re-renders the card before the write is acknowledged
+    pendingFocus.current = { taskId: task.id, status }
+    const moved = await onMove(task, status)
+    if (!moved) pendingFocus.current = null
+    setAnnouncement(moved ? `Moved "${task.title}" to ${status}.` : `"${task.title}" was not moved.`)
+  }
+
+  const handleCardKeyDown = (e: KeyboardEvent<HTMLButtonElement>, task: Task) => {
+    if (!e.shiftKey || (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight')) return
+    e.preventDefault()
+    const targetIndex = KANBAN_COLUMNS.indexOf(task.status) + (e.key === 'ArrowRight' ? 1 : -1)
+    if (targetIndex < 0 || targetIndex >= KANBAN_COLUMNS.length) return
+    void moveTask(task, KANBAN_COLUMNS[targetIndex])
+  }
+
+  const handleDrop = (status: Task['status'], taskId: string) => {
+    setDragOverStatus(null)
+    setDraggingId(null)
+    const task = tasks.find((t) => t.id === taskId)
+    if (task) void moveTask(task, status)
+  }
+
+  return (
+    <>
+      <p style={{ margin: '0 0 0.75rem', fontSize: '0.8rem', color: 'var(--text-muted)' }} id="kanban-instructions">
+        Drag cards between columns, or focus a card and press Shift+← / Shift+→ to move it. Press Enter to open it.
+      </p>
+      <div aria-live="polite" style={{ position: 'absolute', width: 1, height: 1, overflow: 'hidden', clip: 'rect(0 0 0 0)' }}>
+        {announcement}
+      </div>
+      <div className="kanban-board">
+        {KANBAN_COLUMNS.map((status) => {
+          const columnTasks = tasks.filter((task) => task.status === status)
+          const wipLoads = getColumnWipLoads(status, allTasks, departments)
+          const overLimit = wipLoads.some((load) => load.count > load.limit)
+          const classNames = ['kanban-column']
+          if (dragOverStatus === status) classNames.push('drag-over')
+          if (overLimit) classNames.push('over-limit')
+
+          return (
+            <section
+              key={status}
+              className={classNames.join(' ')}
+              data-status={status}
+              aria-label={`${status} column, ${columnTasks.length} tasks`}
+              onDragOver={(e) => {
+                if (!draggingId) return
+                e.preventDefault()
+                e.dataTransfer.dropEffect = 'move'
+                if (dragOverStatus !== status) setDragOverStatus(status)
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setDragOverStatus(null)
+              }}
+              onDrop={(e) => {
+                e.preventDefault()
+                handleDrop(status, e.dataTransfer.getData('text/plain'))
+              }}
+            >
+              <header className="kanban-column-header">
+                <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+                  <strong style={{ color: 'var(--text-primary)' }}>{status}</strong>
+                  <span className="pill pill-neutral">{columnTasks.length}</span>
+                </div>
+                {wipLoads.length > 0 && (
+                  <div style={{ display: 'flex', gap: '0.35rem', flexWrap: 'wrap', fontSize: '0.75rem' }}>
+                    {wipLoads.map(({ department, count, limit }) => (
+                      <span
+                        key={department.id}
+                        title={`${department.name} WIP limit (${department.wipMode === 'block' ? 'blocks moves' : 'warns'})`}
+                        style={{
+                          padding: '0.1rem 0.4rem',
+                          borderRadius: '0.25rem',
+                          color: count > limit ? '#dc2626' : count === limit ? '#f59e0b' : 'var(--text-muted)',
+                          background: count > limit ? '#dc262620' : count === limit ? '#f59e0b20' : 'var(--surface-elevated)',
+                          fontWeight: count >= limit ? 600 : 400,
+                        }}
+                      >
+                        {department.name} {count}/{limit}
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </header>
+
+              {columnTasks.length === 0 && (
+                <p style={{ margin: 0, fontSize: '0.8rem', color: 'var(--text-muted)', textAlign: 'center' }}>No tasks</p>
+              )}
+
+              {columnTasks.map((task) => {
+                const movable = canMoveTask(task)
+                const isBlocked = getOpenBlockers(task, allTasks).length > 0
+                return (
+                  <button
+                    key={task.id}
+                    ref={(element) => {
+                      const focusTarget = pendingFocus.current
+                      if (element && focusTarget?.taskId === task.id && focusTarget.status === task.status) {
+                        element.focus()
+                        pendingFocus.current = null
+                      }
+                    }}
+                    type="button"
+                    className={task.id === selectedId ? 'task-card active' : 'task-card'}
+                    draggable={movable && movingId !== task.id}
+                    aria-describedby="kanban-instructions"
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/plain', task.id)
+                      e.dataTransfer.effectAllowed = 'move'
+                      setDraggingId(task.id)
+                    }}
+                    onDragEnd={() => {
+                      setDraggingId(null)
+                      setDragOverStatus(null)
+                    }}
+                    onKeyDown={(e) => handleCardKeyDown(e, task)}
+                    onClick={() => onOpen(task)}
+                    style={{ opacity: draggingId === task.id || movingId === task.id ? 0.5 : 1 }}
+                  >
+                    <div className="task-card-header">
+                      <span className="task-id">{task.department}</span>
+                      <span className={priorityLabel[task.priority]}>{task.priority}</span>
+                    </div>
+                    <h3>{task.title}</h3>
+                    <div className="task-card-footer">
+                      <TaskLabelChips task={task} />
+                      <ChecklistProgress task={task} />
+                      {isBlocked && (
+                        <span style={{ color: '#dc2626', fontWeight: 500 }} title="Waiting on blocking tasks">
+                          🔒 Blocked
+                        </span>
+                      )}
+                      <SlaBadge task={task} />
+                      <span>{formatAssignees(task)}</span>
+                    </div>
+                  </button>
+                )
+              })}
+            </section>
+          )
+        })}
+      </div>
+    </>
+  )
+}
@@ -0,0 +1,141 @@
+import { useMemo, useRef, useState, type CSSProperties, type KeyboardEvent } from 'react'
+import type { UserProfile } from '../context/AppDataContext'
+import { getActiveMention } from '../lib/mentions'
+
+type MentionInputProps = {
+  value: string
+  onChange: (value: string) => void
+  onSubmit: () => void
+  profiles: UserProfile[]
+  placeholder?: string
+  disabled?: boolean
+  rows?: number
+  style?: CSSProperties
+}
+
+const MAX_SUGGESTIONS = 6
+
+/**
+ * Textarea that suggests users while typing "@" and inserts "@Display Name".
+ * Enter submits, Shift+Enter adds a new line.
+ */
+export function MentionInput({ value, onChange, onSubmit, profiles, placeholder, disabled, rows = 2, style }: MentionInputProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null)
+  const [cursor, setCursor] = useState(0)
+  const [highlighted, setHighlighted] = useState(0)
+
+  const activeMention = useMemo(() => getActiveMention(value, cursor), [value, cursor])
+
+  const suggestions = useMemo(() => {
+    if (!activeMention) return []
+    const term = activeMention.query.toLowerCase()
+    return profiles
+      .filter((profile) => profile.displayName.toLowerCase().startsWith(term))
+      .slice(0, MAX_SUGGESTIONS)
+  }, [activeMention, profiles])
+
+  const insertMention = (profile: UserProfile) => {
+    if (!activeMention) return
+    const before = value.slice(0, activeMention.start)
+    const after = value.slice(cursor)
+    const inserted = `@${profile.displayName} `
+    onChange(`${before}${inserted}${after}`)
+    const nextCursor = before.length + inserted.length
+    setCursor(nextCursor)
+    setHighlighted(0)
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus()
+      textareaRef.current?.setSelectionRange(nextCursor, nextCursor)
+    })
+  }
+
+  const handleKeyDown = (e: KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === 'ArrowDown') {
+        e.preventDefault()
+        setHighlighted((highlighted + 1) % suggestions.length)
+        return
+      }
+      if (e.key === 'ArrowUp') {
+        e.preventDefault()
+        setHighlighted((highlighted - 1 + suggestions.length) % suggestions.length)
+        return
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault()
+        insertMention(suggestions[Math.min(highlighted, suggestions.length - 1)])
+        return
+      }
+    }
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      onSubmit()
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative', flex: 1 }}>
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => {
+          onChange(e.target.value)
+          setCursor(e.target.selectionStart)
+          setHighlighted(0)
+        }}
+        onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+        onKeyDown={handleKeyDown}
+        placeholder={placeholder}
+        disabled={disabled}
+        rows={rows}
+        style={{ width: '100%', resize: 'vertical', ...style }}
+      />
+      {suggestions.length > 0 && (
+        <ul
+          role="listbox"
+          style={{
+            position: 'absolute',
+            left: 0,
+            bottom: 'calc(100% + 0.25rem)',
+            minWidth: '220px',
+            margin: 0,
+            padding: '0.25rem 0',
+            listStyle: 'none',
+            background: 'var(--surface-default)',
+            border: '1px solid var(--border-soft)',
+            borderRadius: '0.5rem',
+            boxShadow: '0 12px 32px rgba(15, 23, 42, 0.18)',
+            zIndex: 20,
+          }}
+        >
+          {suggestions.map((profile, index) => (
+            <li key={profile.id} role="option" aria-selected={index === highlighted}>
+              <button
+                type="button"
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea so the cursor position is preserved
+                  e.preventDefault()
+                  insertMention(profile)
+                }}
+                style={{
+                  display: 'block',
+                  width: '100%',
+                  padding: '0.4rem 0.75rem',
+                  border: 'none',
+                  background: index === highlighted ? 'var(--accent-soft)' : 'transparent',
+                  color: 'var(--text-primary)',
+                  cursor: 'pointer',
+                  textAlign: 'left',
+                  fontSize: '0.85rem',
+                }}
+              >
+                {profile.displayName}{' '}
+                <span style={{ color: 'var(--text-muted)' }}>{profile.department}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
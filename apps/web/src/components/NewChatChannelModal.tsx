@@ -0,0 +1,142 @@
+import { useState, type FormEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { createGroupChannel, openDirectChannel } from '../lib/chatChannels'
+import { UserPicker } from './UserPicker'
+
+type NewChatChannelModalProps = {
+  onClose: () => void
+}
+
+/**
+ * Starts a direct message with one colleague, or a private group channel optionally tied to a task or project
+ */
+export function NewChatChannelModal({ onClose }: NewChatChannelModalProps) {
+  const { firestore, allUserProfiles, tasks } = useAppData()
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [type, setType] = useState<'direct' | 'group'>('direct')
+  const [memberIds, setMemberIds] = useState<string[]>([])
+  const [name, setName] = useState('')
+  const [taskId, setTaskId] = useState('')
+  const [project, setProject] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const colleagues = allUserProfiles.filter((profile) => profile.id !== user?.uid)
+  const canSubmit = type === 'direct' ? memberIds.length === 1 : name.trim().length > 0 && memberIds.length > 0
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!firestore || !user || !canSubmit) return
+
+    setSaving(true)
+    setError(null)
+    try {
+      const task = tasks.find((item) => item.id === taskId)
+      const channelId =
+        type === 'direct'
+          ? await openDirectChannel(firestore, user.uid, memberIds[0])
+          : await createGroupChannel(firestore, user.uid, {
+              name: name.trim(),
+              memberIds,
+              taskId: task?.id,
+              taskTitle: task?.title,
+              project: project.trim() || undefined,
+            })
+      onClose()
+      navigate(`/chat/${channelId}`)
+    } catch (err) {
+      console.error('Failed to start conversation', err)
+      setError('Unable to start the conversation. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation" onClick={onClose}>
+      <div className="modal" role="dialog" aria-modal="true" onClick={(e) => e.stopPropagation()}>
+        <header className="modal-header">
+          <div>
+            <h2>New conversation</h2>
+            <p>Only the people you add can read it.</p>
+          </div>
+          <button type="button" className="ghost-button" onClick={onClose}>
+            Close
+          </button>
+        </header>
+        <form className="modal-form" onSubmit={handleSubmit} style={{ padding: '1.5rem', display: 'grid', gap: '1rem' }}>
+          <div className="settings-tabs" style={{ marginBottom: 0 }}>
+            <button
+              type="button"
+              className={type === 'direct' ? 'tab-button active' : 'tab-button'}
+              onClick={() => {
+                setType('direct')
+                setMemberIds(memberIds.slice(0, 1))
+              }}
+            >
+              Direct message
+            </button>
+            <button
+              type="button"
+              className={type === 'group' ? 'tab-button active' : 'tab-button'}
+              onClick={() => setType('group')}
+            >
+              Group channel
+            </button>
+          </div>
+
+          {type === 'group' && (
+            <label>
+              <span>Channel name</span>
+              <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="e.g. Spring launch" required />
+            </label>
+          )}
+          <label>
+            <span>{type === 'direct' ? 'Person' : 'Members'}</span>
+            <UserPicker
+              profiles={colleagues}
+              value={memberIds}
+              onChange={setMemberIds}
+              placeholder="Search people…"
+              max={type === 'direct' ? 1 : undefined}
+            />
+          </label>
+          {type === 'group' && (
+            <>
+              <label>
+                <span>Task (optional)</span>
+                <select value={taskId} onChange={(e) => setTaskId(e.target.value)}>
+                  <option value="">No task</option>
+                  {tasks
+                    .filter((task) => task.status !== 'Completed')
+                    .map((task) => (
+                      <option key={task.id} value={task.id}>
+                        {task.title}
+                      </option>
+                    ))}
+                </select>
+              </label>
+              <label>
+                <span>Project (optional)</span>
+                <input type="text" value={project} onChange={(e) => setProject(e.target.value)} />
+              </label>
+            </>
+          )}
+
+          {error && <p className="login-error">{error}</p>}
+          <footer className="modal-footer">
+            <button type="button" className="ghost-button" onClick={onClose}>
+              Cancel
+            </button>
+            <button type="submit" className="primary-button" disabled={saving || !canSubmit}>
+              {saving ? 'Starting…' : type === 'direct' ? 'Open conversation' : 'Create channel'}
+            </button>
+          </footer>
+        </form>
+      </div>
+    </div>
+  )
+}
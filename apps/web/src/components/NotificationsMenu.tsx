@@ -0,0 +1,154 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { useAppData, type AppNotification } from '../context/AppDataContext'
+
+function formatNotificationTime(date: Date): string {
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60))
+  if (diffMinutes < 1) return 'Just now'
+  if (diffMinutes < 60) return `${diffMinutes}m ago`
+  const diffHours = Math.floor(diffMinutes / 60)
+  if (diffHours < 24) return `${diffHours}h ago`
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+}
+
+export function NotificationsMenu() {
+  const { notifications, unreadNotificationCount, markNotificationAsRead, markAllNotificationsAsRead } = useAppData()
+  const navigate = useNavigate()
+  const [isOpen, setIsOpen] = useState(false)
+
+  const handleOpenNotification = async (notification: AppNotification) => {
+    setIsOpen(false)
+    if (!notification.read) {
+      try {
+        await markNotificationAsRead(notification.id)
+      } catch (error) {
+        console.error('Failed to mark notification as read', error)
+      }
+    }
+    if (notification.link) {
+      navigate(notification.link)
+    }
+  }
+
+  return (
+    <div style={{ position: 'relative' }}>
+      <button
+        type="button"
+        className="ghost-button"
+        onClick={() => setIsOpen(!isOpen)}
+        aria-label={`Notifications (${unreadNotificationCount} unread)`}
+        title="Notifications"
+      >
+        🔔
+        {unreadNotificationCount > 0 && (
+          <span
+            style={{
+              display: 'inline-flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              minWidth: '20px',
+              height: '20px',
+              padding: '0 6px',
+              marginLeft: '6px',
+              background: 'var(--accent)',
+              color: 'white',
+              borderRadius: '10px',
+              fontSize: '0.75rem',
+              fontWeight: 600,
+              lineHeight: 1,
+            }}
+          >
+            {unreadNotificationCount > 99 ? '99+' : unreadNotificationCount}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div
+            style={{ position: 'fixed', inset: 0, zIndex: 40 }}
+            onClick={() => setIsOpen(false)}
+          />
+          <div
+            role="dialog"
+            aria-label="Notifications"
+            style={{
+              position: 'absolute',
+              right: 0,
+              top: 'calc(100% + 0.5rem)',
+              width: '340px',
+              maxHeight: '420px',
+              overflowY: 'auto',
+              background: 'var(--surface-default)',
+              border: '1px solid var(--border-soft)',
+              borderRadius: '0.75rem',
+              boxShadow: '0 12px 32px rgba(15, 23, 42, 0.18)',
+              zIndex: 50,
+            }}
+          >
+            <div
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                padding: '0.75rem 1rem',
+                borderBottom: '1px solid var(--border-soft)',
+              }}
+            >
+              <strong>Notifications</strong>
+              {unreadNotificationCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => void markAllNotificationsAsRead()}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: 'var(--accent)',
+                    cursor: 'pointer',
+                    fontSize: '0.8rem',
+                  }}
+                >
+                  Mark all as read
+                </button>
+              )}
+            </div>
+            {notifications.length === 0 ? (
+              <p style={{ padding: '1rem', margin: 0, color: 'var(--text-muted)', fontSize: '0.9rem' }}>
+                You&apos;re all caught up.
+              </p>
+            ) : (
+              notifications.slice(0, 30).map((notification) => (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => void handleOpenNotification(notification)}
+                  style={{
+                    display: 'block',
+                    width: '100%',
+                    textAlign: 'left',
+                    padding: '0.75rem 1rem',
+                    border: 'none',
+                    borderBottom: '1px solid var(--border-subtle)',
+                    background: notification.read ? 'transparent' : 'var(--accent-soft)',
+                    color: 'var(--text-primary)',
+                    cursor: 'pointer',
+                  }}
+                >
+                  <div style={{ display: 'flex', justifyContent: 'space-between', gap: '0.5rem' }}>
+                    <strong style={{ fontSize: '0.875rem' }}>{notification.title}</strong>
+                    <span style={{ fontSize: '0.75rem', color: 'var(--text-muted)', whiteSpace: 'nowrap' }}>
+                      {formatNotificationTime(notification.createdAt)}
+                    </span>
+                  </div>
+                  <p style={{ margin: '0.25rem 0 0', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+                    {notification.body}
+                  </p>
+                </button>
+              ))
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
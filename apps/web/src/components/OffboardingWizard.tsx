@@ -0,0 +1,333 @@
+import { useEffect, useMemo, useState } from 'react'
+import { collection, getDocs } from 'firebase/firestore'
+import { useAppData, type UserProfile } from '../context/AppDataContext'
+import { offboardUser, type OffboardUserResult } from '../lib/functions'
+import { isTaskAssignee } from '../lib/taskAssignees'
+import { PasswordVerificationModal } from './PasswordVerificationModal'
+
+type OffboardingWizardProps = {
+  profile: UserProfile
+  onClose: () => void
+}
+
+type Step = 'tasks' | 'calendar' | 'review' | 'done'
+
+type CalendarAssignment = {
+  id: string
+  label: string
+  department: string
+}
+
+// Select value for handing an item over to nobody; sent to the function as ''
+const NO_COLLEAGUE = 'none'
+
+type HandoverListProps = {
+  items: Array<{ id: string; label: string; detail: string }>
+  assignments: Record<string, string>
+  colleagues: UserProfile[]
+  onChange: (assignments: Record<string, string>) => void
+}
+
+function HandoverList({ items, assignments, colleagues, onChange }: HandoverListProps) {
+  const options = (
+    <>
+      <option value={NO_COLLEAGUE}>Nobody (just remove them)</option>
+      {colleagues.map((colleague) => (
+        <option key={colleague.id} value={colleague.id}>
+          {colleague.displayName} ({colleague.department})
+        </option>
+      ))}
+    </>
+  )
+
+  return (
+    <>
+      <label>
+        <span>Hand everything to</span>
+        <select
+          value=""
+          onChange={(e) => onChange(Object.fromEntries(items.map((item) => [item.id, e.target.value])))}
+        >
+          <option value="" disabled>
+            Choose a colleague…
+          </option>
+          {options}
+        </select>
+      </label>
+      <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.5rem' }}>
+        {items.map((item) => (
+          <li
+            key={item.id}
+            style={{
+              display: 'flex',
+              justifyContent: 'space-between',
+              alignItems: 'center',
+              gap: '1rem',
+              padding: '0.5rem 0.75rem',
+              border: '1px solid var(--border-soft)',
+              borderRadius: '0.5rem',
+            }}
+          >
+            <div style={{ minWidth: 0 }}>
+              <div style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.label}</div>
+              <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>{item.detail}</div>
+            </div>
+            <select
+              value={assignments[item.id] ?? ''}
+              onChange={(e) => onChange({ ...assignments, [item.id]: e.target.value })}
+              style={{ flexShrink: 0, maxWidth: '50%' }}
+            >
+              <option value="" disabled>
+                Choose…
+              </option>
+              {options}
+            </select>
+          </li>
+        ))}
+      </ul>
+    </>
+  )
+}
+
+export function OffboardingWizard({ profile, onClose }: OffboardingWizardProps) {
+  const { firestore, tasks, allUserProfiles, workspaceSettings } = useAppData()
+  const [step, setStep] = useState<Step>('tasks')
+  const [calendarAssignments, setCalendarAssignments] = useState<CalendarAssignment[] | null>(null)
+  const [taskAssignees, setTaskAssignees] = useState<Record<string, string>>({})
+  const [calendarUpdateAssignees, setCalendarUpdateAssignees] = useState<Record<string, string>>({})
+  const [showPasswordModal, setShowPasswordModal] = useState(false)
+  const [result, setResult] = useState<OffboardUserResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  const colleagues = useMemo(
+    () =>
+      allUserProfiles
+        .filter((colleague) => colleague.id !== profile.id)
+        .sort((a, b) => a.displayName.localeCompare(b.displayName)),
+    [allUserProfiles, profile.id],
+  )
+  const openTasks = tasks.filter((task) => isTaskAssignee(task, profile.id) && task.status !== 'Completed')
+  const completedTaskCount = tasks.filter((task) => isTaskAssignee(task, profile.id) && task.status === 'Completed').length
+
+  // Calendar updates are only loaded by their own page, so fetch the ones this user is still assigned to
+  useEffect(() => {
+    if (!firestore) return
+    let cancelled = false
+
+    getDocs(collection(firestore, 'calendarUpdates'))
+      .then((snapshot) => {
+        if (cancelled) return
+        setCalendarAssignments(
+          snapshot.docs.flatMap((docSnapshot) => {
+            const data = docSnapshot.data()
+            const assignees: Array<{ id?: string; department?: string }> = Array.isArray(data.assignees) ? data.assignees : []
+            const assignment = assignees.find((assignee) => assignee.id === profile.id)
+            if (!assignment || data.overallStatus === 'Completed') return []
+            return [
+              {
+                id: docSnapshot.id,
+                label: `${data.month ?? ''} ${data.year ?? ''}: ${data.taskDetails ?? ''}`,
+                department: assignment.department ?? '',
+              },
+            ]
+          }),
+        )
+      })
+      .catch((err) => {
+        console.error('Failed to load calendar updates for offboarding', err)
+        setError('Failed to load calendar updates. Please try again.')
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [firestore, profile.id])
+
+  const allTasksChosen = openTasks.every((task) => taskAssignees[task.id])
+  const allCalendarUpdatesChosen = (calendarAssignments ?? []).every((update) => calendarUpdateAssignees[update.id])
+
+  const toRequestAssignments = (assignments: Record<string, string>, ids: string[]) =>
+    Object.fromEntries(ids.map((id) => [id, assignments[id] === NO_COLLEAGUE ? '' : assignments[id]]))
+
+  const handleOffboard = async () => {
+    setError(null)
+    try {
+      const response = await offboardUser({
+        userId: profile.id,
+        taskAssignees: toRequestAssignments(
+          taskAssignees,
+          openTasks.map((task) => task.id),
+        ),
+        calendarUpdateAssignees: toRequestAssignments(
+          calendarUpdateAssignees,
+          (calendarAssignments ?? []).map((update) => update.id),
+        ),
+      })
+      setResult(response.data)
+      setStep('done')
+    } catch (err) {
+      console.error('Failed to offboard user', err)
+      setError(err instanceof Error && err.message ? err.message : 'Failed to offboard the user. Please try again.')
+    } finally {
+      setShowPasswordModal(false)
+    }
+  }
+
+  const chatPolicyText =
+    workspaceSettings.offboardingChatPolicy === 'anonymize'
+      ? 'Their chat messages will be anonymized and shown as from a former team member.'
+      : 'Their chat messages will be kept under their name.'
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        className="modal modal-large"
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        style={{ maxHeight: '90vh', overflow: 'auto' }}
+      >
+        <header className="modal-header">
+          <div>
+            <h2>Offboard {profile.displayName}</h2>
+            <p>
+              {step === 'tasks' && `Step 1 of 3: choose who takes over each of their ${openTasks.length} open tasks.`}
+              {step === 'calendar' && 'Step 2 of 3: choose who takes over their calendar update assignments.'}
+              {step === 'review' && 'Step 3 of 3: check what will happen.'}
+              {step === 'done' && 'Offboarding finished.'}
+            </p>
+          </div>
+          <button type="button" className="ghost-button" onClick={onClose}>
+            Close
+          </button>
+        </header>
+
+        <div className="modal-form" style={{ padding: '1.5rem', display: 'grid', gap: '1rem' }}>
+          {step === 'tasks' && (
+            <>
+              {openTasks.length === 0 ? (
+                <p style={{ margin: 0, color: 'var(--text-muted)' }}>{profile.displayName} has no open tasks.</p>
+              ) : (
+                <HandoverList
+                  items={openTasks.map((task) => ({
+                    id: task.id,
+                    label: task.title,
+                    detail: `${task.department} · ${task.status}${task.dueDate ? ` · due ${task.dueDate}` : ''}`,
+                  }))}
+                  assignments={taskAssignees}
+                  colleagues={colleagues}
+                  onChange={setTaskAssignees}
+                />
+              )}
+              <footer className="modal-footer">
+                <button type="button" className="primary-button" onClick={() => setStep('calendar')} disabled={!allTasksChosen}>
+                  Next
+                </button>
+              </footer>
+            </>
+          )}
+
+          {step === 'calendar' && (
+            <>
+              {calendarAssignments === null ? (
+                <p style={{ margin: 0, color: 'var(--text-muted)' }}>Loading calendar updates…</p>
+              ) : calendarAssignments.length === 0 ? (
+                <p style={{ margin: 0, color: 'var(--text-muted)' }}>
+                  {profile.displayName} is not assigned to any open calendar updates.
+                </p>
+              ) : (
+                <HandoverList
+                  items={calendarAssignments.map((update) => ({
+                    id: update.id,
+                    label: update.label,
+                    detail: `Assigned for ${update.department}`,
+                  }))}
+                  assignments={calendarUpdateAssignees}
+                  colleagues={colleagues}
+                  onChange={setCalendarUpdateAssignees}
+                />
+              )}
+              <footer className="modal-footer">
+                <button type="button" className="ghost-button" onClick={() => setStep('tasks')}>
+                  Back
+                </button>
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={() => setStep('review')}
+                  disabled={calendarAssignments === null || !allCalendarUpdatesChosen}
+                >
+                  Next
+                </button>
+              </footer>
+            </>
+          )}
+
+          {step === 'review' && (
+            <>
+              <ul style={{ margin: 0, paddingLeft: '1.25rem', display: 'grid', gap: '0.35rem' }}>
+                <li>
+                  {openTasks.length} open task{openTasks.length === 1 ? '' : 's'} and {calendarAssignments?.length ?? 0}{' '}
+                  calendar update assignment{calendarAssignments?.length === 1 ? '' : 's'} will be handed over as chosen.
+                </li>
+                <li>
+                  {completedTaskCount} completed task{completedTaskCount === 1 ? '' : 's'} and their KPI history stay
+                  attributed to {profile.displayName}.
+                </li>
+                <li>{chatPolicyText} The policy is set in the Workspace tab.</li>
+                <li>They will be removed from their group channels. Direct messages stay with the other person.</li>
+                <li>
+                  Their account will be disabled so they can no longer sign in. The profile is kept, marked as
+                  deactivated.
+                </li>
+              </ul>
+              <footer className="modal-footer">
+                <button type="button" className="ghost-button" onClick={() => setStep('calendar')}>
+                  Back
+                </button>
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={() => setShowPasswordModal(true)}
+                  style={{ background: '#dc2626', borderColor: '#dc2626' }}
+                >
+                  Offboard {profile.displayName}
+                </button>
+              </footer>
+            </>
+          )}
+
+          {step === 'done' && result && (
+            <>
+              <p style={{ margin: 0 }}>
+                {profile.displayName} was offboarded. {result.tasksReassigned} task
+                {result.tasksReassigned === 1 ? ' was' : 's were'} and {result.calendarUpdatesReassigned} calendar update
+                {result.calendarUpdatesReassigned === 1 ? ' was' : 's were'} handed over
+                {result.messagesAnonymized > 0 &&
+                  `, and ${result.messagesAnonymized} chat message${result.messagesAnonymized === 1 ? ' was' : 's were'} anonymized`}
+                {result.channelsLeft > 0 &&
+                  `. They were removed from ${result.channelsLeft} group channel${result.channelsLeft === 1 ? '' : 's'}`}
+                .
+              </p>
+              <footer className="modal-footer">
+                <button type="button" className="primary-button" onClick={onClose}>
+                  Done
+                </button>
+              </footer>
+            </>
+          )}
+
+          {error && <p className="login-error">{error}</p>}
+        </div>
+      </div>
+
+      <PasswordVerificationModal
+        isOpen={showPasswordModal}
+        onClose={() => setShowPasswordModal(false)}
+        onVerify={handleOffboard}
+        title="Offboard User"
+        message={`Are you sure you want to offboard "${profile.displayName}"? Their account will be disabled.`}
+      />
+    </div>
+  )
+}
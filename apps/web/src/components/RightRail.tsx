@@ -1,10 +1,18 @@
-import { useState } from 'react'
+import { useEffect, useLayoutEffect, useRef, useState } from 'react'
 import type { FormEvent } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { Timestamp, addDoc, collection } from 'firebase/firestore'
 import type { ChatMessage } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { useAppData } from '../context/AppDataContext'
 import { Avatar } from './Avatar'
+import { uploadChatAttachment } from '../lib/storage'
+import { ChatAttachmentList } from './ChatAttachmentList'
+import { ChatFilePicker } from './ChatFilePicker'
+import { ChatFilesList } from './ChatFilesList'
+import { ChatMessageText } from './ChatMessageText'
+import { ChatReactions } from './ChatReactions'
+import { ChatThreadPanel } from './ChatThreadPanel'
 import { PasswordVerificationModal } from './PasswordVerificationModal'
 
 type DepartmentSummary = {
@@ -21,13 +29,48 @@ type RightRailProps = {
 
 export function RightRail({ messages, departmentSummaries }: RightRailProps) {
   const [messageText, setMessageText] = useState('')
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const [fullViewTab, setFullViewTab] = useState<'messages' | 'files'>('messages')
   const [submissionError, setSubmissionError] = useState<string | null>(null)
   const [isFullViewOpen, setIsFullViewOpen] = useState(false)
   const [deleteMessageId, setDeleteMessageId] = useState<string | null>(null)
+  const [threadParentId, setThreadParentId] = useState<string | null>(null)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const fullFeedRef = useRef<HTMLDivElement>(null)
+  // Full view feed height before an older page was requested, to keep the reader's place
+  const scrollAnchorRef = useRef<number | null>(null)
   const { user } = useAuth()
-  const { userProfile, firestore, dataError, allUserProfiles, deleteChatMessage } = useAppData()
+  const {
+    userProfile,
+    firestore,
+    dataError,
+    allUserProfiles,
+    deleteChatMessage,
+    hasOlderChatMessages,
+    loadOlderChatMessages,
+  } = useAppData()
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  // Links to a department chat message (?chat=<id>) open the full view on that message
+  const linkedMessageId = searchParams.get('chat')
+  const [linkKey, setLinkKey] = useState<string | null>(null)
 
-  const canDeleteMessage = (_message: ChatMessage): boolean => {
+  if (linkedMessageId && location.key !== linkKey) {
+    setLinkKey(location.key)
+    setIsFullViewOpen(true)
+    setFullViewTab('messages')
+    // A link to a reply opens its thread
+    const linkedReply = messages.find((message) => message.id === linkedMessageId && message.parentId)
+    if (linkedReply?.parentId) setThreadParentId(linkedReply.parentId)
+  }
+
+  useEffect(() => {
+    if (!isFullViewOpen || !linkedMessageId) return
+    document.getElementById(`department-chat-${linkedMessageId}`)?.scrollIntoView({ block: 'center' })
+  }, [isFullViewOpen, linkedMessageId, linkKey])
+
+  const canDeleteMessage = (_message: Pick<ChatMessage, 'authorId'>): boolean => {
     if (!user || !userProfile) return false
     const role = userProfile.role
     // Only Admins and Managers can delete messages
@@ -51,27 +94,87 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault()
-    if (!user || !messageText.trim() || !firestore) return
+    if (!user || (!messageText.trim() && pendingFiles.length === 0) || !firestore) return
 
+    setSending(true)
     try {
+      const attachments = await Promise.all(pendingFiles.map((file) => uploadChatAttachment(user.uid, file)))
       await addDoc(collection(firestore, 'departmentChats'), {
         author: user.displayName ?? user.email ?? 'Anonymous',
         authorId: user.uid,
         role: userProfile?.role ?? 'Viewer',
         department: departmentName,
         text: messageText.trim(),
+        // hasAttachments lets the Files tab query for shared files
+        ...(attachments.length > 0 ? { attachments, hasAttachments: true } : {}),
         createdAt: Timestamp.now(),
       })
       setMessageText('')
+      setPendingFiles([])
       setSubmissionError(null)
     } catch (error) {
       console.error('Failed to send chat message', error)
       setSubmissionError('Unable to send message right now. Please try again later.')
+    } finally {
+      setSending(false)
     }
   }
 
-  const sortedMessages = [...messages].sort(
-    (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  // Replies are shown in their thread, not in the main feed
+  const sortedMessages = messages
+    .filter((message) => !message.parentId)
+    .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+  const threadParent = threadParentId ? sortedMessages.find((message) => message.id === threadParentId) : undefined
+  const oldestMessageId = sortedMessages[0]?.id
+
+  useLayoutEffect(() => {
+    const feed = fullFeedRef.current
+    if (!feed || scrollAnchorRef.current === null) return
+    feed.scrollTop += feed.scrollHeight - scrollAnchorRef.current
+    scrollAnchorRef.current = null
+  }, [oldestMessageId])
+
+  const loadOlderMessages = () => {
+    if (!hasOlderChatMessages || loadingOlder) return
+    scrollAnchorRef.current = fullFeedRef.current?.scrollHeight ?? null
+    setLoadingOlder(true)
+    loadOlderChatMessages()
+      .catch((error) => {
+        console.error('Failed to load earlier messages', error)
+        setSubmissionError('Failed to load earlier messages. Please try again.')
+      })
+      .finally(() => setLoadingOlder(false))
+  }
+
+  const renderLoadOlderButton = () =>
+    hasOlderChatMessages && (
+      <div style={{ textAlign: 'center', padding: '0.5rem' }}>
+        <button type="button" className="ghost-button" onClick={loadOlderMessages} disabled={loadingOlder}>
+          {loadingOlder ? 'Loading…' : 'Load earlier messages'}
+        </button>
+      </div>
+    )
+
+  const openThread = (messageId: string) => {
+    setThreadParentId(messageId)
+    setIsFullViewOpen(true)
+  }
+
+  const renderThreadButton = (message: ChatMessage) => (
+    <button
+      type="button"
+      onClick={() => openThread(message.id)}
+      style={{
+        background: 'none',
+        border: 'none',
+        padding: 0,
+        fontSize: '0.75rem',
+        color: 'var(--accent)',
+        cursor: 'pointer',
+      }}
+    >
+      {message.replyCount > 0 ? `${message.replyCount} repl${message.replyCount === 1 ? 'y' : 'ies'}` : 'Reply'}
+    </button>
   )
 
   return (
@@ -91,6 +194,7 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
           </button>
         </header>
         <div className="chat-feed">
+          {renderLoadOlderButton()}
           {sortedMessages.length === 0 ? null : (
             sortedMessages.map((message) => {
               const messageUser = allUserProfiles.find((p) => p.id === message.authorId)
@@ -133,7 +237,10 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
                     )}
                   </div>
                 </div>
-                <p>{message.text}</p>
+                <ChatAttachmentList attachments={message.attachments} />
+                <ChatMessageText collectionName="departmentChats" message={message} />
+                <ChatReactions collectionName="departmentChats" messageId={message.id} reactions={message.reactions} />
+                {renderThreadButton(message)}
               </article>
             )
           })
@@ -141,9 +248,16 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
         </div>
         <form
           className="chat-input"
+          style={{ gridTemplateColumns: 'auto 1fr auto' }}
           aria-label="Send message"
           onSubmit={handleSubmit}
         >
+          <ChatFilePicker
+            files={pendingFiles}
+            onChange={setPendingFiles}
+            onError={setSubmissionError}
+            disabled={!user || !firestore || Boolean(dataError) || sending}
+          />
           <input
             type="text"
             placeholder="Message department chat…"
@@ -153,9 +267,11 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
           />
           <button
             type="submit"
-            disabled={!user || !firestore || Boolean(dataError) || !messageText.trim()}
+            disabled={
+              !user || !firestore || Boolean(dataError) || sending || (!messageText.trim() && pendingFiles.length === 0)
+            }
           >
-            Send
+            {sending ? 'Sending…' : 'Send'}
           </button>
         </form>
         {submissionError && <p className="login-error">{submissionError}</p>}
@@ -205,14 +321,50 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
                 Close
               </button>
             </header>
-            <div className="chat-feed chat-feed-full">
+            <div className="settings-tabs" style={{ marginBottom: '1rem' }}>
+              <button
+                type="button"
+                className={fullViewTab === 'messages' ? 'tab-button active' : 'tab-button'}
+                onClick={() => setFullViewTab('messages')}
+              >
+                Messages
+              </button>
+              <button
+                type="button"
+                className={fullViewTab === 'files' ? 'tab-button active' : 'tab-button'}
+                onClick={() => setFullViewTab('files')}
+              >
+                Files
+              </button>
+            </div>
+            {fullViewTab === 'files' ? (
+              <div className="chat-feed chat-feed-full">
+                <ChatFilesList collectionName="departmentChats" department={departmentName} />
+              </div>
+            ) : (
+            <>
+            <div style={{ display: 'flex', gap: '1rem', minHeight: 0 }}>
+            <div
+              ref={fullFeedRef}
+              className="chat-feed chat-feed-full"
+              style={{ flex: 1 }}
+              onScroll={(event) => {
+                if (event.currentTarget.scrollTop < 100) loadOlderMessages()
+              }}
+            >
+              {renderLoadOlderButton()}
               {sortedMessages.length === 0 ? (
                 <div className="empty-state" style={{ padding: '2rem', margin: 0 }}>
                   <p>No messages yet. Start the conversation!</p>
                 </div>
               ) : (
                 sortedMessages.map((message) => (
-                  <article key={message.id} className="chat-message">
+                  <article
+                    key={message.id}
+                    id={`department-chat-${message.id}`}
+                    className="chat-message"
+                    style={message.id === linkedMessageId ? { outline: '2px solid var(--accent)', borderRadius: '0.75rem' } : undefined}
+                  >
                     <div className="chat-author">
                       <Avatar
                         displayName={message.author}
@@ -252,16 +404,38 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
                         )}
                       </div>
                     </div>
-                    <p>{message.text}</p>
+                    <ChatAttachmentList attachments={message.attachments} />
+                    <ChatMessageText collectionName="departmentChats" message={message} />
+                    <ChatReactions collectionName="departmentChats" messageId={message.id} reactions={message.reactions} />
+                    {renderThreadButton(message)}
                   </article>
                 ))
               )}
             </div>
+            {threadParent && (
+              <ChatThreadPanel
+                key={threadParent.id}
+                collectionName="departmentChats"
+                parent={threadParent}
+                department={threadParent.department || departmentName}
+                canDeleteMessage={canDeleteMessage}
+                onDeleteMessage={setDeleteMessageId}
+                onClose={() => setThreadParentId(null)}
+              />
+            )}
+            </div>
             <form
               className="chat-input"
+              style={{ gridTemplateColumns: 'auto 1fr auto' }}
               aria-label="Send message"
               onSubmit={handleSubmit}
             >
+              <ChatFilePicker
+                files={pendingFiles}
+                onChange={setPendingFiles}
+                onError={setSubmissionError}
+                disabled={!user || !firestore || Boolean(dataError) || sending}
+              />
               <input
                 type="text"
                 placeholder="Message department chat…"
@@ -271,11 +445,15 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
               />
               <button
                 type="submit"
-                disabled={!user || !firestore || Boolean(dataError) || !messageText.trim()}
+                disabled={
+                  !user || !firestore || Boolean(dataError) || sending || (!messageText.trim() && pendingFiles.length === 0)
+                }
               >
-                Send
+                {sending ? 'Sending…' : 'Send'}
               </button>
             </form>
+            </>
+            )}
             {submissionError && <p className="login-error">{submissionError}</p>}
             {dataError && (
               <p className="login-error">
@@ -291,7 +469,7 @@ export function RightRail({ messages, departmentSummaries }: RightRailProps) {
         onClose={() => setDeleteMessageId(null)}
         onVerify={handleDeleteMessage}
         title="Delete Message"
-        message="Are you sure you want to delete this message? This action cannot be undone."
+        message="Are you sure you want to delete this message? It moves to the trash, where an admin can restore it."
       />
     </aside>
   )
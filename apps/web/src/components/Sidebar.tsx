@@ -1,9 +1,82 @@
-import { NavLink } from 'react-router-dom'
+import { useEffect, useMemo, useState } from 'react'
+import { NavLink, useNavigate } from 'react-router-dom'
+import { collection, deleteDoc, doc, onSnapshot, query, where } from 'firebase/firestore'
 import { navItems } from '../config/navigation'
 import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { getChannelDisplayName, getChannelUnreadCount } from '../lib/chatChannels'
+import { parseTaskView, type TaskView } from '../lib/taskViews'
+import { NewChatChannelModal } from './NewChatChannelModal'
+
+const unreadBadgeStyle = {
+  display: 'inline-flex',
+  alignItems: 'center',
+  justifyContent: 'center',
+  minWidth: '20px',
+  height: '20px',
+  padding: '0 6px',
+  marginLeft: '8px',
+  background: 'var(--accent)',
+  color: 'white',
+  borderRadius: '10px',
+  fontSize: '0.75rem',
+  fontWeight: 600,
+  lineHeight: 1,
+}
 
 export function Sidebar() {
-  const { userProfile, departments, companyChatUnreadCount } = useAppData()
+  const { userProfile, departments, companyChatUnreadCount, chatChannels, allUserProfiles, firestore, filters, setFilters } =
+    useAppData()
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [showNewChannel, setShowNewChannel] = useState(false)
+  const [personalViews, setPersonalViews] = useState<TaskView[]>([])
+  const [departmentViews, setDepartmentViews] = useState<TaskView[]>([])
+  const profileDepartment = userProfile?.department
+
+  useEffect(() => {
+    if (!firestore || !user) return
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, 'taskViews'), where('ownerId', '==', user.uid)),
+      (snapshot) => setPersonalViews(snapshot.docs.map((docSnapshot) => parseTaskView(docSnapshot.id, docSnapshot.data()))),
+      (err) => console.error('Failed to load saved views', err),
+    )
+    return () => unsubscribe()
+  }, [firestore, user])
+
+  // Views shared with the user's department, including ones they shared themselves
+  useEffect(() => {
+    if (!firestore || !user || !profileDepartment) return
+
+    const unsubscribe = onSnapshot(
+      query(
+        collection(firestore, 'taskViews'),
+        where('visibility', '==', 'department'),
+        where('department', '==', profileDepartment),
+      ),
+      (snapshot) => setDepartmentViews(snapshot.docs.map((docSnapshot) => parseTaskView(docSnapshot.id, docSnapshot.data()))),
+      (err) => console.error('Failed to load shared views', err),
+    )
+    return () => unsubscribe()
+  }, [firestore, user, profileDepartment])
+
+  const savedViews = useMemo(() => {
+    const byId = new Map<string, TaskView>([...personalViews, ...departmentViews].map((view) => [view.id, view]))
+    return Array.from(byId.values()).sort((a, b) => a.name.localeCompare(b.name))
+  }, [personalViews, departmentViews])
+
+  const activeFilters = JSON.stringify(filters)
+
+  const handleDeleteView = async (view: TaskView) => {
+    if (!firestore || !window.confirm(`Delete the saved view "${view.name}"?`)) return
+    try {
+      await deleteDoc(doc(firestore, 'taskViews', view.id))
+    } catch (err) {
+      console.error('Failed to delete saved view', err)
+      window.alert('Failed to delete the saved view. Please try again.')
+    }
+  }
   const allowedDepartments =
     departments.length > 0
       ? departments
@@ -40,25 +113,7 @@ export function Sidebar() {
                   >
                     {item.label}
                     {unreadCount > 0 && (
-                      <span
-                        style={{
-                          display: 'inline-flex',
-                          alignItems: 'center',
-                          justifyContent: 'center',
-                          minWidth: '20px',
-                          height: '20px',
-                          padding: '0 6px',
-                          marginLeft: '8px',
-                          background: 'var(--accent)',
-                          color: 'white',
-                          borderRadius: '10px',
-                          fontSize: '0.75rem',
-                          fontWeight: 600,
-                          lineHeight: 1,
-                        }}
-                      >
-                        {unreadCount > 99 ? '99+' : unreadCount}
-                      </span>
+                      <span style={unreadBadgeStyle}>{unreadCount > 99 ? '99+' : unreadCount}</span>
                     )}
                   </NavLink>
                 </li>
@@ -67,6 +122,81 @@ export function Sidebar() {
         </ul>
       </div>
 
+      <div className="sidebar-section">
+        <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+          <span className="sidebar-label">Messages</span>
+          <button
+            type="button"
+            onClick={() => setShowNewChannel(true)}
+            style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: '0 0.25rem' }}
+            aria-label="New conversation"
+            title="New conversation"
+          >
+            +
+          </button>
+        </div>
+        {chatChannels.length === 0 ? (
+          <p style={{ margin: 0, fontSize: '0.8rem', color: 'var(--text-muted)' }}>No direct messages or channels yet</p>
+        ) : (
+          <ul>
+            {chatChannels.map((channel) => {
+              const unreadCount = user ? getChannelUnreadCount(channel, user.uid) : 0
+              return (
+                <li key={channel.id}>
+                  <NavLink
+                    to={`/chat/${channel.id}`}
+                    className={({ isActive }) => (isActive ? 'sidebar-link active' : 'sidebar-link')}
+                  >
+                    <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                      {channel.type === 'group' ? '# ' : ''}
+                      {getChannelDisplayName(channel, user?.uid ?? '', allUserProfiles)}
+                    </span>
+                    {unreadCount > 0 && <span style={unreadBadgeStyle}>{unreadCount > 99 ? '99+' : unreadCount}</span>}
+                  </NavLink>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+
+      {savedViews.length > 0 && (
+        <div className="sidebar-section">
+          <span className="sidebar-label">Saved Views</span>
+          <ul>
+            {savedViews.map((view) => (
+              <li key={view.id} style={{ display: 'flex', alignItems: 'center', gap: '0.25rem' }}>
+                <button
+                  type="button"
+                  className={JSON.stringify(view.filters) === activeFilters ? 'sidebar-link active' : 'sidebar-link'}
+                  style={{ cursor: 'pointer', textAlign: 'left', justifyContent: 'space-between' }}
+                  onClick={() => {
+                    setFilters(view.filters)
+                    navigate('/tasks')
+                  }}
+                  title={view.visibility === 'department' ? `Shared with ${view.department} by ${view.ownerName}` : 'Personal view'}
+                >
+                  <span>{view.name}</span>
+                  {view.visibility === 'department' && (
+                    <span style={{ fontSize: '0.7rem', color: 'var(--text-muted)' }}>{view.department}</span>
+                  )}
+                </button>
+                {view.ownerId === user?.uid && (
+                  <button
+                    type="button"
+                    onClick={() => void handleDeleteView(view)}
+                    style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: '0 0.25rem' }}
+                    aria-label={`Delete saved view ${view.name}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       <div className="sidebar-section">
         <span className="sidebar-label">Departments</span>
         <ul className="tag-list">
@@ -77,6 +207,8 @@ export function Sidebar() {
           ))}
         </ul>
       </div>
+
+      {showNewChannel && <NewChatChannelModal onClose={() => setShowNewChannel(false)} />}
     </nav>
   )
 }
@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { formatSlaDuration, getSlaStatus } from '../lib/sla'
+
+type SlaBadgeProps = {
+  task: Task
+}
+
+/**
+ * SLA countdown for an open task, turning amber when at risk and red once breached
+ */
+export function SlaBadge({ task }: SlaBadgeProps) {
+  const { departments, workspaceSettings } = useAppData()
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  const sla = getSlaStatus(task, departments, workspaceSettings.defaultSLA, now)
+  if (!sla) return null
+
+  const color = sla.breached ? '#dc2626' : sla.atRisk ? '#f59e0b' : 'var(--text-muted)'
+
+  return (
+    <span
+      title={`SLA deadline: ${sla.deadline.toLocaleString()}`}
+      style={{
+        display: 'inline-block',
+        padding: '0.1rem 0.45rem',
+        borderRadius: '999px',
+        border: `1px solid ${color}`,
+        color,
+        fontSize: '0.75rem',
+        fontWeight: sla.breached || sla.atRisk ? 600 : 400,
+        whiteSpace: 'nowrap',
+      }}
+    >
+      {sla.breached
+        ? `SLA breached ${formatSlaDuration(sla.remainingMs)} ago`
+        : `SLA ${formatSlaDuration(sla.remainingMs)} left`}
+    </span>
+  )
+}
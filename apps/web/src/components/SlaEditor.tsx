@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { doc, writeBatch } from 'firebase/firestore'
+import { useAppData, type Department, type Task } from '../context/AppDataContext'
+import { SLA_PRIORITIES, getSlaDays } from '../lib/sla'
+
+type SlaEditorProps = {
+  department: Department
+}
+
+export function SlaEditor({ department }: SlaEditorProps) {
+  const { firestore, departments, workspaceSettings } = useAppData()
+  const [days, setDays] = useState<Partial<Record<Task['priority'], string>>>(() =>
+    Object.fromEntries(SLA_PRIORITIES.map((priority) => [priority, department.slaDays?.[priority]?.toString() ?? ''])),
+  )
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    if (!firestore) return
+
+    const slaDays: Partial<Record<Task['priority'], number>> = {}
+    for (const priority of SLA_PRIORITIES) {
+      const raw = days[priority]?.trim()
+      if (!raw) continue
+      const value = Number(raw)
+      if (!Number.isFinite(value) || value <= 0) {
+        setError(`The ${priority} SLA must be a number of days above 0, or empty for the workspace default.`)
+        return
+      }
+      slaDays[priority] = value
+    }
+
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+    try {
+      const batch = writeBatch(firestore)
+      // Built-in departments only exist client-side until the first write, so every listed
+      // department is written to keep the others from disappearing once the collection is non-empty
+      departments.forEach((item) => {
+        batch.set(doc(firestore, 'departments', item.id), { name: item.name, slug: item.slug }, { merge: true })
+      })
+      // slaDays is replaced rather than merged so cleared overrides fall back to the default again
+      batch.update(doc(firestore, 'departments', department.id), { slaDays })
+      await batch.commit()
+      setSaved(true)
+    } catch (err) {
+      console.error('Failed to save SLA overrides', err)
+      setError('Failed to save SLA overrides. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: '1rem', paddingBottom: '1rem', borderBottom: '1px solid var(--border-soft)' }}>
+      <label style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+        SLA in days per priority (empty = workspace default):
+      </label>
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        {SLA_PRIORITIES.map((priority) => (
+          <label key={priority} style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            {priority}
+            <input
+              type="number"
+              min={0.5}
+              step={0.5}
+              value={days[priority] ?? ''}
+              placeholder={getSlaDays({ priority, department: '' }, [], workspaceSettings.defaultSLA).toString()}
+              onChange={(e) => {
+                setDays({ ...days, [priority]: e.target.value })
+                setSaved(false)
+              }}
+              style={{ width: '5.5rem', fontSize: '0.85rem', padding: '0.4rem' }}
+            />
+          </label>
+        ))}
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={() => void handleSave()}
+          disabled={saving}
+          style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+        >
+          {saving ? 'Saving…' : saved ? 'Saved' : 'Save SLA'}
+        </button>
+      </div>
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
@@ -10,8 +10,16 @@ type StatusSelectorProps = {
   canEdit: boolean
   canApprove: boolean
   isTaskCreator?: boolean // User created this task
-  onStatusChange: (status: DepartmentStatus) => Promise<void>
+  onStatusChange: (status: DepartmentStatus, stage?: string) => Promise<void>
   isSubmitting?: boolean
+  // Working stages of the department's task workflow, offered in place of a plain In Progress
+  stages?: string[]
+  currentStage?: string
+}
+
+type StatusOption = {
+  status: DepartmentStatus
+  stage?: string
 }
 
 const statusConfig: Record<DepartmentStatus, { label: string; color: string; bgColor: string }> = {
@@ -28,10 +36,14 @@ export function StatusSelector({
   isTaskCreator = false,
   onStatusChange,
   isSubmitting = false,
+  stages = [],
+  currentStage,
 }: StatusSelectorProps) {
   const [isOpen, setIsOpen] = useState(false)
 
   const currentConfig = statusConfig[currentStatus]
+  const activeStage = currentStatus === 'In Progress' && currentStage && stages.includes(currentStage) ? currentStage : undefined
+  const currentLabel = activeStage ?? currentConfig.label
 
   // Determine available statuses based on role and current status
   const getAvailableStatuses = (): DepartmentStatus[] => {
@@ -79,11 +91,19 @@ export function StatusSelector({
 
   const availableStatuses = getAvailableStatuses()
 
-  const handleStatusSelect = async (newStatus: DepartmentStatus) => {
-    if (newStatus === currentStatus || isSubmitting) return
+  // In Progress expands into the department's working stages, which can be switched between freely
+  const availableOptions: StatusOption[] = availableStatuses.flatMap((status) =>
+    status === 'In Progress' && stages.length > 0 ? stages.map((stage) => ({ status, stage })) : [{ status }],
+  )
+
+  const isCurrentOption = (option: StatusOption) =>
+    option.status === currentStatus && (option.stage === undefined || option.stage === (activeStage ?? stages[0]))
+
+  const handleStatusSelect = async (option: StatusOption) => {
+    if (isCurrentOption(option) || isSubmitting) return
     
     setIsOpen(false)
-    await onStatusChange(newStatus)
+    await onStatusChange(option.status, option.stage)
   }
 
   // Show pending approval with icon (but still allow managers/admins to change it)
@@ -94,7 +114,7 @@ export function StatusSelector({
         backgroundColor: currentConfig.bgColor 
       }}>
         <span className="status-pending-icon">⏳</span>
-        {currentConfig.label}
+        {currentLabel}
       </div>
     )
   }
@@ -121,7 +141,7 @@ export function StatusSelector({
         color: currentConfig.color, 
         backgroundColor: currentConfig.bgColor 
       }}>
-        {currentConfig.label}
+        {currentLabel}
       </div>
     )
   }
@@ -139,7 +159,7 @@ export function StatusSelector({
           borderColor: currentConfig.color,
         }}
       >
-        {currentConfig.label}
+        {currentLabel}
         <span className="status-arrow">▼</span>
       </button>
       
@@ -150,16 +170,16 @@ export function StatusSelector({
             onClick={() => setIsOpen(false)}
           />
           <div className="status-dropdown">
-            {availableStatuses.map((status) => {
-              const config = statusConfig[status]
-              const isSelected = status === currentStatus
+            {availableOptions.map((option) => {
+              const config = statusConfig[option.status]
+              const isSelected = isCurrentOption(option)
               
               return (
                 <button
-                  key={status}
+                  key={option.stage ?? option.status}
                   type="button"
                   className={`status-option ${isSelected ? 'status-option-selected' : ''}`}
-                  onClick={() => handleStatusSelect(status)}
+                  onClick={() => handleStatusSelect(option)}
                   disabled={isSelected || isSubmitting}
                   style={{
                     color: config.color,
@@ -167,7 +187,7 @@ export function StatusSelector({
                   }}
                 >
                   <span className="status-option-dot" style={{ backgroundColor: config.color }} />
-                  {config.label}
+                  {option.stage ?? config.label}
                 </button>
               )
             })}
@@ -0,0 +1,218 @@
+import { useRef, useState } from 'react'
+import { useAppData, type Task, type TaskAttachment } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  MAX_ATTACHMENTS_PER_TASK,
+  deleteTaskAttachment,
+  formatFileSize,
+  uploadTaskAttachment,
+  validateTaskAttachment,
+} from '../lib/storage'
+
+type UploadProgress = {
+  name: string
+  percent: number
+}
+
+type TaskAttachmentsProps = {
+  task: Task
+  canEdit: boolean
+  onError: (message: string | null) => void
+}
+
+export function TaskAttachments({ task, canEdit, onError }: TaskAttachmentsProps) {
+  const { updateTask, userProfile } = useAppData()
+  const { user } = useAuth()
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const [uploads, setUploads] = useState<UploadProgress[]>([])
+  const [deletingId, setDeletingId] = useState<string | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const attachments = task.attachments ?? []
+
+  const handleFiles = async (files: File[]) => {
+    if (!user || files.length === 0) return
+    onError(null)
+
+    if (attachments.length + files.length > MAX_ATTACHMENTS_PER_TASK) {
+      onError(`A task can have at most ${MAX_ATTACHMENTS_PER_TASK} attachments.`)
+      return
+    }
+    const invalid = files.map(validateTaskAttachment).find((message) => message !== null)
+    if (invalid) {
+      onError(`${invalid}. Attachments can be images, video, audio, text, PDF, Office documents or zip files.`)
+      return
+    }
+
+    // Uploads run one at a time so each one appends to the list saved by the previous one
+    let current = attachments
+    for (const file of files) {
+      setUploads((prev) => [...prev, { name: file.name, percent: 0 }])
+      try {
+        const { path, url } = await uploadTaskAttachment(task.id, file, (percent) =>
+          setUploads((prev) => prev.map((upload) => (upload.name === file.name ? { ...upload, percent } : upload))),
+        )
+        const attachment: TaskAttachment = {
+          id: path.split('/').pop() ?? path,
+          name: file.name,
+          path,
+          url,
+          contentType: file.type,
+          size: file.size,
+          uploadedBy: user.uid,
+          uploadedByName: userProfile?.displayName ?? user.email ?? 'Unknown',
+          uploadedAt: new Date().toISOString(),
+        }
+        current = [...current, attachment]
+        await updateTask(task.id, { attachments: current })
+      } catch (error) {
+        console.error('Failed to upload attachment', error)
+        onError(`Failed to upload "${file.name}". Please try again.`)
+        break
+      } finally {
+        setUploads((prev) => prev.filter((upload) => upload.name !== file.name))
+      }
+    }
+  }
+
+  const handleDelete = async (attachment: TaskAttachment) => {
+    if (!window.confirm(`Delete "${attachment.name}"? The file will be removed permanently.`)) return
+    setDeletingId(attachment.id)
+    onError(null)
+    try {
+      await deleteTaskAttachment(attachment.path)
+      await updateTask(task.id, { attachments: attachments.filter((item) => item.id !== attachment.id) })
+    } catch (error) {
+      console.error('Failed to delete attachment', error)
+      onError('Failed to delete attachment. Please try again.')
+    } finally {
+      setDeletingId(null)
+    }
+  }
+
+  if (!canEdit && attachments.length === 0) {
+    return null
+  }
+
+  return (
+    <section className="detail-section">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <span className="section-label">Attachments {attachments.length > 0 && `(${attachments.length})`}</span>
+        {canEdit && (
+          <>
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={uploads.length > 0}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+            >
+              {uploads.length > 0 ? 'Uploading…' : '+ Upload Files'}
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              multiple
+              style={{ display: 'none' }}
+              onChange={(e) => {
+                const files = Array.from(e.target.files ?? [])
+                // Reset so selecting the same file again still triggers a change
+                e.target.value = ''
+                void handleFiles(files)
+              }}
+            />
+          </>
+        )}
+      </div>
+
+      {uploads.map((upload) => (
+        <div key={upload.name} style={{ marginBottom: '0.5rem', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+          <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{upload.name}</span>
+            <span>{upload.percent}%</span>
+          </div>
+          <div style={{ height: '6px', borderRadius: '3px', background: 'var(--border-soft)', overflow: 'hidden' }}>
+            <div style={{ width: `${upload.percent}%`, height: '100%', background: 'var(--accent)', transition: 'width 0.2s' }} />
+          </div>
+        </div>
+      ))}
+
+      {attachments.length === 0 && uploads.length === 0 ? (
+        <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.85rem' }}>No files uploaded</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.5rem' }}>
+          {attachments.map((attachment) => {
+            const isImage = attachment.contentType.startsWith('image/')
+            return (
+              <li key={attachment.id} style={{ display: 'flex', alignItems: 'center', gap: '0.75rem' }}>
+                {isImage ? (
+                  <button
+                    type="button"
+                    onClick={() => setPreviewUrl(attachment.url)}
+                    style={{ padding: 0, border: 'none', background: 'none', cursor: 'zoom-in' }}
+                    title="Preview image"
+                  >
+                    <img
+                      src={attachment.url}
+                      alt={attachment.name}
+                      style={{ width: '48px', height: '48px', objectFit: 'cover', borderRadius: '0.375rem', display: 'block' }}
+                    />
+                  </button>
+                ) : (
+                  <span
+                    style={{
+                      width: '48px',
+                      height: '48px',
+                      borderRadius: '0.375rem',
+                      background: 'var(--surface-elevated)',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      fontSize: '1.25rem',
+                    }}
+                  >
+                    📄
+                  </span>
+                )}
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <a
+                    href={attachment.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    style={{ color: 'var(--accent)', textDecoration: 'none', wordBreak: 'break-all', fontSize: '0.9rem' }}
+                  >
+                    {attachment.name}
+                  </a>
+                  <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>
+                    {formatFileSize(attachment.size)} · {attachment.uploadedByName} ·{' '}
+                    {new Date(attachment.uploadedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                {canEdit && (
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => void handleDelete(attachment)}
+                    disabled={deletingId === attachment.id}
+                    style={{ fontSize: '0.75rem', padding: '0.25rem 0.5rem', color: 'var(--text-muted)' }}
+                  >
+                    {deletingId === attachment.id ? 'Removing…' : 'Remove'}
+                  </button>
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+
+      {previewUrl && (
+        <div className="modal-backdrop" onClick={() => setPreviewUrl(null)} role="dialog" aria-label="Image preview">
+          <img
+            src={previewUrl}
+            alt="Attachment preview"
+            style={{ maxWidth: '90vw', maxHeight: '90vh', borderRadius: '0.5rem', boxShadow: 'var(--shadow-soft)' }}
+          />
+        </div>
+      )}
+    </section>
+  )
+}
@@ -3,12 +3,37 @@ import type { Task } from '../context/AppDataContext'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { PasswordVerificationModal } from './PasswordVerificationModal'
+import { BlockerPicker } from './BlockerPicker'
+import { UserPicker } from './UserPicker'
+import { ChecklistProgress, TaskChecklist } from './TaskChecklist'
+import { TaskAttachments } from './TaskAttachments'
+import { TaskFieldsSection, TaskLabelChips } from './TaskFieldsSection'
+import { TaskTimeTracker } from './TaskTimeTracker'
+import { TaskComments } from './TaskComments'
+import { TaskHistory } from './TaskHistory'
+import { getChecklistBlockReason } from '../lib/checklist'
+import { getBlockedMoveReason, getOpenBlockers, validateBlockers } from '../lib/taskDependencies'
+import { checkWipLimit } from '../lib/wipLimits'
+import { buildStageUpdates, findStageForStatus, getTaskStage, getTaskWorkflow } from '../lib/workflows'
+import {
+  MAX_TASK_ASSIGNEES,
+  MAX_TASK_WATCHERS,
+  buildAssigneeFields,
+  formatAssignees,
+  isTaskAssignee,
+  isTaskWatcher,
+} from '../lib/taskAssignees'
+import { KanbanBoard } from './KanbanBoard'
+import { BulkTaskActionBar } from './BulkTaskActionBar'
+import { TaskStageSelect } from './TaskStageSelect'
+import { SlaBadge } from './SlaBadge'
 
 type TaskBoardProps = {
   tasks: Task[]
   selectedId: string
   onSelect: (taskId: string) => void
   onFilter?: () => void
+  initialViewMode?: ViewMode
 }
 
 const statusPillClass: Record<Task['status'], string> = {
@@ -118,17 +143,23 @@ function CollapsibleSummary({ summary }: { summary: string }) {
   )
 }
 
-type ViewMode = 'active' | 'completed'
+type ViewMode = 'active' | 'board' | 'completed'
 
-export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardProps) {
-  const { updateTask, deleteTask, userProfile } = useAppData()
+export function TaskBoard({ tasks, selectedId, onSelect, onFilter, initialViewMode = 'active' }: TaskBoardProps) {
+  const { updateTask, deleteTask, userProfile, tasks: allTasks, departments, allUserProfiles } = useAppData()
   const { user } = useAuth()
   const [updating, setUpdating] = useState<string | null>(null)
   const [updateError, setUpdateError] = useState<string | null>(null)
   const [isAddingUrl, setIsAddingUrl] = useState(false)
   const [newUrl, setNewUrl] = useState('')
   const [showDeleteModal, setShowDeleteModal] = useState(false)
-  const [viewMode, setViewMode] = useState<ViewMode>('active')
+  const [viewMode, setViewMode] = useState<ViewMode>(initialViewMode)
+  const [isEditingBlockers, setIsEditingBlockers] = useState(false)
+  const [blockerDraft, setBlockerDraft] = useState<string[]>([])
+  const [isEditingPeople, setIsEditingPeople] = useState(false)
+  const [assigneeDraft, setAssigneeDraft] = useState<string[]>([])
+  const [watcherDraft, setWatcherDraft] = useState<string[]>([])
+  const [bulkSelectedIds, setBulkSelectedIds] = useState<string[]>([])
 
   // Separate active and completed tasks
   const activeTasks = useMemo(() => {
@@ -174,7 +205,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
   }, [completedTasks])
 
   const selectedTask = useMemo(() => {
-    const taskList = viewMode === 'active' ? activeTasks : completedTasks
+    const taskList = viewMode === 'completed' ? completedTasks : activeTasks
     return taskList.find((task) => task.id === selectedId) ?? taskList[0]
   }, [tasks, selectedId, viewMode, activeTasks, completedTasks])
 
@@ -195,17 +226,24 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
     if (isDepartmentHead && task.department === userProfile.department) return true
     
     // Users can edit tasks assigned to them (including when they create and assign to themselves)
-    if (task.assigneeId === user.uid) return true
+    if (isTaskAssignee(task, user.uid)) return true
     
     // Users can also edit tasks they created (even if not assigned to themselves)
     if (task.createdBy === user.uid) return true
     
     // Specialists can edit tasks assigned to them
-    if (role === 'Specialist' && task.assigneeId === user.uid) return true
+    if (role === 'Specialist' && isTaskAssignee(task, user.uid)) return true
     
     return false
   }
 
+  // Only admins, managers and the department head change who is assigned to or watching a task
+  const canManageTaskPeople = (task: Task | undefined): boolean => {
+    if (!userProfile || !task) return false
+    if (userProfile.role === 'Admin' || userProfile.role === 'Manager') return true
+    return (userProfile.isDepartmentHead ?? false) && task.department === userProfile.department
+  }
+
   // Check if user can delete a specific task
   const canDeleteTask = (task: Task | undefined): boolean => {
     if (!user || !userProfile || !task) return false
@@ -215,9 +253,26 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
     return role === 'Admin' || role === 'Manager'
   }
 
+  // Bulk changes are for the people who manage other people's tasks
+  const canBulkEdit =
+    userProfile?.role === 'Admin' || userProfile?.role === 'Manager' || (userProfile?.isDepartmentHead ?? false)
+  const bulkSelectedTasks = activeTasks.filter((task) => bulkSelectedIds.includes(task.id))
+
+  const toggleBulkSelected = (taskId: string) => {
+    setBulkSelectedIds((prev) => (prev.includes(taskId) ? prev.filter((id) => id !== taskId) : [...prev, taskId]))
+  }
+
   const canEdit = canEditTask(selectedTask)
+  const canManagePeople = canManageTaskPeople(selectedTask)
+  const isWatching = Boolean(user && selectedTask && isTaskWatcher(selectedTask, user.uid))
   const canDelete = canDeleteTask(selectedTask)
 
+  // Tasks waiting on the selected task
+  const selectedDependents = useMemo(
+    () => (selectedTask ? allTasks.filter((task) => task.blockers?.includes(selectedTask.id)) : []),
+    [selectedTask, allTasks],
+  )
+
   const handleDeleteTask = async () => {
     if (!selectedTask) return
     try {
@@ -229,22 +284,45 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
     }
   }
 
-  const handleStatusChange = async (taskId: string, newStatus: Task['status']) => {
+  // Kanban columns are built-in statuses, so a drop moves the task to the first stage the
+  // department workflow allows for that status
+  const handleStatusChange = async (taskId: string, newStatus: Task['status']): Promise<boolean> => {
     const task = tasks.find((t) => t.id === taskId)
-    if (!canEditTask(task)) return
+    if (!canEditTask(task) || !task) return false
+    const { workflow } = getTaskWorkflow(task, departments)
+    const stage = findStageForStatus(task, newStatus, workflow)
+    if (!stage) {
+      setUpdateError(`The ${task.department} workflow does not allow moving "${getTaskStage(task, workflow)}" to ${newStatus}.`)
+      return false
+    }
+    return handleStageChange(taskId, stage)
+  }
+
+  const handleStageChange = async (taskId: string, stage: string): Promise<boolean> => {
+    const task = tasks.find((t) => t.id === taskId)
+    if (!canEditTask(task) || !task) return false
+    const taskWorkflow = getTaskWorkflow(task, departments)
+    const newStatus = taskWorkflow.workflow.categories[stage] ?? task.status
+    const blockedReason = getBlockedMoveReason(task, newStatus, allTasks) ?? getChecklistBlockReason(task, newStatus)
+    if (blockedReason) {
+      setUpdateError(blockedReason)
+      return false
+    }
+    const wipViolation = checkWipLimit(task, newStatus, allTasks, departments)
+    if (wipViolation?.mode === 'block') {
+      setUpdateError(wipViolation.message)
+      return false
+    }
+    if (wipViolation && !window.confirm(`${wipViolation.message} That is over the work-in-progress limit. Move it anyway?`)) {
+      return false
+    }
     setUpdating(taskId)
     setUpdateError(null)
     try {
-      const updates: Partial<Omit<Task, 'id'>> = { status: newStatus }
-      
-      // Set completedAt timestamp when task is marked as Completed
-      if (newStatus === 'Completed' && task?.status !== 'Completed') {
-        updates.completedAt = new Date().toISOString()
-      }
       // Note: We don't clear completedAt when moving out of Completed status
       // to preserve the completion history. If needed, this can be added later.
-      
-      await updateTask(taskId, updates)
+      await updateTask(taskId, buildStageUpdates(task, stage, taskWorkflow))
+      return true
     } catch (error: any) {
       console.error('Failed to update task status', error)
       let errorMessage = 'Failed to update task status. Please try again.'
@@ -259,6 +337,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
       }
       
       setUpdateError(errorMessage)
+      return false
     } finally {
       setUpdating(null)
     }
@@ -318,6 +397,68 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
     return `${year}-${month}-${day}`
   }
 
+  const handleSaveBlockers = async () => {
+    if (!selectedTask) return
+    const validationError = validateBlockers(selectedTask.id, blockerDraft, allTasks)
+    if (validationError) {
+      setUpdateError(validationError)
+      return
+    }
+
+    setUpdating(selectedTask.id)
+    setUpdateError(null)
+    try {
+      await updateTask(selectedTask.id, { blockers: blockerDraft })
+      setIsEditingBlockers(false)
+    } catch (error) {
+      console.error('Failed to update task blockers', error)
+      setUpdateError('Failed to update blockers. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleSavePeople = async () => {
+    if (!selectedTask) return
+    if (assigneeDraft.length === 0) {
+      setUpdateError('A task needs at least one assignee.')
+      return
+    }
+
+    setUpdating(selectedTask.id)
+    setUpdateError(null)
+    try {
+      await updateTask(selectedTask.id, {
+        ...buildAssigneeFields(assigneeDraft, allUserProfiles),
+        watcherIds: watcherDraft,
+      })
+      setIsEditingPeople(false)
+    } catch (error) {
+      console.error('Failed to update task assignees', error)
+      setUpdateError('Failed to update assignees and watchers. Please try again.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
+  const handleToggleWatch = async () => {
+    if (!selectedTask || !user) return
+    const watcherIds = isWatching
+      ? selectedTask.watcherIds.filter((id) => id !== user.uid)
+      : [...selectedTask.watcherIds, user.uid]
+
+    setUpdating(selectedTask.id)
+    setUpdateError(null)
+    try {
+      await updateTask(selectedTask.id, { watcherIds })
+    } catch (error) {
+      console.error('Failed to update task watchers', error)
+      setUpdateError(isWatching ? 'Failed to stop watching this task.' : 'Failed to watch this task.')
+    } finally {
+      setUpdating(null)
+    }
+  }
+
   const handleAddUrl = async () => {
     if (!selectedTask || !newUrl.trim()) return
     
@@ -400,6 +541,23 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
             >
               Active Tasks {activeTasks.length > 0 && `(${activeTasks.length})`}
             </button>
+            <button
+              type="button"
+              onClick={() => setViewMode('board')}
+              style={{
+                padding: '0.5rem 1rem',
+                borderRadius: '0.375rem',
+                border: 'none',
+                background: viewMode === 'board' ? 'var(--accent)' : 'transparent',
+                color: viewMode === 'board' ? 'white' : 'var(--text-primary)',
+                cursor: 'pointer',
+                fontWeight: viewMode === 'board' ? 600 : 400,
+                fontSize: '0.875rem',
+                transition: 'all 0.2s',
+              }}
+            >
+              Board
+            </button>
             <button
               type="button"
               onClick={() => {
@@ -421,7 +579,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
               Completed {completedTasks.length > 0 && `(${completedTasks.length})`}
             </button>
           </div>
-          {viewMode === 'active' && (
+          {viewMode !== 'completed' && (
             <button className="ghost-button" type="button" onClick={onFilter}>
               Filter
             </button>
@@ -429,21 +587,66 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
         </div>
       </header>
 
-      {viewMode === 'active' ? (
+      {viewMode === 'board' ? (
+        <>
+          {updateError && <p className="login-error">{updateError}</p>}
+          <KanbanBoard
+            tasks={tasks}
+            selectedId={selectedId}
+            movingId={updating}
+            canMoveTask={canEditTask}
+            onMove={(task, status) => handleStatusChange(task.id, status)}
+            onOpen={(task) => {
+              setViewMode(task.status === 'Completed' ? 'completed' : 'active')
+              onSelect(task.id)
+              setIsEditingBlockers(false)
+              setIsEditingPeople(false)
+            }}
+          />
+        </>
+      ) : viewMode === 'active' ? (
         activeTasks.length === 0 ? (
           <div className="empty-state">
             <h3>No active tasks</h3>
             <p>All tasks are completed! Check the Completed tab to see your completed work.</p>
           </div>
         ) : (
+          <>
+          {canBulkEdit && (
+            <>
+              <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem', marginBottom: '0.75rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                <input
+                  type="checkbox"
+                  checked={bulkSelectedTasks.length === activeTasks.length}
+                  onChange={(e) => setBulkSelectedIds(e.target.checked ? activeTasks.map((task) => task.id) : [])}
+                />
+                Select all
+              </label>
+              <BulkTaskActionBar selectedTasks={bulkSelectedTasks} onClearSelection={() => setBulkSelectedIds([])} />
+            </>
+          )}
           <div className="task-board">
             <div className="task-list">
               {activeTasks.map((task) => (
+            <div key={task.id} style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-start' }}>
+            {canBulkEdit && (
+              <input
+                type="checkbox"
+                checked={bulkSelectedIds.includes(task.id)}
+                onChange={() => toggleBulkSelected(task.id)}
+                aria-label={`Select ${task.title}`}
+                style={{ marginTop: '1.1rem' }}
+              />
+            )}
             <button
-              key={task.id}
               type="button"
               className={task.id === selectedTask?.id ? 'task-card active' : 'task-card'}
-              onClick={() => onSelect(task.id)}
+              style={{ flex: 1, minWidth: 0 }}
+              onClick={() => {
+                onSelect(task.id)
+                setIsEditingBlockers(false)
+                setIsEditingPeople(false)
+              }}
             >
               <div className="task-card-header">
                 <span className="task-id">{task.id}</span>
@@ -454,7 +657,19 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
               <h3>{task.title}</h3>
               <CollapsibleSummary summary={task.summary} />
               <div className="task-card-footer">
-                <span className={statusPillClass[task.status]}>{task.status}</span>
+                <span className={statusPillClass[task.status]}>
+                  {getTaskStage(task, getTaskWorkflow(task, departments).workflow)}
+                </span>
+                <TaskLabelChips task={task} />
+                <ChecklistProgress task={task} />
+                {getOpenBlockers(task, allTasks).length > 0 && (
+                  <span
+                    style={{ fontSize: '0.85rem', color: '#dc2626', fontWeight: 500 }}
+                    title="Waiting on blocking tasks"
+                  >
+                    🔒 Blocked
+                  </span>
+                )}
                 {(() => {
                   const deadline = getTimeUntilDeadline(task.dueDate, task.status)
                   return (
@@ -480,9 +695,11 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
                     </span>
                   )
                 })()}
-                <span>{task.assignee}</span>
+                <SlaBadge task={task} />
+                <span>{formatAssignees(task)}</span>
               </div>
             </button>
+            </div>
           ))}
         </div>
 
@@ -495,25 +712,15 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
             {selectedTask && (
               <div className="detail-meta" style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
                 {canEdit ? (
-                  <select
-                    value={selectedTask.status}
-                    onChange={(e) =>
-                      handleStatusChange(
-                        selectedTask.id,
-                        e.target.value as Task['status'],
-                      )
-                    }
+                  <TaskStageSelect
+                    task={selectedTask}
+                    onChange={(stage) => void handleStageChange(selectedTask.id, stage)}
                     disabled={updating === selectedTask.id}
                     className="status-select"
-                  >
-                    <option value="Backlog">Backlog</option>
-                    <option value="In Progress">In Progress</option>
-                    <option value="Review">Review</option>
-                    <option value="Completed">Completed</option>
-                  </select>
+                  />
                 ) : (
                   <span className={statusPillClass[selectedTask.status]}>
-                    {selectedTask.status}
+                    {getTaskStage(selectedTask, getTaskWorkflow(selectedTask, departments).workflow)}
                   </span>
                 )}
                 {canEdit ? (
@@ -564,10 +771,6 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
           </section>
 
           <section className="detail-grid">
-            <div>
-              <span className="section-label">Assignee</span>
-              <p>{selectedTask?.assignee}</p>
-            </div>
             <div>
               <span className="section-label">Department</span>
               <p>{selectedTask?.department}</p>
@@ -653,19 +856,218 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
                 <p style={{ margin: 0 }}>No due date</p>
               )}
             </div>
+            {selectedTask && selectedTask.status !== 'Completed' && selectedTask.createdAt && (
+              <div>
+                <span className="section-label">SLA</span>
+                <div>
+                  <SlaBadge task={selectedTask} />
+                </div>
+              </div>
+            )}
           </section>
 
-          {selectedTask?.blockers && selectedTask.blockers.length > 0 && (
+          {selectedTask && (
             <section className="detail-section">
-              <span className="section-label">Blockers</span>
-              <ul className="blocker-list">
-                {selectedTask.blockers.map((item) => (
-                  <li key={item}>{item}</li>
-                ))}
-              </ul>
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <span className="section-label">Assignees</span>
+                <div style={{ display: 'flex', gap: '0.5rem' }}>
+                  {user && (
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => void handleToggleWatch()}
+                      disabled={updating === selectedTask.id}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                      title="Watchers are notified when the status changes"
+                    >
+                      {isWatching ? 'Unwatch' : 'Watch'}
+                    </button>
+                  )}
+                  {canManagePeople && !isEditingPeople && (
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => {
+                        setAssigneeDraft(selectedTask.assigneeIds)
+                        setWatcherDraft(selectedTask.watcherIds)
+                        setIsEditingPeople(true)
+                      }}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                    >
+                      Edit
+                    </button>
+                  )}
+                </div>
+              </div>
+              {isEditingPeople && canManagePeople ? (
+                <div style={{
+                  padding: '0.75rem',
+                  background: 'var(--surface-elevated)',
+                  borderRadius: '0.5rem',
+                  border: '1px solid var(--border-soft)',
+                  display: 'grid',
+                  gap: '0.75rem',
+                }}>
+                  <div>
+                    <span className="section-label" style={{ display: 'block', marginBottom: '0.35rem' }}>Assignees</span>
+                    <UserPicker
+                      profiles={allUserProfiles}
+                      value={assigneeDraft}
+                      onChange={setAssigneeDraft}
+                      max={MAX_TASK_ASSIGNEES}
+                    />
+                  </div>
+                  <div>
+                    <span className="section-label" style={{ display: 'block', marginBottom: '0.35rem' }}>Watchers</span>
+                    <UserPicker
+                      profiles={allUserProfiles}
+                      value={watcherDraft}
+                      onChange={setWatcherDraft}
+                      max={MAX_TASK_WATCHERS}
+                    />
+                  </div>
+                  <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => setIsEditingPeople(false)}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      className="primary-button"
+                      onClick={handleSavePeople}
+                      disabled={updating === selectedTask.id}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  <p style={{ margin: 0 }}>{formatAssignees(selectedTask)}</p>
+                  <p style={{ margin: '0.35rem 0 0', color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                    {selectedTask.watcherIds.length === 0
+                      ? 'No watchers'
+                      : `Watched by ${selectedTask.watcherIds
+                          .map((id) => allUserProfiles.find((profile) => profile.id === id)?.displayName ?? 'Unknown')
+                          .join(', ')}`}
+                  </p>
+                </>
+              )}
+            </section>
+          )}
+
+          {selectedTask && (
+            <section className="detail-section">
+              <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+                <span className="section-label">Blocked By</span>
+                {canEdit && !isEditingBlockers && (
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => {
+                      setBlockerDraft(selectedTask.blockers ?? [])
+                      setIsEditingBlockers(true)
+                    }}
+                    style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                  >
+                    Edit
+                  </button>
+                )}
+              </div>
+              {isEditingBlockers && canEdit ? (
+                <div style={{
+                  padding: '0.75rem',
+                  background: 'var(--surface-elevated)',
+                  borderRadius: '0.5rem',
+                  border: '1px solid var(--border-soft)'
+                }}>
+                  <BlockerPicker
+                    tasks={allTasks}
+                    value={blockerDraft}
+                    onChange={setBlockerDraft}
+                    excludeTaskId={selectedTask.id}
+                  />
+                  <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end', marginTop: '0.5rem' }}>
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() => setIsEditingBlockers(false)}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      type="button"
+                      className="primary-button"
+                      onClick={handleSaveBlockers}
+                      disabled={updating === selectedTask.id}
+                      style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+                    >
+                      Save
+                    </button>
+                  </div>
+                </div>
+              ) : selectedTask.blockers && selectedTask.blockers.length > 0 ? (
+                <ul className="blocker-list">
+                  {selectedTask.blockers.map((blockerId) => {
+                    const blocker = allTasks.find((task) => task.id === blockerId)
+                    return (
+                      <li key={blockerId}>
+                        {blocker ? (
+                          <>
+                            {blocker.title}{' '}
+                            <span className={statusPillClass[blocker.status]} style={{ fontSize: '0.75rem' }}>
+                              {blocker.status}
+                            </span>{' '}
+                            <span style={{ color: 'var(--text-muted)' }}>{blocker.department}</span>
+                          </>
+                        ) : (
+                          blockerId
+                        )}
+                      </li>
+                    )
+                  })}
+                </ul>
+              ) : (
+                <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.85rem' }}>No blocking tasks</p>
+              )}
+              {selectedDependents.length > 0 && (
+                <>
+                  <span className="section-label" style={{ display: 'block', marginTop: '0.75rem' }}>Blocks</span>
+                  <ul className="blocker-list">
+                    {selectedDependents.map((dependent) => (
+                      <li key={dependent.id}>
+                        {dependent.title}{' '}
+                        <span style={{ color: 'var(--text-muted)' }}>
+                          {dependent.department} · {dependent.status}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
             </section>
           )}
 
+          {selectedTask && (
+            <TaskFieldsSection key={selectedTask.id} task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+          )}
+
+          {selectedTask && (
+            <TaskChecklist task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+          )}
+
+          {selectedTask && (
+            <TaskAttachments task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+          )}
+
+          {selectedTask && <TaskTimeTracker task={selectedTask} onError={setUpdateError} />}
+
           <section className="detail-section">
             <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
               <span className="section-label">File Links</span>
@@ -785,6 +1187,10 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
             )}
           </section>
 
+          {selectedTask && <TaskComments task={selectedTask} />}
+
+          {selectedTask && <TaskHistory taskId={selectedTask.id} />}
+
           <section className="detail-section">
             <span className="section-label">Next Actions</span>
             <ul className="todo-list">
@@ -795,6 +1201,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
           </section>
         </div>
         </div>
+          </>
           )
         ) : (
           // Completed Tasks Calendar View
@@ -930,7 +1337,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
                                     background: 'var(--surface-subtle)',
                                     borderRadius: '0.25rem'
                                   }}>
-                                    {task.assignee}
+                                    {formatAssignees(task)}
                                   </span>
                                 </div>
                               </button>
@@ -976,11 +1383,13 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
                     <p>{selectedTask?.department}</p>
                   </div>
                   <div>
-                    <span className="section-label">Assignee</span>
-                    <p>{selectedTask?.assignee}</p>
+                    <span className="section-label">Assignees</span>
+                    <p>{selectedTask && formatAssignees(selectedTask)}</p>
                   </div>
                 </section>
 
+                {selectedTask && <TaskAttachments task={selectedTask} canEdit={false} onError={setUpdateError} />}
+
                 {selectedTask?.fileUrls && selectedTask.fileUrls.length > 0 && (
                   <section className="detail-section">
                     <span className="section-label">File Links</span>
@@ -1007,6 +1416,10 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
                     </ul>
                   </section>
                 )}
+
+                {selectedTask && <TaskComments task={selectedTask} />}
+
+                {selectedTask && <TaskHistory taskId={selectedTask.id} />}
               </div>
             </div>
           )
@@ -1018,7 +1431,7 @@ export function TaskBoard({ tasks, selectedId, onSelect, onFilter }: TaskBoardPr
         onClose={() => setShowDeleteModal(false)}
         onVerify={handleDeleteTask}
         title="Delete Task"
-        message={`Are you sure you want to delete "${selectedTask?.title}"? This action cannot be undone.`}
+        message={`Are you sure you want to delete "${selectedTask?.title}"? It moves to the trash, where an admin can restore it.`}
       />
     </section>
   )
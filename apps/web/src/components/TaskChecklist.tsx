@@ -0,0 +1,233 @@
+import { useState } from 'react'
+import { useAppData, type ChecklistItem, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  MAX_CHECKLIST_ITEMS,
+  createChecklistItem,
+  getChecklistProgress,
+  setChecklistItemDone,
+  updateTaskChecklist,
+} from '../lib/checklist'
+import { toggleChecklistItem } from '../lib/functions'
+
+export function ChecklistProgress({ task }: { task: Task }) {
+  const { done, total, percent } = getChecklistProgress(task)
+  if (total === 0) return null
+
+  return (
+    <span
+      style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}
+      title={`${done} of ${total} checklist items done`}
+    >
+      <span
+        style={{
+          width: '48px',
+          height: '6px',
+          borderRadius: '3px',
+          background: 'var(--border-soft)',
+          overflow: 'hidden',
+        }}
+      >
+        <span
+          style={{
+            display: 'block',
+            width: `${percent}%`,
+            height: '100%',
+            background: done === total ? '#16a34a' : 'var(--accent)',
+          }}
+        />
+      </span>
+      {done}/{total}
+    </span>
+  )
+}
+
+type TaskChecklistProps = {
+  task: Task
+  canEdit: boolean
+  onError: (message: string | null) => void
+}
+
+export function TaskChecklist({ task, canEdit, onError }: TaskChecklistProps) {
+  const { firestore, updateTask, allUserProfiles, userProfile } = useAppData()
+  const { user } = useAuth()
+  const [newItemText, setNewItemText] = useState('')
+  const [saving, setSaving] = useState(false)
+  const items = task.checklist ?? []
+  const { done, total } = getChecklistProgress(task)
+
+  const save = async (operation: () => Promise<unknown>): Promise<boolean> => {
+    setSaving(true)
+    onError(null)
+    try {
+      await operation()
+      return true
+    } catch (error) {
+      console.error('Failed to update checklist', error)
+      onError('Failed to update checklist. Please try again.')
+      return false
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const changeChecklist = (change: (current: ChecklistItem[]) => ChecklistItem[]) =>
+    save(async () => {
+      if (!firestore || !user) throw new Error('Not signed in')
+      await updateTaskChecklist(firestore, task.id, user.uid, change)
+    })
+
+  // People assigned to an item can tick it even without edit access to the task; the
+  // toggleChecklistItem function checks the assignment
+  const canToggle = (item: ChecklistItem) => canEdit || Boolean(user && item.assigneeId === user.uid)
+
+  // Assignees can work through the checklist but not lift the requirement to finish it
+  const canRequire =
+    userProfile?.role === 'Admin' ||
+    userProfile?.role === 'Manager' ||
+    Boolean(userProfile?.isDepartmentHead && userProfile.department === task.department)
+
+  const handleToggle = (item: ChecklistItem) => {
+    if (canEdit) {
+      void changeChecklist((current) => setChecklistItemDone(current, item.id, !item.done))
+    } else {
+      void save(() => toggleChecklistItem({ taskId: task.id, itemId: item.id, done: !item.done }))
+    }
+  }
+
+  const handleAssign = (item: ChecklistItem, assigneeId: string) => {
+    const profile = allUserProfiles.find((p) => p.id === assigneeId)
+    void changeChecklist((current) =>
+      current.map((other) => (other.id === item.id ? { ...other, assigneeId, assignee: profile?.displayName ?? '' } : other)),
+    )
+  }
+
+  const handleAddItem = async () => {
+    const text = newItemText.trim()
+    if (!text) return
+    if (items.length >= MAX_CHECKLIST_ITEMS) {
+      onError(`A task can have at most ${MAX_CHECKLIST_ITEMS} checklist items.`)
+      return
+    }
+    const added = await changeChecklist((current) => [...current, createChecklistItem(text)].slice(0, MAX_CHECKLIST_ITEMS))
+    if (added) setNewItemText('')
+  }
+
+  return (
+    <section className="detail-section">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <span className="section-label">
+          Checklist {total > 0 && `(${done}/${total})`}
+        </span>
+        {canRequire && (
+          <label style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', fontSize: '0.8rem', color: 'var(--text-secondary)' }}>
+            <input
+              type="checkbox"
+              checked={task.requireChecklist ?? false}
+              onChange={(e) => void save(() => updateTask(task.id, { requireChecklist: e.target.checked }))}
+              disabled={saving}
+            />
+            Require before completing
+          </label>
+        )}
+      </div>
+
+      {items.length === 0 ? (
+        <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.85rem' }}>No checklist items</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.35rem' }}>
+          {items.map((item) => (
+            <li key={item.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem' }}>
+              <input
+                type="checkbox"
+                checked={item.done}
+                onChange={() => handleToggle(item)}
+                disabled={!canToggle(item) || saving}
+                aria-label={`Mark "${item.text}" as ${item.done ? 'not done' : 'done'}`}
+              />
+              <span
+                style={{
+                  flex: 1,
+                  textDecoration: item.done ? 'line-through' : 'none',
+                  color: item.done ? 'var(--text-muted)' : 'var(--text-primary)',
+                }}
+              >
+                {item.text}
+              </span>
+              {canEdit ? (
+                <select
+                  value={item.assigneeId ?? ''}
+                  onChange={(e) => handleAssign(item, e.target.value)}
+                  disabled={saving}
+                  style={{ fontSize: '0.8rem', padding: '0.2rem 0.35rem', maxWidth: '140px' }}
+                >
+                  <option value="">Unassigned</option>
+                  {allUserProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.displayName}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                item.assignee && <span style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>{item.assignee}</span>
+              )}
+              {canEdit && (
+                <button
+                  type="button"
+                  onClick={() => void changeChecklist((current) => current.filter((other) => other.id !== item.id))}
+                  disabled={saving}
+                  style={{
+                    background: 'none',
+                    border: 'none',
+                    color: 'var(--text-muted)',
+                    cursor: 'pointer',
+                    fontSize: '1rem',
+                    padding: 0,
+                  }}
+                  title="Remove item"
+                >
+                  ×
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+          <input
+            type="text"
+            value={newItemText}
+            onChange={(e) => setNewItemText(e.target.value)}
+            placeholder="Add a checklist item"
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault()
+                void handleAddItem()
+              }
+            }}
+            style={{
+              flex: 1,
+              padding: '0.5rem',
+              borderRadius: '0.375rem',
+              border: '1px solid var(--border-soft)',
+              fontSize: '0.875rem',
+              background: 'var(--surface-default)',
+              color: 'var(--text-primary)',
+            }}
+          />
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => void handleAddItem()}
+            disabled={saving || !newItemText.trim()}
+            style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+          >
+            Add
+          </button>
+        </div>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,261 @@
+import { useEffect, useMemo, useState } from 'react'
+import { addDoc, collection, deleteDoc, doc, onSnapshot, orderBy, query, serverTimestamp } from 'firebase/firestore'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { extractMentionIds, splitMentions } from '../lib/mentions'
+import { isTaskAssignee } from '../lib/taskAssignees'
+import { Avatar } from './Avatar'
+import { MentionInput } from './MentionInput'
+
+export type TaskComment = {
+  id: string
+  authorId: string
+  author: string
+  text: string
+  parentId: string | null
+  mentions: string[]
+  createdAt: Date
+}
+
+const MAX_COMMENT_LENGTH = 5000
+
+function formatCommentTime(date: Date): string {
+  const diffMinutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60))
+  if (diffMinutes < 1) return 'Just now'
+  if (diffMinutes < 60) return `${diffMinutes}m ago`
+  const diffHours = Math.floor(diffMinutes / 60)
+  if (diffHours < 24) return `${diffHours}h ago`
+  return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+type TaskCommentsProps = {
+  task: Task
+}
+
+export function TaskComments({ task }: TaskCommentsProps) {
+  const { firestore, userProfile, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [comments, setComments] = useState<TaskComment[]>([])
+  const [newComment, setNewComment] = useState('')
+  const [replyingTo, setReplyingTo] = useState<string | null>(null)
+  const [replyText, setReplyText] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // Mirrors the Firestore rule: commenting is limited to people who can see the task's department
+  const canComment = useMemo(() => {
+    if (!user || !userProfile) return false
+    if (userProfile.role === 'Admin' || userProfile.role === 'Manager') return true
+    if (userProfile.department === 'all' || userProfile.department === task.department) return true
+    return isTaskAssignee(task, user.uid) || task.createdBy === user.uid
+  }, [user, userProfile, task])
+
+  useEffect(() => {
+    if (!firestore || !canComment) return
+
+    const commentsQuery = query(collection(firestore, 'tasks', task.id, 'comments'), orderBy('createdAt', 'asc'))
+    const unsubscribe = onSnapshot(
+      commentsQuery,
+      (snapshot) => {
+        setComments(
+          snapshot.docs.map((docSnapshot) => {
+            const data = docSnapshot.data()
+            return {
+              id: docSnapshot.id,
+              authorId: data.authorId ?? '',
+              author: data.author ?? 'Unknown',
+              text: data.text ?? '',
+              parentId: data.parentId ?? null,
+              mentions: Array.isArray(data.mentions) ? data.mentions : [],
+              createdAt: data.createdAt?.toDate?.() ?? new Date(),
+            }
+          }),
+        )
+      },
+      (err) => {
+        console.error('Failed to load task comments', err)
+        setError('Failed to load comments.')
+      },
+    )
+
+    return () => {
+      unsubscribe()
+      setComments([])
+    }
+  }, [firestore, task.id, canComment])
+
+  const repliesByParent = useMemo(() => {
+    const grouped = new Map<string, TaskComment[]>()
+    comments.forEach((comment) => {
+      if (!comment.parentId) return
+      grouped.set(comment.parentId, [...(grouped.get(comment.parentId) ?? []), comment])
+    })
+    return grouped
+  }, [comments])
+
+  const topLevelComments = useMemo(() => comments.filter((comment) => !comment.parentId), [comments])
+
+  const postComment = async (text: string, parentId: string | null) => {
+    const trimmed = text.trim()
+    if (!firestore || !user || !userProfile || !trimmed) return false
+    if (trimmed.length > MAX_COMMENT_LENGTH) {
+      setError(`Comments can be at most ${MAX_COMMENT_LENGTH} characters.`)
+      return false
+    }
+
+    setPosting(true)
+    setError(null)
+    try {
+      await addDoc(collection(firestore, 'tasks', task.id, 'comments'), {
+        authorId: user.uid,
+        author: userProfile.displayName,
+        text: trimmed,
+        parentId,
+        // Mentioned users are notified by the onTaskCommentCreated Cloud Function
+        mentions: extractMentionIds(trimmed, allUserProfiles).filter((id) => id !== user.uid),
+        // The rules only accept the server's time, so comments cannot be backdated
+        createdAt: serverTimestamp(),
+      })
+      return true
+    } catch (err) {
+      console.error('Failed to post comment', err)
+      setError('Failed to post comment. Please try again.')
+      return false
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleDelete = async (commentId: string) => {
+    if (!firestore) return
+    try {
+      await deleteDoc(doc(firestore, 'tasks', task.id, 'comments', commentId))
+    } catch (err) {
+      console.error('Failed to delete comment', err)
+      setError('Failed to delete comment. Please try again.')
+    }
+  }
+
+  const canDeleteComment = (comment: TaskComment) =>
+    comment.authorId === user?.uid || userProfile?.role === 'Admin' || userProfile?.role === 'Manager'
+
+  const renderComment = (comment: TaskComment, isReply: boolean) => {
+    const authorProfile = allUserProfiles.find((profile) => profile.id === comment.authorId)
+    return (
+      <div key={comment.id} style={{ display: 'flex', gap: '0.5rem', marginLeft: isReply ? '2rem' : 0 }}>
+        <Avatar displayName={comment.author} profileImageUrl={authorProfile?.profileImageUrl} size="small" />
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'baseline', fontSize: '0.8rem' }}>
+            <strong style={{ color: 'var(--text-primary)' }}>{comment.author}</strong>
+            <span style={{ color: 'var(--text-muted)' }}>{formatCommentTime(comment.createdAt)}</span>
+          </div>
+          <p style={{ margin: '0.15rem 0', fontSize: '0.875rem', whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+            {splitMentions(comment.text, allUserProfiles).map((segment, index) =>
+              segment.userId ? (
+                <span key={index} style={{ color: 'var(--accent)', fontWeight: 600 }}>
+                  {segment.text}
+                </span>
+              ) : (
+                <span key={index}>{segment.text}</span>
+              ),
+            )}
+          </p>
+          <div style={{ display: 'flex', gap: '0.75rem', fontSize: '0.75rem' }}>
+            {!isReply && (
+              <button
+                type="button"
+                onClick={() => {
+                  setReplyingTo(replyingTo === comment.id ? null : comment.id)
+                  setReplyText('')
+                }}
+                style={{ background: 'none', border: 'none', padding: 0, color: 'var(--accent)', cursor: 'pointer' }}
+              >
+                Reply
+              </button>
+            )}
+            {canDeleteComment(comment) && (
+              <button
+                type="button"
+                onClick={() => handleDelete(comment.id)}
+                style={{ background: 'none', border: 'none', padding: 0, color: 'var(--text-muted)', cursor: 'pointer' }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    )
+  }
+
+  if (!canComment) {
+    return null
+  }
+
+  return (
+    <section className="detail-section">
+      <span className="section-label">Comments {comments.length > 0 && `(${comments.length})`}</span>
+      {error && <p className="login-error">{error}</p>}
+
+      <div style={{ display: 'grid', gap: '0.75rem', margin: '0.5rem 0' }}>
+        {topLevelComments.length === 0 && (
+          <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+            No comments yet. Use @ to mention a teammate.
+          </p>
+        )}
+        {topLevelComments.map((comment) => (
+          <div key={comment.id} style={{ display: 'grid', gap: '0.5rem' }}>
+            {renderComment(comment, false)}
+            {(repliesByParent.get(comment.id) ?? []).map((reply) => renderComment(reply, true))}
+            {replyingTo === comment.id && (
+              <div style={{ display: 'flex', gap: '0.5rem', marginLeft: '2rem' }}>
+                <MentionInput
+                  value={replyText}
+                  onChange={setReplyText}
+                  onSubmit={async () => {
+                    if (await postComment(replyText, comment.id)) {
+                      setReplyText('')
+                      setReplyingTo(null)
+                    }
+                  }}
+                  profiles={allUserProfiles}
+                  placeholder={`Reply to ${comment.author}`}
+                  disabled={posting}
+                  rows={1}
+                />
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'flex-end' }}>
+        <MentionInput
+          value={newComment}
+          onChange={setNewComment}
+          onSubmit={async () => {
+            if (await postComment(newComment, null)) {
+              setNewComment('')
+            }
+          }}
+          profiles={allUserProfiles}
+          placeholder="Write a comment… (@ to mention, Shift+Enter for a new line)"
+          disabled={posting}
+        />
+        <button
+          type="button"
+          className="primary-button"
+          onClick={async () => {
+            if (await postComment(newComment, null)) {
+              setNewComment('')
+            }
+          }}
+          disabled={posting || !newComment.trim()}
+          style={{ fontSize: '0.85rem', padding: '0.45rem 0.9rem' }}
+        >
+          {posting ? 'Posting…' : 'Comment'}
+        </button>
+      </div>
+    </section>
+  )
+}
@@ -0,0 +1,226 @@
+import { useState } from 'react'
+import { addDoc, collection, deleteDoc, doc } from 'firebase/firestore'
+import { useAppData, type CustomFieldDefinition, type TaskLabel } from '../context/AppDataContext'
+import { CUSTOM_FIELD_TYPES, LABEL_COLORS } from '../lib/taskFields'
+
+const FIELD_TYPE_LABELS: Record<CustomFieldDefinition['type'], string> = {
+  text: 'Text',
+  number: 'Number',
+  select: 'Select',
+  date: 'Date',
+}
+
+export function TaskFieldsEditor() {
+  const { firestore, taskLabels, customFieldDefinitions } = useAppData()
+  const [labelName, setLabelName] = useState('')
+  const [labelColor, setLabelColor] = useState(LABEL_COLORS[0])
+  const [fieldName, setFieldName] = useState('')
+  const [fieldType, setFieldType] = useState<CustomFieldDefinition['type']>('text')
+  const [fieldOptions, setFieldOptions] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const handleAddLabel = async () => {
+    if (!firestore) return
+    const name = labelName.trim()
+    if (!name) {
+      setError('Label name is required.')
+      return
+    }
+    if (taskLabels.some((label) => label.name.toLowerCase() === name.toLowerCase())) {
+      setError(`A label named "${name}" already exists.`)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await addDoc(collection(firestore, 'taskLabels'), { name, color: labelColor })
+      setLabelName('')
+    } catch (err) {
+      console.error('Failed to add label', err)
+      setError('Failed to add the label. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddField = async () => {
+    if (!firestore) return
+    const name = fieldName.trim()
+    const options = fieldOptions
+      .split(',')
+      .map((option) => option.trim())
+      .filter((option, index, all) => option.length > 0 && all.indexOf(option) === index)
+    if (!name) {
+      setError('Field name is required.')
+      return
+    }
+    if (fieldType === 'select' && options.length < 2) {
+      setError('A select field needs at least two comma-separated options.')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await addDoc(collection(firestore, 'taskCustomFields'), {
+        name,
+        type: fieldType,
+        options: fieldType === 'select' ? options : [],
+        order: customFieldDefinitions.length,
+      })
+      setFieldName('')
+      setFieldOptions('')
+    } catch (err) {
+      console.error('Failed to add custom field', err)
+      setError('Failed to add the custom field. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (collectionName: 'taskLabels' | 'taskCustomFields', item: TaskLabel | CustomFieldDefinition) => {
+    if (!firestore) return
+    if (!window.confirm(`Delete "${item.name}"? Tasks keep their stored values but they will no longer be shown.`)) return
+    setError(null)
+    try {
+      await deleteDoc(doc(firestore, collectionName, item.id))
+    } catch (err) {
+      console.error('Failed to delete task field', err)
+      setError(`Failed to delete "${item.name}". Please try again.`)
+    }
+  }
+
+  return (
+    <div className="summary-list">
+      <div className="summary-card" style={{ padding: '1.5rem' }}>
+        <span className="section-label">Labels</span>
+        {taskLabels.length === 0 ? (
+          <p style={{ color: 'var(--text-muted)', margin: '0.5rem 0 1rem', fontSize: '0.9rem' }}>No labels yet</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0, margin: '0.75rem 0 1rem', display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+            {taskLabels.map((label) => (
+              <li key={label.id} className="tag" style={{ borderColor: label.color }}>
+                <span style={{ width: '0.6rem', height: '0.6rem', borderRadius: '50%', background: label.color }} />
+                {label.name}
+                <button
+                  type="button"
+                  onClick={() => void handleDelete('taskLabels', label)}
+                  style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: 0 }}
+                  aria-label={`Delete label ${label.name}`}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={labelName}
+            onChange={(e) => setLabelName(e.target.value)}
+            placeholder="New label"
+            maxLength={40}
+            style={{ flex: 1, minWidth: '160px' }}
+          />
+          <div style={{ display: 'flex', gap: '0.25rem' }}>
+            {LABEL_COLORS.map((color) => (
+              <button
+                key={color}
+                type="button"
+                onClick={() => setLabelColor(color)}
+                style={{
+                  width: '1.25rem',
+                  height: '1.25rem',
+                  borderRadius: '50%',
+                  background: color,
+                  border: labelColor === color ? '2px solid var(--text-primary)' : '2px solid transparent',
+                  cursor: 'pointer',
+                  padding: 0,
+                }}
+                aria-label={`Use color ${color}`}
+                aria-pressed={labelColor === color}
+              />
+            ))}
+          </div>
+          <button type="button" className="primary-button" onClick={() => void handleAddLabel()} disabled={saving}>
+            Add Label
+          </button>
+        </div>
+      </div>
+
+      <div className="summary-card" style={{ padding: '1.5rem' }}>
+        <span className="section-label">Custom Fields</span>
+        {customFieldDefinitions.length === 0 ? (
+          <p style={{ color: 'var(--text-muted)', margin: '0.5rem 0 1rem', fontSize: '0.9rem' }}>No custom fields yet</p>
+        ) : (
+          <ul style={{ listStyle: 'none', padding: 0, margin: '0.75rem 0 1rem', display: 'grid', gap: '0.5rem' }}>
+            {customFieldDefinitions.map((field) => (
+              <li
+                key={field.id}
+                style={{
+                  display: 'flex',
+                  justifyContent: 'space-between',
+                  alignItems: 'center',
+                  padding: '0.5rem 0.75rem',
+                  background: 'var(--surface-elevated)',
+                  borderRadius: '0.5rem',
+                  border: '1px solid var(--border-soft)',
+                }}
+              >
+                <span>
+                  <strong>{field.name}</strong>{' '}
+                  <span style={{ color: 'var(--text-muted)', fontSize: '0.85rem' }}>
+                    {FIELD_TYPE_LABELS[field.type]}
+                    {field.type === 'select' && ` · ${field.options.join(', ')}`}
+                  </span>
+                </span>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => void handleDelete('taskCustomFields', field)}
+                  style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem', color: '#dc2626', borderColor: '#dc2626' }}
+                >
+                  Delete
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            type="text"
+            value={fieldName}
+            onChange={(e) => setFieldName(e.target.value)}
+            placeholder="New field name"
+            maxLength={40}
+            style={{ flex: 1, minWidth: '160px' }}
+          />
+          <select value={fieldType} onChange={(e) => setFieldType(e.target.value as CustomFieldDefinition['type'])}>
+            {CUSTOM_FIELD_TYPES.map((type) => (
+              <option key={type} value={type}>
+                {FIELD_TYPE_LABELS[type]}
+              </option>
+            ))}
+          </select>
+          {fieldType === 'select' && (
+            <input
+              type="text"
+              value={fieldOptions}
+              onChange={(e) => setFieldOptions(e.target.value)}
+              placeholder="Options, comma-separated"
+              style={{ flex: 1, minWidth: '180px' }}
+            />
+          )}
+          <button type="button" className="primary-button" onClick={() => void handleAddField()} disabled={saving}>
+            Add Field
+          </button>
+        </div>
+      </div>
+
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,217 @@
+import { useState } from 'react'
+import { useAppData, type CustomFieldValue, type Task } from '../context/AppDataContext'
+import { MAX_TASK_LABELS, formatCustomFieldValue, parseCustomFieldInput } from '../lib/taskFields'
+
+type TaskFieldsSectionProps = {
+  task: Task
+  canEdit: boolean
+  onError: (message: string | null) => void
+}
+
+export function TaskFieldsSection({ task, canEdit, onError }: TaskFieldsSectionProps) {
+  const { taskLabels, customFieldDefinitions, updateTask } = useAppData()
+  const [isEditing, setIsEditing] = useState(false)
+  const [labelDraft, setLabelDraft] = useState<string[]>([])
+  const [fieldDraft, setFieldDraft] = useState<Record<string, string>>({})
+  const [saving, setSaving] = useState(false)
+
+  if (taskLabels.length === 0 && customFieldDefinitions.length === 0) {
+    return null
+  }
+
+  const taskLabelList = taskLabels.filter((label) => (task.labels ?? []).includes(label.id))
+
+  const startEditing = () => {
+    setLabelDraft(task.labels ?? [])
+    setFieldDraft(
+      Object.fromEntries(
+        customFieldDefinitions.map((field) => {
+          const value = task.customFields?.[field.id]
+          return [field.id, value === null || value === undefined ? '' : String(value)]
+        }),
+      ),
+    )
+    setIsEditing(true)
+  }
+
+  const handleSave = async () => {
+    // Labels and fields that were deleted from the workspace are dropped on save
+    const labels = labelDraft.filter((labelId) => taskLabels.some((label) => label.id === labelId))
+    if (labels.length > MAX_TASK_LABELS) {
+      onError(`A task can have at most ${MAX_TASK_LABELS} labels.`)
+      return
+    }
+    const customFields: Record<string, CustomFieldValue> = {}
+    for (const field of customFieldDefinitions) {
+      const raw = fieldDraft[field.id] ?? ''
+      const value = parseCustomFieldInput(field, raw)
+      if (field.type === 'number' && raw.trim() && value === null) {
+        onError(`${field.name} must be a number.`)
+        return
+      }
+      if (value !== null) {
+        customFields[field.id] = value
+      }
+    }
+
+    setSaving(true)
+    onError(null)
+    try {
+      await updateTask(task.id, { labels, customFields })
+      setIsEditing(false)
+    } catch (err) {
+      console.error('Failed to update task labels and fields', err)
+      onError('Failed to update labels and fields. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <section className="detail-section">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <span className="section-label">Labels &amp; Fields</span>
+        {canEdit && !isEditing && (
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={startEditing}
+            style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+          >
+            Edit
+          </button>
+        )}
+      </div>
+
+      {isEditing ? (
+        <div
+          style={{
+            padding: '0.75rem',
+            background: 'var(--surface-elevated)',
+            borderRadius: '0.5rem',
+            border: '1px solid var(--border-soft)',
+            display: 'grid',
+            gap: '0.75rem',
+          }}
+        >
+          {taskLabels.length > 0 && (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.5rem' }}>
+              {taskLabels.map((label) => (
+                <label key={label.id} className="tag" style={{ cursor: 'pointer', borderColor: label.color }}>
+                  <input
+                    type="checkbox"
+                    checked={labelDraft.includes(label.id)}
+                    onChange={(e) =>
+                      setLabelDraft(
+                        e.target.checked ? [...labelDraft, label.id] : labelDraft.filter((id) => id !== label.id),
+                      )
+                    }
+                  />
+                  {label.name}
+                </label>
+              ))}
+            </div>
+          )}
+          {customFieldDefinitions.map((field) => (
+            <label key={field.id} style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+              {field.name}
+              {field.type === 'select' ? (
+                <select
+                  value={fieldDraft[field.id] ?? ''}
+                  onChange={(e) => setFieldDraft({ ...fieldDraft, [field.id]: e.target.value })}
+                >
+                  <option value="">—</option>
+                  {field.options.map((option) => (
+                    <option key={option} value={option}>
+                      {option}
+                    </option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  type={field.type}
+                  value={fieldDraft[field.id] ?? ''}
+                  onChange={(e) => setFieldDraft({ ...fieldDraft, [field.id]: e.target.value })}
+                />
+              )}
+            </label>
+          ))}
+          <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => setIsEditing(false)}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              className="primary-button"
+              onClick={() => void handleSave()}
+              disabled={saving}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+            >
+              Save
+            </button>
+          </div>
+        </div>
+      ) : (
+        <>
+          {taskLabelList.length > 0 ? (
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem', marginBottom: '0.5rem' }}>
+              {taskLabelList.map((label) => (
+                <span key={label.id} className="tag" style={{ borderColor: label.color, color: label.color }}>
+                  {label.name}
+                </span>
+              ))}
+            </div>
+          ) : (
+            taskLabels.length > 0 && (
+              <p style={{ margin: '0 0 0.5rem', color: 'var(--text-muted)', fontSize: '0.85rem' }}>No labels</p>
+            )
+          )}
+          {customFieldDefinitions.length > 0 && (
+            <dl style={{ display: 'grid', gridTemplateColumns: 'auto 1fr', gap: '0.25rem 1rem', margin: 0, fontSize: '0.9rem' }}>
+              {customFieldDefinitions.map((field) => (
+                <div key={field.id} style={{ display: 'contents' }}>
+                  <dt style={{ color: 'var(--text-muted)' }}>{field.name}</dt>
+                  <dd style={{ margin: 0 }}>{formatCustomFieldValue(field, task.customFields?.[field.id])}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </>
+      )}
+    </section>
+  )
+}
+
+/**
+ * Compact label chips for task cards
+ */
+export function TaskLabelChips({ task }: { task: Task }) {
+  const { taskLabels } = useAppData()
+  const labels = taskLabels.filter((label) => (task.labels ?? []).includes(label.id))
+  if (labels.length === 0) return null
+
+  return (
+    <span style={{ display: 'inline-flex', flexWrap: 'wrap', gap: '0.25rem' }}>
+      {labels.map((label) => (
+        <span
+          key={label.id}
+          style={{
+            padding: '0.1rem 0.45rem',
+            borderRadius: '999px',
+            border: `1px solid ${label.color}`,
+            color: label.color,
+            fontSize: '0.7rem',
+            fontWeight: 500,
+          }}
+        >
+          {label.name}
+        </span>
+      ))}
+    </span>
+  )
+}
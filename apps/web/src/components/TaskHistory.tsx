@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react'
+import { collection, onSnapshot, query, where } from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import { describeTaskEvent, parseTaskEvent, type TaskEvent } from '../lib/taskEvents'
+
+const COLLAPSED_EVENT_COUNT = 5
+
+function formatEventTime(date: Date): string {
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+export function TaskHistory({ taskId }: { taskId: string }) {
+  const { firestore } = useAppData()
+  const [events, setEvents] = useState<TaskEvent[]>([])
+  const [showAll, setShowAll] = useState(false)
+
+  useEffect(() => {
+    if (!firestore) return
+
+    // Sorted client-side to avoid a composite index on taskId + at
+    const eventsQuery = query(collection(firestore, 'taskEvents'), where('taskId', '==', taskId))
+    const unsubscribe = onSnapshot(
+      eventsQuery,
+      (snapshot) => {
+        const loaded = snapshot.docs.map((docSnapshot) => parseTaskEvent(docSnapshot.id, docSnapshot.data()))
+        loaded.sort((a, b) => b.at.getTime() - a.at.getTime())
+        setEvents(loaded)
+      },
+      (error) => {
+        console.error('Failed to load task history', error)
+      },
+    )
+
+    return () => {
+      unsubscribe()
+      setEvents([])
+      setShowAll(false)
+    }
+  }, [firestore, taskId])
+
+  if (events.length === 0) {
+    return null
+  }
+
+  const visibleEvents = showAll ? events : events.slice(0, COLLAPSED_EVENT_COUNT)
+
+  return (
+    <section className="detail-section">
+      <span className="section-label">History</span>
+      <ol style={{ listStyle: 'none', margin: '0.5rem 0 0', padding: 0, borderLeft: '2px solid var(--border-soft)' }}>
+        {visibleEvents.map((event) => (
+          <li key={event.id} style={{ position: 'relative', padding: '0 0 0.75rem 1rem', fontSize: '0.85rem' }}>
+            <span
+              style={{
+                position: 'absolute',
+                left: '-5px',
+                top: '0.35rem',
+                width: '8px',
+                height: '8px',
+                borderRadius: '50%',
+                background: event.type === 'created' ? 'var(--accent)' : 'var(--border-strong)',
+              }}
+            />
+            <div>
+              <strong>{event.actorName}</strong> {describeTaskEvent(event)}
+            </div>
+            <div style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }}>{formatEventTime(event.at)}</div>
+          </li>
+        ))}
+      </ol>
+      {events.length > COLLAPSED_EVENT_COUNT && (
+        <button
+          type="button"
+          onClick={() => setShowAll(!showAll)}
+          style={{
+            background: 'none',
+            border: 'none',
+            color: 'var(--accent)',
+            cursor: 'pointer',
+            padding: 0,
+            fontSize: '0.8rem',
+          }}
+        >
+          {showAll ? 'Show less' : `Show all ${events.length} events`}
+        </button>
+      )}
+    </section>
+  )
+}
@@ -0,0 +1,297 @@
+import { useMemo, useState, type ChangeEvent } from 'react'
+import { collection, doc, Timestamp, writeBatch } from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { buildAssigneeFields } from '../lib/taskAssignees'
+import {
+  TASK_IMPORT_FIELDS,
+  buildTaskImportRows,
+  guessTaskImportMapping,
+  parseCsv,
+  type TaskImportField,
+  type TaskImportMapping,
+  type TaskImportRow,
+} from '../lib/taskCsv'
+
+type TaskImportWizardProps = {
+  onClose: () => void
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'done'
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500
+
+// Preview rows shown at once; every row is still validated and imported
+const PREVIEW_LIMIT = 200
+
+export function TaskImportWizard({ onClose }: TaskImportWizardProps) {
+  const { firestore, departments, allUserProfiles, tasks, userProfile } = useAppData()
+  const { user } = useAuth()
+  const [step, setStep] = useState<Step>('upload')
+  const [fileName, setFileName] = useState('')
+  const [headers, setHeaders] = useState<string[]>([])
+  const [dataRows, setDataRows] = useState<string[][]>([])
+  const [mapping, setMapping] = useState<TaskImportMapping | null>(null)
+  const [showErrorsOnly, setShowErrorsOnly] = useState(false)
+  const [importing, setImporting] = useState(false)
+  const [importedCount, setImportedCount] = useState(0)
+  const [error, setError] = useState<string | null>(null)
+
+  // Department heads may only create tasks in their own department
+  const restrictToDepartment =
+    userProfile && userProfile.role !== 'Admin' && userProfile.role !== 'Manager' ? userProfile.department : undefined
+
+  const importRows = useMemo<TaskImportRow[]>(
+    () =>
+      mapping
+        ? buildTaskImportRows(dataRows, mapping, {
+            departments,
+            profiles: allUserProfiles,
+            existingTaskIds: new Set(tasks.map((task) => task.id)),
+            restrictToDepartment,
+          })
+        : [],
+    [dataRows, mapping, departments, allUserProfiles, tasks, restrictToDepartment],
+  )
+  const validRows = importRows.filter((row) => row.errors.length === 0)
+  const invalidCount = importRows.length - validRows.length
+  const previewRows = (showErrorsOnly ? importRows.filter((row) => row.errors.length > 0) : importRows).slice(0, PREVIEW_LIMIT)
+
+  const handleFileChange = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    if (!file) return
+    setError(null)
+    try {
+      const [headerRow, ...rows] = parseCsv(await file.text())
+      if (!headerRow || rows.length === 0) {
+        setError('The file needs a header row and at least one task row.')
+        return
+      }
+      setFileName(file.name)
+      setHeaders(headerRow.map((header) => header.trim()))
+      setDataRows(rows)
+      setMapping(guessTaskImportMapping(headerRow))
+      setStep('map')
+    } catch (err) {
+      console.error('Failed to read CSV file', err)
+      setError('Failed to read the file. Please check it is a CSV file.')
+    }
+  }
+
+  const handleMappingChange = (field: TaskImportField, value: string) => {
+    if (!mapping) return
+    setMapping({ ...mapping, [field]: value === '' ? null : Number(value) })
+  }
+
+  const handleImport = async () => {
+    if (!firestore || !user || validRows.length === 0) return
+    setImporting(true)
+    setError(null)
+    let imported = 0
+    try {
+      for (let start = 0; start < validRows.length; start += MAX_BATCH_WRITES) {
+        const batch = writeBatch(firestore)
+        validRows.slice(start, start + MAX_BATCH_WRITES).forEach((row) => {
+          const taskData: Record<string, unknown> = {
+            title: row.title,
+            department: row.department,
+            ...buildAssigneeFields(row.assigneeIds, allUserProfiles),
+            watcherIds: [],
+            dueDate: row.dueDate || null,
+            summary: row.summary,
+            status: row.status,
+            priority: row.priority,
+            createdAt: Timestamp.now(),
+            createdBy: user.uid,
+          }
+          if (row.status === 'Completed') {
+            taskData.completedAt = new Date().toISOString()
+          }
+          batch.set(doc(collection(firestore, 'tasks')), taskData)
+        })
+        await batch.commit()
+        imported += Math.min(MAX_BATCH_WRITES, validRows.length - start)
+      }
+      setImportedCount(imported)
+      setStep('done')
+    } catch (err) {
+      console.error('Failed to import tasks', err)
+      // Earlier batches are already saved, so say how far the import got
+      setImportedCount(imported)
+      setError(
+        imported > 0
+          ? `Imported ${imported} of ${validRows.length} tasks before an error stopped the import. Remove the first ${imported} valid rows from the file before trying again.`
+          : 'Failed to import tasks. Please try again.',
+      )
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  return (
+    <div className="modal-backdrop" role="presentation">
+      <div
+        className="modal modal-large"
+        role="dialog"
+        aria-modal="true"
+        onClick={(e) => e.stopPropagation()}
+        style={{ maxHeight: '90vh', overflow: 'auto' }}
+      >
+        <header className="modal-header">
+          <div>
+            <h2>Import Tasks from CSV</h2>
+            <p>
+              {step === 'upload' && 'Upload a CSV file, such as one exported from this page.'}
+              {step === 'map' && `Choose which column of ${fileName} holds each task field.`}
+              {step === 'preview' && 'Check the rows before importing. Rows with problems are skipped.'}
+              {step === 'done' && 'Import finished.'}
+            </p>
+          </div>
+          <button type="button" className="ghost-button" onClick={onClose} disabled={importing}>
+            Close
+          </button>
+        </header>
+
+        <div className="modal-form" style={{ padding: '1.5rem', display: 'grid', gap: '1rem' }}>
+          {step === 'upload' && (
+            <label>
+              <span>CSV file</span>
+              <input type="file" accept=".csv,text/csv" onChange={(e) => void handleFileChange(e)} />
+            </label>
+          )}
+
+          {step === 'map' && mapping && (
+            <>
+              <div style={{ display: 'grid', gridTemplateColumns: 'repeat(auto-fill, minmax(220px, 1fr))', gap: '0.75rem' }}>
+                {(Object.keys(TASK_IMPORT_FIELDS) as TaskImportField[]).map((field) => (
+                  <label key={field}>
+                    <span>
+                      {TASK_IMPORT_FIELDS[field]}
+                      {field === 'title' || field === 'department' ? ' *' : ''}
+                    </span>
+                    <select
+                      value={mapping[field] ?? ''}
+                      onChange={(e) => handleMappingChange(field, e.target.value)}
+                    >
+                      <option value="">Not in file</option>
+                      {headers.map((header, index) => (
+                        <option key={index} value={index}>
+                          {header || `Column ${index + 1}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                ))}
+              </div>
+              <p style={{ margin: 0, fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                Assignees are matched by email or display name; separate several with commas. Missing statuses start
+                in Backlog and missing priorities are Medium. Rows whose existing task ID is already in the workspace
+                are skipped, so re-importing an export does not duplicate tasks.
+              </p>
+              <footer className="modal-footer">
+                <button type="button" className="ghost-button" onClick={() => setStep('upload')}>
+                  Back
+                </button>
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={() => setStep('preview')}
+                  disabled={mapping.title === null || mapping.department === null}
+                >
+                  Preview {dataRows.length} row{dataRows.length === 1 ? '' : 's'}
+                </button>
+              </footer>
+            </>
+          )}
+
+          {step === 'preview' && (
+            <>
+              <div style={{ display: 'flex', gap: '1rem', alignItems: 'center', flexWrap: 'wrap', fontSize: '0.9rem' }}>
+                <strong>{validRows.length} ready to import</strong>
+                {invalidCount > 0 && <span style={{ color: '#dc2626' }}>{invalidCount} with problems</span>}
+                {invalidCount > 0 && (
+                  <label style={{ display: 'inline-flex', gap: '0.35rem', alignItems: 'center' }}>
+                    <input type="checkbox" checked={showErrorsOnly} onChange={(e) => setShowErrorsOnly(e.target.checked)} />
+                    Only show rows with problems
+                  </label>
+                )}
+              </div>
+              <div style={{ overflow: 'auto', border: '1px solid var(--border-soft)', borderRadius: '0.5rem' }}>
+                <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+                  <thead>
+                    <tr style={{ background: 'var(--surface-elevated)', textAlign: 'left' }}>
+                      {['Row', 'Title', 'Status', 'Priority', 'Department', 'Assignees', 'Due', 'Problems'].map((label) => (
+                        <th key={label} style={{ padding: '0.5rem' }}>
+                          {label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previewRows.map((row) => (
+                      <tr
+                        key={row.rowNumber}
+                        style={{
+                          borderTop: '1px solid var(--border-soft)',
+                          background: row.errors.length > 0 ? '#dc262610' : undefined,
+                        }}
+                      >
+                        <td style={{ padding: '0.5rem' }}>{row.rowNumber}</td>
+                        <td style={{ padding: '0.5rem' }}>{row.title}</td>
+                        <td style={{ padding: '0.5rem' }}>{row.status}</td>
+                        <td style={{ padding: '0.5rem' }}>{row.priority}</td>
+                        <td style={{ padding: '0.5rem' }}>{row.department}</td>
+                        <td style={{ padding: '0.5rem' }}>
+                          {row.assigneeIds
+                            .map((id) => allUserProfiles.find((profile) => profile.id === id)?.displayName ?? id)
+                            .join(', ') || 'Unassigned'}
+                        </td>
+                        <td style={{ padding: '0.5rem' }}>{row.dueDate || '—'}</td>
+                        <td style={{ padding: '0.5rem', color: '#dc2626' }}>{row.errors.join(' ')}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+              {importRows.length > PREVIEW_LIMIT && (
+                <p style={{ margin: 0, fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                  Showing the first {PREVIEW_LIMIT} rows.
+                </p>
+              )}
+              <footer className="modal-footer">
+                <button type="button" className="ghost-button" onClick={() => setStep('map')} disabled={importing}>
+                  Back
+                </button>
+                <button
+                  type="button"
+                  className="primary-button"
+                  onClick={() => void handleImport()}
+                  disabled={importing || validRows.length === 0}
+                >
+                  {importing ? 'Importing...' : `Import ${validRows.length} task${validRows.length === 1 ? '' : 's'}`}
+                </button>
+              </footer>
+            </>
+          )}
+
+          {step === 'done' && (
+            <>
+              <p style={{ margin: 0 }}>
+                Imported {importedCount} task{importedCount === 1 ? '' : 's'}
+                {invalidCount > 0 && `; ${invalidCount} row${invalidCount === 1 ? ' was' : 's were'} skipped`}.
+              </p>
+              <footer className="modal-footer">
+                <button type="button" className="primary-button" onClick={onClose}>
+                  Done
+                </button>
+              </footer>
+            </>
+          )}
+
+          {error && <p className="login-error">{error}</p>}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,44 @@
+import type { CSSProperties } from 'react'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { BLOCKED_STATUSES, getOpenBlockers } from '../lib/taskDependencies'
+import { getNextStages, getTaskStage, getTaskWorkflow } from '../lib/workflows'
+
+type TaskStageSelectProps = {
+  task: Task
+  onChange: (stage: string) => void
+  disabled?: boolean
+  className?: string
+  style?: CSSProperties
+}
+
+/**
+ * Status dropdown that follows the task's department workflow: it offers the current stage
+ * and the stages the workflow allows moving to from it
+ */
+export function TaskStageSelect({ task, onChange, disabled, className, style }: TaskStageSelectProps) {
+  const { departments, tasks } = useAppData()
+  const { workflow } = getTaskWorkflow(task, departments)
+  const currentStage = getTaskStage(task, workflow)
+  const isBlocked = getOpenBlockers(task, tasks).length > 0
+
+  return (
+    <select
+      value={currentStage}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className={className}
+      style={style}
+    >
+      <option value={currentStage}>{currentStage}</option>
+      {getNextStages(task, workflow).map((stage) => (
+        <option
+          key={stage}
+          value={stage}
+          disabled={isBlocked && BLOCKED_STATUSES.includes(workflow.categories[stage])}
+        >
+          {stage}
+        </option>
+      ))}
+    </select>
+  )
+}
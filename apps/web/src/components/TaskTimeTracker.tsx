@@ -0,0 +1,355 @@
+import { useEffect, useMemo, useState } from 'react'
+import { addDoc, collection, deleteDoc, doc, onSnapshot, query, updateDoc, where } from 'firebase/firestore'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  MAX_ENTRY_MINUTES,
+  formatMinutes,
+  getEntryMinutes,
+  getWeekStart,
+  parseTimeEntry,
+  parseTimesheet,
+  toLocalDateKey,
+  type TimeEntry,
+} from '../lib/timeTracking'
+
+type TaskTimeTrackerProps = {
+  task: Task
+  onError: (message: string | null) => void
+}
+
+export function TaskTimeTracker({ task, onError }: TaskTimeTrackerProps) {
+  const { firestore, userProfile } = useAppData()
+  const { user } = useAuth()
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [lockedWeeks, setLockedWeeks] = useState<Set<string>>(new Set())
+  const [now, setNow] = useState(() => Date.now())
+  const [saving, setSaving] = useState(false)
+  const [isAddingManual, setIsAddingManual] = useState(false)
+  const [manualDate, setManualDate] = useState(() => toLocalDateKey(new Date()))
+  const [manualHours, setManualHours] = useState('')
+  const [manualMinutes, setManualMinutes] = useState('')
+  const [manualNote, setManualNote] = useState('')
+
+  const canTrack = Boolean(user && userProfile && userProfile.role !== 'Viewer')
+
+  // All of the user's entries, so a timer running on another task can be stopped when this one starts
+  useEffect(() => {
+    if (!firestore || !user || !canTrack) return
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, 'timeEntries'), where('userId', '==', user.uid)),
+      (snapshot) => setEntries(snapshot.docs.map((docSnapshot) => parseTimeEntry(docSnapshot.id, docSnapshot.data()))),
+      (err) => {
+        console.error('Failed to load time entries', err)
+        onError('Failed to load time entries.')
+      },
+    )
+    return () => unsubscribe()
+  }, [firestore, user, canTrack, onError])
+
+  // Weeks that are submitted or approved can no longer be changed
+  useEffect(() => {
+    if (!firestore || !user || !canTrack) return
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, 'timesheets'), where('userId', '==', user.uid)),
+      (snapshot) => {
+        const locked = snapshot.docs
+          .map((docSnapshot) => parseTimesheet(docSnapshot.id, docSnapshot.data()))
+          .filter((timesheet) => timesheet.status !== 'Rejected')
+          .map((timesheet) => timesheet.weekStart)
+        setLockedWeeks(new Set(locked))
+      },
+      (err) => console.error('Failed to load timesheets', err),
+    )
+    return () => unsubscribe()
+  }, [firestore, user, canTrack])
+
+  const runningEntry = useMemo(() => entries.find((entry) => entry.endedAt === null), [entries])
+
+  useEffect(() => {
+    if (!runningEntry) return
+    const interval = setInterval(() => setNow(Date.now()), 1000)
+    return () => clearInterval(interval)
+  }, [runningEntry])
+
+  const taskEntries = useMemo(
+    () =>
+      entries
+        .filter((entry) => entry.taskId === task.id)
+        .sort((a, b) => b.date.localeCompare(a.date) || b.startedAt.localeCompare(a.startedAt)),
+    [entries, task.id],
+  )
+
+  const totalMinutes = taskEntries.reduce((total, entry) => total + getEntryMinutes(entry, now), 0)
+  const isRunningHere = runningEntry?.taskId === task.id
+
+  const stopEntry = async (entry: TimeEntry) => {
+    if (!firestore) return
+    const minutes = Math.min(MAX_ENTRY_MINUTES, Math.max(1, Math.round(getEntryMinutes(entry))))
+    await updateDoc(doc(firestore, 'timeEntries', entry.id), {
+      endedAt: new Date().toISOString(),
+      minutes,
+    })
+  }
+
+  const handleStart = async () => {
+    if (!firestore || !user || !userProfile) return
+    const startDate = new Date()
+    const weekStart = getWeekStart(startDate)
+    if (lockedWeeks.has(weekStart)) {
+      onError("This week's timesheet has already been submitted.")
+      return
+    }
+    setSaving(true)
+    onError(null)
+    try {
+      if (runningEntry) {
+        await stopEntry(runningEntry)
+      }
+      await addDoc(collection(firestore, 'timeEntries'), {
+        userId: user.uid,
+        userName: userProfile.displayName,
+        department: userProfile.department,
+        taskId: task.id,
+        taskTitle: task.title,
+        date: toLocalDateKey(startDate),
+        weekStart,
+        startedAt: startDate.toISOString(),
+        endedAt: null,
+        minutes: 0,
+        note: '',
+        source: 'timer',
+      })
+    } catch (err) {
+      console.error('Failed to start timer', err)
+      onError('Failed to start the timer. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleStop = async () => {
+    if (!runningEntry) return
+    setSaving(true)
+    onError(null)
+    try {
+      await stopEntry(runningEntry)
+    } catch (err) {
+      console.error('Failed to stop timer', err)
+      onError('Failed to stop the timer. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleAddManual = async () => {
+    if (!firestore || !user || !userProfile) return
+    const minutes = (Number(manualHours) || 0) * 60 + (Number(manualMinutes) || 0)
+    if (!manualDate || !Number.isFinite(minutes) || minutes <= 0 || minutes > MAX_ENTRY_MINUTES) {
+      onError('Enter a date and a duration between 1 minute and 24 hours.')
+      return
+    }
+    const [year, month, day] = manualDate.split('-').map(Number)
+    const weekStart = getWeekStart(new Date(year, month - 1, day))
+    if (lockedWeeks.has(weekStart)) {
+      onError('The timesheet for that week has already been submitted.')
+      return
+    }
+
+    setSaving(true)
+    onError(null)
+    try {
+      const loggedAt = new Date().toISOString()
+      await addDoc(collection(firestore, 'timeEntries'), {
+        userId: user.uid,
+        userName: userProfile.displayName,
+        department: userProfile.department,
+        taskId: task.id,
+        taskTitle: task.title,
+        date: manualDate,
+        weekStart,
+        startedAt: loggedAt,
+        endedAt: loggedAt,
+        minutes: Math.round(minutes),
+        note: manualNote.trim(),
+        source: 'manual',
+      })
+      setIsAddingManual(false)
+      setManualHours('')
+      setManualMinutes('')
+      setManualNote('')
+    } catch (err) {
+      console.error('Failed to add time entry', err)
+      onError('Failed to add the time entry. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleDelete = async (entry: TimeEntry) => {
+    if (!firestore) return
+    try {
+      await deleteDoc(doc(firestore, 'timeEntries', entry.id))
+    } catch (err) {
+      console.error('Failed to delete time entry', err)
+      onError('Failed to delete the time entry. Please try again.')
+    }
+  }
+
+  if (!canTrack) {
+    return null
+  }
+
+  return (
+    <section className="detail-section">
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.5rem' }}>
+        <span className="section-label">My Time {totalMinutes > 0 && `(${formatMinutes(totalMinutes)})`}</span>
+        <div style={{ display: 'flex', gap: '0.5rem' }}>
+          {!isAddingManual && (
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={() => setIsAddingManual(true)}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+            >
+              + Log Time
+            </button>
+          )}
+          {isRunningHere ? (
+            <button
+              type="button"
+              className="primary-button"
+              onClick={() => void handleStop()}
+              disabled={saving}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem', background: '#dc2626' }}
+            >
+              ■ Stop {runningEntry && formatMinutes(getEntryMinutes(runningEntry, now))}
+            </button>
+          ) : (
+            <button
+              type="button"
+              className="primary-button"
+              onClick={() => void handleStart()}
+              disabled={saving}
+              style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+              title={runningEntry ? `Stops the timer on "${runningEntry.taskTitle}"` : undefined}
+            >
+              ▶ Start Timer
+            </button>
+          )}
+        </div>
+      </div>
+
+      {runningEntry && !isRunningHere && (
+        <p style={{ margin: '0 0 0.5rem', fontSize: '0.8rem', color: '#f59e0b' }}>
+          Timer running on "{runningEntry.taskTitle}". Starting here will stop it.
+        </p>
+      )}
+
+      {isAddingManual && (
+        <div
+          style={{
+            display: 'flex',
+            flexWrap: 'wrap',
+            gap: '0.5rem',
+            alignItems: 'flex-end',
+            padding: '0.75rem',
+            marginBottom: '0.75rem',
+            background: 'var(--surface-elevated)',
+            borderRadius: '0.5rem',
+            border: '1px solid var(--border-soft)',
+          }}
+        >
+          <label style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            Date
+            <input type="date" value={manualDate} onChange={(e) => setManualDate(e.target.value)} />
+          </label>
+          <label style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            Hours
+            <input
+              type="number"
+              min={0}
+              max={24}
+              value={manualHours}
+              onChange={(e) => setManualHours(e.target.value)}
+              style={{ width: '4.5rem' }}
+            />
+          </label>
+          <label style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            Minutes
+            <input
+              type="number"
+              min={0}
+              max={59}
+              value={manualMinutes}
+              onChange={(e) => setManualMinutes(e.target.value)}
+              style={{ width: '4.5rem' }}
+            />
+          </label>
+          <label style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)', flex: 1, minWidth: '140px' }}>
+            Note
+            <input type="text" value={manualNote} onChange={(e) => setManualNote(e.target.value)} placeholder="Optional" />
+          </label>
+          <button
+            type="button"
+            className="ghost-button"
+            onClick={() => setIsAddingManual(false)}
+            style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            className="primary-button"
+            onClick={() => void handleAddManual()}
+            disabled={saving}
+            style={{ fontSize: '0.85rem', padding: '0.35rem 0.75rem' }}
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {taskEntries.length === 0 ? (
+        <p style={{ margin: 0, color: 'var(--text-muted)', fontSize: '0.85rem' }}>No time logged on this task yet</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.35rem' }}>
+          {taskEntries.map((entry) => {
+            const locked = lockedWeeks.has(entry.weekStart)
+            return (
+              <li key={entry.id} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.85rem' }}>
+                <span style={{ color: 'var(--text-muted)', minWidth: '6rem' }}>
+                  {new Date(`${entry.date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+                </span>
+                <strong style={{ minWidth: '4rem' }}>
+                  {entry.endedAt === null ? 'Running' : formatMinutes(entry.minutes)}
+                </strong>
+                <span style={{ flex: 1, color: 'var(--text-secondary)' }}>
+                  {entry.note || (entry.source === 'timer' ? 'Timer' : 'Manual entry')}
+                </span>
+                {locked ? (
+                  <span style={{ fontSize: '0.75rem', color: 'var(--text-muted)' }} title="Included in a submitted timesheet">
+                    🔒
+                  </span>
+                ) : (
+                  entry.endedAt !== null && (
+                    <button
+                      type="button"
+                      onClick={() => void handleDelete(entry)}
+                      style={{ background: 'none', border: 'none', color: 'var(--text-muted)', cursor: 'pointer', padding: 0 }}
+                      title="Delete entry"
+                    >
+                      ×
+                    </button>
+                  )
+                )}
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </section>
+  )
+}
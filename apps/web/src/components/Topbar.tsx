@@ -3,13 +3,15 @@ import { useAuth } from '../context/AuthContext'
 import { useAppData } from '../context/AppDataContext'
 import { useTheme } from '../context/ThemeContext'
 import { Avatar } from './Avatar'
+import { NotificationsMenu } from './NotificationsMenu'
 
 type TopbarProps = {
   pageTitle: string
   onCreateTask?: () => void
+  onOpenSearch?: () => void
 }
 
-export function Topbar({ pageTitle, onCreateTask }: TopbarProps) {
+export function Topbar({ pageTitle, onCreateTask, onOpenSearch }: TopbarProps) {
   const { user, signOutUser } = useAuth()
   const { userProfile } = useAppData()
   const { theme, toggleTheme } = useTheme()
@@ -27,6 +29,8 @@ export function Topbar({ pageTitle, onCreateTask }: TopbarProps) {
   const canCreateTask =
     !!onCreateTask && ['Admin', 'Manager', 'DepartmentHead', 'Specialist'].includes(userProfile?.role ?? 'Viewer')
 
+  const searchShortcut = navigator.userAgent.includes('Mac') ? '⌘K' : 'Ctrl+K'
+
   return (
     <header className="topbar">
       <div className="brand">
@@ -46,6 +50,16 @@ export function Topbar({ pageTitle, onCreateTask }: TopbarProps) {
         </div>
       </div>
       <div className="topbar-actions">
+        {onOpenSearch && (
+          <button
+            className="ghost-button"
+            type="button"
+            onClick={onOpenSearch}
+            title={`Search and commands (${searchShortcut})`}
+          >
+            Search <span style={{ color: 'var(--text-muted)', fontSize: '0.8rem' }}>{searchShortcut}</span>
+          </button>
+        )}
         <button
           className="ghost-button theme-toggle"
           type="button"
@@ -71,6 +85,7 @@ export function Topbar({ pageTitle, onCreateTask }: TopbarProps) {
             </svg>
           )}
         </button>
+        <NotificationsMenu />
         <button
           className="ghost-button"
           type="button"
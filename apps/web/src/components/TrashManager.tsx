@@ -0,0 +1,161 @@
+import { useEffect, useMemo, useState } from 'react'
+import { collection, deleteDoc, doc, onSnapshot, orderBy, query, updateDoc } from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  RESTORE_FIELDS,
+  TRASH_COLLECTION_LABELS,
+  getPurgeDate,
+  parseTrashItem,
+  type TrashCollection,
+  type TrashItem,
+} from '../lib/trash'
+
+const TRASH_COLLECTIONS = Object.keys(TRASH_COLLECTION_LABELS) as TrashCollection[]
+
+export function TrashManager() {
+  const { firestore, allUserProfiles, workspaceSettings } = useAppData()
+  const { user } = useAuth()
+  const [itemsByCollection, setItemsByCollection] = useState<Partial<Record<TrashCollection, TrashItem[]>>>({})
+  const [filter, setFilter] = useState<TrashCollection | 'all'>('all')
+  const [busyId, setBusyId] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!firestore) return () => {}
+
+    // Ordering by deletedAt leaves out every document that has no deletedAt, i.e. everything not trashed
+    const unsubscribes = TRASH_COLLECTIONS.map((collectionName) =>
+      onSnapshot(
+        query(collection(firestore, collectionName), orderBy('deletedAt', 'desc')),
+        (snapshot) => {
+          setItemsByCollection((prev) => ({
+            ...prev,
+            [collectionName]: snapshot.docs.map((docSnapshot) =>
+              parseTrashItem(collectionName, docSnapshot.id, docSnapshot.data()),
+            ),
+          }))
+        },
+        (err) => {
+          console.error(`Failed to load trashed ${collectionName}`, err)
+          setError('Failed to load the trash.')
+        },
+      ),
+    )
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe())
+  }, [firestore])
+
+  const items = useMemo(
+    () =>
+      TRASH_COLLECTIONS.filter((collectionName) => filter === 'all' || filter === collectionName)
+        .flatMap((collectionName) => itemsByCollection[collectionName] ?? [])
+        .sort((a, b) => b.deletedAt.getTime() - a.deletedAt.getTime()),
+    [itemsByCollection, filter],
+  )
+
+  const getUserName = (userId: string) =>
+    allUserProfiles.find((profile) => profile.id === userId)?.displayName ?? 'Unknown user'
+
+  const handleRestore = async (item: TrashItem) => {
+    if (!firestore || !user) return
+    setBusyId(item.id)
+    setError(null)
+    try {
+      // Task updates must be attributed to the signed-in user
+      const attribution = item.collection === 'tasks' ? { updatedAt: new Date().toISOString(), updatedBy: user.uid } : {}
+      await updateDoc(doc(firestore, item.collection, item.id), { ...RESTORE_FIELDS, ...attribution })
+    } catch (err) {
+      console.error('Failed to restore item', err)
+      setError(`Failed to restore "${item.label}". Please try again.`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  const handlePurge = async (item: TrashItem) => {
+    if (!firestore) return
+    if (!window.confirm(`Permanently delete "${item.label}"? This cannot be undone.`)) return
+    setBusyId(item.id)
+    setError(null)
+    try {
+      await deleteDoc(doc(firestore, item.collection, item.id))
+    } catch (err) {
+      console.error('Failed to permanently delete item', err)
+      setError(`Failed to permanently delete "${item.label}". Please try again.`)
+    } finally {
+      setBusyId(null)
+    }
+  }
+
+  return (
+    <div className="summary-card" style={{ padding: '1.5rem' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+        <span className="section-label">
+          {items.length} item{items.length === 1 ? '' : 's'} in the trash
+        </span>
+        <select value={filter} onChange={(e) => setFilter(e.target.value as TrashCollection | 'all')}>
+          <option value="all">Everything</option>
+          {TRASH_COLLECTIONS.map((collectionName) => (
+            <option key={collectionName} value={collectionName}>
+              {TRASH_COLLECTION_LABELS[collectionName]}s
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {items.length === 0 ? (
+        <p style={{ color: 'var(--text-muted)', margin: '1rem 0 0', fontSize: '0.9rem' }}>The trash is empty</p>
+      ) : (
+        <ul style={{ listStyle: 'none', padding: 0, margin: '1rem 0 0', display: 'grid', gap: '0.75rem' }}>
+          {items.map((item) => (
+            <li
+              key={`${item.collection}-${item.id}`}
+              style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                gap: '1rem',
+                padding: '0.75rem 1rem',
+                border: '1px solid var(--border-soft)',
+                borderRadius: '0.5rem',
+              }}
+            >
+              <div style={{ minWidth: 0 }}>
+                <div style={{ fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {item.label}
+                </div>
+                <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                  {TRASH_COLLECTION_LABELS[item.collection]}
+                  {item.detail && ` · ${item.detail}`} · Deleted by {getUserName(item.deletedBy)} on{' '}
+                  {item.deletedAt.toLocaleDateString()} · Purged on{' '}
+                  {getPurgeDate(item.deletedAt, workspaceSettings.dataRetention).toLocaleDateString()}
+                </div>
+              </div>
+              <div style={{ display: 'flex', gap: '0.5rem', flexShrink: 0 }}>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => void handleRestore(item)}
+                  disabled={busyId === item.id}
+                >
+                  Restore
+                </button>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => void handlePurge(item)}
+                  disabled={busyId === item.id}
+                  style={{ color: '#dc2626', borderColor: '#dc2626' }}
+                >
+                  Delete forever
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,139 @@
+import { useMemo, useState } from 'react'
+import type { UserProfile } from '../context/AppDataContext'
+
+type UserPickerProps = {
+  profiles: UserProfile[]
+  value: string[]
+  onChange: (userIds: string[]) => void
+  placeholder?: string
+  max?: number
+  disabled?: boolean
+}
+
+const MAX_SUGGESTIONS = 8
+
+export function UserPicker({ profiles, value, onChange, placeholder, max, disabled }: UserPickerProps) {
+  const [search, setSearch] = useState('')
+
+  const profilesById = useMemo(() => new Map(profiles.map((profile) => [profile.id, profile])), [profiles])
+  const isFull = max !== undefined && value.length >= max
+
+  const suggestions = useMemo(() => {
+    const term = search.trim().toLowerCase()
+    if (!term) return []
+    return profiles
+      .filter((profile) => !value.includes(profile.id))
+      .filter(
+        (profile) =>
+          profile.displayName.toLowerCase().includes(term) ||
+          profile.email.toLowerCase().includes(term) ||
+          profile.department.toLowerCase().includes(term),
+      )
+      .slice(0, MAX_SUGGESTIONS)
+  }, [profiles, search, value])
+
+  return (
+    <div style={{ display: 'flex', flexDirection: 'column', gap: '0.5rem' }}>
+      {value.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '0.375rem' }}>
+          {value.map((userId) => {
+            const profile = profilesById.get(userId)
+            return (
+              <span
+                key={userId}
+                style={{
+                  display: 'inline-flex',
+                  alignItems: 'center',
+                  gap: '0.375rem',
+                  padding: '0.25rem 0.5rem',
+                  borderRadius: '0.375rem',
+                  background: 'var(--accent-soft)',
+                  border: '1px solid var(--border-soft)',
+                  fontSize: '0.8rem',
+                }}
+                title={profile ? `${profile.department} · ${profile.role}` : 'User not found'}
+              >
+                {profile?.displayName ?? userId}
+                {!disabled && (
+                  <button
+                    type="button"
+                    onClick={() => onChange(value.filter((id) => id !== userId))}
+                    style={{
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      cursor: 'pointer',
+                      color: 'var(--text-muted)',
+                      fontSize: '0.9rem',
+                      lineHeight: 1,
+                    }}
+                    aria-label={`Remove ${profile?.displayName ?? userId}`}
+                  >
+                    ×
+                  </button>
+                )}
+              </span>
+            )
+          })}
+        </div>
+      )}
+      {!disabled && !isFull && (
+        <div style={{ position: 'relative' }}>
+          <input
+            type="text"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder={placeholder ?? 'Search people by name, email or department'}
+            style={{ width: '100%' }}
+          />
+          {suggestions.length > 0 && (
+            <ul
+              style={{
+                position: 'absolute',
+                left: 0,
+                right: 0,
+                top: 'calc(100% + 0.25rem)',
+                margin: 0,
+                padding: '0.25rem 0',
+                listStyle: 'none',
+                background: 'var(--surface-default)',
+                border: '1px solid var(--border-soft)',
+                borderRadius: '0.5rem',
+                boxShadow: '0 12px 32px rgba(15, 23, 42, 0.18)',
+                zIndex: 20,
+              }}
+            >
+              {suggestions.map((profile) => (
+                <li key={profile.id}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onChange([...value, profile.id])
+                      setSearch('')
+                    }}
+                    style={{
+                      display: 'flex',
+                      justifyContent: 'space-between',
+                      gap: '0.5rem',
+                      width: '100%',
+                      padding: '0.5rem 0.75rem',
+                      border: 'none',
+                      background: 'transparent',
+                      color: 'var(--text-primary)',
+                      cursor: 'pointer',
+                      textAlign: 'left',
+                      fontSize: '0.85rem',
+                    }}
+                  >
+                    <span>{profile.displayName}</span>
+                    <span style={{ color: 'var(--text-muted)', whiteSpace: 'nowrap' }}>{profile.department}</span>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
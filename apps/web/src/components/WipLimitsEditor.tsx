@@ -0,0 +1,107 @@
+import { useState } from 'react'
+import { doc, writeBatch } from 'firebase/firestore'
+import { useAppData, type Department, type Task } from '../context/AppDataContext'
+import { WIP_LIMITED_STATUSES, type WipMode } from '../lib/wipLimits'
+
+type WipLimitsEditorProps = {
+  department: Department
+}
+
+export function WipLimitsEditor({ department }: WipLimitsEditorProps) {
+  const { firestore, departments } = useAppData()
+  const [limits, setLimits] = useState<Partial<Record<Task['status'], string>>>(() =>
+    Object.fromEntries(
+      WIP_LIMITED_STATUSES.map((status) => [status, department.wipLimits?.[status]?.toString() ?? '']),
+    ),
+  )
+  const [mode, setMode] = useState<WipMode>(department.wipMode ?? 'warn')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const handleSave = async () => {
+    if (!firestore) return
+
+    const wipLimits: Partial<Record<Task['status'], number>> = {}
+    for (const status of WIP_LIMITED_STATUSES) {
+      const raw = limits[status]?.trim()
+      if (!raw) continue
+      const value = Number(raw)
+      if (!Number.isInteger(value) || value < 1) {
+        setError(`The ${status} limit must be a whole number of at least 1, or empty for no limit.`)
+        return
+      }
+      wipLimits[status] = value
+    }
+
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+    try {
+      const batch = writeBatch(firestore)
+      // Built-in departments only exist client-side until the first write, so every listed
+      // department is written to keep the others from disappearing once the collection is non-empty
+      departments.forEach((item) => {
+        batch.set(doc(firestore, 'departments', item.id), { name: item.name, slug: item.slug }, { merge: true })
+      })
+      // wipLimits is replaced rather than merged so cleared limits are removed
+      batch.update(doc(firestore, 'departments', department.id), { wipLimits, wipMode: mode })
+      await batch.commit()
+      setSaved(true)
+    } catch (err) {
+      console.error('Failed to save WIP limits', err)
+      setError('Failed to save WIP limits. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div style={{ marginBottom: '1rem', paddingBottom: '1rem', borderBottom: '1px solid var(--border-soft)' }}>
+      <label style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+        Work-in-progress limits (empty = no limit):
+      </label>
+      <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', alignItems: 'flex-end' }}>
+        {WIP_LIMITED_STATUSES.map((status) => (
+          <label key={status} style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            {status}
+            <input
+              type="number"
+              min={1}
+              value={limits[status] ?? ''}
+              onChange={(e) => {
+                setLimits({ ...limits, [status]: e.target.value })
+                setSaved(false)
+              }}
+              style={{ width: '5.5rem', fontSize: '0.85rem', padding: '0.4rem' }}
+            />
+          </label>
+        ))}
+        <label style={{ display: 'grid', gap: '0.25rem', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+          When over the limit
+          <select
+            value={mode}
+            onChange={(e) => {
+              setMode(e.target.value as WipMode)
+              setSaved(false)
+            }}
+            style={{ fontSize: '0.85rem', padding: '0.4rem' }}
+          >
+            <option value="warn">Warn</option>
+            <option value="block">Block moves</option>
+          </select>
+        </label>
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={() => void handleSave()}
+          disabled={saving}
+          style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+        >
+          {saving ? 'Saving…' : saved ? 'Saved' : 'Save Limits'}
+        </button>
+      </div>
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
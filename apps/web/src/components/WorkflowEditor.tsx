@@ -0,0 +1,254 @@
+import { useState } from 'react'
+import { deleteField, doc, writeBatch } from 'firebase/firestore'
+import { useAppData, type Department, type DepartmentWorkflow, type Task } from '../context/AppDataContext'
+import { DEFAULT_WORKFLOW, MAX_WORKFLOW_STATES, TASK_STATUSES, validateWorkflow } from '../lib/workflows'
+
+type WorkflowEditorProps = {
+  department: Department
+}
+
+// Stages are edited by row key so transitions survive renaming a stage
+type StageRow = {
+  key: string
+  name: string
+  category: Task['status']
+  next: string[] // Row keys
+}
+
+let nextRowKey = 0
+const createRowKey = () => `stage-${nextRowKey++}`
+
+function toRows(workflow: DepartmentWorkflow): StageRow[] {
+  const keys = new Map(workflow.states.map((state) => [state, createRowKey()]))
+  return workflow.states.map((state) => ({
+    key: keys.get(state) ?? createRowKey(),
+    name: state,
+    category: workflow.categories[state] ?? 'Backlog',
+    next: (workflow.transitions[state] ?? [])
+      .map((target) => keys.get(target))
+      .filter((key): key is string => key !== undefined),
+  }))
+}
+
+function toWorkflow(rows: StageRow[]): DepartmentWorkflow {
+  const names = new Map(rows.map((row) => [row.key, row.name.trim()]))
+  return {
+    states: rows.map((row) => row.name.trim()),
+    categories: Object.fromEntries(rows.map((row) => [row.name.trim(), row.category])),
+    transitions: Object.fromEntries(
+      rows.map((row) => [
+        row.name.trim(),
+        row.next.map((key) => names.get(key)).filter((name): name is string => name !== undefined),
+      ]),
+    ),
+  }
+}
+
+export function WorkflowEditor({ department }: WorkflowEditorProps) {
+  const { firestore, departments } = useAppData()
+  const [isOpen, setIsOpen] = useState(false)
+  const [rows, setRows] = useState<StageRow[]>(() => toRows(department.workflow ?? DEFAULT_WORKFLOW))
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  const updateRow = (key: string, changes: Partial<StageRow>) => {
+    setRows(rows.map((row) => (row.key === key ? { ...row, ...changes } : row)))
+    setSaved(false)
+  }
+
+  const addStage = () => {
+    const key = createRowKey()
+    // A new stage can move anywhere until its transitions are narrowed down
+    setRows([
+      ...rows.map((row) => ({ ...row, next: [...row.next, key] })),
+      { key, name: '', category: 'In Progress', next: rows.map((row) => row.key) },
+    ])
+    setSaved(false)
+  }
+
+  const removeStage = (key: string) => {
+    setRows(rows.filter((row) => row.key !== key).map((row) => ({ ...row, next: row.next.filter((next) => next !== key) })))
+    setSaved(false)
+  }
+
+  const moveStage = (index: number, offset: number) => {
+    const target = index + offset
+    if (target < 0 || target >= rows.length) return
+    const reordered = [...rows]
+    const [moved] = reordered.splice(index, 1)
+    reordered.splice(target, 0, moved)
+    setRows(reordered)
+    setSaved(false)
+  }
+
+  const writeWorkflow = async (workflow: DepartmentWorkflow | null) => {
+    if (!firestore) return
+    setSaving(true)
+    setError(null)
+    setSaved(false)
+    try {
+      const batch = writeBatch(firestore)
+      // Built-in departments only exist client-side until the first write, so every listed
+      // department is written to keep the others from disappearing once the collection is non-empty
+      departments.forEach((item) => {
+        batch.set(doc(firestore, 'departments', item.id), { name: item.name, slug: item.slug }, { merge: true })
+      })
+      batch.update(doc(firestore, 'departments', department.id), { workflow: workflow ?? deleteField() })
+      await batch.commit()
+      setSaved(true)
+    } catch (err) {
+      console.error('Failed to save workflow', err)
+      setError('Failed to save the workflow. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSave = async () => {
+    const workflow = toWorkflow(rows)
+    const problem = validateWorkflow(workflow)
+    if (problem) {
+      setError(problem)
+      return
+    }
+    await writeWorkflow(workflow)
+  }
+
+  const handleReset = async () => {
+    if (!window.confirm(`Switch ${department.name} back to the built-in Backlog / In Progress / Review / Completed statuses?`)) {
+      return
+    }
+    await writeWorkflow(null)
+    setRows(toRows(DEFAULT_WORKFLOW))
+  }
+
+  return (
+    <div style={{ marginBottom: '1rem', paddingBottom: '1rem', borderBottom: '1px solid var(--border-soft)' }}>
+      <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '0.5rem' }}>
+        <span style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+          Workflow: {(department.workflow ?? DEFAULT_WORKFLOW).states.join(' → ')}
+        </span>
+        <button
+          type="button"
+          className="ghost-button"
+          onClick={() => setIsOpen(!isOpen)}
+          style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+        >
+          {isOpen ? 'Close' : 'Edit Workflow'}
+        </button>
+      </div>
+
+      {isOpen && (
+        <div style={{ display: 'grid', gap: '0.75rem', marginTop: '0.75rem' }}>
+          <p style={{ margin: 0, fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+            Each stage counts as one of the built-in statuses, which reports, KPI points and WIP limits use.
+          </p>
+          {rows.map((row, index) => (
+            <div
+              key={row.key}
+              style={{
+                display: 'grid',
+                gap: '0.5rem',
+                padding: '0.75rem',
+                background: 'var(--surface-elevated)',
+                borderRadius: '0.5rem',
+                border: '1px solid var(--border-soft)',
+              }}
+            >
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+                <input
+                  type="text"
+                  value={row.name}
+                  onChange={(e) => updateRow(row.key, { name: e.target.value })}
+                  placeholder="Stage name"
+                  maxLength={30}
+                  style={{ flex: 1, minWidth: '140px', fontSize: '0.85rem', padding: '0.4rem' }}
+                />
+                <select
+                  value={row.category}
+                  onChange={(e) => updateRow(row.key, { category: e.target.value as Task['status'] })}
+                  style={{ fontSize: '0.85rem', padding: '0.4rem' }}
+                  aria-label="Counts as"
+                >
+                  {TASK_STATUSES.map((status) => (
+                    <option key={status} value={status}>
+                      Counts as {status}
+                    </option>
+                  ))}
+                </select>
+                <button type="button" className="ghost-button" onClick={() => moveStage(index, -1)} disabled={index === 0} style={{ padding: '0.3rem 0.5rem' }} aria-label="Move up">
+                  ↑
+                </button>
+                <button type="button" className="ghost-button" onClick={() => moveStage(index, 1)} disabled={index === rows.length - 1} style={{ padding: '0.3rem 0.5rem' }} aria-label="Move down">
+                  ↓
+                </button>
+                <button
+                  type="button"
+                  className="ghost-button"
+                  onClick={() => removeStage(row.key)}
+                  disabled={rows.length <= 1}
+                  style={{ padding: '0.3rem 0.5rem', color: '#dc2626', borderColor: '#dc2626' }}
+                  aria-label={`Remove ${row.name || 'stage'}`}
+                >
+                  ×
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                <span>Can move to:</span>
+                {rows
+                  .filter((other) => other.key !== row.key)
+                  .map((other) => (
+                    <label key={other.key} style={{ display: 'inline-flex', gap: '0.25rem', alignItems: 'center' }}>
+                      <input
+                        type="checkbox"
+                        checked={row.next.includes(other.key)}
+                        onChange={(e) =>
+                          updateRow(row.key, {
+                            next: e.target.checked ? [...row.next, other.key] : row.next.filter((key) => key !== other.key),
+                          })
+                        }
+                      />
+                      {other.name || 'Untitled'}
+                    </label>
+                  ))}
+              </div>
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap' }}>
+            <button
+              type="button"
+              className="ghost-button"
+              onClick={addStage}
+              disabled={rows.length >= MAX_WORKFLOW_STATES}
+              style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+            >
+              + Add Stage
+            </button>
+            <button
+              type="button"
+              className="primary-button"
+              onClick={() => void handleSave()}
+              disabled={saving}
+              style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+            >
+              {saving ? 'Saving…' : saved ? 'Saved' : 'Save Workflow'}
+            </button>
+            {department.workflow && (
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() => void handleReset()}
+                disabled={saving}
+                style={{ fontSize: '0.85rem', padding: '0.4rem 0.75rem' }}
+              >
+                Use Built-in Statuses
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
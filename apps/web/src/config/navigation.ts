@@ -10,11 +10,15 @@ export const navItems: NavItem[] = [
   { label: 'My Tasks', path: '/my-tasks', allowedRoles: ['Specialist', 'DepartmentHead'] },
   { label: 'Company Chat', path: '/company-chat' },
   { label: 'Update Calendar', path: '/update-calendar' },
+  { label: 'Timeline', path: '/timeline' },
   { label: 'Leave Requests', path: '/leave-requests' },
+  { label: 'Timesheets', path: '/timesheets', allowedRoles: ['Admin', 'Manager', 'DepartmentHead', 'Specialist'] },
   { label: 'In Progress', path: '/in-progress', allowedRoles: ['Admin', 'Manager'] },
   { label: 'Departments', path: '/departments', allowedRoles: ['Admin', 'Manager', 'DepartmentHead'] },
+  { label: 'Dependencies', path: '/dependencies', allowedRoles: ['Admin', 'Manager', 'DepartmentHead'] },
   { label: 'Reports', path: '/reports', allowedRoles: ['Admin', 'Manager', 'DepartmentHead'] },
   { label: 'KPI Points', path: '/kpi-points', allowedRoles: ['Admin', 'Manager'] },
+  { label: 'Templates', path: '/templates', allowedRoles: ['Admin', 'Manager'] },
   { label: 'Automation', path: '/automation', allowedRoles: ['Admin'] },
   { label: 'Settings', path: '/settings' },
 ]
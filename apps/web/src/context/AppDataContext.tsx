@@ -16,45 +16,156 @@ import {
   onSnapshot,
   query,
   orderBy,
-  limit,
   setDoc,
   updateDoc,
   deleteDoc,
   getDoc,
+  getDocs,
   addDoc,
+  limit,
   Timestamp,
   where,
   type CollectionReference,
   type DocumentData,
   type Firestore,
   type Query,
+  type QueryDocumentSnapshot,
   type Unsubscribe,
 } from 'firebase/firestore'
 import { getFirebaseApp } from '../lib/firebase'
 import { useAuth } from './AuthContext'
 import { playNotificationSound, showDesktopNotification } from '../lib/notifications'
 import { normalizeDepartment } from '../lib/kpi'
+import { isTaskAssignee, parseTaskAssignees } from '../lib/taskAssignees'
+import {
+  DEFAULT_TASK_FILTERS,
+  matchesTaskFieldFilters,
+  parseCustomFieldDefinition,
+  parseTaskLabel,
+} from '../lib/taskFields'
+import { normalizeTaskFilters } from '../lib/taskViews'
+import { buildTrashFields, isTrashed } from '../lib/trash'
+import { parseChatEditFields, type ChatEditFields } from '../lib/chatEdits'
+import { getChannelUnreadCount, markChannelAsRead, parseChatChannel, type ChatChannel } from '../lib/chatChannels'
+import { parseChatThreadFields, type ChatThreadFields } from '../lib/chatThreads'
+import { parseChatAttachments, type ChatAttachment } from '../lib/storage'
+import { createChatPager, type ChatPager } from '../lib/chatPagination'
 
 export type Department = {
   id: string
   name: string
   slug: string
+  // Work-in-progress limit per status column on the Kanban board
+  wipLimits?: Partial<Record<Task['status'], number>>
+  wipMode?: 'warn' | 'block'
+  // Custom task stages; without one the department uses the four built-in statuses
+  workflow?: DepartmentWorkflow
+  // SLA in days per priority, overriding the one derived from the workspace default
+  slaDays?: Partial<Record<Task['priority'], number>>
+}
+
+// Workspace-wide settings stored in settings/workspace, managed by admins in Settings
+export type WorkspaceSettings = {
+  workspaceName: string
+  defaultSLA: number // Days a Medium priority task has before its SLA is breached
+  requireMFA: boolean
+  dataRetention: number // Months
+  offboardingChatPolicy: 'keep' | 'anonymize' // What happens to an offboarded user's chat messages
+  chatEditWindowMinutes: number // How long authors can edit a chat message after sending it; 0 turns editing off
+}
+
+export const DEFAULT_WORKSPACE_SETTINGS: WorkspaceSettings = {
+  workspaceName: 'SP Office',
+  defaultSLA: 5,
+  requireMFA: true,
+  dataRetention: 18,
+  offboardingChatPolicy: 'keep',
+  chatEditWindowMinutes: 15,
+}
+
+export type DepartmentWorkflow = {
+  states: string[] // Stage names in board order
+  categories: Record<string, Task['status']> // The built-in status each stage counts as
+  transitions: Record<string, string[]> // Stages a task may move to from each stage
+}
+
+export type ChecklistItem = {
+  id: string
+  text: string
+  done: boolean
+  assignee?: string
+  assigneeId?: string
+  completedAt?: string
+}
+
+// File uploaded to Firebase Storage under task-attachments/{taskId}/
+export type TaskAttachment = {
+  id: string
+  name: string
+  path: string
+  url: string
+  contentType: string
+  size: number
+  uploadedBy: string
+  uploadedByName: string
+  uploadedAt: string
+}
+
+// Workspace-wide labels and custom fields, managed by admins in Settings
+export type TaskLabel = {
+  id: string
+  name: string
+  color: string
+}
+
+export type CustomFieldDefinition = {
+  id: string
+  name: string
+  type: 'text' | 'number' | 'select' | 'date'
+  options: string[] // Choices of a select field
+  order: number
+}
+
+// Dates are stored as YYYY-MM-DD strings
+export type CustomFieldValue = string | number | null
+
+export type TaskAssignee = {
+  id: string
+  name: string
 }
 
 export type Task = {
   id: string
   title: string
   status: 'Backlog' | 'In Progress' | 'Review' | 'Completed'
+  // Stage in the department workflow, and the department document that workflow belongs to.
+  // status always holds the built-in status the stage counts as.
+  stage?: string
+  workflowId?: string
+  // First assignee, kept for code that only knows about a single assignee
   assignee: string
   assigneeId: string
+  assigneeIds: string[]
+  assignees: TaskAssignee[]
+  // Users notified about status changes; watching does not grant edit access
+  watcherIds: string[]
   dueDate: string
   priority: 'Low' | 'Medium' | 'High'
   department: string
   summary: string
   blockers?: string[]
   fileUrls?: string[]
+  attachments?: TaskAttachment[]
+  labels?: string[] // TaskLabel ids
+  customFields?: Record<string, CustomFieldValue> // Keyed by CustomFieldDefinition id
+  checklist?: ChecklistItem[]
+  // When set, the task cannot be completed until every checklist item is done
+  requireChecklist?: boolean
   createdBy?: string
+  createdAt?: Date
   completedAt?: string
+  // Set by the scheduled SLA check the first time the task is found past its SLA deadline
+  slaBreachedAt?: string
 }
 
 export type ChatMessage = {
@@ -65,7 +176,8 @@ export type ChatMessage = {
   createdAt: Date
   text: string
   role: string
-}
+  attachments: ChatAttachment[]
+} & ChatThreadFields & ChatEditFields
 
 export type UserProfile = {
   id: string
@@ -76,6 +188,9 @@ export type UserProfile = {
   permissions?: string[]
   isDepartmentHead?: boolean
   profileImageUrl?: string
+  // Set when the user is offboarded; their Auth account is disabled and the profile kept for history
+  deactivated?: boolean
+  deactivatedAt?: string // ISO timestamp
 }
 
 export type TaskFilters = {
@@ -83,6 +198,8 @@ export type TaskFilters = {
   priorities: Task['priority'][]
   departments: string[]
   assignedToMe?: boolean
+  labels?: string[]
+  customFields?: Record<string, string>
 }
 
 export type DailyWorkUpdate = {
@@ -138,11 +255,35 @@ export type LeaveRequest = {
   rejectionReason?: string
 }
 
+export type AppNotification = {
+  id: string
+  userId: string
+  title: string
+  body: string
+  link?: string
+  source: string
+  read: boolean
+  createdAt: Date
+}
+
+// Recent messages fetched per chat for searching, on top of the pages the chat views have loaded
+const CHAT_SEARCH_LIMIT = 100
+
+export type ChatSearchWindow = {
+  company: QueryDocumentSnapshot[]
+  department: QueryDocumentSnapshot[] // The user's own department, as in the chat view
+}
+
 type AppDataContextValue = {
   departments: Department[]
+  workspaceSettings: WorkspaceSettings
+  taskLabels: TaskLabel[]
+  customFieldDefinitions: CustomFieldDefinition[]
   tasks: Task[]
   filteredTasks: Task[]
-  chatMessages: ChatMessage[]
+  chatMessages: ChatMessage[] // The latest page of the department chat plus any older pages loaded so far
+  hasOlderChatMessages: boolean
+  loadOlderChatMessages: () => Promise<void>
   companyChatMessages: Array<{
     id: string
     author: string
@@ -150,17 +291,30 @@ type AppDataContextValue = {
     role: string
     createdAt: Date
     text: string
+    attachments: ChatAttachment[]
     seenBy?: Array<{
       userId: string
       seenAt: Date
     }>
-  }>
+  } & ChatThreadFields & ChatEditFields>
+  hasOlderCompanyChatMessages: boolean
+  loadOlderCompanyChatMessages: () => Promise<void>
+  // Fetched the first time it is asked for and then kept, so searching does not read the chats again
+  loadChatSearchWindow: () => Promise<ChatSearchWindow>
   companyChatUnreadCount: number
   markCompanyChatAsRead: () => void
+  chatChannels: ChatChannel[] // Direct messages and group channels the user belongs to, most recent first
+  chatChannelUnreadCount: number
+  markChatChannelAsRead: (channelId: string) => Promise<void>
   userProfile: UserProfile | null
-  allUserProfiles: UserProfile[]
+  allUserProfiles: UserProfile[] // Active users only
+  deactivatedUserProfiles: UserProfile[]
   kpiPoints: KPIPoint[]
   leaveRequests: LeaveRequest[]
+  notifications: AppNotification[]
+  unreadNotificationCount: number
+  markNotificationAsRead: (notificationId: string) => Promise<void>
+  markAllNotificationsAsRead: () => Promise<void>
   loading: boolean
   firestore: Firestore | null
   dataError: Error | null
@@ -178,6 +332,22 @@ type AppDataContextValue = {
 
 const AppDataContext = createContext<AppDataContextValue | undefined>(undefined)
 
+// The last applied filters are kept across reloads, per user so a shared browser does not
+// carry one person's filters over to the next
+function getFiltersStorageKey(userId: string): string {
+  return `taskFilters_${userId}`
+}
+
+function loadStoredFilters(userId: string | undefined): TaskFilters {
+  if (!userId) return DEFAULT_TASK_FILTERS
+  try {
+    const stored = localStorage.getItem(getFiltersStorageKey(userId))
+    return stored ? normalizeTaskFilters(JSON.parse(stored)) : DEFAULT_TASK_FILTERS
+  } catch {
+    return DEFAULT_TASK_FILTERS
+  }
+}
+
 const DEFAULT_DEPARTMENTS: Department[] = [
   { id: 'programming', name: 'Programming', slug: 'programming' },
   { id: '3d-design', name: '3D Design', slug: '3d-design' },
@@ -187,6 +357,9 @@ const DEFAULT_DEPARTMENTS: Department[] = [
 export function AppDataProvider({ children }: { children: ReactNode }) {
   const { user } = useAuth()
   const [departments, setDepartments] = useState<Department[]>(DEFAULT_DEPARTMENTS)
+  const [workspaceSettings, setWorkspaceSettings] = useState<WorkspaceSettings>(DEFAULT_WORKSPACE_SETTINGS)
+  const [taskLabels, setTaskLabels] = useState<TaskLabel[]>([])
+  const [customFieldDefinitions, setCustomFieldDefinitions] = useState<CustomFieldDefinition[]>([])
   const [tasks, setTasks] = useState<Task[]>([])
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([])
   const [companyChatMessages, setCompanyChatMessages] = useState<Array<{
@@ -196,30 +369,41 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     role: string
     createdAt: Date
     text: string
+    attachments: ChatAttachment[]
     seenBy?: Array<{
       userId: string
       seenAt: Date
     }>
-  }>>([])
+  } & ChatThreadFields & ChatEditFields>>([])
+  const [hasOlderChatMessages, setHasOlderChatMessages] = useState(false)
+  const [hasOlderCompanyChatMessages, setHasOlderCompanyChatMessages] = useState(false)
   const [companyChatUnreadCount, setCompanyChatUnreadCount] = useState(0)
+  const [chatChannels, setChatChannels] = useState<ChatChannel[]>([])
   const [userProfile, setUserProfile] = useState<UserProfile | null>(null)
   const [allUserProfiles, setAllUserProfiles] = useState<UserProfile[]>([])
+  const [deactivatedUserProfiles, setDeactivatedUserProfiles] = useState<UserProfile[]>([])
   const [kpiPoints, setKpiPoints] = useState<KPIPoint[]>([])
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([])
+  const [notifications, setNotifications] = useState<AppNotification[]>([])
   const [loading, setLoading] = useState(true)
   const [firestore, setFirestore] = useState<Firestore | null>(null)
   const [dataError, setDataError] = useState<Error | null>(null)
   const tasksUnsubscribeRef = useRef<Unsubscribe | null>(null)
-  const chatsUnsubscribeRef = useRef<Unsubscribe | null>(null)
-  const companyChatsUnsubscribeRef = useRef<Unsubscribe | null>(null)
-  const previousChatMessageIdsRef = useRef<Set<string>>(new Set())
-  const previousCompanyChatMessageIdsRef = useRef<Set<string>>(new Set())
-  const [filters, setFilters] = useState<TaskFilters>({
-    statuses: ['Backlog', 'In Progress', 'Review', 'Completed'],
-    priorities: ['High', 'Medium', 'Low'],
-    departments: [],
-    assignedToMe: false,
-  })
+  const chatsPagerRef = useRef<ChatPager | null>(null)
+  const companyChatsPagerRef = useRef<ChatPager | null>(null)
+  // Newest message loaded so far. Only later ones count as new, so loading older pages stays silent
+  const latestChatMessageAtRef = useRef<Date | null>(null)
+  const latestCompanyChatMessageAtRef = useRef<Date | null>(null)
+  const previousNotificationIdsRef = useRef<Set<string> | null>(null)
+  const previousChannelUnreadRef = useRef<Map<string, number> | null>(null)
+  const chatSearchWindowRef = useRef<{ key: string; promise: Promise<ChatSearchWindow> } | null>(null)
+  const [filters, setFilters] = useState<TaskFilters>(() => loadStoredFilters(user?.uid))
+  const [filtersUserId, setFiltersUserId] = useState(user?.uid)
+  // Switch to the signed-in user's filters during render, before they can be saved under the wrong user
+  if (filtersUserId !== user?.uid) {
+    setFiltersUserId(user?.uid)
+    setFilters(loadStoredFilters(user?.uid))
+  }
 
   /* eslint-disable react-hooks/set-state-in-effect */
   useEffect(() => {
@@ -268,6 +452,71 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe()
   }, [firestore])
 
+  useEffect(() => {
+    if (!firestore || !user) {
+      setWorkspaceSettings(DEFAULT_WORKSPACE_SETTINGS)
+      return () => {}
+    }
+
+    const unsubscribe = onSnapshot(
+      doc(firestore, 'settings', 'workspace'),
+      (snapshot) => {
+        const data = snapshot.data() ?? {}
+        setWorkspaceSettings({
+          workspaceName: typeof data.workspaceName === 'string' ? data.workspaceName : DEFAULT_WORKSPACE_SETTINGS.workspaceName,
+          defaultSLA: typeof data.defaultSLA === 'number' && data.defaultSLA > 0 ? data.defaultSLA : DEFAULT_WORKSPACE_SETTINGS.defaultSLA,
+          requireMFA: typeof data.requireMFA === 'boolean' ? data.requireMFA : DEFAULT_WORKSPACE_SETTINGS.requireMFA,
+          dataRetention: typeof data.dataRetention === 'number' ? data.dataRetention : DEFAULT_WORKSPACE_SETTINGS.dataRetention,
+          offboardingChatPolicy: data.offboardingChatPolicy === 'anonymize' ? 'anonymize' : 'keep',
+          chatEditWindowMinutes:
+            typeof data.chatEditWindowMinutes === 'number' && data.chatEditWindowMinutes >= 0
+              ? data.chatEditWindowMinutes
+              : DEFAULT_WORKSPACE_SETTINGS.chatEditWindowMinutes,
+        })
+      },
+      (error) => console.error('Failed to load workspace settings', error),
+    )
+
+    return () => unsubscribe()
+  }, [firestore, user])
+
+  useEffect(() => {
+    if (!firestore || !user) {
+      setTaskLabels([])
+      setCustomFieldDefinitions([])
+      return () => {}
+    }
+
+    const unsubscribeLabels = onSnapshot(
+      collection(firestore, 'taskLabels'),
+      (snapshot) => {
+        const labels = snapshot.docs.map((docSnapshot) => parseTaskLabel(docSnapshot.id, docSnapshot.data()))
+        setTaskLabels(labels.sort((a, b) => a.name.localeCompare(b.name)))
+      },
+      (error) => console.error('Failed to load task labels', error),
+    )
+    const unsubscribeFields = onSnapshot(
+      collection(firestore, 'taskCustomFields'),
+      (snapshot) => {
+        const fields = snapshot.docs.map((docSnapshot) =>
+          parseCustomFieldDefinition(docSnapshot.id, docSnapshot.data()),
+        )
+        setCustomFieldDefinitions(fields.sort((a, b) => a.order - b.order || a.name.localeCompare(b.name)))
+      },
+      (error) => console.error('Failed to load custom fields', error),
+    )
+
+    return () => {
+      unsubscribeLabels()
+      unsubscribeFields()
+    }
+  }, [firestore, user])
+
+  useEffect(() => {
+    if (!filtersUserId) return
+    localStorage.setItem(getFiltersStorageKey(filtersUserId), JSON.stringify(filters))
+  }, [filters, filtersUserId])
+
   // Load all user profiles for user selection
   useEffect(() => {
     if (!firestore || !user) {
@@ -278,12 +527,13 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     const unsubscribe = onSnapshot(
       profilesRef,
       (snapshot) => {
-        setAllUserProfiles(
-          snapshot.docs.map((docSnapshot) => ({
-            id: docSnapshot.id,
-            ...(docSnapshot.data() as DocumentData),
-          })) as UserProfile[],
-        )
+        const profiles = snapshot.docs.map((docSnapshot) => ({
+          id: docSnapshot.id,
+          ...(docSnapshot.data() as DocumentData),
+        })) as UserProfile[]
+        // Offboarded users are kept apart so they cannot be picked as assignees, reviewers or mentions
+        setAllUserProfiles(profiles.filter((profile) => !profile.deactivated))
+        setDeactivatedUserProfiles(profiles.filter((profile) => profile.deactivated))
       },
       (error) => {
         console.error('Failed to load user profiles', error)
@@ -384,9 +634,9 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
           tasksUnsubscribeRef.current()
           tasksUnsubscribeRef.current = null
         }
-        if (chatsUnsubscribeRef.current) {
-          chatsUnsubscribeRef.current()
-          chatsUnsubscribeRef.current = null
+        if (chatsPagerRef.current) {
+          chatsPagerRef.current.stop()
+          chatsPagerRef.current = null
         }
 
         // Set up tasks query with the loaded profile
@@ -413,24 +663,37 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
         tasksUnsubscribeRef.current = onSnapshot(
           tasksQuery,
           (taskSnapshot) => {
-            const allTasks = taskSnapshot.docs.map((docSnapshot) => {
-              const data = docSnapshot.data()
-              return {
-                id: docSnapshot.id,
-                title: data.title ?? '',
-                status: data.status ?? 'Backlog',
-                assignee: data.assignee ?? '',
-                assigneeId: data.assigneeId ?? '',
-                dueDate: data.dueDate ?? '',
-                priority: data.priority ?? 'Medium',
-                department: data.department ?? '',
-                summary: data.summary ?? '',
-                blockers: data.blockers ?? [],
-                fileUrls: data.fileUrls ?? [],
-                createdBy: data.createdBy ?? undefined,
-                completedAt: data.completedAt ?? undefined,
-              } satisfies Task
-            })
+            const allTasks = taskSnapshot.docs
+              .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+              .map((docSnapshot) => {
+                const data = docSnapshot.data()
+                return {
+                  id: docSnapshot.id,
+                  title: data.title ?? '',
+                  status: data.status ?? 'Backlog',
+                  stage: data.stage || undefined,
+                  workflowId: data.workflowId || undefined,
+                  assignee: data.assignee ?? '',
+                  assigneeId: data.assigneeId ?? '',
+                  ...parseTaskAssignees(data),
+                  watcherIds: data.watcherIds ?? [],
+                  dueDate: data.dueDate ?? '',
+                  priority: data.priority ?? 'Medium',
+                  department: data.department ?? '',
+                  summary: data.summary ?? '',
+                  blockers: data.blockers ?? [],
+                  fileUrls: data.fileUrls ?? [],
+                  attachments: data.attachments ?? [],
+                  labels: data.labels ?? [],
+                  customFields: data.customFields ?? {},
+                  checklist: data.checklist ?? [],
+                  requireChecklist: data.requireChecklist ?? false,
+                  createdBy: data.createdBy ?? undefined,
+                  createdAt: data.createdAt?.toDate?.() ?? undefined,
+                  completedAt: data.completedAt ?? undefined,
+                  slaBreachedAt: data.slaBreachedAt ?? undefined,
+                } satisfies Task
+              })
             
             // For regular users (not Admin, not Department Head), show all tasks for viewing
             // but they can only edit their own tasks (handled in TaskBoard component)
@@ -449,48 +712,54 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
             ? query(chatsRef, where('department', '==', departmentFilter))
             : chatsRef
 
-        chatsUnsubscribeRef.current = onSnapshot(
-          chatsQuery,
-          (chatsSnapshot) => {
-            const newMessages = chatsSnapshot.docs.map((docSnapshot) => {
-              const data = docSnapshot.data()
-              return {
-                id: docSnapshot.id,
-                author: data.author ?? '',
-                authorId: data.authorId ?? '',
-                department: data.department ?? '',
-                createdAt: data.createdAt?.toDate?.() ?? new Date(),
-                text: data.text ?? '',
-                role: data.role ?? '',
-              } satisfies ChatMessage
-            })
+        latestChatMessageAtRef.current = null
+        chatsPagerRef.current = createChatPager(chatsQuery, {
+          onChange: (chatDocs, hasOlder) => {
+            const newMessages = chatDocs
+              .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+              .map((docSnapshot) => {
+                const data = docSnapshot.data()
+                return {
+                  id: docSnapshot.id,
+                  author: data.author ?? '',
+                  authorId: data.authorId ?? '',
+                  department: data.department ?? '',
+                  createdAt: data.createdAt?.toDate?.() ?? new Date(),
+                  text: data.text ?? '',
+                  role: data.role ?? '',
+                  attachments: parseChatAttachments(data.attachments),
+                  ...parseChatThreadFields(data),
+                  ...parseChatEditFields(data),
+                } satisfies ChatMessage
+              })
             
             // Check for new messages (not sent by current user)
-            const currentMessageIds = new Set(newMessages.map(m => m.id))
-            const previousIds = previousChatMessageIdsRef.current
-            
-            // Find new messages that weren't in the previous set
-            const newMessageIds = newMessages
-              .filter(msg => !previousIds.has(msg.id) && msg.authorId !== user?.uid)
-              .map(msg => msg.id)
+            const latestLoadedAt = latestChatMessageAtRef.current
+            const hasNewMessages =
+              latestLoadedAt !== null &&
+              newMessages.some((msg) => msg.createdAt > latestLoadedAt && msg.authorId !== user?.uid)
             
             // Play notification sound for new messages from other users
-            if (newMessageIds.length > 0 && previousIds.size > 0) {
+            if (hasNewMessages) {
               playNotificationSound()
             }
             
-            // Update previous message IDs
-            previousChatMessageIdsRef.current = currentMessageIds
+            // Messages arrive newest first
+            const newestAt = newMessages[0]?.createdAt
+            if (newestAt && (!latestLoadedAt || newestAt > latestLoadedAt)) {
+              latestChatMessageAtRef.current = newestAt
+            }
             
-            setChatMessages(newMessages)
+            setChatMessages(newMessages.reverse())
+            setHasOlderChatMessages(hasOlder)
             setLoading(false)
           },
-          (error) => {
+          onError: (error) => {
             console.error('Failed to load chat messages', error)
             setDataError(error)
             setLoading(false)
           },
-        )
+        })
       },
       (error) => {
         console.error('Failed to load user profile', error)
@@ -504,12 +773,8 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
       if (tasksUnsubscribeRef.current) {
         tasksUnsubscribeRef.current()
       }
-      if (chatsUnsubscribeRef.current) {
-        chatsUnsubscribeRef.current()
-      }
-      if (companyChatsUnsubscribeRef.current) {
-        companyChatsUnsubscribeRef.current()
-      }
+      chatsPagerRef.current?.stop()
+      companyChatsPagerRef.current?.stop()
     }
   }, [firestore, user])
 
@@ -521,32 +786,33 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
       return () => {}
     }
 
-    const companyChatsRef = collection(firestore, 'companyChats')
-    const companyChatsQuery = query(
-      companyChatsRef,
-      orderBy('createdAt', 'desc'),
-      limit(100)
-    )
-
-    companyChatsUnsubscribeRef.current = onSnapshot(
-      companyChatsQuery,
-      (snapshot) => {
-        const messages = snapshot.docs.map((docSnapshot) => {
-          const data = docSnapshot.data()
-          const seenByData = data.seenBy ?? []
-          return {
-            id: docSnapshot.id,
-            author: data.author ?? '',
-            authorId: data.authorId ?? '',
-            role: data.role ?? '',
-            createdAt: data.createdAt?.toDate?.() ?? new Date(),
-            text: data.text ?? '',
-            seenBy: Array.isArray(seenByData) ? seenByData.map((item: any) => ({
-              userId: item.userId ?? '',
-              seenAt: item.seenAt?.toDate?.() ?? new Date(),
-            })) : undefined,
-          }
-        })
+    // Unread messages are loaded up front even when they span more than one page
+    const lastReadAt = localStorage.getItem(`companyChat_lastRead_${user.uid}`)
+    latestCompanyChatMessageAtRef.current = null
+    companyChatsPagerRef.current = createChatPager(collection(firestore, 'companyChats'), {
+      unreadSince: lastReadAt ? new Date(lastReadAt) : null,
+      onChange: (docs, hasOlder) => {
+        const messages = docs
+          .filter((docSnapshot) => !isTrashed(docSnapshot.data()))
+          .map((docSnapshot) => {
+            const data = docSnapshot.data()
+            const seenByData = data.seenBy ?? []
+            return {
+              id: docSnapshot.id,
+              author: data.author ?? '',
+              authorId: data.authorId ?? '',
+              role: data.role ?? '',
+              createdAt: data.createdAt?.toDate?.() ?? new Date(),
+              text: data.text ?? '',
+              attachments: parseChatAttachments(data.attachments),
+              seenBy: Array.isArray(seenByData) ? seenByData.map((item: any) => ({
+                userId: item.userId ?? '',
+                seenAt: item.seenAt?.toDate?.() ?? new Date(),
+              })) : undefined,
+              ...parseChatThreadFields(data),
+              ...parseChatEditFields(data),
+            }
+          })
 
         // Get last read timestamp from localStorage
         const lastReadKey = `companyChat_lastRead_${user.uid}`
@@ -563,16 +829,13 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
         setCompanyChatUnreadCount(unreadCount)
 
         // Check for new messages (not sent by current user)
-        const currentMessageIds = new Set(messages.map(m => m.id))
-        const previousIds = previousCompanyChatMessageIdsRef.current
-
-        // Find new messages that weren't in the previous set
-        const newMessages = messages.filter(
-          msg => !previousIds.has(msg.id) && msg.authorId !== user.uid
-        )
+        const latestLoadedAt = latestCompanyChatMessageAtRef.current
+        const newMessages = latestLoadedAt
+          ? messages.filter((msg) => msg.createdAt > latestLoadedAt && msg.authorId !== user.uid)
+          : []
 
         // Play notification sound and show desktop notification for new messages
-        if (newMessages.length > 0 && previousIds.size > 0) {
+        if (newMessages.length > 0) {
           playNotificationSound()
           
           // Show desktop notification for the most recent new message
@@ -584,21 +847,24 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
           })
         }
 
-        // Update previous message IDs
-        previousCompanyChatMessageIdsRef.current = currentMessageIds
+        // Messages arrive newest first
+        const newestAt = messages[0]?.createdAt
+        if (newestAt && (!latestLoadedAt || newestAt > latestLoadedAt)) {
+          latestCompanyChatMessageAtRef.current = newestAt
+        }
 
         // Reverse to show oldest first
         setCompanyChatMessages(messages.reverse())
+        setHasOlderCompanyChatMessages(hasOlder)
       },
-      (error) => {
+      onError: (error) => {
         console.error('Failed to load company chat messages', error)
-      }
-    )
+      },
+    })
 
     return () => {
-      if (companyChatsUnsubscribeRef.current) {
-        companyChatsUnsubscribeRef.current()
-      }
+      companyChatsPagerRef.current?.stop()
+      companyChatsPagerRef.current = null
     }
   }, [firestore, user])
 
@@ -700,6 +966,111 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     return () => unsubscribe()
   }, [firestore, user, userProfile])
 
+  // Load in-app notifications for the current user (written by Cloud Functions)
+  useEffect(() => {
+    if (!firestore || !user) {
+      setNotifications([])
+      previousNotificationIdsRef.current = null
+      return () => {}
+    }
+
+    // Filter by userId only and sort in memory to avoid composite index requirement
+    const notificationsQuery = query(collection(firestore, 'notifications'), where('userId', '==', user.uid))
+
+    const unsubscribe = onSnapshot(
+      notificationsQuery,
+      (snapshot) => {
+        const items = snapshot.docs.map((docSnapshot) => {
+          const data = docSnapshot.data()
+          return {
+            id: docSnapshot.id,
+            userId: data.userId ?? '',
+            title: data.title ?? '',
+            body: data.body ?? '',
+            link: data.link ?? undefined,
+            source: data.source ?? '',
+            read: data.read ?? false,
+            createdAt: data.createdAt?.toDate?.() ?? new Date(),
+          } satisfies AppNotification
+        })
+        items.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+
+        // Show a desktop notification for anything new since the last snapshot
+        const previousIds = previousNotificationIdsRef.current
+        if (previousIds) {
+          const newItems = items.filter((item) => !previousIds.has(item.id) && !item.read)
+          if (newItems.length > 0) {
+            playNotificationSound()
+            showDesktopNotification(newItems[0].title, {
+              body: newItems[0].body.substring(0, 100),
+              tag: 'app-notification',
+              requireInteraction: false,
+            })
+          }
+        }
+        previousNotificationIdsRef.current = new Set(items.map((item) => item.id))
+
+        setNotifications(items)
+      },
+      (error) => {
+        console.error('Failed to load notifications', error)
+      }
+    )
+
+    return () => unsubscribe()
+  }, [firestore, user])
+
+  // Load the direct messages and group channels the user is a member of
+  useEffect(() => {
+    if (!firestore || !user) {
+      setChatChannels([])
+      previousChannelUnreadRef.current = null
+      return () => {}
+    }
+
+    const unsubscribe = onSnapshot(
+      query(collection(firestore, 'chatChannels'), where('memberIds', 'array-contains', user.uid)),
+      (snapshot) => {
+        const channels = snapshot.docs
+          .map((docSnapshot) => parseChatChannel(docSnapshot.id, docSnapshot.data()))
+          .sort(
+            (a, b) =>
+              (b.lastMessageAt ?? b.createdAt).getTime() - (a.lastMessageAt ?? a.createdAt).getTime(),
+          )
+
+        // Alert for channels with more unread messages than in the last snapshot
+        const previousUnread = previousChannelUnreadRef.current
+        if (previousUnread) {
+          const newlyUnread = channels.find(
+            (channel) => getChannelUnreadCount(channel, user.uid) > (previousUnread.get(channel.id) ?? 0),
+          )
+          if (newlyUnread) {
+            playNotificationSound()
+            const title =
+              newlyUnread.type === 'group'
+                ? `New message in ${newlyUnread.name}`
+                : `New message from ${newlyUnread.lastMessageAuthor ?? 'a colleague'}`
+            showDesktopNotification(title, {
+              body: newlyUnread.lastMessagePreview ?? '',
+              tag: `chat-channel-${newlyUnread.id}`,
+              requireInteraction: false,
+            })
+          }
+        }
+        previousChannelUnreadRef.current = new Map(
+          channels.map((channel) => [channel.id, getChannelUnreadCount(channel, user.uid)]),
+        )
+
+        setChatChannels(channels)
+      },
+      (error) => {
+        console.error('Failed to load chat channels', error)
+      }
+    )
+
+    return () => unsubscribe()
+  }, [firestore, user])
+
   // Function to mark company chat as read
   const markCompanyChatAsRead = useCallback(() => {
     if (!user) return
@@ -708,6 +1079,37 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     setCompanyChatUnreadCount(0)
   }, [user])
 
+  const loadOlderChatMessages = useCallback(() => chatsPagerRef.current?.loadOlder() ?? Promise.resolve(), [])
+  const loadOlderCompanyChatMessages = useCallback(
+    () => companyChatsPagerRef.current?.loadOlder() ?? Promise.resolve(),
+    [],
+  )
+
+  const searchDepartment = userProfile?.department
+  const loadChatSearchWindow = useCallback(() => {
+    if (!firestore || !user) return Promise.resolve<ChatSearchWindow>({ company: [], department: [] })
+    const key = `${user.uid}_${searchDepartment ?? ''}`
+    if (chatSearchWindowRef.current?.key !== key) {
+      const departmentChatsRef = collection(firestore, 'departmentChats')
+      const fetchRecent = (baseQuery: Query) =>
+        getDocs(query(baseQuery, orderBy('createdAt', 'desc'), limit(CHAT_SEARCH_LIMIT))).then((snapshot) => snapshot.docs)
+      const promise = Promise.all([
+        fetchRecent(collection(firestore, 'companyChats')),
+        fetchRecent(
+          searchDepartment && searchDepartment !== 'all'
+            ? query(departmentChatsRef, where('department', '==', searchDepartment))
+            : departmentChatsRef,
+        ),
+      ]).then(([company, department]) => ({ company, department }))
+      // Forget a failed fetch so the next search tries again
+      promise.catch(() => {
+        if (chatSearchWindowRef.current?.promise === promise) chatSearchWindowRef.current = null
+      })
+      chatSearchWindowRef.current = { key, promise }
+    }
+    return chatSearchWindowRef.current.promise
+  }, [firestore, user, searchDepartment])
+
   /* eslint-enable react-hooks/set-state-in-effect */
 
   const filteredTasks = useMemo(() => {
@@ -716,10 +1118,11 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
       const matchesPriority = filters.priorities.includes(task.priority)
       const matchesDepartment =
         filters.departments.length === 0 || filters.departments.includes(task.department)
-      const matchesAssignedToMe = !filters.assignedToMe || (user && task.assigneeId === user.uid)
-      return matchesStatus && matchesPriority && matchesDepartment && matchesAssignedToMe
+      const matchesAssignedToMe = !filters.assignedToMe || (user && isTaskAssignee(task, user.uid))
+      const matchesFields = matchesTaskFieldFilters(task, filters, customFieldDefinitions)
+      return matchesStatus && matchesPriority && matchesDepartment && matchesAssignedToMe && matchesFields
     })
-  }, [tasks, filters, user])
+  }, [tasks, filters, user, customFieldDefinitions])
 
   const updateTask = async (taskId: string, updates: Partial<Omit<Task, 'id'>>) => {
     if (!firestore) {
@@ -727,9 +1130,11 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     }
     const taskRef = doc(firestore, 'tasks', taskId)
     
-    // Filter out undefined values and prepare update object
+    // Filter out undefined values and prepare update object.
+    // updatedBy attributes the change in the task history written by the onTaskWrittenHistory function.
     const updateData: Record<string, any> = {
       updatedAt: new Date().toISOString(),
+      updatedBy: user?.uid ?? null,
     }
     
     // Only include defined values in the update
@@ -743,28 +1148,61 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     await updateDoc(taskRef, updateData)
   }
 
-  const deleteTask = async (taskId: string) => {
+  const markChatChannelAsRead = useCallback(async (channelId: string) => {
+    const channel = chatChannels.find((item) => item.id === channelId)
+    if (!firestore || !user || !channel) return
+    await markChannelAsRead(firestore, channel, user.uid)
+  }, [chatChannels, firestore, user])
+
+  const markNotificationAsRead = useCallback(async (notificationId: string) => {
+    if (!firestore) {
+      throw new Error('Firestore is not initialized')
+    }
+    await updateDoc(doc(firestore, 'notifications', notificationId), {
+      read: true,
+      readAt: new Date().toISOString(),
+    })
+  }, [firestore])
+
+  const markAllNotificationsAsRead = useCallback(async () => {
     if (!firestore) {
       throw new Error('Firestore is not initialized')
     }
+    const readAt = new Date().toISOString()
+    await Promise.all(
+      notifications
+        .filter((notification) => !notification.read)
+        .map((notification) => updateDoc(doc(firestore, 'notifications', notification.id), { read: true, readAt })),
+    )
+  }, [firestore, notifications])
+
+  // Deleting moves tasks and messages to the trash; admins restore or purge them in Settings
+  const deleteTask = async (taskId: string) => {
+    if (!firestore || !user) {
+      throw new Error('Firestore is not initialized')
+    }
     const taskRef = doc(firestore, 'tasks', taskId)
-    await deleteDoc(taskRef)
+    await updateDoc(taskRef, {
+      ...buildTrashFields(user.uid),
+      updatedAt: new Date().toISOString(),
+      updatedBy: user.uid,
+    })
   }
 
   const deleteChatMessage = async (messageId: string) => {
-    if (!firestore) {
+    if (!firestore || !user) {
       throw new Error('Firestore is not initialized')
     }
     const messageRef = doc(firestore, 'departmentChats', messageId)
-    await deleteDoc(messageRef)
+    await updateDoc(messageRef, buildTrashFields(user.uid))
   }
 
   const deleteCompanyChatMessage = async (messageId: string) => {
-    if (!firestore) {
+    if (!firestore || !user) {
       throw new Error('Firestore is not initialized')
     }
     const messageRef = doc(firestore, 'companyChats', messageId)
-    await deleteDoc(messageRef)
+    await updateDoc(messageRef, buildTrashFields(user.uid))
   }
 
   const markCompanyChatMessageAsSeen = async (messageId: string) => {
@@ -859,16 +1297,34 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
   const value = useMemo<AppDataContextValue>(
     () => ({
       departments,
+      workspaceSettings,
+      taskLabels,
+      customFieldDefinitions,
       tasks,
       filteredTasks,
       chatMessages,
+      hasOlderChatMessages,
+      loadOlderChatMessages,
       companyChatMessages,
+      hasOlderCompanyChatMessages,
+      loadOlderCompanyChatMessages,
+      loadChatSearchWindow,
       companyChatUnreadCount,
       markCompanyChatAsRead,
+      chatChannels,
+      chatChannelUnreadCount: user
+        ? chatChannels.reduce((total, channel) => total + getChannelUnreadCount(channel, user.uid), 0)
+        : 0,
+      markChatChannelAsRead,
       userProfile,
       allUserProfiles,
+      deactivatedUserProfiles,
       kpiPoints,
       leaveRequests,
+      notifications,
+      unreadNotificationCount: notifications.filter((notification) => !notification.read).length,
+      markNotificationAsRead,
+      markAllNotificationsAsRead,
       loading,
       firestore,
       dataError,
@@ -885,19 +1341,34 @@ export function AppDataProvider({ children }: { children: ReactNode }) {
     }),
     [
       allUserProfiles,
+      deactivatedUserProfiles,
+      chatChannels,
       chatMessages,
       companyChatMessages,
       companyChatUnreadCount,
+      customFieldDefinitions,
       dataError,
       departments,
       firestore,
       filteredTasks,
       filters,
+      hasOlderChatMessages,
+      hasOlderCompanyChatMessages,
       kpiPoints,
       leaveRequests,
+      loadChatSearchWindow,
+      loadOlderChatMessages,
+      loadOlderCompanyChatMessages,
       loading,
+      markAllNotificationsAsRead,
+      markChatChannelAsRead,
+      markNotificationAsRead,
+      notifications,
+      taskLabels,
       tasks,
+      user,
       userProfile,
+      workspaceSettings,
     ],
   )
 
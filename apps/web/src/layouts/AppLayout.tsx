@@ -1,14 +1,20 @@
-import { useMemo, useState } from 'react'
+import { useEffect, useMemo, useState } from 'react'
 import { Navigate, Outlet, useLocation } from 'react-router-dom'
-import { addDoc, collection, Timestamp } from 'firebase/firestore'
+import { addDoc, collection, onSnapshot, Timestamp } from 'firebase/firestore'
 import { Topbar } from '../components/Topbar'
 import { Sidebar } from '../components/Sidebar'
 import { RightRail } from '../components/RightRail'
 import { FilterDrawer } from '../components/FilterDrawer'
+import { BlockerPicker } from '../components/BlockerPicker'
+import { UserPicker } from '../components/UserPicker'
+import { CommandPalette } from '../components/CommandPalette'
 import { navItems } from '../config/navigation'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { playNotificationSound } from '../lib/notifications'
+import { validateBlockers } from '../lib/taskDependencies'
+import { MAX_TASK_ASSIGNEES, MAX_TASK_WATCHERS, buildAssigneeFields } from '../lib/taskAssignees'
+import { parseTaskTemplate, taskFieldsFromTemplate, type TaskTemplate } from '../lib/taskTemplates'
 
 export function AppLayout() {
   const location = useLocation()
@@ -16,8 +22,48 @@ export function AppLayout() {
   const { chatMessages, departments, tasks, firestore, dataError, allUserProfiles, userProfile } = useAppData()
   const [isCreateTaskOpen, setIsCreateTaskOpen] = useState(false)
   const [isFilterOpen, setIsFilterOpen] = useState(false)
+  const [isCommandPaletteOpen, setIsCommandPaletteOpen] = useState(false)
   const [taskError, setTaskError] = useState<string | null>(null)
   const [isCreatingTask, setIsCreatingTask] = useState(false)
+  const [newTaskBlockers, setNewTaskBlockers] = useState<string[]>([])
+  const [newTaskAssigneeIds, setNewTaskAssigneeIds] = useState<string[]>([])
+  const [newTaskWatcherIds, setNewTaskWatcherIds] = useState<string[]>([])
+  const [taskTemplates, setTaskTemplates] = useState<TaskTemplate[]>([])
+  const [selectedTemplateId, setSelectedTemplateId] = useState('')
+
+  const selectedTemplate = taskTemplates.find((template) => template.id === selectedTemplateId) ?? null
+
+  // Templates are only needed while the Create Task modal is open
+  useEffect(() => {
+    if (!firestore || !isCreateTaskOpen) return
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, 'taskTemplates'),
+      (snapshot) => {
+        const loaded = snapshot.docs.map((docSnapshot) => parseTaskTemplate(docSnapshot.id, docSnapshot.data()))
+        loaded.sort((a, b) => a.name.localeCompare(b.name))
+        setTaskTemplates(loaded)
+      },
+      (error) => {
+        console.error('Failed to load task templates', error)
+      },
+    )
+
+    return () => unsubscribe()
+  }, [firestore, isCreateTaskOpen])
+
+  // Ctrl/Cmd+K toggles the command palette from anywhere in the app
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if ((event.ctrlKey || event.metaKey) && event.key.toLowerCase() === 'k') {
+        event.preventDefault()
+        setIsCommandPaletteOpen((open) => !open)
+      }
+    }
+
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [])
 
   const activeTitle = useMemo(() => {
     const directMatch = navItems.find((item) => item.path === location.pathname)
@@ -69,6 +115,7 @@ export function AppLayout() {
       <Topbar
         pageTitle={activeTitle}
         onCreateTask={() => setIsCreateTaskOpen(true)}
+        onOpenSearch={() => setIsCommandPaletteOpen(true)}
       />
 
       <div className="body">
@@ -116,6 +163,7 @@ export function AppLayout() {
               </button>
             </header>
             <form
+              key={selectedTemplateId}
               className="modal-form"
               onSubmit={async (event) => {
                 event.preventDefault()
@@ -132,9 +180,9 @@ export function AppLayout() {
                 const data = new FormData(formElement)
                 const title = (data.get('title') as string)?.trim() ?? ''
                 const department = (data.get('department') as string)?.trim() ?? ''
-                const assigneeName = (data.get('assignee') as string)?.trim() ?? ''
                 const dueDate = (data.get('dueDate') as string)?.trim() ?? ''
                 const summary = (data.get('summary') as string)?.trim() ?? ''
+                const priority = (data.get('priority') as string) || 'Medium'
                 const fileUrlsInput = (data.get('fileUrls') as string)?.trim() ?? ''
 
                 // Validate required fields
@@ -146,8 +194,8 @@ export function AppLayout() {
                   setTaskError('Department is required.')
                   return
                 }
-                if (!assigneeName) {
-                  setTaskError('Assignee is required.')
+                if (newTaskAssigneeIds.length === 0) {
+                  setTaskError('At least one assignee is required.')
                   return
                 }
                 if (!summary) {
@@ -155,13 +203,11 @@ export function AppLayout() {
                   return
                 }
 
-                // Find the assignee's user ID from the selected name
-                const selectedAssignee = allUserProfiles.find(
-                  (profile) => profile.displayName === assigneeName
-                )
-                
-                if (!selectedAssignee) {
-                  setTaskError('Selected assignee not found. Please select a valid user.')
+                const assigneeFields = buildAssigneeFields(newTaskAssigneeIds, allUserProfiles)
+
+                const blockersError = validateBlockers(null, newTaskBlockers, tasks)
+                if (blockersError) {
+                  setTaskError(blockersError)
                   return
                 }
 
@@ -179,13 +225,13 @@ export function AppLayout() {
                   console.log('📝 Creating task with data:', {
                     title,
                     department,
-                    assignee: assigneeName,
-                    assigneeId: selectedAssignee.id,
+                    assignees: assigneeFields.assignees,
+                    watcherIds: newTaskWatcherIds,
                     dueDate,
                     summary,
                     fileUrls,
                     status: 'Backlog',
-                    priority: 'Medium',
+                    priority,
                     userRole: userProfile?.role,
                     userProfile: userProfile,
                   })
@@ -193,20 +239,33 @@ export function AppLayout() {
                   const taskData: Record<string, any> = {
                     title,
                     department,
-                    assignee: assigneeName,
-                    assigneeId: selectedAssignee.id,
+                    ...assigneeFields,
+                    watcherIds: newTaskWatcherIds,
                     dueDate: dueDate || null,
                     summary,
                     status: 'Backlog',
-                    priority: 'Medium',
+                    priority,
                     createdAt: Timestamp.now(),
                     createdBy: user.uid,
                   }
+
+                  // Checklist items come from the template the form was started from
+                  if (selectedTemplate) {
+                    const { checklist, templateId } = taskFieldsFromTemplate(selectedTemplate)
+                    taskData.templateId = templateId
+                    if (checklist.length > 0) {
+                      taskData.checklist = checklist
+                    }
+                  }
                   
                   // Only include fileUrls if there are valid URLs
                   if (fileUrls.length > 0) {
                     taskData.fileUrls = fileUrls
                   }
+
+                  if (newTaskBlockers.length > 0) {
+                    taskData.blockers = newTaskBlockers
+                  }
                   
                   console.log('📤 Sending to Firestore:', taskData)
                   
@@ -221,6 +280,10 @@ export function AppLayout() {
                   if (formElement) {
                     formElement.reset()
                   }
+                  setNewTaskBlockers([])
+                  setNewTaskAssigneeIds([])
+                  setNewTaskWatcherIds([])
+                  setSelectedTemplateId('')
                   
                   setTaskError(null)
                   setIsCreateTaskOpen(false)
@@ -254,13 +317,38 @@ export function AppLayout() {
                 }
               }}
             >
+              {taskTemplates.length > 0 && (
+                <label>
+                  <span>Start from template (optional)</span>
+                  <select
+                    value={selectedTemplateId}
+                    onChange={(e) => {
+                      const template = taskTemplates.find((item) => item.id === e.target.value)
+                      setSelectedTemplateId(e.target.value)
+                      setNewTaskAssigneeIds(template?.assigneeId ? [template.assigneeId] : [])
+                    }}
+                  >
+                    <option value="">Blank task</option>
+                    {taskTemplates.map((template) => (
+                      <option key={template.id} value={template.id}>
+                        {template.name}
+                      </option>
+                    ))}
+                  </select>
+                  {selectedTemplate && selectedTemplate.checklist.length > 0 && (
+                    <small style={{ color: 'var(--text-muted)', fontSize: '0.75rem' }}>
+                      Adds {selectedTemplate.checklist.length} checklist item{selectedTemplate.checklist.length === 1 ? '' : 's'}.
+                    </small>
+                  )}
+                </label>
+              )}
               <label>
                 <span>Title</span>
-                <input name="title" type="text" placeholder="Task title" required />
+                <input name="title" type="text" placeholder="Task title" defaultValue={selectedTemplate?.title} required />
               </label>
               <label>
                 <span>Department</span>
-                <select name="department" required>
+                <select name="department" defaultValue={selectedTemplate?.department} required>
                   <option value="">Select department</option>
                   {departments.map((dept) => (
                     <option key={dept.id} value={dept.name}>
@@ -269,18 +357,26 @@ export function AppLayout() {
                   ))}
                 </select>
               </label>
+              <div className="modal-field">
+                <span>Assignees</span>
+                <UserPicker
+                  profiles={allUserProfiles}
+                  value={newTaskAssigneeIds}
+                  onChange={setNewTaskAssigneeIds}
+                  max={MAX_TASK_ASSIGNEES}
+                />
+                {allUserProfiles.length === 0 && (
+                  <small style={{ color: 'var(--text-muted)', fontSize: '0.75rem', marginTop: '0.25rem', display: 'block' }}>
+                    No users available. Create a user profile first.
+                  </small>
+                )}
+              </div>
               <label>
-                <span>Assignee</span>
-                <select name="assignee" required>
-                  <option value="">Select assignee</option>
-                  {allUserProfiles.map((profile) => (
-                    <option key={profile.id} value={profile.displayName}>
-                      {profile.displayName} ({profile.department})
-                    </option>
-                  ))}
-                  {allUserProfiles.length === 0 && (
-                    <option disabled>No users available. Create a user profile first.</option>
-                  )}
+                <span>Priority</span>
+                <select name="priority" defaultValue={selectedTemplate?.priority ?? 'Medium'}>
+                  <option value="Low">Low</option>
+                  <option value="Medium">Medium</option>
+                  <option value="High">High</option>
                 </select>
               </label>
               <label>
@@ -289,8 +385,33 @@ export function AppLayout() {
               </label>
               <label>
                 <span>Summary</span>
-                <textarea name="summary" rows={3} placeholder="Describe the task" required />
+                <textarea
+                  name="summary"
+                  rows={3}
+                  placeholder="Describe the task"
+                  defaultValue={selectedTemplate?.summary}
+                  required
+                />
               </label>
+              <div className="modal-field">
+                <span>Blocked by (optional)</span>
+                <BlockerPicker tasks={tasks} value={newTaskBlockers} onChange={setNewTaskBlockers} />
+                <small style={{ color: 'var(--text-muted)', fontSize: '0.75rem', marginTop: '0.25rem', display: 'block' }}>
+                  The task cannot move to In Progress or Completed until these tasks are completed.
+                </small>
+              </div>
+              <div className="modal-field">
+                <span>Watchers (optional)</span>
+                <UserPicker
+                  profiles={allUserProfiles}
+                  value={newTaskWatcherIds}
+                  onChange={setNewTaskWatcherIds}
+                  max={MAX_TASK_WATCHERS}
+                />
+                <small style={{ color: 'var(--text-muted)', fontSize: '0.75rem', marginTop: '0.25rem', display: 'block' }}>
+                  Watchers are notified when the status changes but cannot edit the task.
+                </small>
+              </div>
               <label>
                 <span>File URLs (optional)</span>
                 <textarea 
@@ -340,6 +461,12 @@ export function AppLayout() {
         </div>
       )}
       <FilterDrawer isOpen={isFilterOpen} onClose={() => setIsFilterOpen(false)} />
+      {isCommandPaletteOpen && (
+        <CommandPalette
+          onClose={() => setIsCommandPaletteOpen(false)}
+          onCreateTask={() => setIsCreateTaskOpen(true)}
+        />
+      )}
     </div>
   )
 }
@@ -0,0 +1,186 @@
+import type { Task, UserProfile } from '../context/AppDataContext'
+
+// Mirrors the rule shape evaluated by the automation Cloud Functions in functions/src/automation.ts
+
+export type AutomationTrigger =
+  | { type: 'taskStatusChanged'; fromStatus?: Task['status']; toStatus?: Task['status'] }
+  // offsetDays is relative to the due date: 2 fires two days after it passes, -3 fires three days before it
+  | { type: 'taskDueDate'; offsetDays: number }
+  | { type: 'calendarUpdateApproved' }
+  | { type: 'leaveRequestSubmitted' }
+
+export type AutomationConditions = {
+  departments?: string[]
+  priorities?: Task['priority'][]
+  roles?: UserProfile['role'][]
+}
+
+export type NotifyTarget = 'subjectUser' | 'departmentHeads' | 'managers' | 'user'
+
+export type AutomationAction =
+  | { type: 'notifyUser'; target: NotifyTarget; userId?: string; message: string }
+  | { type: 'postToDepartmentChat'; message: string }
+  | { type: 'changeStatus'; status: Task['status'] }
+  | { type: 'reassign'; assigneeId: string }
+
+export type AutomationRule = {
+  id: string
+  name: string
+  description: string
+  enabled: boolean
+  trigger: AutomationTrigger
+  conditions: AutomationConditions
+  actions: AutomationAction[]
+  createdBy?: string
+  updatedAt?: string
+}
+
+export type AutomationSimulationResult = {
+  scanned: number
+  matches: {
+    subjectKind: 'task' | 'calendarUpdate' | 'leaveRequest'
+    subjectId: string
+    label: string
+    actions: string[]
+  }[]
+}
+
+// One execution of a rule, written by the automation Cloud Functions
+export type AutomationRun = {
+  id: string
+  ruleId: string
+  ruleName: string
+  trigger: AutomationTrigger['type']
+  subjectKind: string
+  subjectId: string
+  subjectLabel: string
+  outcome: 'success' | 'error'
+  actions: string[]
+  error: string | null
+  ranAt: Date
+}
+
+export const TRIGGER_LABELS: Record<AutomationTrigger['type'], string> = {
+  taskStatusChanged: 'Task status changes',
+  taskDueDate: 'Task due date passes',
+  calendarUpdateApproved: 'Calendar update approved',
+  leaveRequestSubmitted: 'Leave request submitted',
+}
+
+export const ACTION_LABELS: Record<AutomationAction['type'], string> = {
+  notifyUser: 'Notify user',
+  postToDepartmentChat: 'Post to department chat',
+  changeStatus: 'Change task status',
+  reassign: 'Reassign task',
+}
+
+export const NOTIFY_TARGET_LABELS: Record<NotifyTarget, string> = {
+  subjectUser: 'Assignee / requester',
+  departmentHeads: 'Department heads',
+  managers: 'Managers',
+  user: 'Specific user',
+}
+
+// Placeholders that can be used in notification and chat messages, per trigger
+export const TEMPLATE_FIELDS: Record<AutomationTrigger['type'], string[]> = {
+  taskStatusChanged: ['title', 'assignee', 'department', 'status', 'priority', 'dueDate'],
+  taskDueDate: ['title', 'assignee', 'department', 'status', 'priority', 'dueDate', 'daysOverdue'],
+  calendarUpdateApproved: ['department', 'requestedByName', 'month', 'year', 'taskDetails'],
+  leaveRequestSubmitted: ['userName', 'type', 'numberOfDays', 'startDate', 'endDate', 'department', 'reason'],
+}
+
+/**
+ * The sample rules every workspace starts with. Fixed ids keep seeding idempotent.
+ */
+export const SAMPLE_AUTOMATION_RULES: AutomationRule[] = [
+  {
+    id: 'overdue-escalation',
+    name: 'Overdue escalation',
+    description: 'When a task is 2 days overdue, notify the department head and move it to Review.',
+    enabled: true,
+    trigger: { type: 'taskDueDate', offsetDays: 2 },
+    conditions: {},
+    actions: [
+      {
+        type: 'notifyUser',
+        target: 'departmentHeads',
+        message: '"{{title}}" assigned to {{assignee}} is {{daysOverdue}} days overdue.',
+      },
+      { type: 'changeStatus', status: 'Review' },
+    ],
+  },
+  {
+    id: 'chat-sync',
+    name: 'Chat sync',
+    description: 'Post a summary to the department chat when a task transitions to Completed.',
+    enabled: true,
+    trigger: { type: 'taskStatusChanged', toStatus: 'Completed' },
+    conditions: {},
+    actions: [
+      {
+        type: 'postToDepartmentChat',
+        message: '✅ {{assignee}} completed "{{title}}" ({{priority}} priority).',
+      },
+    ],
+  },
+  {
+    id: 'calendar-reminder',
+    name: 'Calendar reminder',
+    description: 'Remind the assignee about High priority tasks with a due date within 3 days.',
+    enabled: false,
+    trigger: { type: 'taskDueDate', offsetDays: -3 },
+    conditions: { priorities: ['High'] },
+    actions: [
+      {
+        type: 'notifyUser',
+        target: 'subjectUser',
+        message: 'Reminder: "{{title}}" is due on {{dueDate}}.',
+      },
+    ],
+  },
+]
+
+export function describeTrigger(trigger: AutomationTrigger): string {
+  switch (trigger.type) {
+    case 'taskStatusChanged': {
+      const from = trigger.fromStatus ? ` from ${trigger.fromStatus}` : ''
+      const to = trigger.toStatus ? ` to ${trigger.toStatus}` : ''
+      return `When a task moves${from}${to || ' to any status'}`
+    }
+    case 'taskDueDate': {
+      const days = Math.abs(trigger.offsetDays)
+      if (trigger.offsetDays === 0) return 'When a task reaches its due date'
+      return trigger.offsetDays > 0
+        ? `When a task is ${days} day${days === 1 ? '' : 's'} overdue`
+        : `When a task is due within ${days} day${days === 1 ? '' : 's'}`
+    }
+    case 'calendarUpdateApproved':
+      return 'When a calendar update is approved'
+    case 'leaveRequestSubmitted':
+      return 'When a leave request is submitted'
+  }
+}
+
+export function describeConditions(conditions: AutomationConditions): string {
+  const parts: string[] = []
+  if (conditions.departments?.length) parts.push(`department is ${conditions.departments.join(' or ')}`)
+  if (conditions.priorities?.length) parts.push(`priority is ${conditions.priorities.join(' or ')}`)
+  if (conditions.roles?.length) parts.push(`role is ${conditions.roles.join(' or ')}`)
+  return parts.length > 0 ? `only if ${parts.join(' and ')}` : 'for every match'
+}
+
+export function describeAction(action: AutomationAction, profiles: UserProfile[] = []): string {
+  const nameFor = (userId?: string) => profiles.find((p) => p.id === userId)?.displayName ?? 'unknown user'
+  switch (action.type) {
+    case 'notifyUser':
+      return action.target === 'user'
+        ? `Notify ${nameFor(action.userId)}`
+        : `Notify ${NOTIFY_TARGET_LABELS[action.target].toLowerCase()}`
+    case 'postToDepartmentChat':
+      return 'Post to department chat'
+    case 'changeStatus':
+      return `Move task to ${action.status}`
+    case 'reassign':
+      return `Reassign task to ${nameFor(action.assigneeId)}`
+  }
+}
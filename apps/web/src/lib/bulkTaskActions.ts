@@ -0,0 +1,152 @@
+import { deleteField, doc, updateDoc, writeBatch, type Firestore } from 'firebase/firestore'
+import type { Department, Task } from '../context/AppDataContext'
+import { getChecklistBlockReason } from './checklist'
+import { getBlockedMoveReason } from './taskDependencies'
+import { buildTrashFields } from './trash'
+import { checkWipLimit } from './wipLimits'
+import { buildStageUpdates, findStageForStatus, getTaskStage, getTaskWorkflow } from './workflows'
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500
+
+// How long a bulk change can be undone, and how long a bulk delete waits before it runs
+export const BULK_UNDO_WINDOW_MS = 10_000
+
+export type BulkTaskUpdate = {
+  task: Task
+  updates: Record<string, unknown>
+}
+
+export type BulkTaskFailure = {
+  taskId: string
+  title: string
+  message: string
+}
+
+function describeWriteError(error: unknown): string {
+  const code = (error as { code?: string } | null)?.code
+  if (code === 'permission-denied') return 'Permission denied'
+  if (code === 'not-found') return 'Task no longer exists'
+  return error instanceof Error ? error.message : 'Unknown error'
+}
+
+function chunk<T>(items: T[]): T[][] {
+  const chunks: T[][] = []
+  for (let start = 0; start < items.length; start += MAX_BATCH_WRITES) {
+    chunks.push(items.slice(start, start + MAX_BATCH_WRITES))
+  }
+  return chunks
+}
+
+/**
+ * Writes task updates in batches. A batch is all-or-nothing, so when one is rejected its
+ * tasks are retried one at a time to find out which of them the rules denied.
+ */
+export async function applyBulkTaskUpdates(
+  firestore: Firestore,
+  userId: string,
+  items: BulkTaskUpdate[],
+): Promise<BulkTaskFailure[]> {
+  const failures: BulkTaskFailure[] = []
+  // updatedBy attributes the change in the task history, same as a single update
+  const stamp = { updatedAt: new Date().toISOString(), updatedBy: userId }
+
+  for (const group of chunk(items)) {
+    const batch = writeBatch(firestore)
+    group.forEach(({ task, updates }) => batch.update(doc(firestore, 'tasks', task.id), { ...updates, ...stamp }))
+    try {
+      await batch.commit()
+    } catch (error) {
+      console.error('Bulk task update was rejected, retrying tasks one at a time', error)
+      await Promise.all(
+        group.map(async ({ task, updates }) => {
+          try {
+            await updateDoc(doc(firestore, 'tasks', task.id), { ...updates, ...stamp })
+          } catch (taskError) {
+            failures.push({ taskId: task.id, title: task.title, message: describeWriteError(taskError) })
+          }
+        }),
+      )
+    }
+  }
+
+  return failures
+}
+
+/**
+ * Moves tasks to the trash in batches, reporting the ones that could not be moved
+ */
+export async function deleteTasksInBulk(firestore: Firestore, userId: string, tasks: Task[]): Promise<BulkTaskFailure[]> {
+  const trashFields = buildTrashFields(userId)
+  return applyBulkTaskUpdates(
+    firestore,
+    userId,
+    tasks.map((task) => ({ task, updates: trashFields })),
+  )
+}
+
+/**
+ * Builds the updates that put back the fields a bulk change overwrote.
+ * Fields the task did not have before are removed again.
+ */
+export function buildUndoUpdates(items: BulkTaskUpdate[]): BulkTaskUpdate[] {
+  return items.map(({ task, updates }) => {
+    const previous: Record<string, unknown> = {}
+    Object.keys(updates).forEach((key) => {
+      const value = (task as Record<string, unknown>)[key]
+      previous[key] = value === undefined ? deleteField() : value
+    })
+    return { task, updates: previous }
+  })
+}
+
+/**
+ * Works out a bulk status change the same way a single move is checked: tasks whose workflow
+ * has no allowed stage for the status, blocked tasks, unfinished required checklists and
+ * departments in "block" WIP mode are skipped.
+ * Moves are applied to a copy of the task list as they are planned, so the WIP limit
+ * counts the other selected tasks too.
+ */
+export function planBulkStatusChange(
+  selectedTasks: Task[],
+  newStatus: Task['status'],
+  allTasks: Task[],
+  departments: Department[],
+): { items: BulkTaskUpdate[]; skipped: BulkTaskFailure[]; warnings: string[] } {
+  const items: BulkTaskUpdate[] = []
+  const skipped: BulkTaskFailure[] = []
+  const warnings = new Set<string>()
+  let simulated = allTasks
+
+  selectedTasks.forEach((task) => {
+    if (task.status === newStatus) return
+    const taskWorkflow = getTaskWorkflow(task, departments)
+    const stage = findStageForStatus(task, newStatus, taskWorkflow.workflow)
+    if (!stage) {
+      skipped.push({
+        taskId: task.id,
+        title: task.title,
+        message: `The ${task.department} workflow does not allow moving "${getTaskStage(task, taskWorkflow.workflow)}" to ${newStatus}.`,
+      })
+      return
+    }
+    const blockedReason = getBlockedMoveReason(task, newStatus, simulated) ?? getChecklistBlockReason(task, newStatus)
+    if (blockedReason) {
+      skipped.push({ taskId: task.id, title: task.title, message: blockedReason })
+      return
+    }
+    const wipViolation = checkWipLimit(task, newStatus, simulated, departments)
+    if (wipViolation?.mode === 'block') {
+      skipped.push({ taskId: task.id, title: task.title, message: wipViolation.message })
+      return
+    }
+    if (wipViolation) {
+      warnings.add(wipViolation.message)
+    }
+
+    items.push({ task, updates: buildStageUpdates(task, stage, taskWorkflow) })
+    simulated = simulated.map((other) => (other.id === task.id ? { ...other, status: newStatus } : other))
+  })
+
+  return { items, skipped, warnings: [...warnings] }
+}
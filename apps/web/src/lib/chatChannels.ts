@@ -0,0 +1,140 @@
+import {
+  Timestamp,
+  addDoc,
+  collection,
+  doc,
+  getDoc,
+  setDoc,
+  updateDoc,
+  type DocumentData,
+  type Firestore,
+} from 'firebase/firestore'
+import type { UserProfile } from '../context/AppDataContext'
+
+// A private chat outside the company and department channels: a 1:1 direct message or a
+// group channel, optionally tied to a task or project. Only members can read it.
+// messageCount and the lastMessage fields are kept up to date by the onChannelMessageCreated
+// Cloud Function; each member records how many messages they have read in readCounts.
+export type ChatChannel = {
+  id: string
+  type: 'direct' | 'group'
+  name: string // Empty for direct messages, which are named after the other member
+  memberIds: string[]
+  createdBy: string
+  createdAt: Date
+  taskId?: string
+  taskTitle?: string
+  project?: string
+  messageCount: number
+  readCounts: Record<string, number>
+  lastMessageAt?: Date
+  lastMessageAuthor?: string
+  lastMessagePreview?: string
+}
+
+export type ChannelMessage = {
+  id: string
+  author: string
+  authorId: string
+  text: string
+  createdAt: Date
+}
+
+export type NewGroupChannel = {
+  name: string
+  memberIds: string[]
+  taskId?: string
+  taskTitle?: string
+  project?: string
+}
+
+export function parseChatChannel(id: string, data: DocumentData): ChatChannel {
+  return {
+    id,
+    type: data.type === 'direct' ? 'direct' : 'group',
+    name: data.name ?? '',
+    memberIds: Array.isArray(data.memberIds) ? data.memberIds : [],
+    createdBy: data.createdBy ?? '',
+    createdAt: data.createdAt?.toDate?.() ?? new Date(),
+    taskId: data.taskId || undefined,
+    taskTitle: data.taskTitle || undefined,
+    project: data.project || undefined,
+    messageCount: typeof data.messageCount === 'number' ? data.messageCount : 0,
+    readCounts: data.readCounts && typeof data.readCounts === 'object' ? data.readCounts : {},
+    lastMessageAt: data.lastMessageAt?.toDate?.() ?? undefined,
+    lastMessageAuthor: data.lastMessageAuthor || undefined,
+    lastMessagePreview: data.lastMessagePreview || undefined,
+  }
+}
+
+export function parseChannelMessage(id: string, data: DocumentData): ChannelMessage {
+  return {
+    id,
+    author: data.author ?? '',
+    authorId: data.authorId ?? '',
+    text: data.text ?? '',
+    createdAt: data.createdAt?.toDate?.() ?? new Date(),
+  }
+}
+
+export function getChannelUnreadCount(channel: ChatChannel, userId: string): number {
+  return Math.max(0, channel.messageCount - (channel.readCounts[userId] ?? 0))
+}
+
+/**
+ * Direct messages are named after the other member; former members show as such
+ */
+export function getChannelDisplayName(channel: ChatChannel, userId: string, profiles: UserProfile[]): string {
+  if (channel.type === 'group') return channel.name || 'Untitled channel'
+  const otherId = channel.memberIds.find((memberId) => memberId !== userId) ?? userId
+  return profiles.find((profile) => profile.id === otherId)?.displayName ?? 'Former team member'
+}
+
+// Each pair of people has one direct message channel, so its id is derived from both user ids.
+// The ids are sorted so either person opens the same channel; the rules check the same order.
+export function getDirectChannelId(userId: string, otherUserId: string): string {
+  return `dm_${[userId, otherUserId].sort().join('_')}`
+}
+
+/**
+ * Opens the direct message channel between two people, creating it the first time
+ */
+export async function openDirectChannel(firestore: Firestore, userId: string, otherUserId: string): Promise<string> {
+  const channelId = getDirectChannelId(userId, otherUserId)
+  const channelRef = doc(firestore, 'chatChannels', channelId)
+  const snapshot = await getDoc(channelRef)
+  if (!snapshot.exists()) {
+    await setDoc(channelRef, {
+      type: 'direct',
+      name: '',
+      memberIds: [userId, otherUserId].sort(),
+      createdBy: userId,
+      createdAt: Timestamp.now(),
+      messageCount: 0,
+      readCounts: {},
+    })
+  }
+  return channelId
+}
+
+export async function createGroupChannel(firestore: Firestore, userId: string, channel: NewGroupChannel): Promise<string> {
+  const channelRef = await addDoc(collection(firestore, 'chatChannels'), {
+    type: 'group',
+    name: channel.name,
+    memberIds: [...new Set([userId, ...channel.memberIds])],
+    createdBy: userId,
+    createdAt: Timestamp.now(),
+    ...(channel.taskId ? { taskId: channel.taskId, taskTitle: channel.taskTitle ?? '' } : {}),
+    ...(channel.project ? { project: channel.project } : {}),
+    messageCount: 0,
+    readCounts: {},
+  })
+  return channelRef.id
+}
+
+export async function markChannelAsRead(firestore: Firestore, channel: ChatChannel, userId: string): Promise<void> {
+  if ((channel.readCounts[userId] ?? 0) >= channel.messageCount) return
+  await updateDoc(doc(firestore, 'chatChannels', channel.id), {
+    [`readCounts.${userId}`]: channel.messageCount,
+  })
+}
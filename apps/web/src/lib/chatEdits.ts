@@ -0,0 +1,84 @@
+import {
+  collection,
+  doc,
+  getDocs,
+  orderBy,
+  query,
+  runTransaction,
+  serverTimestamp,
+  type DocumentData,
+  type Firestore,
+} from 'firebase/firestore'
+import type { ChatCollection } from './chatThreads'
+
+// Earlier version of an edited message, as it read until it was replaced
+export type ChatMessageVersion = {
+  text: string
+  writtenAt: Date
+}
+
+export type ChatEditFields = {
+  editedAt?: Date
+  editCount: number
+}
+
+export function parseChatEditFields(data: DocumentData): ChatEditFields {
+  return {
+    // A pending serverTimestamp reads as null until the write is confirmed
+    editedAt: data.editedAt?.toDate?.() ?? ('editedAt' in data ? new Date() : undefined),
+    editCount: typeof data.editCount === 'number' ? data.editCount : 0,
+  }
+}
+
+/**
+ * The versions an edited message replaced, oldest first. They are kept in the message's
+ * versions subcollection, which only admins can read.
+ */
+export async function loadChatMessageVersions(
+  firestore: Firestore,
+  collectionName: ChatCollection,
+  messageId: string,
+): Promise<ChatMessageVersion[]> {
+  const snapshot = await getDocs(
+    query(collection(firestore, collectionName, messageId, 'versions'), orderBy('writtenAt', 'asc')),
+  )
+  return snapshot.docs.map((versionDoc) => ({
+    text: versionDoc.data().text ?? '',
+    writtenAt: versionDoc.data().writtenAt?.toDate?.() ?? new Date(0),
+  }))
+}
+
+export function getEditDeadline(createdAt: Date, windowMinutes: number): Date {
+  return new Date(createdAt.getTime() + windowMinutes * 60 * 1000)
+}
+
+/**
+ * Replaces a message's text and files the version it replaces under versions/{editCount}.
+ * The version is built from the stored document rather than the UI copy, because the
+ * rules compare it field for field and the stored timestamps are more precise than a Date.
+ */
+export async function editChatMessage(
+  firestore: Firestore,
+  collectionName: ChatCollection,
+  messageId: string,
+  text: string,
+): Promise<void> {
+  const messageRef = doc(firestore, collectionName, messageId)
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(messageRef)
+    if (!snapshot.exists()) {
+      throw new Error('Message not found')
+    }
+    const data = snapshot.data()
+    const editCount: number = typeof data.editCount === 'number' ? data.editCount : 0
+    transaction.set(doc(firestore, collectionName, messageId, 'versions', String(editCount)), {
+      text: data.text,
+      writtenAt: data.editedAt ?? data.createdAt,
+    })
+    transaction.update(messageRef, {
+      text,
+      editedAt: serverTimestamp(),
+      editCount: editCount + 1,
+    })
+  })
+}
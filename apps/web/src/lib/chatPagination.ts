@@ -0,0 +1,131 @@
+import {
+  Timestamp,
+  endAt,
+  getDocs,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  startAfter,
+  where,
+  type DocumentData,
+  type Query,
+  type QueryConstraint,
+  type QueryDocumentSnapshot,
+  type Unsubscribe,
+} from 'firebase/firestore'
+
+// Messages fetched each time the reader scrolls back
+export const CHAT_PAGE_SIZE = 50
+
+// How far back the first page may reach to include every unread message
+const MAX_UNREAD_MESSAGES = 200
+
+type ChatPage = {
+  after?: QueryDocumentSnapshot // Newest message of the previous page; unset for the latest page
+  end?: QueryDocumentSnapshot // Oldest message of this page; unset while the chat is still empty
+  docs: QueryDocumentSnapshot[]
+  unsubscribe: Unsubscribe
+}
+
+type ChatPagerOptions = {
+  // Messages newer than this are all loaded up front, so unread counts are not cut off by the page size
+  unreadSince?: Date | null
+  // Every loaded message, newest first, and whether older ones are left to load
+  onChange: (docs: QueryDocumentSnapshot<DocumentData>[], hasOlder: boolean) => void
+  onError: (error: Error) => void
+}
+
+export type ChatPager = {
+  loadOlder: () => Promise<void>
+  stop: () => void
+}
+
+/**
+ * Loads a chat collection newest first, one page at a time. The latest page stays open-ended
+ * so new messages keep arriving; older pages are fetched with a cursor as the reader scrolls
+ * back and stay live within their own bounds, so edits, reactions and deletions still show.
+ */
+export function createChatPager(baseQuery: Query, { unreadSince, onChange, onError }: ChatPagerOptions): ChatPager {
+  const pages: ChatPage[] = []
+  let hasOlder = false
+  let stopped = false
+  let loading: Promise<void> | null = null
+
+  const emit = () => onChange(pages.flatMap((page) => page.docs), hasOlder)
+
+  const fetchPage = async (after?: QueryDocumentSnapshot) => {
+    const snapshot = await getDocs(
+      query(baseQuery, orderBy('createdAt', 'desc'), ...(after ? [startAfter(after)] : []), limit(CHAT_PAGE_SIZE)),
+    )
+    return snapshot.docs
+  }
+
+  const subscribe = (page: ChatPage) => {
+    const constraints: QueryConstraint[] = [orderBy('createdAt', 'desc')]
+    if (page.after) constraints.push(startAfter(page.after))
+    if (page.end) constraints.push(endAt(page.end))
+    page.unsubscribe = onSnapshot(
+      query(baseQuery, ...constraints),
+      (snapshot) => {
+        page.docs = snapshot.docs
+        emit()
+      },
+      onError,
+    )
+  }
+
+  const start = async () => {
+    const docs = await fetchPage()
+    let end = docs.at(-1)
+    hasOlder = docs.length === CHAT_PAGE_SIZE
+    const oldestAt: Date | undefined = end?.data().createdAt?.toDate?.()
+    if (hasOlder && unreadSince && oldestAt && oldestAt > unreadSince) {
+      const unread = await getDocs(
+        query(
+          baseQuery,
+          where('createdAt', '>', Timestamp.fromDate(unreadSince)),
+          orderBy('createdAt', 'desc'),
+          limit(MAX_UNREAD_MESSAGES),
+        ),
+      )
+      end = unread.docs.at(-1) ?? end
+    }
+    if (stopped) return
+    const page: ChatPage = { end, docs: [], unsubscribe: () => {} }
+    pages.push(page)
+    subscribe(page)
+  }
+
+  const loadOlder = () => {
+    if (stopped || !hasOlder) return Promise.resolve()
+    loading ??= (async () => {
+      const after = pages.at(-1)?.end
+      if (!after) return
+      const docs = await fetchPage(after)
+      if (stopped) return
+      hasOlder = docs.length === CHAT_PAGE_SIZE
+      if (docs.length === 0) {
+        emit()
+        return
+      }
+      const page: ChatPage = { after, end: docs.at(-1), docs, unsubscribe: () => {} }
+      pages.push(page)
+      emit()
+      subscribe(page)
+    })().finally(() => {
+      loading = null
+    })
+    return loading
+  }
+
+  start().catch(onError)
+
+  return {
+    loadOlder,
+    stop: () => {
+      stopped = true
+      pages.forEach((page) => page.unsubscribe())
+    },
+  }
+}
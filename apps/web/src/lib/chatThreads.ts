@@ -0,0 +1,65 @@
+import { arrayRemove, arrayUnion, doc, updateDoc, type DocumentData, type Firestore } from 'firebase/firestore'
+
+export type ChatCollection = 'companyChats' | 'departmentChats'
+
+// Emoji offered in the reaction picker, in display order
+export const CHAT_REACTIONS = ['👍', '❤️', '😂', '🎉', '😮', '🙏']
+
+// User id -> the emoji that user reacted with. Keyed by user so the rules can limit
+// each person to changing their own reactions.
+export type ChatReactionMap = Record<string, string[]>
+
+export type ChatThreadFields = {
+  parentId?: string // Set on replies; the id of the message that started the thread
+  replyCount: number // Kept up to date on the parent by the onCompanyChatReplyWritten and onDepartmentChatReplyWritten Cloud Functions
+  reactions: ChatReactionMap
+}
+
+export type ReactionSummary = {
+  emoji: string
+  userIds: string[]
+  reacted: boolean // Whether the current user is one of them
+}
+
+export function parseChatThreadFields(data: DocumentData): ChatThreadFields {
+  return {
+    parentId: data.parentId || undefined,
+    replyCount: typeof data.replyCount === 'number' ? data.replyCount : 0,
+    reactions: data.reactions && typeof data.reactions === 'object' ? data.reactions : {},
+  }
+}
+
+/**
+ * Groups reactions by emoji, in picker order with any other emoji after
+ */
+export function summarizeReactions(reactions: ChatReactionMap, userId: string | undefined): ReactionSummary[] {
+  const byEmoji = new Map<string, string[]>()
+  Object.entries(reactions).forEach(([reactorId, emojis]) => {
+    if (!Array.isArray(emojis)) return
+    emojis.forEach((emoji) => byEmoji.set(emoji, [...(byEmoji.get(emoji) ?? []), reactorId]))
+  })
+  const order = (emoji: string) => {
+    const index = CHAT_REACTIONS.indexOf(emoji)
+    return index === -1 ? CHAT_REACTIONS.length : index
+  }
+  return [...byEmoji.entries()]
+    .filter(([, userIds]) => userIds.length > 0)
+    .sort(([a], [b]) => order(a) - order(b))
+    .map(([emoji, userIds]) => ({ emoji, userIds, reacted: Boolean(userId && userIds.includes(userId)) }))
+}
+
+/**
+ * Adds or removes one of the current user's reactions on a message
+ */
+export async function toggleChatReaction(
+  firestore: Firestore,
+  collectionName: ChatCollection,
+  messageId: string,
+  userId: string,
+  emoji: string,
+  reacted: boolean,
+): Promise<void> {
+  await updateDoc(doc(firestore, collectionName, messageId), {
+    [`reactions.${userId}`]: reacted ? arrayRemove(emoji) : arrayUnion(emoji),
+  })
+}
@@ -0,0 +1,68 @@
+import { doc, runTransaction, type Firestore } from 'firebase/firestore'
+import type { ChecklistItem, Task } from '../context/AppDataContext'
+
+export const MAX_CHECKLIST_ITEMS = 50
+
+export function createChecklistItem(text: string): ChecklistItem {
+  return {
+    id: `item-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    text,
+    done: false,
+  }
+}
+
+export function getChecklistProgress(task: Pick<Task, 'checklist'>): { done: number; total: number; percent: number } {
+  const items = task.checklist ?? []
+  const done = items.filter((item) => item.done).length
+  return {
+    done,
+    total: items.length,
+    percent: items.length === 0 ? 0 : Math.round((done / items.length) * 100),
+  }
+}
+
+/**
+ * Explains why a task cannot be completed because of its checklist, or returns null when it can
+ */
+export function getChecklistBlockReason(task: Task, newStatus: Task['status']): string | null {
+  if (newStatus !== 'Completed' || !task.requireChecklist) return null
+  const { done, total } = getChecklistProgress(task)
+  if (done === total) return null
+  const remaining = total - done
+  return `Cannot complete this task until every checklist item is done (${remaining} item${remaining === 1 ? '' : 's'} left).`
+}
+
+/**
+ * Ticks or unticks one item. completedAt is left off unticked items rather than blanked.
+ */
+export function setChecklistItemDone(items: ChecklistItem[], itemId: string, done: boolean): ChecklistItem[] {
+  return items.map((item) => {
+    if (item.id !== itemId) return item
+    const { completedAt: _completedAt, ...rest } = item
+    void _completedAt
+    return done ? { ...rest, done, completedAt: new Date().toISOString() } : { ...rest, done }
+  })
+}
+
+/**
+ * Applies a change to the checklist as it is stored, in a transaction, so two people editing
+ * the same checklist at once do not overwrite each other's changes
+ */
+export async function updateTaskChecklist(
+  firestore: Firestore,
+  taskId: string,
+  userId: string,
+  change: (items: ChecklistItem[]) => ChecklistItem[],
+): Promise<void> {
+  const taskRef = doc(firestore, 'tasks', taskId)
+  await runTransaction(firestore, async (transaction) => {
+    const snapshot = await transaction.get(taskRef)
+    if (!snapshot.exists()) throw new Error('Task no longer exists')
+    const checklist = snapshot.data().checklist
+    transaction.update(taskRef, {
+      checklist: change(Array.isArray(checklist) ? checklist : []),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    })
+  })
+}
@@ -1,5 +1,6 @@
 import { getFunctions, httpsCallable } from 'firebase/functions'
 import { getFirebaseApp } from './firebase'
+import type { AutomationRule, AutomationSimulationResult } from './automation'
 
 const functions = getFunctions(getFirebaseApp())
 
@@ -8,8 +9,40 @@ export const resetUserPassword = httpsCallable<{ userId: string; newPassword: st
   'resetUserPassword'
 )
 
-export const deleteUser = httpsCallable<{ userId: string }, { success: boolean; message: string }>(
+export type OffboardUserRequest = {
+  userId: string
+  // Open task or calendar update id -> colleague taking over; '' removes the user without a replacement
+  taskAssignees: Record<string, string>
+  calendarUpdateAssignees: Record<string, string>
+}
+
+export type OffboardUserResult = {
+  success: boolean
+  message: string
+  tasksReassigned: number
+  calendarUpdatesReassigned: number
+  messagesAnonymized: number
+  channelsLeft: number
+}
+
+export const offboardUser = httpsCallable<OffboardUserRequest, OffboardUserResult>(
+  functions,
+  'offboardUser'
+)
+
+export const simulateAutomationRule = httpsCallable<{ rule: AutomationRule }, AutomationSimulationResult>(
   functions,
-  'deleteUser'
+  'simulateAutomationRule'
 )
 
+// Lets the person assigned to a checklist item tick it without edit access to the rest of the task
+export const toggleChecklistItem = httpsCallable<{ taskId: string; itemId: string; done: boolean }, { success: boolean }>(
+  functions,
+  'toggleChecklistItem'
+)
+
+// Rows and the total are built server-side from the caller's time entries for the week
+export const submitTimesheet = httpsCallable<{ weekStart: string }, { success: boolean; totalMinutes: number }>(
+  functions,
+  'submitTimesheet'
+)
@@ -0,0 +1,56 @@
+import type { UserProfile } from '../context/AppDataContext'
+
+/**
+ * Returns the ids of users mentioned as "@Display Name" in the text
+ */
+export function extractMentionIds(text: string, profiles: UserProfile[]): string[] {
+  const lowerText = text.toLowerCase()
+  return profiles
+    .filter((profile) => profile.displayName && lowerText.includes(`@${profile.displayName.toLowerCase()}`))
+    .map((profile) => profile.id)
+}
+
+/**
+ * Finds the mention being typed at the cursor, e.g. "@jo" while typing "@John Smith".
+ * Returns the position of the "@" and the text typed after it, or null when not in a mention.
+ */
+export function getActiveMention(text: string, cursor: number): { start: number; query: string } | null {
+  const beforeCursor = text.slice(0, cursor)
+  const start = beforeCursor.lastIndexOf('@')
+  if (start === -1) return null
+  // Mentions start at the beginning of the text or after whitespace, so emails do not trigger suggestions
+  if (start > 0 && !/\s/.test(beforeCursor[start - 1])) return null
+  const query = beforeCursor.slice(start + 1)
+  if (query.includes('\n') || query.length > 30) return null
+  return { start, query }
+}
+
+/**
+ * Splits text into plain and mention segments so mentions can be highlighted
+ */
+export function splitMentions(text: string, profiles: UserProfile[]): Array<{ text: string; userId?: string }> {
+  const names = profiles
+    .filter((profile) => profile.displayName)
+    .sort((a, b) => b.displayName.length - a.displayName.length)
+  const segments: Array<{ text: string; userId?: string }> = []
+  let plain = ''
+  let index = 0
+
+  while (index < text.length) {
+    if (text[index] === '@') {
+      const rest = text.slice(index + 1).toLowerCase()
+      const match = names.find((profile) => rest.startsWith(profile.displayName.toLowerCase()))
+      if (match) {
+        if (plain) segments.push({ text: plain })
+        plain = ''
+        segments.push({ text: text.slice(index, index + 1 + match.displayName.length), userId: match.id })
+        index += 1 + match.displayName.length
+        continue
+      }
+    }
+    plain += text[index]
+    index += 1
+  }
+  if (plain) segments.push({ text: plain })
+  return segments
+}
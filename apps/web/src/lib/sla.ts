@@ -0,0 +1,54 @@
+import type { Department, Task } from '../context/AppDataContext'
+import { getSlaDeadline, getSlaDays as getPrioritySlaDays } from '../../../../functions/src/shared/sla'
+import { findTaskDepartment } from './wipLimits'
+
+// The SLA windows are shared with checkTaskSlas in functions/src/sla.ts, which flags breaches
+
+export const SLA_PRIORITIES: Task['priority'][] = ['High', 'Medium', 'Low']
+
+// A task is at risk once less than this share of its SLA window is left
+const AT_RISK_FRACTION = 0.25
+
+export type SlaStatus = {
+  deadline: Date
+  remainingMs: number // Negative once breached
+  breached: boolean
+  atRisk: boolean
+}
+
+/**
+ * SLA days for a task: the department's override for its priority, otherwise the workspace
+ * default scaled by priority
+ */
+export function getSlaDays(task: Pick<Task, 'priority' | 'department'>, departments: Department[], defaultSLA: number): number {
+  return getPrioritySlaDays(task.priority, findTaskDepartment(departments, task.department)?.slaDays, defaultSLA)
+}
+
+/**
+ * Where an open task stands against its SLA, or null for completed tasks and tasks without a creation time
+ */
+export function getSlaStatus(task: Task, departments: Department[], defaultSLA: number, now: number): SlaStatus | null {
+  if (task.status === 'Completed' || !task.createdAt) return null
+  const deadline = getSlaDeadline(task.createdAt, getSlaDays(task, departments, defaultSLA))
+  const windowMs = deadline.getTime() - task.createdAt.getTime()
+  const remainingMs = deadline.getTime() - now
+  const breached = remainingMs <= 0
+  return {
+    deadline,
+    remainingMs,
+    breached,
+    atRisk: !breached && remainingMs < windowMs * AT_RISK_FRACTION,
+  }
+}
+
+/**
+ * Short duration such as "2d 4h" or "35m"
+ */
+export function formatSlaDuration(ms: number): string {
+  const totalMinutes = Math.max(1, Math.round(Math.abs(ms) / (1000 * 60)))
+  const days = Math.floor(totalMinutes / (24 * 60))
+  const hours = Math.floor((totalMinutes % (24 * 60)) / 60)
+  if (days > 0) return hours > 0 ? `${days}d ${hours}h` : `${days}d`
+  if (hours > 0) return `${hours}h`
+  return `${totalMinutes}m`
+}
@@ -1,4 +1,4 @@
-import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject } from 'firebase/storage'
+import { getStorage, ref, uploadBytes, uploadBytesResumable, getDownloadURL, deleteObject } from 'firebase/storage'
 import { getFirebaseApp } from './firebase'
 
 export async function uploadProfileImage(userId: string, file: File): Promise<string> {
@@ -46,3 +46,167 @@ export async function deleteProfileImage(imageUrl: string): Promise<void> {
   }
 }
 
+
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_TASK = 20
+
+// Kept in sync with the contentType check in storage.rules. SVG, HTML and other text types that a
+// browser would run when the file is opened are left out.
+const ALLOWED_ATTACHMENT_TYPES = [
+  /^image\/(png|jpeg|gif|webp|bmp|avif|heic|heif|tiff)$/,
+  /^video\//,
+  /^audio\//,
+  /^text\/(plain|csv)$/,
+  /^application\/pdf$/,
+  /^application\/zip$/,
+  /^application\/json$/,
+  /^application\/msword$/,
+  /^application\/vnd\.ms-(excel|powerpoint)$/,
+  /^application\/vnd\.openxmlformats-officedocument\./,
+]
+
+/**
+ * Returns why a file cannot be attached to a task, or null when it can
+ */
+export function validateTaskAttachment(file: File): string | null {
+  if (file.size > MAX_ATTACHMENT_SIZE) {
+    return `"${file.name}" is larger than ${MAX_ATTACHMENT_SIZE / (1024 * 1024)}MB`
+  }
+  if (!ALLOWED_ATTACHMENT_TYPES.some((pattern) => pattern.test(file.type))) {
+    return `"${file.name}" is not a supported file type`
+  }
+  return null
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export async function uploadTaskAttachment(
+  taskId: string,
+  file: File,
+  onProgress: (percent: number) => void,
+): Promise<{ path: string; url: string }> {
+  const app = getFirebaseApp()
+  const storage = getStorage(app)
+
+  const validationError = validateTaskAttachment(file)
+  if (validationError) {
+    throw new Error(validationError)
+  }
+
+  const path = `task-attachments/${taskId}/${Date.now()}_${file.name}`
+  const attachmentRef = ref(storage, path)
+  const uploadTask = uploadBytesResumable(attachmentRef, file, { contentType: file.type })
+
+  await new Promise<void>((resolve, reject) => {
+    uploadTask.on(
+      'state_changed',
+      (snapshot) => onProgress(Math.round((snapshot.bytesTransferred / snapshot.totalBytes) * 100)),
+      reject,
+      () => resolve(),
+    )
+  })
+
+  const url = await getDownloadURL(attachmentRef)
+  return { path, url }
+}
+
+export async function deleteTaskAttachment(path: string): Promise<void> {
+  const app = getFirebaseApp()
+  const storage = getStorage(app)
+
+  try {
+    await deleteObject(ref(storage, path))
+  } catch (error) {
+    // The file may already be gone; the attachment entry is still removed from the task
+    if ((error as { code?: string }).code !== 'storage/object-not-found') {
+      throw error
+    }
+  }
+}
+
+// File shared in a company or department chat message, uploaded under chat-attachments/{userId}/
+export type ChatAttachment = {
+  name: string
+  path: string
+  url: string
+  contentType: string
+  size: number
+}
+
+export const MAX_CHAT_ATTACHMENT_SIZE = 20 * 1024 * 1024
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5
+
+// Design files often upload without a browser content type, so they are recognised by extension.
+// Kept in sync with the contentType check for chat-attachments in storage.rules
+const DESIGN_FILE_TYPES: Record<string, string> = {
+  psd: 'image/vnd.adobe.photoshop',
+  ai: 'application/postscript',
+  eps: 'application/postscript',
+  sketch: 'application/x-sketch',
+  fig: 'application/x-figma',
+  xd: 'application/vnd.adobe.xd',
+}
+
+// SVG is not accepted, as a browser runs its scripts when the file is opened
+const CHAT_IMAGE_TYPE = /^image\/(png|jpeg|gif|webp|bmp|avif|heic|heif|tiff)$/
+
+export function getChatAttachmentContentType(file: File): string {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+  return DESIGN_FILE_TYPES[extension] ?? file.type
+}
+
+/**
+ * Returns why a file cannot be shared in chat, or null when it can: images, PDFs and design files only
+ */
+export function validateChatAttachment(file: File): string | null {
+  if (file.size > MAX_CHAT_ATTACHMENT_SIZE) {
+    return `"${file.name}" is larger than ${MAX_CHAT_ATTACHMENT_SIZE / (1024 * 1024)}MB`
+  }
+  const contentType = getChatAttachmentContentType(file)
+  if (
+    !CHAT_IMAGE_TYPE.test(contentType) &&
+    contentType !== 'application/pdf' &&
+    !Object.values(DESIGN_FILE_TYPES).includes(contentType)
+  ) {
+    return `"${file.name}" is not an image, PDF or design file`
+  }
+  return null
+}
+
+// Photoshop files count as images but browsers cannot display them
+export function isPreviewableImage(contentType: string): boolean {
+  return contentType.startsWith('image/') && contentType !== DESIGN_FILE_TYPES.psd
+}
+
+export function parseChatAttachments(value: unknown): ChatAttachment[] {
+  if (!Array.isArray(value)) return []
+  return value.map((attachment) => ({
+    name: attachment?.name ?? '',
+    path: attachment?.path ?? '',
+    url: attachment?.url ?? '',
+    contentType: attachment?.contentType ?? '',
+    size: typeof attachment?.size === 'number' ? attachment.size : 0,
+  }))
+}
+
+export async function uploadChatAttachment(userId: string, file: File): Promise<ChatAttachment> {
+  const app = getFirebaseApp()
+  const storage = getStorage(app)
+
+  const validationError = validateChatAttachment(file)
+  if (validationError) {
+    throw new Error(validationError)
+  }
+
+  const contentType = getChatAttachmentContentType(file)
+  const path = `chat-attachments/${userId}/${Date.now()}_${file.name}`
+  const attachmentRef = ref(storage, path)
+  await uploadBytes(attachmentRef, file, { contentType })
+
+  const url = await getDownloadURL(attachmentRef)
+  return { name: file.name, path, url, contentType, size: file.size }
+}
@@ -0,0 +1,45 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { Task, TaskAssignee, UserProfile } from '../context/AppDataContext'
+import { readTaskAssignees } from '../../../../functions/src/shared/taskAssignees'
+
+// Kept in sync with the task create/update limits in firestore.rules
+export const MAX_TASK_ASSIGNEES = 20
+export const MAX_TASK_WATCHERS = 50
+
+/**
+ * Reads the assignee list of a task document; the parsing is shared with the functions
+ */
+export function parseTaskAssignees(data: DocumentData): Pick<Task, 'assigneeIds' | 'assignees'> {
+  const assignees = readTaskAssignees(data)
+  return { assigneeIds: assignees.map((assignee) => assignee.id), assignees }
+}
+
+export function isTaskAssignee(task: Pick<Task, 'assigneeId' | 'assigneeIds'>, userId: string): boolean {
+  return task.assigneeIds.includes(userId) || task.assigneeId === userId
+}
+
+export function isTaskWatcher(task: Pick<Task, 'watcherIds'>, userId: string): boolean {
+  return task.watcherIds.includes(userId)
+}
+
+export function formatAssignees(task: Pick<Task, 'assignee' | 'assignees'>): string {
+  const names = task.assignees.map((assignee) => assignee.name).filter(Boolean)
+  return names.length > 0 ? names.join(', ') : task.assignee || 'Unassigned'
+}
+
+/**
+ * The assignee fields written to a task for the selected users.
+ * The first user is also stored as assignee/assigneeId for the rules and readers that expect one.
+ */
+export function buildAssigneeFields(userIds: string[], profiles: UserProfile[]) {
+  const assignees: TaskAssignee[] = userIds.map((id) => ({
+    id,
+    name: profiles.find((profile) => profile.id === id)?.displayName ?? '',
+  }))
+  return {
+    assignee: assignees[0]?.name ?? '',
+    assigneeId: assignees[0]?.id ?? '',
+    assigneeIds: assignees.map((assignee) => assignee.id),
+    assignees,
+  }
+}
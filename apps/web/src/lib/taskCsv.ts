@@ -0,0 +1,223 @@
+import type { Department, Task, UserProfile } from '../context/AppDataContext'
+import { MAX_TASK_ASSIGNEES } from './taskAssignees'
+import { toLocalDateKey } from './timeTracking'
+import { findTaskDepartment } from './wipLimits'
+import { TASK_STATUSES } from './workflows'
+
+// Columns written by the Reports export, which the import recognizes as they are
+export const TASK_CSV_HEADERS = ['ID', 'Title', 'Status', 'Priority', 'Department', 'Assignees', 'Due Date', 'Summary']
+
+export type TaskImportField = 'id' | 'title' | 'status' | 'priority' | 'department' | 'assignees' | 'dueDate' | 'summary'
+
+export const TASK_IMPORT_FIELDS: Record<TaskImportField, string> = {
+  id: 'Existing task ID',
+  title: 'Title',
+  status: 'Status',
+  priority: 'Priority',
+  department: 'Department',
+  assignees: 'Assignees',
+  dueDate: 'Due date',
+  summary: 'Summary',
+}
+
+// Column index for each field, or null when the file has no column for it
+export type TaskImportMapping = Record<TaskImportField, number | null>
+
+export type TaskImportRow = {
+  rowNumber: number // Data row in the file, not counting the header
+  title: string
+  status: Task['status']
+  priority: Task['priority']
+  department: string
+  assigneeIds: string[]
+  dueDate: string
+  summary: string
+  errors: string[]
+}
+
+const PRIORITIES: Task['priority'][] = ['Low', 'Medium', 'High']
+
+// Header spellings, lower-cased, that map to each field without the user choosing
+const HEADER_ALIASES: Record<TaskImportField, string[]> = {
+  id: ['id', 'task id'],
+  title: ['title', 'task', 'name', 'task name'],
+  status: ['status', 'state'],
+  priority: ['priority'],
+  department: ['department', 'team'],
+  assignees: ['assignees', 'assignee', 'owner', 'assigned to'],
+  dueDate: ['due date', 'due', 'deadline', 'duedate'],
+  summary: ['summary', 'description', 'details', 'notes'],
+}
+
+/**
+ * Parses CSV text into rows of cells. Handles quoted cells with commas, escaped quotes and
+ * line breaks, CRLF line endings and a leading byte order mark. Blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = []
+  let row: string[] = []
+  let cell = ''
+  let inQuotes = false
+  const input = text.replace(/^\uFEFF/, '')
+
+  for (let index = 0; index < input.length; index += 1) {
+    const char = input[index]
+    if (inQuotes) {
+      if (char === '"' && input[index + 1] === '"') {
+        cell += '"'
+        index += 1
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        cell += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+    } else if (char === ',') {
+      row.push(cell)
+      cell = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[index + 1] === '\n') index += 1
+      row.push(cell)
+      rows.push(row)
+      row = []
+      cell = ''
+    } else {
+      cell += char
+    }
+  }
+  row.push(cell)
+  rows.push(row)
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ''))
+}
+
+/**
+ * Maps columns to fields by their header, so the export's own headers need no manual mapping
+ */
+export function guessTaskImportMapping(headers: string[]): TaskImportMapping {
+  const normalized = headers.map((header) => header.trim().toLowerCase())
+  return Object.fromEntries(
+    (Object.keys(HEADER_ALIASES) as TaskImportField[]).map((field) => {
+      const index = normalized.findIndex((header) => HEADER_ALIASES[field].includes(header))
+      return [field, index === -1 ? null : index]
+    }),
+  ) as TaskImportMapping
+}
+
+function matchOption<T extends string>(value: string, options: T[]): T | undefined {
+  return options.find((option) => option.toLowerCase() === value.toLowerCase())
+}
+
+/**
+ * Reads a due date as YYYY-MM-DD. The export writes "N/A" for tasks without one.
+ */
+function parseDueDateCell(value: string): string | null {
+  if (!value || value.toUpperCase() === 'N/A') return ''
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) return value
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : toLocalDateKey(parsed)
+}
+
+function findProfile(value: string, profiles: UserProfile[]): UserProfile | undefined {
+  const needle = value.trim().toLowerCase()
+  return (
+    profiles.find((profile) => profile.email?.toLowerCase() === needle) ??
+    profiles.find((profile) => profile.displayName?.trim().toLowerCase() === needle)
+  )
+}
+
+/**
+ * Turns the data rows of a file into tasks to create, with the problems found on each row.
+ * Assignees are matched by email or display name; departments by name after normalizing
+ * spellings such as "3D Dev". Restricted to a department, rows for any other one are rejected.
+ */
+export function buildTaskImportRows(
+  rows: string[][],
+  mapping: TaskImportMapping,
+  context: {
+    departments: Department[]
+    profiles: UserProfile[]
+    existingTaskIds: Set<string>
+    restrictToDepartment?: string
+  },
+): TaskImportRow[] {
+  const cellOf = (cells: string[], field: TaskImportField) => {
+    const index = mapping[field]
+    return index === null ? '' : (cells[index] ?? '').trim()
+  }
+
+  return rows.map((cells, index) => {
+    const errors: string[] = []
+
+    const title = cellOf(cells, 'title')
+    if (!title) errors.push('Title is empty.')
+
+    const existingId = cellOf(cells, 'id')
+    if (existingId && context.existingTaskIds.has(existingId)) {
+      errors.push(`Task ${existingId} already exists.`)
+    }
+
+    const rawStatus = cellOf(cells, 'status')
+    const status = rawStatus ? matchOption(rawStatus, TASK_STATUSES) : 'Backlog'
+    if (!status) errors.push(`Unknown status "${rawStatus}".`)
+
+    const rawPriority = cellOf(cells, 'priority')
+    const priority = rawPriority ? matchOption(rawPriority, PRIORITIES) : 'Medium'
+    if (!priority) errors.push(`Unknown priority "${rawPriority}".`)
+
+    const rawDepartment = cellOf(cells, 'department')
+    const department = rawDepartment ? findTaskDepartment(context.departments, rawDepartment) : undefined
+    if (!rawDepartment) {
+      errors.push('Department is empty.')
+    } else if (!department) {
+      errors.push(`Unknown department "${rawDepartment}".`)
+    } else if (
+      context.restrictToDepartment &&
+      findTaskDepartment(context.departments, context.restrictToDepartment)?.id !== department.id
+    ) {
+      errors.push(`You can only import tasks into ${context.restrictToDepartment}.`)
+    }
+
+    // The export joins names with ", "; semicolons are accepted too
+    const assigneeIds: string[] = []
+    cellOf(cells, 'assignees')
+      .split(/[,;]/)
+      .map((value) => value.trim())
+      .filter((value) => value && value.toLowerCase() !== 'unassigned')
+      .forEach((value) => {
+        const profile = findProfile(value, context.profiles)
+        if (!profile) {
+          errors.push(`No user matches assignee "${value}".`)
+        } else if (!assigneeIds.includes(profile.id)) {
+          assigneeIds.push(profile.id)
+        }
+      })
+    if (assigneeIds.length > MAX_TASK_ASSIGNEES) {
+      errors.push(`A task can have at most ${MAX_TASK_ASSIGNEES} assignees.`)
+    }
+
+    const rawDueDate = cellOf(cells, 'dueDate')
+    const dueDate = parseDueDateCell(rawDueDate)
+    if (dueDate === null) errors.push(`Due date "${rawDueDate}" is not a date.`)
+
+    return {
+      rowNumber: index + 1,
+      title,
+      status: status ?? 'Backlog',
+      priority: priority ?? 'Medium',
+      department: department?.name ?? rawDepartment,
+      assigneeIds,
+      dueDate: dueDate ?? '',
+      summary: cellOf(cells, 'summary'),
+      errors,
+    }
+  })
+}
+
+/**
+ * Quotes a value for a CSV cell
+ */
+export function toCsvCell(value: string): string {
+  return `"${value.replace(/"/g, '""')}"`
+}
@@ -0,0 +1,161 @@
+import type { Task } from '../context/AppDataContext'
+
+// Statuses a task cannot move into while any of its blockers is still open
+export const BLOCKED_STATUSES: Task['status'][] = ['In Progress', 'Completed']
+
+export const MAX_BLOCKERS = 20
+
+/**
+ * Returns the blocking tasks that are not completed yet.
+ * Blockers pointing at tasks that no longer exist (or legacy free-text entries) are ignored.
+ */
+export function getOpenBlockers(task: Pick<Task, 'blockers'>, tasks: Task[]): Task[] {
+  if (!task.blockers || task.blockers.length === 0) return []
+  const tasksById = new Map(tasks.map((item) => [item.id, item]))
+  return task.blockers
+    .map((blockerId) => tasksById.get(blockerId))
+    .filter((blocker): blocker is Task => blocker !== undefined && blocker.status !== 'Completed')
+}
+
+/**
+ * Explains why a task cannot move to a status, or returns null when the move is allowed
+ */
+export function getBlockedMoveReason(task: Task, newStatus: Task['status'], tasks: Task[]): string | null {
+  if (!BLOCKED_STATUSES.includes(newStatus)) return null
+  const openBlockers = getOpenBlockers(task, tasks)
+  if (openBlockers.length === 0) return null
+  const titles = openBlockers.map((blocker) => `"${blocker.title}"`).join(', ')
+  return `Cannot move to ${newStatus} while blocked by ${titles}. Complete the blocking task${openBlockers.length === 1 ? '' : 's'} first.`
+}
+
+/**
+ * Finds a dependency cycle that would be created by giving a task these blockers.
+ * Returns the task ids along the cycle (starting and ending at taskId), or null if there is none.
+ */
+export function findDependencyCycle(taskId: string, blockerIds: string[], tasks: Task[]): string[] | null {
+  const blockersById = new Map(tasks.map((item) => [item.id, item.blockers ?? []]))
+  blockersById.set(taskId, blockerIds)
+
+  const visited = new Set<string>()
+  const path: string[] = [taskId]
+
+  const visit = (currentId: string): boolean => {
+    for (const nextId of blockersById.get(currentId) ?? []) {
+      if (nextId === taskId) {
+        path.push(nextId)
+        return true
+      }
+      if (visited.has(nextId)) continue
+      visited.add(nextId)
+      path.push(nextId)
+      if (visit(nextId)) return true
+      path.pop()
+    }
+    return false
+  }
+
+  return visit(taskId) ? path : null
+}
+
+/**
+ * Validates a new blocker list for a task, returning an error message or null
+ */
+export function validateBlockers(taskId: string | null, blockerIds: string[], tasks: Task[]): string | null {
+  if (blockerIds.length > MAX_BLOCKERS) {
+    return `A task can have at most ${MAX_BLOCKERS} blockers.`
+  }
+  if (!taskId) return null
+  if (blockerIds.includes(taskId)) {
+    return 'A task cannot block itself.'
+  }
+  const cycle = findDependencyCycle(taskId, blockerIds, tasks)
+  if (cycle) {
+    const titlesById = new Map(tasks.map((item) => [item.id, item.title]))
+    return `This would create a dependency cycle: ${cycle.map((id) => titlesById.get(id) ?? id).join(' → ')}`
+  }
+  return null
+}
+
+export type DependencyGraph = {
+  nodes: Task[]
+  edges: Array<{ from: string; to: string }>
+  // Column of each node: the length of the longest blocker chain leading into it
+  depthById: Map<string, number>
+  criticalPath: string[]
+}
+
+/**
+ * Builds the graph of tasks that take part in at least one dependency.
+ * Edges point from the blocking task to the task it blocks.
+ * The critical path is the longest chain of open tasks, which bounds how soon the last one can finish.
+ */
+export function buildDependencyGraph(tasks: Task[]): DependencyGraph {
+  const tasksById = new Map(tasks.map((item) => [item.id, item]))
+  const edges: Array<{ from: string; to: string }> = []
+  const involved = new Set<string>()
+
+  tasks.forEach((task) => {
+    ;(task.blockers ?? []).forEach((blockerId) => {
+      if (!tasksById.has(blockerId)) return
+      edges.push({ from: blockerId, to: task.id })
+      involved.add(blockerId)
+      involved.add(task.id)
+    })
+  })
+
+  const nodes = tasks.filter((task) => involved.has(task.id))
+  const depthById = new Map<string, number>()
+  const inProgress = new Set<string>()
+
+  // Longest blocker chain into each node; cycles are cut rather than followed forever
+  const depthOf = (taskId: string): number => {
+    const cached = depthById.get(taskId)
+    if (cached !== undefined) return cached
+    if (inProgress.has(taskId)) return 0
+    inProgress.add(taskId)
+    const blockerIds = (tasksById.get(taskId)?.blockers ?? []).filter((id) => tasksById.has(id))
+    const depth = blockerIds.length === 0 ? 0 : Math.max(...blockerIds.map((id) => depthOf(id) + 1))
+    inProgress.delete(taskId)
+    depthById.set(taskId, depth)
+    return depth
+  }
+  nodes.forEach((node) => depthOf(node.id))
+
+  // Walk back from the open task with the longest open chain
+  const openChainLength = new Map<string, number>()
+  const openChainOf = (taskId: string, seen: Set<string>): number => {
+    const cached = openChainLength.get(taskId)
+    if (cached !== undefined) return cached
+    const task = tasksById.get(taskId)
+    if (!task || task.status === 'Completed' || seen.has(taskId)) return 0
+    seen.add(taskId)
+    const blockerIds = (task.blockers ?? []).filter((id) => tasksById.has(id))
+    const length = 1 + Math.max(0, ...blockerIds.map((id) => openChainOf(id, seen)))
+    seen.delete(taskId)
+    openChainLength.set(taskId, length)
+    return length
+  }
+
+  let endId: string | null = null
+  nodes.forEach((node) => {
+    const length = openChainOf(node.id, new Set())
+    if (length > 1 && (endId === null || length > (openChainLength.get(endId) ?? 0))) {
+      endId = node.id
+    }
+  })
+
+  const criticalPath: string[] = []
+  let currentId: string | null = endId
+  while (currentId && !criticalPath.includes(currentId)) {
+    criticalPath.unshift(currentId)
+    const blockerIds: string[] = (tasksById.get(currentId)?.blockers ?? []).filter(
+      (id) => (openChainLength.get(id) ?? 0) > 0,
+    )
+    currentId = blockerIds.reduce<string | null>(
+      (best, id) => (best === null || (openChainLength.get(id) ?? 0) > (openChainLength.get(best) ?? 0) ? id : best),
+      null,
+    )
+  }
+
+  return { nodes, edges, depthById, criticalPath }
+}
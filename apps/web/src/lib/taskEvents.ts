@@ -0,0 +1,107 @@
+import type { DocumentData } from 'firebase/firestore'
+
+// Entries of the taskEvents audit trail, written by the onTaskWrittenHistory Cloud Function
+// 'assignee' only appears on events recorded before tasks could have several assignees
+export type TaskEventField = 'status' | 'stage' | 'priority' | 'assignee' | 'assignees' | 'dueDate' | 'fileUrls' | 'attachments'
+
+export type TaskEvent = {
+  id: string
+  taskId: string
+  taskTitle: string
+  department: string
+  type: 'created' | 'fieldChanged' | 'deleted' | 'restored' | 'purged'
+  field?: TaskEventField
+  from?: unknown
+  to?: unknown
+  actorId: string | null
+  actorName: string
+  at: Date
+}
+
+export function parseTaskEvent(id: string, data: DocumentData): TaskEvent {
+  return {
+    id,
+    taskId: data.taskId ?? '',
+    taskTitle: data.taskTitle ?? '',
+    department: data.department ?? '',
+    type: data.type ?? 'fieldChanged',
+    field: data.field,
+    from: data.from,
+    to: data.to,
+    actorId: data.actorId ?? null,
+    actorName: data.actorName ?? 'Unknown',
+    at: data.at?.toDate?.() ?? new Date(),
+  }
+}
+
+function formatValue(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' || !value) return fallback
+  return value
+}
+
+function formatDueDateValue(value: unknown): string {
+  if (typeof value !== 'string' || !value) return 'no due date'
+  const parsed = new Date(value)
+  if (isNaN(parsed.getTime())) return value
+  return parsed.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+}
+
+/**
+ * Describes what happened in an event, without the actor, e.g. "moved from Backlog to In Progress"
+ */
+export function describeTaskEvent(event: TaskEvent): string {
+  if (event.type === 'created') return 'created the task'
+  if (event.type === 'deleted') return 'deleted the task'
+  if (event.type === 'restored') return 'restored the task from the trash'
+  if (event.type === 'purged') return 'permanently deleted the task'
+
+  switch (event.field) {
+    case 'status':
+      return `moved from ${formatValue(event.from, 'none')} to ${formatValue(event.to, 'none')}`
+    case 'stage':
+      // Stages only exist in departments with a custom workflow
+      return event.from
+        ? `moved from stage ${formatValue(event.from, 'none')} to ${formatValue(event.to, 'none')}`
+        : `moved to stage ${formatValue(event.to, 'none')}`
+    case 'priority':
+      return `changed priority from ${formatValue(event.from, 'none')} to ${formatValue(event.to, 'none')}`
+    case 'assignee':
+      return `reassigned from ${formatValue(event.from, 'nobody')} to ${formatValue(event.to, 'nobody')}`
+    case 'assignees': {
+      const before = Array.isArray(event.from) ? (event.from as string[]) : []
+      const after = Array.isArray(event.to) ? (event.to as string[]) : []
+      const added = after.filter((name) => !before.includes(name))
+      const removed = before.filter((name) => !after.includes(name))
+      const parts: string[] = []
+      if (added.length > 0) parts.push(`assigned ${added.join(', ')}`)
+      if (removed.length > 0) parts.push(`unassigned ${removed.join(', ')}`)
+      return parts.length > 0 ? parts.join(' and ') : 'reordered assignees'
+    }
+    case 'dueDate':
+      return `changed the due date from ${formatDueDateValue(event.from)} to ${formatDueDateValue(event.to)}`
+    case 'fileUrls': {
+      const before = Array.isArray(event.from) ? (event.from as string[]) : []
+      const after = Array.isArray(event.to) ? (event.to as string[]) : []
+      const added = after.filter((url) => !before.includes(url)).length
+      const removed = before.filter((url) => !after.includes(url)).length
+      const parts: string[] = []
+      if (added > 0) parts.push(`added ${added} file link${added === 1 ? '' : 's'}`)
+      if (removed > 0) parts.push(`removed ${removed} file link${removed === 1 ? '' : 's'}`)
+      return parts.length > 0 ? parts.join(' and ') : 'reordered file links'
+    }
+    case 'attachments': {
+      const before = Array.isArray(event.from) ? (event.from as string[]) : []
+      const after = Array.isArray(event.to) ? (event.to as string[]) : []
+      // Paths look like task-attachments/{taskId}/{timestamp}_{fileName}
+      const fileName = (path: string) => path.split('/').pop()?.replace(/^\d+_/, '') ?? path
+      const added = after.filter((path) => !before.includes(path)).map(fileName)
+      const removed = before.filter((path) => !after.includes(path)).map(fileName)
+      const parts: string[] = []
+      if (added.length > 0) parts.push(`uploaded ${added.join(', ')}`)
+      if (removed.length > 0) parts.push(`removed ${removed.join(', ')}`)
+      return parts.length > 0 ? parts.join(' and ') : 'reordered attachments'
+    }
+    default:
+      return 'updated the task'
+  }
+}
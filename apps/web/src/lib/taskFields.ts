@@ -0,0 +1,89 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { CustomFieldDefinition, CustomFieldValue, Task, TaskFilters, TaskLabel } from '../context/AppDataContext'
+
+export const CUSTOM_FIELD_TYPES: CustomFieldDefinition['type'][] = ['text', 'number', 'select', 'date']
+
+export const LABEL_COLORS = ['#2563eb', '#16a34a', '#f59e0b', '#dc2626', '#7c3aed', '#db2777', '#0891b2', '#64748b']
+
+// Kept in sync with the task limits in firestore.rules
+export const MAX_TASK_LABELS = 10
+
+export const DEFAULT_TASK_FILTERS: TaskFilters = {
+  statuses: ['Backlog', 'In Progress', 'Review', 'Completed'],
+  priorities: ['High', 'Medium', 'Low'],
+  departments: [],
+  assignedToMe: false,
+  labels: [],
+  customFields: {},
+}
+
+export function parseTaskLabel(id: string, data: DocumentData): TaskLabel {
+  return {
+    id,
+    name: data.name ?? '',
+    color: data.color ?? LABEL_COLORS[0],
+  }
+}
+
+export function parseCustomFieldDefinition(id: string, data: DocumentData): CustomFieldDefinition {
+  return {
+    id,
+    name: data.name ?? '',
+    type: CUSTOM_FIELD_TYPES.includes(data.type) ? data.type : 'text',
+    options: Array.isArray(data.options) ? data.options : [],
+    order: typeof data.order === 'number' ? data.order : 0,
+  }
+}
+
+/**
+ * Converts what was typed or picked in a field's input into the value stored on the task.
+ * Empty input clears the value.
+ */
+export function parseCustomFieldInput(field: CustomFieldDefinition, raw: string): CustomFieldValue {
+  const trimmed = raw.trim()
+  if (!trimmed) return null
+  if (field.type === 'number') {
+    const value = Number(trimmed)
+    return Number.isFinite(value) ? value : null
+  }
+  return trimmed
+}
+
+export function formatCustomFieldValue(field: CustomFieldDefinition, value: CustomFieldValue | undefined): string {
+  if (value === null || value === undefined || value === '') return '—'
+  if (field.type === 'date' && typeof value === 'string') {
+    const parsed = new Date(`${value}T00:00:00`)
+    return Number.isNaN(parsed.getTime())
+      ? value
+      : parsed.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' })
+  }
+  return String(value)
+}
+
+/**
+ * Whether a task passes the label and custom field parts of the filters.
+ * Labels match when the task has any of the selected labels; text fields match on a
+ * case-insensitive substring and every other field type on its exact value.
+ */
+export function matchesTaskFieldFilters(
+  task: Pick<Task, 'labels' | 'customFields'>,
+  filters: TaskFilters,
+  fields: CustomFieldDefinition[],
+): boolean {
+  const labelFilter = filters.labels ?? []
+  if (labelFilter.length > 0 && !(task.labels ?? []).some((labelId) => labelFilter.includes(labelId))) {
+    return false
+  }
+
+  return Object.entries(filters.customFields ?? {}).every(([fieldId, expected]) => {
+    const field = fields.find((item) => item.id === fieldId)
+    // Filters on fields that were since deleted are ignored
+    if (!field || !expected.trim()) return true
+    const value = task.customFields?.[fieldId]
+    if (value === null || value === undefined) return false
+    if (field.type === 'text') {
+      return String(value).toLowerCase().includes(expected.trim().toLowerCase())
+    }
+    return String(value) === expected.trim()
+  })
+}
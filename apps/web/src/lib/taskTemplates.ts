@@ -0,0 +1,100 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { ChecklistItem, Task } from '../context/AppDataContext'
+import type { TaskRecurrence } from '../../../../functions/src/shared/recurrence'
+import { createChecklistItem } from './checklist'
+
+// Template documents are also read by generateRecurringTasks in functions/src/taskTemplates.ts,
+// and the recurrence math is shared with it
+export { addDays, firstRunOnOrAfter, toDateKey } from '../../../../functions/src/shared/recurrence'
+export type { TaskRecurrence }
+
+export type TaskTemplate = {
+  id: string
+  name: string
+  title: string
+  department: string
+  summary: string
+  priority: Task['priority']
+  assignee: string
+  assigneeId: string
+  checklist: string[]
+  recurrence: TaskRecurrence | null
+  paused: boolean
+  nextRunAt: string | null
+  lastRunAt: string | null
+  generatedCount: number
+  createdBy?: string
+}
+
+export const WEEKDAY_LABELS = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+
+export const NTH_LABELS: Record<number, string> = { 1: 'first', 2: 'second', 3: 'third', 4: 'fourth', [-1]: 'last' }
+
+export function parseTaskTemplate(id: string, data: DocumentData): TaskTemplate {
+  return {
+    id,
+    name: data.name ?? '',
+    title: data.title ?? '',
+    department: data.department ?? '',
+    summary: data.summary ?? '',
+    priority: data.priority ?? 'Medium',
+    assignee: data.assignee ?? '',
+    assigneeId: data.assigneeId ?? '',
+    checklist: Array.isArray(data.checklist) ? data.checklist : [],
+    recurrence: data.recurrence ?? null,
+    paused: data.paused ?? false,
+    nextRunAt: data.nextRunAt ?? null,
+    lastRunAt: data.lastRunAt ?? null,
+    generatedCount: data.generatedCount ?? 0,
+    createdBy: data.createdBy,
+  }
+}
+
+/**
+ * The fields of a new task created from a template, without createdAt/createdBy
+ */
+export function taskFieldsFromTemplate(template: TaskTemplate): {
+  title: string
+  department: string
+  assignee: string
+  assigneeId: string
+  summary: string
+  priority: Task['priority']
+  checklist: ChecklistItem[]
+  templateId: string
+} {
+  return {
+    title: template.title,
+    department: template.department,
+    assignee: template.assignee,
+    assigneeId: template.assigneeId,
+    summary: template.summary,
+    priority: template.priority,
+    checklist: template.checklist.map((text) => createChecklistItem(text)),
+    templateId: template.id,
+  }
+}
+
+function ordinalDay(day: number): string {
+  if (day % 100 >= 11 && day % 100 <= 13) return `${day}th`
+  const suffix = day % 10 === 1 ? 'st' : day % 10 === 2 ? 'nd' : day % 10 === 3 ? 'rd' : 'th'
+  return `${day}${suffix}`
+}
+
+export function describeRecurrence(recurrence: TaskRecurrence | null): string {
+  if (!recurrence) return 'Not recurring'
+  switch (recurrence.frequency) {
+    case 'daily':
+      return recurrence.interval > 1 ? `Every ${recurrence.interval} days` : 'Every day'
+    case 'weekly':
+      return recurrence.interval > 1
+        ? `Every ${recurrence.interval} weeks on ${WEEKDAY_LABELS[recurrence.weekday]}`
+        : `Every ${WEEKDAY_LABELS[recurrence.weekday]}`
+    case 'monthly':
+      return recurrence.interval > 1
+        ? `Every ${recurrence.interval} months on the ${ordinalDay(recurrence.dayOfMonth)}`
+        : `Monthly on the ${ordinalDay(recurrence.dayOfMonth)}`
+    case 'nthWeekday':
+      return `Monthly on the ${NTH_LABELS[recurrence.nth] ?? recurrence.nth} ${WEEKDAY_LABELS[recurrence.weekday]}`
+  }
+}
@@ -0,0 +1,43 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { TaskFilters } from '../context/AppDataContext'
+import { DEFAULT_TASK_FILTERS } from './taskFields'
+
+// A named set of task filters. Personal views are only visible to their owner,
+// department views to everyone in the owner's department.
+export type TaskView = {
+  id: string
+  name: string
+  filters: TaskFilters
+  ownerId: string
+  ownerName: string
+  visibility: 'personal' | 'department'
+  department: string
+  createdAt: string
+}
+
+/**
+ * Fills in anything missing from stored filters, e.g. views saved before a filter existed
+ */
+export function normalizeTaskFilters(data: Partial<TaskFilters> | undefined): TaskFilters {
+  return {
+    statuses: Array.isArray(data?.statuses) ? data.statuses : DEFAULT_TASK_FILTERS.statuses,
+    priorities: Array.isArray(data?.priorities) ? data.priorities : DEFAULT_TASK_FILTERS.priorities,
+    departments: Array.isArray(data?.departments) ? data.departments : [],
+    assignedToMe: data?.assignedToMe ?? false,
+    labels: Array.isArray(data?.labels) ? data.labels : [],
+    customFields: data?.customFields && typeof data.customFields === 'object' ? data.customFields : {},
+  }
+}
+
+export function parseTaskView(id: string, data: DocumentData): TaskView {
+  return {
+    id,
+    name: data.name ?? 'Untitled view',
+    filters: normalizeTaskFilters(data.filters),
+    ownerId: data.ownerId ?? '',
+    ownerName: data.ownerName ?? 'Unknown',
+    visibility: data.visibility === 'department' ? 'department' : 'personal',
+    department: data.department ?? '',
+    createdAt: data.createdAt ?? '',
+  }
+}
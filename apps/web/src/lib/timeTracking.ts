@@ -0,0 +1,143 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { TimesheetRow } from '../../../../functions/src/shared/timesheets'
+
+// Rows are built with the same helpers the submitTimesheet function uses, so the preview
+// matches what gets submitted
+export { buildTimesheetRows, sumTimesheetRows } from '../../../../functions/src/shared/timesheets'
+export type { TimesheetRow }
+
+// One block of work by one user on one task. A running timer has endedAt === null.
+export type TimeEntry = {
+  id: string
+  userId: string
+  userName: string
+  department: string
+  taskId: string
+  taskTitle: string
+  date: string // Local YYYY-MM-DD the work is counted on
+  weekStart: string // Monday of that week, used by the rules to lock submitted weeks
+  startedAt: string // ISO timestamp
+  endedAt: string | null
+  minutes: number
+  note: string
+  source: 'timer' | 'manual'
+}
+
+// Weekly hours submitted by a user, stored as `${userId}_${weekStart}`
+export type Timesheet = {
+  id: string
+  userId: string
+  userName: string
+  department: string
+  weekStart: string
+  rows: TimesheetRow[]
+  totalMinutes: number
+  status: 'Submitted' | 'Approved' | 'Rejected'
+  submittedAt: string
+  reviewedBy?: string
+  reviewedByName?: string
+  reviewedAt?: string
+  rejectionReason?: string
+}
+
+export const MAX_ENTRY_MINUTES = 24 * 60
+
+export const WEEKDAY_SHORT_LABELS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun']
+
+export function parseTimeEntry(id: string, data: DocumentData): TimeEntry {
+  return {
+    id,
+    userId: data.userId ?? '',
+    userName: data.userName ?? 'Unknown',
+    department: data.department ?? '',
+    taskId: data.taskId ?? '',
+    taskTitle: data.taskTitle ?? '',
+    date: data.date ?? '',
+    weekStart: data.weekStart ?? '',
+    startedAt: data.startedAt ?? '',
+    endedAt: data.endedAt ?? null,
+    minutes: typeof data.minutes === 'number' ? data.minutes : 0,
+    note: data.note ?? '',
+    source: data.source === 'timer' ? 'timer' : 'manual',
+  }
+}
+
+export function parseTimesheet(id: string, data: DocumentData): Timesheet {
+  return {
+    id,
+    userId: data.userId ?? '',
+    userName: data.userName ?? 'Unknown',
+    department: data.department ?? '',
+    weekStart: data.weekStart ?? '',
+    rows: Array.isArray(data.rows) ? data.rows : [],
+    totalMinutes: typeof data.totalMinutes === 'number' ? data.totalMinutes : 0,
+    status: data.status ?? 'Submitted',
+    submittedAt: data.submittedAt ?? '',
+    reviewedBy: data.reviewedBy ?? undefined,
+    reviewedByName: data.reviewedByName ?? undefined,
+    reviewedAt: data.reviewedAt ?? undefined,
+    rejectionReason: data.rejectionReason ?? undefined,
+  }
+}
+
+/**
+ * Formats a date as a local YYYY-MM-DD key
+ */
+export function toLocalDateKey(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0')
+  const day = String(date.getDate()).padStart(2, '0')
+  return `${date.getFullYear()}-${month}-${day}`
+}
+
+function parseLocalDateKey(dateKey: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Returns the Monday of the week containing the date, as YYYY-MM-DD
+ */
+export function getWeekStart(date: Date): string {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate())
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7))
+  return toLocalDateKey(monday)
+}
+
+export function shiftWeek(weekStart: string, weeks: number): string {
+  const date = parseLocalDateKey(weekStart)
+  date.setDate(date.getDate() + weeks * 7)
+  return toLocalDateKey(date)
+}
+
+export function getWeekDays(weekStart: string): string[] {
+  const start = parseLocalDateKey(weekStart)
+  return Array.from({ length: 7 }, (_, index) => {
+    const day = new Date(start)
+    day.setDate(start.getDate() + index)
+    return toLocalDateKey(day)
+  })
+}
+
+export function formatWeekLabel(weekStart: string): string {
+  const days = getWeekDays(weekStart)
+  const format = (dateKey: string) =>
+    parseLocalDateKey(dateKey).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })
+  return `${format(days[0])} – ${format(days[6])}`
+}
+
+export function formatMinutes(minutes: number): string {
+  const rounded = Math.round(minutes)
+  const hours = Math.floor(rounded / 60)
+  const rest = rounded % 60
+  if (hours === 0) return `${rest}m`
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`
+}
+
+/**
+ * Minutes counted for an entry; a running timer counts up to now
+ */
+export function getEntryMinutes(entry: TimeEntry, now: number = Date.now()): number {
+  if (entry.endedAt !== null) return entry.minutes
+  const started = new Date(entry.startedAt).getTime()
+  return Number.isNaN(started) ? 0 : Math.max(0, (now - started) / 60000)
+}
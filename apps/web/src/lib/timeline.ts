@@ -0,0 +1,183 @@
+import type { DocumentData } from 'firebase/firestore'
+import type { Task } from '../context/AppDataContext'
+import { toLocalDateKey } from './timeTracking'
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+export type TimelineZoom = 'month' | 'quarter' | 'halfYear'
+
+export const TIMELINE_ZOOMS: Record<TimelineZoom, { label: string; months: number; dayWidth: number }> = {
+  month: { label: 'Month', months: 1, dayWidth: 36 },
+  quarter: { label: 'Quarter', months: 3, dayWidth: 12 },
+  halfYear: { label: '6 months', months: 6, dayWidth: 6 },
+}
+
+export type TimelineGrouping = 'department' | 'assignee'
+
+// The parts of a calendarUpdates document the timeline draws
+export type TimelineCalendarUpdate = {
+  id: string
+  month: string
+  year: number
+  taskDetails: string
+  deadline: string // Legacy deadline, used for departments without their own
+  departmentDeadlines: Record<string, string> // Department name -> ISO datetime
+  assignees: Array<{ id: string; name: string; department: string }>
+  createdBy: string
+  createdAt: Date | null
+}
+
+export type TimelineBar =
+  | { kind: 'task'; key: string; task: Task; label: string; start: Date; end: Date }
+  | {
+      kind: 'calendarUpdate'
+      key: string
+      update: TimelineCalendarUpdate
+      department: string
+      label: string
+      start: Date
+      end: Date
+    }
+
+export type TimelineGroup = {
+  key: string
+  label: string
+  bars: TimelineBar[]
+}
+
+export function parseTimelineCalendarUpdate(id: string, data: DocumentData): TimelineCalendarUpdate {
+  return {
+    id,
+    month: data.month ?? '',
+    year: data.year ?? new Date().getFullYear(),
+    taskDetails: data.taskDetails ?? '',
+    deadline: data.deadline ?? '',
+    departmentDeadlines: data.departmentDeadlines ?? {},
+    assignees: Array.isArray(data.assignees) ? data.assignees : [],
+    createdBy: data.createdBy ?? '',
+    createdAt: data.createdAt?.toDate?.() ?? null,
+  }
+}
+
+export function startOfDay(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate())
+}
+
+/**
+ * Whole days from one date to another, ignoring the time of day
+ */
+export function daysBetween(from: Date, to: Date): number {
+  return Math.round((startOfDay(to).getTime() - startOfDay(from).getTime()) / DAY_MS)
+}
+
+export function startOfMonth(date: Date): Date {
+  return new Date(date.getFullYear(), date.getMonth(), 1)
+}
+
+/**
+ * The first day of the month a number of months away
+ */
+export function addMonths(date: Date, months: number): Date {
+  return new Date(date.getFullYear(), date.getMonth() + months, 1)
+}
+
+function parseDueDate(dueDate: string): Date | null {
+  const [year, month, day] = dueDate.split('-').map(Number)
+  if (!year || !month || !day) return null
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * Moves a YYYY-MM-DD due date by a number of days
+ */
+export function shiftDueDate(dueDate: string, days: number): string {
+  const date = parseDueDate(dueDate) ?? startOfDay(new Date())
+  date.setDate(date.getDate() + days)
+  return toLocalDateKey(date)
+}
+
+/**
+ * Moves an ISO deadline by a number of days, keeping its local time of day
+ */
+export function shiftDeadline(deadline: string, days: number): string {
+  const date = new Date(deadline)
+  date.setDate(date.getDate() + days)
+  return date.toISOString()
+}
+
+function buildTaskBar(task: Task): TimelineBar | null {
+  const end = parseDueDate(task.dueDate)
+  if (!end) return null
+  const created = task.createdAt ? startOfDay(task.createdAt) : end
+  return { kind: 'task', key: `task-${task.id}`, task, label: task.title, start: created < end ? created : end, end }
+}
+
+function buildCalendarUpdateBars(update: TimelineCalendarUpdate): TimelineBar[] {
+  const departments = [...new Set([...update.assignees.map((assignee) => assignee.department), ...Object.keys(update.departmentDeadlines)])]
+  return departments.flatMap((department) => {
+    const deadline = update.departmentDeadlines[department] || update.deadline
+    if (!deadline || isNaN(new Date(deadline).getTime())) return []
+    const end = startOfDay(new Date(deadline))
+    const created = update.createdAt ? startOfDay(update.createdAt) : end
+    return [
+      {
+        kind: 'calendarUpdate' as const,
+        key: `update-${update.id}-${department}`,
+        update,
+        department,
+        label: `${update.month} ${update.year}: ${update.taskDetails}`,
+        start: created < end ? created : end,
+        end,
+      },
+    ]
+  })
+}
+
+/**
+ * Groups task and calendar update bars by department or by assignee. With assignee grouping a
+ * bar shared by several people appears under each of them.
+ */
+export function buildTimelineGroups(
+  tasks: Task[],
+  updates: TimelineCalendarUpdate[],
+  grouping: TimelineGrouping,
+): TimelineGroup[] {
+  const groups = new Map<string, TimelineGroup>()
+  const addBar = (key: string, label: string, bar: TimelineBar) => {
+    const group = groups.get(key) ?? { key, label, bars: [] }
+    group.bars.push(bar)
+    groups.set(key, group)
+  }
+
+  tasks.forEach((task) => {
+    const bar = buildTaskBar(task)
+    if (!bar) return
+    if (grouping === 'department') {
+      addBar(task.department || 'No department', task.department || 'No department', bar)
+    } else if (task.assignees.length === 0) {
+      addBar('unassigned', 'Unassigned', bar)
+    } else {
+      task.assignees.forEach((assignee) => addBar(assignee.id, assignee.name || 'Unknown', bar))
+    }
+  })
+
+  updates.forEach((update) => {
+    buildCalendarUpdateBars(update).forEach((bar) => {
+      if (bar.kind !== 'calendarUpdate') return
+      if (grouping === 'department') {
+        addBar(bar.department, bar.department, bar)
+        return
+      }
+      const people = update.assignees.filter((assignee) => assignee.department === bar.department)
+      if (people.length === 0) {
+        addBar('unassigned', 'Unassigned', bar)
+      } else {
+        people.forEach((person) => addBar(person.id, person.name || 'Unknown', bar))
+      }
+    })
+  })
+
+  return [...groups.values()]
+    .map((group) => ({ ...group, bars: group.bars.sort((a, b) => a.start.getTime() - b.start.getTime() || a.end.getTime() - b.end.getTime()) }))
+    .sort((a, b) => (a.key === 'unassigned' ? 1 : b.key === 'unassigned' ? -1 : a.label.localeCompare(b.label)))
+}
@@ -0,0 +1,58 @@
+import { deleteField, Timestamp, type DocumentData } from 'firebase/firestore'
+
+// Collections whose documents go to the trash instead of being deleted straight away
+export type TrashCollection = 'tasks' | 'departmentChats' | 'companyChats'
+
+export const TRASH_COLLECTION_LABELS: Record<TrashCollection, string> = {
+  tasks: 'Task',
+  departmentChats: 'Department chat',
+  companyChats: 'Company chat',
+}
+
+export type TrashItem = {
+  id: string
+  collection: TrashCollection
+  label: string // Task title or message text
+  detail: string // Department or message author
+  deletedAt: Date
+  deletedBy: string
+}
+
+/**
+ * Whether a document is in the trash. Listeners use this to hide trashed documents,
+ * since Firestore cannot query for a missing field.
+ */
+export function isTrashed(data: DocumentData): boolean {
+  return Boolean(data.deletedAt)
+}
+
+/**
+ * Fields that move a document to the trash. The rules require deletedBy to be the signed-in user.
+ */
+export function buildTrashFields(userId: string) {
+  return { deletedAt: Timestamp.now(), deletedBy: userId }
+}
+
+// Fields that take a document back out of the trash
+export const RESTORE_FIELDS = { deletedAt: deleteField(), deletedBy: deleteField() }
+
+export function parseTrashItem(collection: TrashCollection, id: string, data: DocumentData): TrashItem {
+  return {
+    id,
+    collection,
+    label: collection === 'tasks' ? data.title || 'Untitled task' : data.text ?? '',
+    detail: collection === 'tasks' ? data.department ?? '' : data.author ?? '',
+    deletedAt: data.deletedAt?.toDate?.() ?? new Date(),
+    deletedBy: data.deletedBy ?? '',
+  }
+}
+
+/**
+ * When the scheduled purge permanently deletes a trashed document: the data retention
+ * period, in months, after it was trashed
+ */
+export function getPurgeDate(deletedAt: Date, retentionMonths: number): Date {
+  const purgeDate = new Date(deletedAt)
+  purgeDate.setMonth(purgeDate.getMonth() + retentionMonths)
+  return purgeDate
+}
@@ -0,0 +1,84 @@
+import type { Department, Task } from '../context/AppDataContext'
+import { normalizeDepartment } from './kpi'
+
+// Completed is a terminal column, so it never has a work-in-progress limit
+export const WIP_LIMITED_STATUSES: Task['status'][] = ['Backlog', 'In Progress', 'Review']
+
+export type WipMode = 'warn' | 'block'
+
+export type WipLoad = {
+  department: Department
+  count: number
+  limit: number
+}
+
+export type WipViolation = {
+  mode: WipMode
+  message: string
+}
+
+/**
+ * Finds the department document for a task's department name.
+ * Task departments are normalized on load, so both sides are normalized before comparing.
+ */
+export function findTaskDepartment(departments: Department[], departmentName: string): Department | undefined {
+  const normalized = normalizeDepartment(departmentName)
+  return departments.find(
+    (department) => normalizeDepartment(department.name) === normalized || department.slug === departmentName,
+  )
+}
+
+export function getWipLimit(department: Department | undefined, status: Task['status']): number | null {
+  if (!department || !WIP_LIMITED_STATUSES.includes(status)) return null
+  const limit = department.wipLimits?.[status]
+  return typeof limit === 'number' && limit > 0 ? limit : null
+}
+
+/**
+ * Returns the departments with a limit on this status column, with how many tasks each has in it
+ */
+export function getColumnWipLoads(status: Task['status'], tasks: Task[], departments: Department[]): WipLoad[] {
+  return departments
+    .map((department) => {
+      const limit = getWipLimit(department, status)
+      if (limit === null) return null
+      const count = tasks.filter(
+        (task) => task.status === status && findTaskDepartment(departments, task.department)?.id === department.id,
+      ).length
+      return { department, count, limit }
+    })
+    .filter((load): load is WipLoad => load !== null)
+}
+
+/**
+ * Checks whether moving a task into a status puts its department over the column limit.
+ * Returns null when the move is within the limit or no limit is configured.
+ */
+export function checkWipLimit(
+  task: Task,
+  newStatus: Task['status'],
+  tasks: Task[],
+  departments: Department[],
+): WipViolation | null {
+  if (task.status === newStatus) return null
+  const department = findTaskDepartment(departments, task.department)
+  const limit = getWipLimit(department, newStatus)
+  if (!department || limit === null) return null
+
+  const count = tasks.filter(
+    (other) =>
+      other.id !== task.id &&
+      other.status === newStatus &&
+      findTaskDepartment(departments, other.department)?.id === department.id,
+  ).length
+  if (count < limit) return null
+
+  const mode = department.wipMode ?? 'warn'
+  return {
+    mode,
+    message:
+      mode === 'block'
+        ? `${department.name} already has ${count} of ${limit} tasks in ${newStatus}. Finish or move one before adding more.`
+        : `${department.name} already has ${count} of ${limit} tasks in ${newStatus}.`,
+  }
+}
@@ -0,0 +1,111 @@
+import type { Department, DepartmentWorkflow, Task } from '../context/AppDataContext'
+import { getDepartmentDocId } from '../../../../functions/src/shared/departments'
+
+export const TASK_STATUSES: Task['status'][] = ['Backlog', 'In Progress', 'Review', 'Completed']
+
+// Kept in sync with the workflow size limit in firestore.rules
+export const MAX_WORKFLOW_STATES = 12
+
+// The built-in statuses, each of which can move to any other
+export const DEFAULT_WORKFLOW: DepartmentWorkflow = {
+  states: TASK_STATUSES,
+  categories: Object.fromEntries(TASK_STATUSES.map((status) => [status, status])),
+  transitions: Object.fromEntries(
+    TASK_STATUSES.map((status) => [status, TASK_STATUSES.filter((other) => other !== status)]),
+  ),
+}
+
+export type TaskWorkflow = {
+  workflow: DepartmentWorkflow
+  // Department document holding the workflow, or null when the built-in statuses are used
+  workflowId: string | null
+}
+
+/**
+ * The workflow of a task's department. The rules look the department up by the id derived from
+ * the task's department name, so this matches it the same way rather than by normalized name.
+ */
+export function getTaskWorkflow(task: Pick<Task, 'department'>, departments: Department[]): TaskWorkflow {
+  const departmentId = getDepartmentDocId(task.department)
+  const department = departments.find((item) => item.id === departmentId)
+  if (department?.workflow && department.workflow.states.length > 0) {
+    return { workflow: department.workflow, workflowId: department.id }
+  }
+  return { workflow: DEFAULT_WORKFLOW, workflowId: null }
+}
+
+/**
+ * The stage a task is in. Tasks without a valid stage (created before the workflow existed,
+ * or moved by something that only knows about statuses) are shown in the first stage of their status.
+ */
+export function getTaskStage(task: Pick<Task, 'stage' | 'status'>, workflow: DepartmentWorkflow): string {
+  if (task.stage && workflow.categories[task.stage] === task.status) {
+    return task.stage
+  }
+  return workflow.states.find((state) => workflow.categories[state] === task.status) ?? task.status
+}
+
+/**
+ * Stages the task may move to from its current stage, in workflow order
+ */
+export function getNextStages(task: Pick<Task, 'stage' | 'status'>, workflow: DepartmentWorkflow): string[] {
+  const current = getTaskStage(task, workflow)
+  const allowed = workflow.transitions[current]
+  return workflow.states.filter((state) => state !== current && (!allowed || allowed.includes(state)))
+}
+
+/**
+ * The first stage counting as the given status that the task may move to, for moves that only
+ * know about statuses such as Kanban columns and bulk changes
+ */
+export function findStageForStatus(
+  task: Pick<Task, 'stage' | 'status'>,
+  status: Task['status'],
+  workflow: DepartmentWorkflow,
+): string | null {
+  return getNextStages(task, workflow).find((state) => workflow.categories[state] === status) ?? null
+}
+
+/**
+ * Builds the task update for moving to a stage. A task whose department no longer has a custom
+ * workflow has its stage cleared.
+ */
+export function buildStageUpdates(
+  task: Pick<Task, 'status' | 'stage'>,
+  stage: string,
+  { workflow, workflowId }: TaskWorkflow,
+): Partial<Omit<Task, 'id'>> {
+  const status = workflow.categories[stage] ?? task.status
+  const updates: Partial<Omit<Task, 'id'>> = workflowId
+    ? { status, stage, workflowId }
+    : task.stage
+      ? { status, stage: '', workflowId: '' }
+      : { status }
+  // Set completedAt timestamp when task is marked as Completed
+  if (status === 'Completed' && task.status !== 'Completed') {
+    updates.completedAt = new Date().toISOString()
+  }
+  return updates
+}
+
+/**
+ * Checks a workflow before it is saved, returning the problem or null when it is valid
+ */
+export function validateWorkflow(workflow: DepartmentWorkflow): string | null {
+  if (workflow.states.length === 0) return 'Add at least one stage.'
+  if (workflow.states.length > MAX_WORKFLOW_STATES) return `A workflow can have at most ${MAX_WORKFLOW_STATES} stages.`
+  if (workflow.states.some((state) => !state.trim())) return 'Every stage needs a name.'
+  const lowerCaseNames = workflow.states.map((state) => state.toLowerCase())
+  if (new Set(lowerCaseNames).size !== lowerCaseNames.length) return 'Stage names must be unique.'
+  if (!workflow.states.some((state) => workflow.categories[state] === 'Backlog')) {
+    return 'At least one stage must count as Backlog so new tasks have somewhere to start.'
+  }
+  if (!workflow.states.some((state) => workflow.categories[state] === 'Completed')) {
+    return 'At least one stage must count as Completed so tasks can be finished.'
+  }
+  const stuck = workflow.states.find(
+    (state) => workflow.categories[state] !== 'Completed' && (workflow.transitions[state] ?? []).length === 0,
+  )
+  if (stuck) return `"${stuck}" has no stage to move on to.`
+  return null
+}
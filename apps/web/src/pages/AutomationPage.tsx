@@ -1,64 +1,344 @@
-import { useState } from 'react'
+import { useEffect, useRef, useState } from 'react'
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  limit,
+  onSnapshot,
+  orderBy,
+  query,
+  runTransaction,
+  updateDoc,
+  type Firestore,
+} from 'firebase/firestore'
 import { AccessGuard } from '../components/AccessGuard'
+import { useAppData, type Task, type UserProfile } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  ACTION_LABELS,
+  NOTIFY_TARGET_LABELS,
+  SAMPLE_AUTOMATION_RULES,
+  TEMPLATE_FIELDS,
+  TRIGGER_LABELS,
+  describeAction,
+  describeConditions,
+  describeTrigger,
+  type AutomationAction,
+  type AutomationRule,
+  type AutomationRun,
+  type AutomationSimulationResult,
+  type AutomationTrigger,
+  type NotifyTarget,
+} from '../lib/automation'
+import { simulateAutomationRule } from '../lib/functions'
 
-type AutomationRule = {
-  id: string
-  name: string
-  description: string
-  enabled: boolean
+type RuleDraft = Omit<AutomationRule, 'id' | 'createdBy' | 'updatedAt'>
+
+const TASK_STATUSES: Task['status'][] = ['Backlog', 'In Progress', 'Review', 'Completed']
+const TASK_PRIORITIES: Task['priority'][] = ['High', 'Medium', 'Low']
+const USER_ROLES: UserProfile['role'][] = ['Admin', 'Manager', 'DepartmentHead', 'Specialist', 'Viewer']
+
+const EMPTY_DRAFT: RuleDraft = {
+  name: '',
+  description: '',
+  enabled: true,
+  trigger: { type: 'taskStatusChanged' },
+  conditions: {},
+  actions: [{ type: 'notifyUser', target: 'subjectUser', message: '' }],
+}
+
+function defaultTrigger(type: AutomationTrigger['type']): AutomationTrigger {
+  switch (type) {
+    case 'taskStatusChanged':
+      return { type }
+    case 'taskDueDate':
+      return { type, offsetDays: 0 }
+    case 'calendarUpdateApproved':
+      return { type }
+    case 'leaveRequestSubmitted':
+      return { type }
+  }
+}
+
+function defaultAction(type: AutomationAction['type']): AutomationAction {
+  switch (type) {
+    case 'notifyUser':
+      return { type, target: 'subjectUser', message: '' }
+    case 'postToDepartmentChat':
+      return { type, message: '' }
+    case 'changeStatus':
+      return { type, status: 'Review' }
+    case 'reassign':
+      return { type, assigneeId: '' }
+  }
+}
+
+// Firestore rejects undefined values, so optional fields are dropped before saving
+function toFirestoreRule(draft: RuleDraft) {
+  return JSON.parse(JSON.stringify(draft)) as RuleDraft
+}
+
+/**
+ * Adds the sample rules to a workspace that has never had any. settings/automation records that
+ * this happened, so rules an admin deletes later are not brought back.
+ */
+async function seedSampleRules(firestore: Firestore, userId: string, hasRules: boolean): Promise<void> {
+  const markerRef = doc(firestore, 'settings', 'automation')
+  await runTransaction(firestore, async (transaction) => {
+    const marker = await transaction.get(markerRef)
+    if (marker.data()?.seeded === true) return
+    if (!hasRules) {
+      SAMPLE_AUTOMATION_RULES.forEach(({ id, ...rule }) => {
+        transaction.set(doc(firestore, 'automationRules', id), {
+          ...toFirestoreRule(rule),
+          createdBy: userId,
+          createdAt: new Date().toISOString(),
+          updatedAt: new Date().toISOString(),
+        })
+      })
+    }
+    transaction.set(markerRef, { seeded: true }, { merge: true })
+  })
+}
+
+function validateDraft(draft: RuleDraft): string | null {
+  if (!draft.name.trim()) return 'Rule name is required.'
+  if (draft.actions.length === 0) return 'Add at least one action.'
+  for (const action of draft.actions) {
+    if ((action.type === 'notifyUser' || action.type === 'postToDepartmentChat') && !action.message.trim()) {
+      return `${ACTION_LABELS[action.type]} needs a message.`
+    }
+    if (action.type === 'notifyUser' && action.target === 'user' && !action.userId) {
+      return 'Select the user to notify.'
+    }
+    if (action.type === 'reassign' && !action.assigneeId) {
+      return 'Select who the task should be reassigned to.'
+    }
+    const isTaskTrigger = draft.trigger.type === 'taskStatusChanged' || draft.trigger.type === 'taskDueDate'
+    if ((action.type === 'changeStatus' || action.type === 'reassign') && !isTaskTrigger) {
+      return `${ACTION_LABELS[action.type]} only works with task triggers.`
+    }
+  }
+  return null
+}
+
+function formatRunTime(date: Date): string {
+  return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })
+}
+
+function toggleValue<T>(values: T[] | undefined, value: T, checked: boolean): T[] {
+  const current = values ?? []
+  return checked ? [...current, value] : current.filter((item) => item !== value)
 }
 
 export function AutomationPage() {
-  const [rules, setRules] = useState<AutomationRule[]>([
-    {
-      id: '1',
-      name: 'Overdue escalation',
-      description: 'When a task is 2 days overdue, notify the department manager and move it to Review.',
-      enabled: true,
-    },
-    {
-      id: '2',
-      name: 'Chat sync',
-      description: 'Post a summary to the department chat when a task transitions to Completed.',
-      enabled: true,
-    },
-    {
-      id: '3',
-      name: 'Calendar reminder',
-      description: 'Add a calendar event for tasks marked High priority with a due date within 3 days.',
-      enabled: false,
-    },
-  ])
-  const [isCreating, setIsCreating] = useState(false)
-  const [newRule, setNewRule] = useState({ name: '', description: '', enabled: true })
-
-  const handleToggle = async (ruleId: string) => {
-    setRules((prev) =>
-      prev.map((rule) => (rule.id === ruleId ? { ...rule, enabled: !rule.enabled } : rule)),
+  const { firestore, departments, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [rules, setRules] = useState<AutomationRule[]>([])
+  const [loadingRules, setLoadingRules] = useState(true)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<RuleDraft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [simulation, setSimulation] = useState<{ ruleName: string; result: AutomationSimulationResult } | null>(null)
+  const [simulatingRuleId, setSimulatingRuleId] = useState<string | null>(null)
+  const [runs, setRuns] = useState<AutomationRun[]>([])
+  const seededRef = useRef(false)
+
+  // Load automation rules, seeding the sample rules if the workspace has never had any
+  useEffect(() => {
+    if (!firestore) return
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, 'automationRules'),
+      (snapshot) => {
+        if (!seededRef.current) {
+          seededRef.current = true
+          seedSampleRules(firestore, user?.uid ?? 'system', !snapshot.empty).catch((err) => {
+            console.error('Failed to seed sample automation rules', err)
+          })
+        }
+
+        const loaded = snapshot.docs.map((docSnapshot) => {
+          const data = docSnapshot.data()
+          return {
+            id: docSnapshot.id,
+            name: data.name ?? '',
+            description: data.description ?? '',
+            enabled: data.enabled ?? false,
+            trigger: data.trigger ?? { type: 'taskStatusChanged' },
+            conditions: data.conditions ?? {},
+            actions: Array.isArray(data.actions) ? data.actions : [],
+            createdBy: data.createdBy,
+            updatedAt: data.updatedAt,
+          } satisfies AutomationRule
+        })
+        loaded.sort((a, b) => a.name.localeCompare(b.name))
+        setRules(loaded)
+        setLoadingRules(false)
+      },
+      (err) => {
+        console.error('Failed to load automation rules', err)
+        setError('Failed to load automation rules.')
+        setLoadingRules(false)
+      },
     )
-    // TODO: Save to Firestore
+
+    return () => unsubscribe()
+  }, [firestore, user])
+
+  // Load the most recent rule executions logged by the automation functions
+  useEffect(() => {
+    if (!firestore) return
+
+    const runsQuery = query(collection(firestore, 'automationRuns'), orderBy('ranAt', 'desc'), limit(50))
+    const unsubscribe = onSnapshot(
+      runsQuery,
+      (snapshot) => {
+        setRuns(
+          snapshot.docs.map((docSnapshot) => {
+            const data = docSnapshot.data()
+            return {
+              id: docSnapshot.id,
+              ruleId: data.ruleId ?? '',
+              ruleName: data.ruleName ?? '',
+              trigger: data.trigger,
+              subjectKind: data.subjectKind ?? '',
+              subjectId: data.subjectId ?? '',
+              subjectLabel: data.subjectLabel ?? '',
+              outcome: data.outcome === 'error' ? 'error' : 'success',
+              actions: Array.isArray(data.actions) ? data.actions : [],
+              error: data.error ?? null,
+              ranAt: data.ranAt?.toDate?.() ?? new Date(),
+            }
+          }),
+        )
+      },
+      (err) => {
+        console.error('Failed to load automation runs', err)
+      },
+    )
+
+    return () => unsubscribe()
+  }, [firestore])
+
+  const openCreateForm = () => {
+    setDraft(EMPTY_DRAFT)
+    setEditingRuleId(null)
+    setError(null)
+    setIsFormOpen(true)
+  }
+
+  const openEditForm = (rule: AutomationRule) => {
+    const { id, createdBy: _createdBy, updatedAt: _updatedAt, ...rest } = rule
+    void _createdBy
+    void _updatedAt
+    setDraft(rest)
+    setEditingRuleId(id)
+    setError(null)
+    setIsFormOpen(true)
   }
 
-  const handleCreate = () => {
-    if (!newRule.name.trim() || !newRule.description.trim()) return
+  const closeForm = () => {
+    setIsFormOpen(false)
+    setEditingRuleId(null)
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const updateAction = (index: number, action: AutomationAction) => {
+    setDraft((prev) => ({
+      ...prev,
+      actions: prev.actions.map((item, i) => (i === index ? action : item)),
+    }))
+  }
+
+  const handleSave = async () => {
+    if (!firestore) return
+    const validationError = validateDraft(draft)
+    if (validationError) {
+      setError(validationError)
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      const ruleData = {
+        ...toFirestoreRule({ ...draft, name: draft.name.trim(), description: draft.description.trim() }),
+        updatedAt: new Date().toISOString(),
+      }
+      if (editingRuleId) {
+        // createdBy and createdAt are kept from when the rule was created
+        await updateDoc(doc(firestore, 'automationRules', editingRuleId), ruleData)
+      } else {
+        await addDoc(collection(firestore, 'automationRules'), {
+          ...ruleData,
+          createdBy: user?.uid ?? 'unknown',
+          createdAt: new Date().toISOString(),
+        })
+      }
+      closeForm()
+    } catch (err) {
+      console.error('Failed to save automation rule', err)
+      setError('Failed to save automation rule. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleSimulate = async (rule: AutomationRule) => {
+    setSimulatingRuleId(rule.id)
+    setError(null)
+    try {
+      const { createdBy: _createdBy, updatedAt: _updatedAt, ...ruleData } = rule
+      void _createdBy
+      void _updatedAt
+      const response = await simulateAutomationRule({ rule: toFirestoreRule(ruleData) as AutomationRule })
+      setSimulation({ ruleName: rule.name || 'Draft rule', result: response.data })
+    } catch (err) {
+      console.error('Failed to simulate automation rule', err)
+      setError('Failed to simulate automation rule. Please try again.')
+    } finally {
+      setSimulatingRuleId(null)
+    }
+  }
 
-    const rule: AutomationRule = {
-      id: Date.now().toString(),
-      name: newRule.name,
-      description: newRule.description,
-      enabled: newRule.enabled,
+  const handleSimulateDraft = () => {
+    const validationError = validateDraft(draft)
+    if (validationError) {
+      setError(validationError)
+      return
     }
-    setRules((prev) => [...prev, rule])
-    setNewRule({ name: '', description: '', enabled: true })
-    setIsCreating(false)
-    // TODO: Save to Firestore
+    void handleSimulate({ ...draft, id: editingRuleId ?? 'draft' })
   }
 
-  const handleDelete = (ruleId: string) => {
-    setRules((prev) => prev.filter((rule) => rule.id !== ruleId))
-    // TODO: Delete from Firestore
+  const handleToggle = async (rule: AutomationRule) => {
+    if (!firestore) return
+    try {
+      await updateDoc(doc(firestore, 'automationRules', rule.id), {
+        enabled: !rule.enabled,
+        updatedAt: new Date().toISOString(),
+      })
+    } catch (err) {
+      console.error('Failed to toggle automation rule', err)
+      setError('Failed to update automation rule. Please try again.')
+    }
   }
 
+  const handleDelete = async (ruleId: string) => {
+    if (!firestore) return
+    try {
+      await deleteDoc(doc(firestore, 'automationRules', ruleId))
+    } catch (err) {
+      console.error('Failed to delete automation rule', err)
+      setError('Failed to delete automation rule. Please try again.')
+    }
+  }
+
+  const isTaskTrigger = draft.trigger.type === 'taskStatusChanged' || draft.trigger.type === 'taskDueDate'
+
   return (
     <AccessGuard allowedRoles={['Admin']}>
       <div className="panel">
@@ -70,77 +350,445 @@ export function AutomationPage() {
           <button
             type="button"
             className="ghost-button"
-            onClick={() => setIsCreating(!isCreating)}
+            onClick={() => (isFormOpen ? closeForm() : openCreateForm())}
           >
-            {isCreating ? 'Cancel' : 'Create Rule'}
+            {isFormOpen ? 'Cancel' : 'Create Rule'}
           </button>
         </header>
-        {isCreating && (
+        {error && <p className="login-error">{error}</p>}
+        {isFormOpen && (
           <div className="automation-form">
             <label>
               <span>Rule Name</span>
               <input
                 type="text"
-                value={newRule.name}
-                onChange={(e) => setNewRule({ ...newRule, name: e.target.value })}
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
                 placeholder="e.g., Auto-assign high priority tasks"
               />
             </label>
             <label>
               <span>Description</span>
               <textarea
-                value={newRule.description}
-                onChange={(e) => setNewRule({ ...newRule, description: e.target.value })}
-                rows={3}
+                value={draft.description}
+                onChange={(e) => setDraft({ ...draft, description: e.target.value })}
+                rows={2}
                 placeholder="Describe what this automation does..."
               />
             </label>
+
+            <fieldset style={{ border: '1px solid var(--border-soft)', borderRadius: '0.5rem', padding: '0.75rem' }}>
+              <legend>Trigger</legend>
+              <select
+                value={draft.trigger.type}
+                onChange={(e) =>
+                  setDraft({ ...draft, trigger: defaultTrigger(e.target.value as AutomationTrigger['type']) })
+                }
+              >
+                {(Object.keys(TRIGGER_LABELS) as AutomationTrigger['type'][]).map((type) => (
+                  <option key={type} value={type}>
+                    {TRIGGER_LABELS[type]}
+                  </option>
+                ))}
+              </select>
+              {draft.trigger.type === 'taskStatusChanged' && (
+                <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.5rem' }}>
+                  <select
+                    value={draft.trigger.fromStatus ?? ''}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        trigger: {
+                          type: 'taskStatusChanged',
+                          fromStatus: (e.target.value || undefined) as Task['status'] | undefined,
+                          toStatus: draft.trigger.type === 'taskStatusChanged' ? draft.trigger.toStatus : undefined,
+                        },
+                      })
+                    }
+                  >
+                    <option value="">From any status</option>
+                    {TASK_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        From {status}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={draft.trigger.toStatus ?? ''}
+                    onChange={(e) =>
+                      setDraft({
+                        ...draft,
+                        trigger: {
+                          type: 'taskStatusChanged',
+                          fromStatus: draft.trigger.type === 'taskStatusChanged' ? draft.trigger.fromStatus : undefined,
+                          toStatus: (e.target.value || undefined) as Task['status'] | undefined,
+                        },
+                      })
+                    }
+                  >
+                    <option value="">To any status</option>
+                    {TASK_STATUSES.map((status) => (
+                      <option key={status} value={status}>
+                        To {status}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              )}
+              {draft.trigger.type === 'taskDueDate' && (
+                <label style={{ marginTop: '0.5rem' }}>
+                  <span>Days relative to due date</span>
+                  <input
+                    type="number"
+                    value={draft.trigger.offsetDays}
+                    onChange={(e) =>
+                      setDraft({ ...draft, trigger: { type: 'taskDueDate', offsetDays: parseInt(e.target.value) || 0 } })
+                    }
+                  />
+                  <small style={{ color: 'var(--text-muted)', fontSize: '0.75rem' }}>
+                    Positive values fire after the due date passes, negative values fire before it. Checked hourly.
+                  </small>
+                </label>
+              )}
+            </fieldset>
+
+            <fieldset style={{ border: '1px solid var(--border-soft)', borderRadius: '0.5rem', padding: '0.75rem' }}>
+              <legend>Conditions (optional)</legend>
+              <span className="section-label">Department</span>
+              <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                {departments.map((dept) => (
+                  <label key={dept.id} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={draft.conditions.departments?.includes(dept.name) ?? false}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          conditions: {
+                            ...draft.conditions,
+                            departments: toggleValue(draft.conditions.departments, dept.name, e.target.checked),
+                          },
+                        })
+                      }
+                    />
+                    <span>{dept.name}</span>
+                  </label>
+                ))}
+              </div>
+              {isTaskTrigger && (
+                <>
+                  <span className="section-label">Priority</span>
+                  <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                    {TASK_PRIORITIES.map((priority) => (
+                      <label key={priority} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+                        <input
+                          type="checkbox"
+                          checked={draft.conditions.priorities?.includes(priority) ?? false}
+                          onChange={(e) =>
+                            setDraft({
+                              ...draft,
+                              conditions: {
+                                ...draft.conditions,
+                                priorities: toggleValue(draft.conditions.priorities, priority, e.target.checked),
+                              },
+                            })
+                          }
+                        />
+                        <span>{priority}</span>
+                      </label>
+                    ))}
+                  </div>
+                </>
+              )}
+              <span className="section-label">Role of assignee / requester</span>
+              <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+                {USER_ROLES.map((role) => (
+                  <label key={role} style={{ display: 'flex', gap: '0.25rem', alignItems: 'center' }}>
+                    <input
+                      type="checkbox"
+                      checked={draft.conditions.roles?.includes(role) ?? false}
+                      onChange={(e) =>
+                        setDraft({
+                          ...draft,
+                          conditions: {
+                            ...draft.conditions,
+                            roles: toggleValue(draft.conditions.roles, role, e.target.checked),
+                          },
+                        })
+                      }
+                    />
+                    <span>{role}</span>
+                  </label>
+                ))}
+              </div>
+            </fieldset>
+
+            <fieldset style={{ border: '1px solid var(--border-soft)', borderRadius: '0.5rem', padding: '0.75rem' }}>
+              <legend>Actions</legend>
+              {draft.actions.map((action, index) => (
+                <div
+                  key={index}
+                  style={{
+                    display: 'flex',
+                    flexDirection: 'column',
+                    gap: '0.5rem',
+                    padding: '0.75rem',
+                    marginBottom: '0.5rem',
+                    background: 'var(--surface-elevated)',
+                    borderRadius: '0.5rem',
+                  }}
+                >
+                  <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                    <select
+                      value={action.type}
+                      onChange={(e) => updateAction(index, defaultAction(e.target.value as AutomationAction['type']))}
+                    >
+                      {(Object.keys(ACTION_LABELS) as AutomationAction['type'][]).map((type) => (
+                        <option key={type} value={type}>
+                          {ACTION_LABELS[type]}
+                        </option>
+                      ))}
+                    </select>
+                    {action.type === 'notifyUser' && (
+                      <select
+                        value={action.target}
+                        onChange={(e) =>
+                          updateAction(index, { ...action, target: e.target.value as NotifyTarget, userId: undefined })
+                        }
+                      >
+                        {(Object.keys(NOTIFY_TARGET_LABELS) as NotifyTarget[]).map((target) => (
+                          <option key={target} value={target}>
+                            {NOTIFY_TARGET_LABELS[target]}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {action.type === 'changeStatus' && (
+                      <select
+                        value={action.status}
+                        onChange={(e) => updateAction(index, { ...action, status: e.target.value as Task['status'] })}
+                      >
+                        {TASK_STATUSES.map((status) => (
+                          <option key={status} value={status}>
+                            {status}
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    {((action.type === 'notifyUser' && action.target === 'user') || action.type === 'reassign') && (
+                      <select
+                        value={action.type === 'reassign' ? action.assigneeId : (action.userId ?? '')}
+                        onChange={(e) =>
+                          updateAction(
+                            index,
+                            action.type === 'reassign'
+                              ? { ...action, assigneeId: e.target.value }
+                              : { ...action, userId: e.target.value },
+                          )
+                        }
+                      >
+                        <option value="">Select user</option>
+                        {allUserProfiles.map((profile) => (
+                          <option key={profile.id} value={profile.id}>
+                            {profile.displayName} ({profile.department})
+                          </option>
+                        ))}
+                      </select>
+                    )}
+                    <button
+                      type="button"
+                      className="ghost-button"
+                      onClick={() =>
+                        setDraft((prev) => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))
+                      }
+                      style={{ marginLeft: 'auto', fontSize: '0.8rem', padding: '0.25rem 0.5rem' }}
+                      title="Remove action"
+                    >
+                      ×
+                    </button>
+                  </div>
+                  {(action.type === 'notifyUser' || action.type === 'postToDepartmentChat') && (
+                    <textarea
+                      value={action.message}
+                      onChange={(e) => updateAction(index, { ...action, message: e.target.value })}
+                      rows={2}
+                      placeholder="Message text, e.g. {{title}} needs attention"
+                    />
+                  )}
+                </div>
+              ))}
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={() =>
+                  setDraft((prev) => ({ ...prev, actions: [...prev.actions, defaultAction('notifyUser')] }))
+                }
+                style={{ fontSize: '0.85rem' }}
+              >
+                + Add action
+              </button>
+              <small style={{ display: 'block', color: 'var(--text-muted)', fontSize: '0.75rem', marginTop: '0.5rem' }}>
+                Messages can use: {TEMPLATE_FIELDS[draft.trigger.type].map((field) => `{{${field}}}`).join(', ')}
+              </small>
+            </fieldset>
+
             <label>
               <span>Enabled</span>
               <div className="toggle">
                 <input
                   type="checkbox"
-                  checked={newRule.enabled}
-                  onChange={(e) => setNewRule({ ...newRule, enabled: e.target.checked })}
+                  checked={draft.enabled}
+                  onChange={(e) => setDraft({ ...draft, enabled: e.target.checked })}
                 />
                 <div className="toggle-display" />
               </div>
             </label>
-            <button type="button" className="primary-button" onClick={handleCreate}>
-              Create Rule
-            </button>
+            <div style={{ display: 'flex', gap: '0.5rem' }}>
+              <button type="button" className="primary-button" onClick={handleSave} disabled={saving || !firestore}>
+                {saving ? 'Saving...' : editingRuleId ? 'Save Rule' : 'Create Rule'}
+              </button>
+              <button
+                type="button"
+                className="ghost-button"
+                onClick={handleSimulateDraft}
+                disabled={simulatingRuleId !== null}
+                title="Replay this rule against recent data without changing anything"
+              >
+                {simulatingRuleId === (editingRuleId ?? 'draft') ? 'Testing...' : 'Test Rule'}
+              </button>
+            </div>
           </div>
         )}
-        <ul className="automation-list">
-          {rules.map((rule) => (
-            <li key={rule.id}>
-              <div>
-                <strong>{rule.name}</strong>
-                <p>{rule.description}</p>
-                <small style={{ color: rule.enabled ? 'var(--accent)' : 'var(--text-muted)' }}>
-                  {rule.enabled ? 'Enabled' : 'Disabled'}
-                </small>
-              </div>
-              <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
-                <label>
-                  <input
-                    type="checkbox"
-                    checked={rule.enabled}
-                    onChange={() => handleToggle(rule.id)}
-                  />
-                  <span>Enable</span>
-                </label>
-                <button
-                  type="button"
-                  className="ghost-button"
-                  onClick={() => handleDelete(rule.id)}
-                >
-                  Delete
-                </button>
-              </div>
-            </li>
-          ))}
-        </ul>
+        {simulation && (
+          <section
+            style={{
+              margin: '1rem 0',
+              padding: '1rem',
+              background: 'var(--surface-elevated)',
+              border: '1px solid var(--border-soft)',
+              borderRadius: '0.75rem',
+            }}
+          >
+            <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+              <strong>Dry run: {simulation.ruleName}</strong>
+              <button type="button" className="ghost-button" onClick={() => setSimulation(null)}>
+                Close
+              </button>
+            </div>
+            <p style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+              Would have fired for {simulation.result.matches.length} of {simulation.result.scanned} recent records.
+              Nothing was changed.
+            </p>
+            {simulation.result.matches.length > 0 && (
+              <ul style={{ margin: 0, paddingLeft: '1.25rem', fontSize: '0.85rem' }}>
+                {simulation.result.matches.map((match) => (
+                  <li key={`${match.subjectKind}-${match.subjectId}-${match.label}`} style={{ marginBottom: '0.5rem' }}>
+                    <strong>{match.label}</strong>
+                    {match.actions.length === 0 ? (
+                      <p style={{ margin: 0, color: 'var(--text-muted)' }}>Conditions match, but no action would apply.</p>
+                    ) : (
+                      match.actions.map((action, index) => (
+                        <p key={index} style={{ margin: 0, color: 'var(--text-secondary)' }}>
+                          → {action}
+                        </p>
+                      ))
+                    )}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+        )}
+        {loadingRules ? (
+          <div className="loading-state">Loading automation rules…</div>
+        ) : (
+          <ul className="automation-list">
+            {rules.map((rule) => (
+              <li key={rule.id}>
+                <div>
+                  <strong>{rule.name}</strong>
+                  <p>{rule.description}</p>
+                  <p style={{ fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+                    {describeTrigger(rule.trigger)}, {describeConditions(rule.conditions)}:{' '}
+                    {rule.actions.map((action) => describeAction(action, allUserProfiles)).join(', ')}
+                  </p>
+                  <small style={{ color: rule.enabled ? 'var(--accent)' : 'var(--text-muted)' }}>
+                    {rule.enabled ? 'Enabled' : 'Disabled'}
+                  </small>
+                </div>
+                <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+                  <label>
+                    <input
+                      type="checkbox"
+                      checked={rule.enabled}
+                      onChange={() => handleToggle(rule)}
+                    />
+                    <span>Enable</span>
+                  </label>
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => handleSimulate(rule)}
+                    disabled={simulatingRuleId !== null}
+                  >
+                    {simulatingRuleId === rule.id ? 'Simulating...' : 'Simulate'}
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => openEditForm(rule)}
+                  >
+                    Edit
+                  </button>
+                  <button
+                    type="button"
+                    className="ghost-button"
+                    onClick={() => handleDelete(rule.id)}
+                  >
+                    Delete
+                  </button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+        <section style={{ marginTop: '2rem' }}>
+          <h3 style={{ marginBottom: '0.5rem' }}>Recent Runs</h3>
+          {runs.length === 0 ? (
+            <p style={{ color: 'var(--text-muted)', fontSize: '0.9rem' }}>No rules have run yet.</p>
+          ) : (
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '0.85rem' }}>
+              <thead>
+                <tr style={{ textAlign: 'left', borderBottom: '1px solid var(--border-soft)' }}>
+                  <th style={{ padding: '0.5rem' }}>When</th>
+                  <th style={{ padding: '0.5rem' }}>Rule</th>
+                  <th style={{ padding: '0.5rem' }}>Record</th>
+                  <th style={{ padding: '0.5rem' }}>Outcome</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} style={{ borderBottom: '1px solid var(--border-subtle)', verticalAlign: 'top' }}>
+                    <td style={{ padding: '0.5rem', whiteSpace: 'nowrap' }}>{formatRunTime(run.ranAt)}</td>
+                    <td style={{ padding: '0.5rem' }}>{run.ruleName}</td>
+                    <td style={{ padding: '0.5rem' }}>{run.subjectLabel}</td>
+                    <td style={{ padding: '0.5rem' }}>
+                      <span style={{ color: run.outcome === 'error' ? '#dc2626' : 'var(--accent)' }}>
+                        {run.outcome === 'error' ? 'Failed' : 'Succeeded'}
+                      </span>
+                      {run.actions.map((action, index) => (
+                        <div key={index} style={{ color: 'var(--text-secondary)' }}>
+                          {action}
+                        </div>
+                      ))}
+                      {run.error && <div style={{ color: '#dc2626' }}>{run.error}</div>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </section>
       </div>
     </AccessGuard>
   )
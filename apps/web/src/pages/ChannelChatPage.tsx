@@ -0,0 +1,288 @@
+import { useEffect, useLayoutEffect, useRef, useState, type FormEvent } from 'react'
+import { Link, useNavigate, useParams } from 'react-router-dom'
+import {
+  Timestamp,
+  addDoc,
+  arrayRemove,
+  arrayUnion,
+  collection,
+  doc,
+  updateDoc,
+} from 'firebase/firestore'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { Avatar } from '../components/Avatar'
+import { UserPicker } from '../components/UserPicker'
+import { getChannelDisplayName, parseChannelMessage, type ChannelMessage } from '../lib/chatChannels'
+import { createChatPager, type ChatPager } from '../lib/chatPagination'
+
+type ChannelChatProps = {
+  channelId: string
+}
+
+function ChannelChat({ channelId }: ChannelChatProps) {
+  const navigate = useNavigate()
+  const { user } = useAuth()
+  const { firestore, chatChannels, allUserProfiles, deactivatedUserProfiles, markChatChannelAsRead } = useAppData()
+  const [messages, setMessages] = useState<ChannelMessage[]>([])
+  const [messageText, setMessageText] = useState('')
+  const [showMembers, setShowMembers] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [hasOlder, setHasOlder] = useState(false)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const chatEndRef = useRef<HTMLDivElement>(null)
+  const feedRef = useRef<HTMLDivElement>(null)
+  const pagerRef = useRef<ChatPager | null>(null)
+  // Feed height before an older page was requested, to keep the reader's place once it renders
+  const scrollAnchorRef = useRef<number | null>(null)
+
+  const channel = chatChannels.find((item) => item.id === channelId)
+  const isMember = Boolean(user && channel?.memberIds.includes(user.uid))
+  const canManage = Boolean(channel && channel.type === 'group' && user && channel.createdBy === user.uid)
+  const profiles = [...allUserProfiles, ...deactivatedUserProfiles]
+
+  useEffect(() => {
+    if (!firestore || !isMember) return () => {}
+
+    const pager = createChatPager(collection(firestore, 'chatChannels', channelId, 'messages'), {
+      onChange: (docs, more) => {
+        setMessages(docs.map((docSnapshot) => parseChannelMessage(docSnapshot.id, docSnapshot.data())).reverse())
+        setHasOlder(more)
+      },
+      onError: (err) => {
+        console.error('Failed to load channel messages', err)
+        setError('Failed to load messages.')
+      },
+    })
+    pagerRef.current = pager
+    return () => {
+      pager.stop()
+      pagerRef.current = null
+    }
+  }, [firestore, channelId, isMember])
+
+  // Reading the channel clears its unread count
+  const messageCount = channel?.messageCount ?? 0
+  useEffect(() => {
+    if (!isMember) return
+    markChatChannelAsRead(channelId).catch((err) => console.error('Failed to mark channel as read', err))
+  }, [channelId, isMember, messageCount, markChatChannelAsRead])
+
+  // Follow new messages, but not older pages loaded above
+  const newestMessageId = messages.at(-1)?.id
+  const oldestMessageId = messages[0]?.id
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
+  }, [newestMessageId])
+
+  useLayoutEffect(() => {
+    const feed = feedRef.current
+    if (!feed || scrollAnchorRef.current === null) return
+    feed.scrollTop += feed.scrollHeight - scrollAnchorRef.current
+    scrollAnchorRef.current = null
+  }, [oldestMessageId])
+
+  const loadOlderMessages = () => {
+    if (!pagerRef.current || !hasOlder || loadingOlder) return
+    scrollAnchorRef.current = feedRef.current?.scrollHeight ?? null
+    setLoadingOlder(true)
+    pagerRef.current
+      .loadOlder()
+      .catch((err) => {
+        console.error('Failed to load earlier channel messages', err)
+        setError('Failed to load earlier messages. Please try again.')
+      })
+      .finally(() => setLoadingOlder(false))
+  }
+
+  const handleSubmit = async (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!firestore || !user || !messageText.trim()) return
+
+    try {
+      await addDoc(collection(firestore, 'chatChannels', channelId, 'messages'), {
+        author: user.displayName ?? user.email ?? 'Anonymous',
+        authorId: user.uid,
+        text: messageText.trim(),
+        createdAt: Timestamp.now(),
+      })
+      setMessageText('')
+      setError(null)
+    } catch (err) {
+      console.error('Failed to send channel message', err)
+      setError('Unable to send message right now. Please try again later.')
+    }
+  }
+
+  const handleMembersChange = async (memberIds: string[]) => {
+    if (!firestore || !channel || !user) return
+    // The creator always stays in the channel they manage
+    const nextMemberIds = memberIds.includes(user.uid) ? memberIds : [user.uid, ...memberIds]
+    const added = nextMemberIds.filter((id) => !channel.memberIds.includes(id))
+    const removed = channel.memberIds.filter((id) => !nextMemberIds.includes(id))
+    try {
+      if (added.length > 0) {
+        await updateDoc(doc(firestore, 'chatChannels', channel.id), { memberIds: arrayUnion(...added) })
+      }
+      if (removed.length > 0) {
+        await updateDoc(doc(firestore, 'chatChannels', channel.id), { memberIds: arrayRemove(...removed) })
+      }
+    } catch (err) {
+      console.error('Failed to update channel members', err)
+      setError('Failed to update members. Please try again.')
+    }
+  }
+
+  const handleLeave = async () => {
+    if (!firestore || !channel || !user) return
+    if (!window.confirm(`Leave ${channel.name}? You will no longer see its messages.`)) return
+    try {
+      await updateDoc(doc(firestore, 'chatChannels', channel.id), { memberIds: arrayRemove(user.uid) })
+      navigate('/company-chat')
+    } catch (err) {
+      console.error('Failed to leave channel', err)
+      setError('Failed to leave the channel. Please try again.')
+    }
+  }
+
+  if (!channel || !user || !isMember) {
+    return (
+      <div className="panel">
+        <div className="empty-state" style={{ padding: '2rem', margin: 0 }}>
+          <p>This conversation does not exist or you are not a member of it.</p>
+        </div>
+      </div>
+    )
+  }
+
+  const title = getChannelDisplayName(channel, user.uid, profiles)
+
+  return (
+    <div className="panel" style={{ height: '100%', display: 'flex', flexDirection: 'column' }}>
+      <header className="panel-header">
+        <div>
+          <h2>{channel.type === 'group' ? `# ${title}` : title}</h2>
+          <p>
+            {channel.type === 'direct' ? 'Direct message' : `Private channel · ${channel.memberIds.length} members`}
+            {channel.taskId && (
+              <>
+                {' · '}
+                <Link to={`/tasks?task=${encodeURIComponent(channel.taskId)}`}>{channel.taskTitle || 'Linked task'}</Link>
+              </>
+            )}
+            {channel.project && ` · ${channel.project}`}
+          </p>
+        </div>
+        {channel.type === 'group' && (
+          <button type="button" className="ghost-button" onClick={() => setShowMembers((open) => !open)}>
+            {showMembers ? 'Hide members' : 'Members'}
+          </button>
+        )}
+      </header>
+
+      <div style={{ flex: 1, display: 'flex', gap: '1rem', minHeight: 0 }}>
+        <div
+          ref={feedRef}
+          className="chat-feed"
+          style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}
+          onScroll={(event) => {
+            if (event.currentTarget.scrollTop < 100) loadOlderMessages()
+          }}
+        >
+          {hasOlder && (
+            <div style={{ textAlign: 'center', padding: '0.5rem' }}>
+              <button type="button" className="ghost-button" onClick={loadOlderMessages} disabled={loadingOlder}>
+                {loadingOlder ? 'Loading…' : 'Load earlier messages'}
+              </button>
+            </div>
+          )}
+          {messages.length === 0 ? (
+            <div className="empty-state" style={{ padding: '2rem', margin: 0 }}>
+              <p>No messages yet. Start the conversation!</p>
+            </div>
+          ) : (
+            messages.map((message) => (
+              <article key={message.id} className="chat-message">
+                <div className="chat-author">
+                  <Avatar
+                    displayName={message.author}
+                    profileImageUrl={profiles.find((profile) => profile.id === message.authorId)?.profileImageUrl}
+                    size="small"
+                    className="chat-avatar"
+                  />
+                  <div>
+                    <strong>{message.author}</strong>
+                  </div>
+                  <span className="chat-time">
+                    {message.createdAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}
+                  </span>
+                </div>
+                <p>{message.text}</p>
+              </article>
+            ))
+          )}
+          <div ref={chatEndRef} />
+        </div>
+
+        {showMembers && channel.type === 'group' && (
+          <aside
+            aria-label="Channel members"
+            style={{ width: '280px', borderLeft: '1px solid var(--border-soft)', paddingLeft: '1rem', overflowY: 'auto' }}
+          >
+            <strong style={{ display: 'block', marginBottom: '0.75rem' }}>Members</strong>
+            {canManage ? (
+              <UserPicker
+                profiles={allUserProfiles}
+                value={channel.memberIds}
+                onChange={(memberIds) => void handleMembersChange(memberIds)}
+                placeholder="Add people…"
+              />
+            ) : (
+              <ul style={{ listStyle: 'none', padding: 0, margin: 0, display: 'grid', gap: '0.5rem' }}>
+                {channel.memberIds.map((memberId) => {
+                  const profile = profiles.find((item) => item.id === memberId)
+                  return (
+                    <li key={memberId} style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
+                      <Avatar
+                        displayName={profile?.displayName ?? 'Former team member'}
+                        profileImageUrl={profile?.profileImageUrl}
+                        size="small"
+                      />
+                      <span>{profile?.displayName ?? 'Former team member'}</span>
+                    </li>
+                  )
+                })}
+              </ul>
+            )}
+            {!canManage && (
+              <button type="button" className="ghost-button" onClick={() => void handleLeave()} style={{ marginTop: '1rem' }}>
+                Leave channel
+              </button>
+            )}
+          </aside>
+        )}
+      </div>
+
+      <form className="chat-input" aria-label="Send message" onSubmit={handleSubmit}>
+        <input
+          type="text"
+          placeholder={channel.type === 'group' ? `Message # ${title}…` : `Message ${title}…`}
+          value={messageText}
+          onChange={(event) => setMessageText(event.target.value)}
+        />
+        <button type="submit" disabled={!messageText.trim()}>
+          Send
+        </button>
+      </form>
+      {error && <p className="login-error">{error}</p>}
+    </div>
+  )
+}
+
+// Keyed by channel so switching conversations starts from a clean draft and message list
+export function ChannelChatPage() {
+  const { channelId = '' } = useParams()
+  return <ChannelChat key={channelId} channelId={channelId} />
+}
+
+export default ChannelChatPage
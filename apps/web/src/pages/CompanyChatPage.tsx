@@ -1,13 +1,24 @@
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react'
 import type { FormEvent } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { Timestamp, addDoc, collection } from 'firebase/firestore'
 import { useAuth } from '../context/AuthContext'
 import { useAppData } from '../context/AppDataContext'
 import { Avatar } from '../components/Avatar'
 import { PasswordVerificationModal } from '../components/PasswordVerificationModal'
+import { ChatAttachmentList } from '../components/ChatAttachmentList'
+import { ChatFilePicker } from '../components/ChatFilePicker'
+import { ChatFilesList } from '../components/ChatFilesList'
+import { ChatMessageText } from '../components/ChatMessageText'
+import { ChatReactions } from '../components/ChatReactions'
+import { ChatThreadPanel } from '../components/ChatThreadPanel'
+import { uploadChatAttachment } from '../lib/storage'
 
 export function CompanyChatPage() {
   const [messageText, setMessageText] = useState('')
+  const [pendingFiles, setPendingFiles] = useState<File[]>([])
+  const [sending, setSending] = useState(false)
+  const [activeTab, setActiveTab] = useState<'messages' | 'files'>('messages')
   const [submissionError, setSubmissionError] = useState<string | null>(null)
   const chatEndRef = useRef<HTMLDivElement>(null)
   const [deleteMessageId, setDeleteMessageId] = useState<string | null>(null)
@@ -19,12 +30,41 @@ export function CompanyChatPage() {
     allUserProfiles, 
     deleteCompanyChatMessage,
     companyChatMessages,
+    hasOlderCompanyChatMessages,
+    loadOlderCompanyChatMessages,
     markCompanyChatAsRead,
     markCompanyChatMessageAsSeen
   } = useAppData()
   
   const messageRefs = useRef<Map<string, HTMLDivElement>>(new Map())
   const seenMessagesRef = useRef<Set<string>>(new Set())
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  // Links to a message (?message=<id>) scroll to it instead of the latest message
+  const linkedMessageId = searchParams.get('message')
+  const scrolledLinkRef = useRef<string | null>(null)
+  const latestMessageIdRef = useRef<string | undefined>(undefined)
+  const feedRef = useRef<HTMLDivElement>(null)
+  // Feed height before an older page was requested, to keep the reader's place once it renders
+  const scrollAnchorRef = useRef<number | null>(null)
+  const [loadingOlder, setLoadingOlder] = useState(false)
+  const [threadParentId, setThreadParentId] = useState<string | null>(null)
+  const [threadLinkKey, setThreadLinkKey] = useState<string | null>(null)
+
+  // Replies are shown in their thread, not in the main feed
+  const topLevelMessages = companyChatMessages.filter((message) => !message.parentId)
+  const threadParent = threadParentId ? topLevelMessages.find((message) => message.id === threadParentId) : undefined
+  const newestMessageId = topLevelMessages.at(-1)?.id
+  const oldestMessageId = topLevelMessages[0]?.id
+
+  // A link to a reply opens its thread
+  const linkedReply = linkedMessageId
+    ? companyChatMessages.find((message) => message.id === linkedMessageId && message.parentId)
+    : undefined
+  if (linkedReply?.parentId && location.key !== threadLinkKey) {
+    setThreadLinkKey(location.key)
+    setThreadParentId(linkedReply.parentId)
+  }
 
   // Mark company chat as read when page is visited
   useEffect(() => {
@@ -100,26 +140,64 @@ export function CompanyChatPage() {
 
   // Auto-scroll to bottom when new messages arrive
   useEffect(() => {
+    const linkedElement = linkedMessageId ? messageRefs.current.get(linkedMessageId) : undefined
+    if (linkedElement && scrolledLinkRef.current !== location.key) {
+      scrolledLinkRef.current = location.key
+      latestMessageIdRef.current = newestMessageId
+      linkedElement.scrollIntoView({ block: 'center' })
+      return
+    }
+    // Stay on a linked message until someone posts something new. Replies, reactions and
+    // older pages do not move the main feed
+    if (newestMessageId === latestMessageIdRef.current) return
+    latestMessageIdRef.current = newestMessageId
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' })
-  }, [companyChatMessages])
+  }, [newestMessageId, linkedMessageId, location.key])
+
+  // Older messages are inserted above the reader, so shift down by the height they added
+  useLayoutEffect(() => {
+    const feed = feedRef.current
+    if (!feed || scrollAnchorRef.current === null) return
+    feed.scrollTop += feed.scrollHeight - scrollAnchorRef.current
+    scrollAnchorRef.current = null
+  }, [oldestMessageId])
+
+  const loadOlderMessages = () => {
+    if (!hasOlderCompanyChatMessages || loadingOlder) return
+    scrollAnchorRef.current = feedRef.current?.scrollHeight ?? null
+    setLoadingOlder(true)
+    loadOlderCompanyChatMessages()
+      .catch((error) => {
+        console.error('Failed to load earlier messages', error)
+        setSubmissionError('Failed to load earlier messages. Please try again.')
+      })
+      .finally(() => setLoadingOlder(false))
+  }
 
   async function handleSubmit(event: FormEvent<HTMLFormElement>) {
     event.preventDefault()
-    if (!user || !messageText.trim() || !firestore) return
+    if (!user || (!messageText.trim() && pendingFiles.length === 0) || !firestore) return
 
+    setSending(true)
     try {
+      const attachments = await Promise.all(pendingFiles.map((file) => uploadChatAttachment(user.uid, file)))
       await addDoc(collection(firestore, 'companyChats'), {
         author: user.displayName ?? user.email ?? 'Anonymous',
         authorId: user.uid,
         role: userProfile?.role ?? 'Viewer',
         text: messageText.trim(),
+        // hasAttachments lets the Files tab query for shared files
+        ...(attachments.length > 0 ? { attachments, hasAttachments: true } : {}),
         createdAt: Timestamp.now(),
       })
       setMessageText('')
+      setPendingFiles([])
       setSubmissionError(null)
     } catch (error) {
       console.error('Failed to send chat message', error)
       setSubmissionError('Unable to send message right now. Please try again later.')
+    } finally {
+      setSending(false)
     }
   }
 
@@ -132,13 +210,51 @@ export function CompanyChatPage() {
         </div>
       </header>
 
-      <div className="imessage-chat-feed" style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}>
-        {companyChatMessages.length === 0 ? (
+      <div className="settings-tabs" style={{ marginBottom: '1rem' }}>
+        <button
+          type="button"
+          className={activeTab === 'messages' ? 'tab-button active' : 'tab-button'}
+          onClick={() => setActiveTab('messages')}
+        >
+          Messages
+        </button>
+        <button
+          type="button"
+          className={activeTab === 'files' ? 'tab-button active' : 'tab-button'}
+          onClick={() => setActiveTab('files')}
+        >
+          Files
+        </button>
+      </div>
+
+      {activeTab === 'files' ? (
+        <div style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}>
+          <ChatFilesList collectionName="companyChats" />
+        </div>
+      ) : (
+      <>
+      <div style={{ flex: 1, display: 'flex', gap: '1rem', minHeight: 0 }}>
+      <div
+        ref={feedRef}
+        className="imessage-chat-feed"
+        style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}
+        onScroll={(event) => {
+          if (event.currentTarget.scrollTop < 100) loadOlderMessages()
+        }}
+      >
+        {hasOlderCompanyChatMessages && (
+          <div style={{ textAlign: 'center', padding: '0.5rem' }}>
+            <button type="button" className="ghost-button" onClick={loadOlderMessages} disabled={loadingOlder}>
+              {loadingOlder ? 'Loading…' : 'Load earlier messages'}
+            </button>
+          </div>
+        )}
+        {topLevelMessages.length === 0 ? (
           <div className="empty-state" style={{ padding: '2rem', margin: 0, textAlign: 'center', color: 'var(--text-muted)' }}>
             <p>No messages yet. Start the conversation!</p>
           </div>
         ) : (
-          companyChatMessages.map((message) => {
+          topLevelMessages.map((message) => {
             const messageUser = allUserProfiles.find((p) => p.id === message.authorId)
             const isCurrentUser = message.authorId === user?.uid
             const seenBy = message.seenBy ?? []
@@ -170,11 +286,31 @@ export function CompanyChatPage() {
                     className="imessage-avatar"
                   />
                 )}
-                <div className="imessage-bubble">
+                <div
+                  className="imessage-bubble"
+                  style={message.id === linkedMessageId ? { outline: '2px solid var(--accent)', outlineOffset: '2px' } : undefined}
+                >
                   {!isCurrentUser && (
                     <div className="imessage-author-name">{message.author}</div>
                   )}
-                  <div className="imessage-text">{message.text}</div>
+                  <ChatAttachmentList attachments={message.attachments} />
+                  <ChatMessageText collectionName="companyChats" message={message} className="imessage-text" />
+                  <ChatReactions collectionName="companyChats" messageId={message.id} reactions={message.reactions} />
+                  <button
+                    type="button"
+                    onClick={() => setThreadParentId(message.id)}
+                    style={{
+                      alignSelf: 'flex-start',
+                      background: 'none',
+                      border: 'none',
+                      padding: 0,
+                      fontSize: '0.75rem',
+                      color: 'var(--accent)',
+                      cursor: 'pointer',
+                    }}
+                  >
+                    {message.replyCount > 0 ? `${message.replyCount} repl${message.replyCount === 1 ? 'y' : 'ies'}` : 'Reply'}
+                  </button>
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '0.25rem' }}>
                     <div style={{ display: 'flex', alignItems: 'center', gap: '0.5rem' }}>
                       <div className="imessage-time">
@@ -246,13 +382,30 @@ export function CompanyChatPage() {
         )}
         <div ref={chatEndRef} />
       </div>
+      {threadParent && (
+        <ChatThreadPanel
+          key={threadParent.id}
+          collectionName="companyChats"
+          parent={threadParent}
+          canDeleteMessage={(message) => canDeleteMessage(message.authorId)}
+          onDeleteMessage={setDeleteMessageId}
+          onClose={() => setThreadParentId(null)}
+        />
+      )}
+      </div>
 
       <form
         className="imessage-input"
         aria-label="Send message"
         onSubmit={handleSubmit}
-        style={{ marginTop: 'auto' }}
+        style={{ marginTop: 'auto', flexWrap: 'wrap' }}
       >
+        <ChatFilePicker
+          files={pendingFiles}
+          onChange={setPendingFiles}
+          onError={setSubmissionError}
+          disabled={!user || !firestore || Boolean(dataError) || sending}
+        />
         <input
           type="text"
           placeholder="Message company chat…"
@@ -263,12 +416,16 @@ export function CompanyChatPage() {
         />
         <button
           type="submit"
-          disabled={!user || !firestore || Boolean(dataError) || !messageText.trim()}
+          disabled={
+            !user || !firestore || Boolean(dataError) || sending || (!messageText.trim() && pendingFiles.length === 0)
+          }
           className="imessage-send-button"
         >
-          Send
+          {sending ? 'Sending…' : 'Send'}
         </button>
       </form>
+      </>
+      )}
       {submissionError && <p className="login-error">{submissionError}</p>}
       {dataError && (
         <p className="login-error">
@@ -281,7 +438,7 @@ export function CompanyChatPage() {
         onClose={() => setDeleteMessageId(null)}
         onVerify={handleDeleteMessage}
         title="Delete Message"
-        message="Are you sure you want to delete this message? This action cannot be undone."
+        message="Are you sure you want to delete this message? It moves to the trash, where an admin can restore it."
       />
     </div>
   )
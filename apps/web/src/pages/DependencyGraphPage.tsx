@@ -0,0 +1,218 @@
+import { useMemo, useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { AccessGuard } from '../components/AccessGuard'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { buildDependencyGraph } from '../lib/taskDependencies'
+
+const NODE_WIDTH = 200
+const NODE_HEIGHT = 64
+const COLUMN_GAP = 80
+const ROW_GAP = 24
+const PADDING = 24
+
+const DEPARTMENT_COLORS = ['#3e63dd', '#0ea5e9', '#16a34a', '#f59e0b', '#db2777', '#7c3aed', '#0d9488', '#ea580c']
+
+const statusOpacity: Record<Task['status'], number> = {
+  Backlog: 1,
+  'In Progress': 1,
+  Review: 1,
+  Completed: 0.45,
+}
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length - 1)}…` : value
+}
+
+export function DependencyGraphPage() {
+  const { tasks, departments } = useAppData()
+  const navigate = useNavigate()
+  const [departmentFilter, setDepartmentFilter] = useState('all')
+  const [showCompleted, setShowCompleted] = useState(false)
+
+  const graph = useMemo(() => {
+    const visibleTasks = showCompleted ? tasks : tasks.filter((task) => task.status !== 'Completed')
+    const built = buildDependencyGraph(visibleTasks)
+    if (departmentFilter === 'all') return built
+
+    // Keep whole chains that touch the department, so cross-department dependencies stay visible
+    const touching = new Set(built.nodes.filter((node) => node.department === departmentFilter).map((node) => node.id))
+    built.edges.forEach((edge) => {
+      if (touching.has(edge.to) || touching.has(edge.from)) {
+        touching.add(edge.from)
+        touching.add(edge.to)
+      }
+    })
+    return {
+      ...built,
+      nodes: built.nodes.filter((node) => touching.has(node.id)),
+      edges: built.edges.filter((edge) => touching.has(edge.from) && touching.has(edge.to)),
+    }
+  }, [tasks, departmentFilter, showCompleted])
+
+  const departmentColor = useMemo(() => {
+    const colors = new Map<string, string>()
+    departments.forEach((dept, index) => colors.set(dept.name, DEPARTMENT_COLORS[index % DEPARTMENT_COLORS.length]))
+    return (department: string) => colors.get(department) ?? 'var(--text-muted)'
+  }, [departments])
+
+  // Lay nodes out in columns by dependency depth
+  const layout = useMemo(() => {
+    const columns = new Map<number, Task[]>()
+    graph.nodes.forEach((node) => {
+      const depth = graph.depthById.get(node.id) ?? 0
+      columns.set(depth, [...(columns.get(depth) ?? []), node])
+    })
+
+    const positions = new Map<string, { x: number; y: number }>()
+    let maxRows = 0
+    Array.from(columns.entries()).forEach(([depth, columnNodes]) => {
+      columnNodes.sort((a, b) => a.department.localeCompare(b.department) || a.title.localeCompare(b.title))
+      maxRows = Math.max(maxRows, columnNodes.length)
+      columnNodes.forEach((node, row) => {
+        positions.set(node.id, {
+          x: PADDING + depth * (NODE_WIDTH + COLUMN_GAP),
+          y: PADDING + row * (NODE_HEIGHT + ROW_GAP),
+        })
+      })
+    })
+
+    const columnCount = columns.size === 0 ? 0 : Math.max(...columns.keys()) + 1
+    return {
+      positions,
+      width: PADDING * 2 + columnCount * NODE_WIDTH + Math.max(0, columnCount - 1) * COLUMN_GAP,
+      height: PADDING * 2 + maxRows * NODE_HEIGHT + Math.max(0, maxRows - 1) * ROW_GAP,
+    }
+  }, [graph])
+
+  const criticalEdges = useMemo(() => {
+    const edges = new Set<string>()
+    for (let i = 1; i < graph.criticalPath.length; i += 1) {
+      edges.add(`${graph.criticalPath[i - 1]}->${graph.criticalPath[i]}`)
+    }
+    return edges
+  }, [graph.criticalPath])
+
+  const tasksById = useMemo(() => new Map(tasks.map((task) => [task.id, task])), [tasks])
+
+  return (
+    <AccessGuard allowedRoles={['Admin', 'Manager', 'DepartmentHead']}>
+      <div className="panel">
+        <header className="panel-header">
+          <div>
+            <h2>Dependencies</h2>
+            <p>See which tasks are waiting on others and the chain that determines when work can finish.</p>
+          </div>
+          <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+            <select value={departmentFilter} onChange={(e) => setDepartmentFilter(e.target.value)}>
+              <option value="all">All departments</option>
+              {departments.map((dept) => (
+                <option key={dept.id} value={dept.name}>
+                  {dept.name}
+                </option>
+              ))}
+            </select>
+            <label style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', fontSize: '0.875rem' }}>
+              <input type="checkbox" checked={showCompleted} onChange={(e) => setShowCompleted(e.target.checked)} />
+              <span>Show completed</span>
+            </label>
+          </div>
+        </header>
+
+        {graph.criticalPath.length > 1 && (
+          <section className="detail-section" style={{ marginBottom: '1rem' }}>
+            <span className="section-label">Critical Path</span>
+            <p style={{ margin: 0, fontSize: '0.9rem' }}>
+              {graph.criticalPath.map((taskId) => tasksById.get(taskId)?.title ?? taskId).join(' → ')}
+            </p>
+          </section>
+        )}
+
+        {graph.nodes.length === 0 ? (
+          <div className="empty-state">
+            <h3>No dependencies yet</h3>
+            <p>Add blocking tasks from the Task Board or when creating a task to see them here.</p>
+          </div>
+        ) : (
+          <div style={{ overflow: 'auto', border: '1px solid var(--border-soft)', borderRadius: '0.75rem' }}>
+            <svg width={layout.width} height={layout.height} role="img" aria-label="Task dependency graph">
+              <defs>
+                <marker id="dependency-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--text-muted)" />
+                </marker>
+                <marker id="dependency-arrow-critical" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto">
+                  <path d="M 0 0 L 10 5 L 0 10 z" fill="#dc2626" />
+                </marker>
+              </defs>
+              {graph.edges.map((edge) => {
+                const from = layout.positions.get(edge.from)
+                const to = layout.positions.get(edge.to)
+                if (!from || !to) return null
+                const isCritical = criticalEdges.has(`${edge.from}->${edge.to}`)
+                const startX = from.x + NODE_WIDTH
+                const startY = from.y + NODE_HEIGHT / 2
+                const endX = to.x
+                const endY = to.y + NODE_HEIGHT / 2
+                const midX = (startX + endX) / 2
+                return (
+                  <path
+                    key={`${edge.from}->${edge.to}`}
+                    d={`M ${startX} ${startY} C ${midX} ${startY}, ${midX} ${endY}, ${endX} ${endY}`}
+                    fill="none"
+                    stroke={isCritical ? '#dc2626' : 'var(--text-muted)'}
+                    strokeWidth={isCritical ? 2.5 : 1.5}
+                    markerEnd={`url(#${isCritical ? 'dependency-arrow-critical' : 'dependency-arrow'})`}
+                  />
+                )
+              })}
+              {graph.nodes.map((node) => {
+                const position = layout.positions.get(node.id)
+                if (!position) return null
+                const isCritical = graph.criticalPath.includes(node.id)
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    opacity={statusOpacity[node.status]}
+                    style={{ cursor: 'pointer' }}
+                    onClick={() => navigate(`/tasks?task=${encodeURIComponent(node.id)}`)}
+                  >
+                    <title>{`${node.title}\n${node.department} · ${node.status} · ${node.assignee}`}</title>
+                    <rect
+                      width={NODE_WIDTH}
+                      height={NODE_HEIGHT}
+                      rx={10}
+                      fill="var(--surface-default)"
+                      stroke={isCritical ? '#dc2626' : 'var(--border-strong)'}
+                      strokeWidth={isCritical ? 2 : 1}
+                    />
+                    <rect width={6} height={NODE_HEIGHT} rx={3} fill={departmentColor(node.department)} />
+                    <text x={16} y={24} fontSize={13} fontWeight={600} fill="var(--text-primary)">
+                      {truncate(node.title, 24)}
+                    </text>
+                    <text x={16} y={46} fontSize={11} fill="var(--text-secondary)">
+                      {truncate(`${node.department} · ${node.status}`, 30)}
+                    </text>
+                  </g>
+                )
+              })}
+            </svg>
+          </div>
+        )}
+
+        <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginTop: '0.75rem', fontSize: '0.8rem' }}>
+          {departments.map((dept) => (
+            <span key={dept.id} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+              <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: departmentColor(dept.name) }} />
+              {dept.name}
+            </span>
+          ))}
+          <span style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem', color: '#dc2626' }}>
+            ━ Critical path
+          </span>
+        </div>
+      </div>
+    </AccessGuard>
+  )
+}
+
+export default DependencyGraphPage
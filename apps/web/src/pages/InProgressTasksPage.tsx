@@ -1,7 +1,9 @@
-import { useMemo } from 'react'
+import { useMemo, useState } from 'react'
 import { AccessGuard } from '../components/AccessGuard'
+import { BulkTaskActionBar } from '../components/BulkTaskActionBar'
 import { useAppData } from '../context/AppDataContext'
 import { Avatar } from '../components/Avatar'
+import { SlaBadge } from '../components/SlaBadge'
 import type { Task } from '../context/AppDataContext'
 
 function formatDueDate(dateString: string): string {
@@ -57,25 +59,28 @@ function getTimeUntilDeadline(dueDateString: string): { text: string; color: str
 
 export function InProgressTasksPage() {
   const { tasks, allUserProfiles } = useAppData()
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
 
   // Filter tasks that are "In Progress"
   const inProgressTasks = useMemo(() => {
     return tasks.filter((task) => task.status === 'In Progress')
   }, [tasks])
 
-  // Group tasks by assignee
+  // Group tasks by assignee; a task with several assignees is listed under each of them
   const tasksByUser = useMemo(() => {
     const grouped: Record<string, { user: typeof allUserProfiles[0] | undefined; tasks: Task[] }> = {}
     
     inProgressTasks.forEach((task) => {
-      const assigneeId = task.assigneeId
-      if (!grouped[assigneeId]) {
-        grouped[assigneeId] = {
-          user: allUserProfiles.find((p) => p.id === assigneeId),
-          tasks: [],
+      const assigneeIds = task.assigneeIds.length > 0 ? task.assigneeIds : ['']
+      assigneeIds.forEach((assigneeId) => {
+        if (!grouped[assigneeId]) {
+          grouped[assigneeId] = {
+            user: allUserProfiles.find((p) => p.id === assigneeId),
+            tasks: [],
+          }
         }
-      }
-      grouped[assigneeId].tasks.push(task)
+        grouped[assigneeId].tasks.push(task)
+      })
     })
 
     // Sort by number of tasks (descending), then by user name
@@ -89,6 +94,14 @@ export function InProgressTasksPage() {
     })
   }, [inProgressTasks, allUserProfiles])
 
+  const selectedTasks = inProgressTasks.filter((task) => selectedIds.includes(task.id))
+
+  const toggleSelected = (taskIds: string[], selected: boolean) => {
+    setSelectedIds((prev) =>
+      selected ? [...new Set([...prev, ...taskIds])] : prev.filter((id) => !taskIds.includes(id)),
+    )
+  }
+
   // Priority label mapping
   const priorityLabel: Record<Task['priority'], string> = {
     Low: 'Low priority',
@@ -117,6 +130,8 @@ export function InProgressTasksPage() {
           </div>
         </header>
 
+        <BulkTaskActionBar selectedTasks={selectedTasks} onClearSelection={() => setSelectedIds([])} />
+
         {tasksByUser.length === 0 ? (
           <div className="empty-state">
             <h3>No tasks in progress</h3>
@@ -174,6 +189,14 @@ export function InProgressTasksPage() {
                         </span>
                       </div>
                     </div>
+                    <label style={{ display: 'inline-flex', alignItems: 'center', gap: '0.5rem', fontSize: '0.875rem', color: 'var(--text-secondary)' }}>
+                      <input
+                        type="checkbox"
+                        checked={userTasks.every((task) => selectedIds.includes(task.id))}
+                        onChange={(e) => toggleSelected(userTasks.map((task) => task.id), e.target.checked)}
+                      />
+                      Select all
+                    </label>
                   </div>
 
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '0.75rem' }}>
@@ -202,6 +225,13 @@ export function InProgressTasksPage() {
                             marginBottom: '0.5rem',
                           }}
                         >
+                          <input
+                            type="checkbox"
+                            checked={selectedIds.includes(task.id)}
+                            onChange={(e) => toggleSelected([task.id], e.target.checked)}
+                            aria-label={`Select ${task.title}`}
+                            style={{ marginRight: '0.75rem', marginTop: '0.25rem' }}
+                          />
                           <div style={{ flex: 1 }}>
                             <h4 style={{ margin: 0, marginBottom: '0.25rem', fontSize: '1rem' }}>
                               {task.title}
@@ -247,6 +277,15 @@ export function InProgressTasksPage() {
                           >
                             {priorityLabel[task.priority]}
                           </span>
+                          {task.assignees.length > 1 && (
+                            <span>
+                              With{' '}
+                              {task.assignees
+                                .filter((other) => other.id !== assignee?.id)
+                                .map((other) => other.name || 'Unknown')
+                                .join(', ')}
+                            </span>
+                          )}
                           {(() => {
                             const deadline = getTimeUntilDeadline(task.dueDate)
                             return (
@@ -271,6 +310,7 @@ export function InProgressTasksPage() {
                               </span>
                             )
                           })()}
+                          <SlaBadge task={task} />
                           {task.fileUrls && task.fileUrls.length > 0 && (
                             <span
                               style={{
@@ -1,4 +1,5 @@
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import type { LeaveRequest } from '../context/AppDataContext'
@@ -230,6 +231,33 @@ export function LeaveRequestsPage() {
   const pendingCount = leaveRequests.filter((r) => r.status === 'Pending').length
   const myPendingCount = leaveRequests.filter((r) => r.userId === user?.uid && r.status === 'Pending').length
   const [viewMode, setViewMode] = useState<'list' | 'calendar'>('list')
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  const [linkKey, setLinkKey] = useState<string | null>(null)
+  const scrolledLinkRef = useRef<string | null>(null)
+  // ?new=1 opens the request form and ?request=<id> shows that request in the list
+  const linkedRequestId = searchParams.get('request')
+  const wantsNewRequest = searchParams.get('new') === '1'
+
+  if ((linkedRequestId || wantsNewRequest) && location.key !== linkKey) {
+    setLinkKey(location.key)
+    if (wantsNewRequest) {
+      setIsCreateOpen(true)
+    }
+    if (linkedRequestId) {
+      setViewMode('list')
+      setFilterType('All')
+      setFilterStatus('All')
+    }
+  }
+
+  useEffect(() => {
+    if (!linkedRequestId || scrolledLinkRef.current === linkKey) return
+    const element = document.getElementById(`leave-request-${linkedRequestId}`)
+    if (!element) return
+    scrolledLinkRef.current = linkKey
+    element.scrollIntoView({ block: 'center' })
+  }, [linkedRequestId, linkKey, filteredRequests])
 
   return (
     <div style={{ display: 'flex', gap: '1.5rem', alignItems: 'flex-start', flexWrap: 'wrap' }}>
@@ -394,6 +422,7 @@ export function LeaveRequestsPage() {
             <RequestCard
               key={request.id}
               request={request}
+              isLinked={request.id === linkedRequestId}
               isManagerOrAdmin={isManagerOrAdmin}
               isAdmin={userProfile?.role === 'Admin'}
               currentUserId={user?.uid || ''}
@@ -522,6 +551,7 @@ export function LeaveRequestsPage() {
 
 type RequestCardProps = {
   request: LeaveRequest
+  isLinked: boolean
   isManagerOrAdmin: boolean
   isAdmin: boolean
   currentUserId: string
@@ -534,6 +564,7 @@ type RequestCardProps = {
 
 function RequestCard({
   request,
+  isLinked,
   isManagerOrAdmin,
   isAdmin,
   currentUserId,
@@ -571,12 +602,14 @@ function RequestCard({
   return (
     <>
       <div
+        id={`leave-request-${request.id}`}
         className="summary-card"
         style={{
           padding: '1.5rem',
           display: 'flex',
           flexDirection: 'column',
           gap: '1rem',
+          outline: isLinked ? '2px solid var(--accent)' : undefined,
         }}
       >
         <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'flex-start' }}>
@@ -2,6 +2,18 @@ import { useMemo, useState } from 'react'
 import { useAppData, type Task } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { useLayoutActions } from '../layouts/useLayoutActions'
+import { ChecklistProgress, TaskChecklist } from '../components/TaskChecklist'
+import { TaskAttachments } from '../components/TaskAttachments'
+import { TaskFieldsSection } from '../components/TaskFieldsSection'
+import { TaskTimeTracker } from '../components/TaskTimeTracker'
+import { TaskComments } from '../components/TaskComments'
+import { TaskHistory } from '../components/TaskHistory'
+import { TaskStageSelect } from '../components/TaskStageSelect'
+import { getChecklistBlockReason } from '../lib/checklist'
+import { getBlockedMoveReason } from '../lib/taskDependencies'
+import { checkWipLimit } from '../lib/wipLimits'
+import { formatAssignees, isTaskAssignee } from '../lib/taskAssignees'
+import { buildStageUpdates, getTaskStage, getTaskWorkflow } from '../lib/workflows'
 
 const statusPillClass: Record<Task['status'], string> = {
   Backlog: 'pill pill-neutral',
@@ -107,7 +119,7 @@ function CollapsibleSummary({ summary }: { summary: string }) {
 }
 
 export function MyTasksPage() {
-  const { tasks, allUserProfiles, updateTask, userProfile } = useAppData()
+  const { tasks, allUserProfiles, updateTask, userProfile, departments } = useAppData()
   const { user } = useAuth()
   const { openFilter } = useLayoutActions()
   const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
@@ -117,12 +129,12 @@ export function MyTasksPage() {
   // Filter tasks assigned to the current user
   const myTasks = useMemo(() => {
     if (!user) return []
-    return tasks.filter((task) => task.assigneeId === user.uid)
+    return tasks.filter((task) => isTaskAssignee(task, user.uid))
   }, [tasks, user])
 
   // Get creator name for a task
   const getCreatorName = (task: Task): string | null => {
-    if (!task.createdBy || task.createdBy === task.assigneeId) {
+    if (!task.createdBy || task.createdBy === user?.uid) {
       return null // Self-assigned or no creator info
     }
     const creator = allUserProfiles.find((profile) => profile.id === task.createdBy)
@@ -151,33 +163,41 @@ export function MyTasksPage() {
     if (isDepartmentHead && task.department === userProfile.department) return true
     
     // Users can edit tasks assigned to them (including when they create and assign to themselves)
-    if (task.assigneeId === user.uid) return true
+    if (isTaskAssignee(task, user.uid)) return true
     
     // Users can also edit tasks they created (even if not assigned to themselves)
     if (task.createdBy === user.uid) return true
     
     // Specialists can edit tasks assigned to them
-    if (role === 'Specialist' && task.assigneeId === user.uid) return true
+    if (role === 'Specialist' && isTaskAssignee(task, user.uid)) return true
     
     return false
   }
 
   const canEdit = canEditTask(selectedTask)
 
-  const handleStatusChange = async (taskId: string, newStatus: Task['status']) => {
+  const handleStageChange = async (taskId: string, stage: string) => {
     const task = myTasks.find((t) => t.id === taskId)
-    if (!canEditTask(task)) return
+    if (!canEditTask(task) || !task) return
+    const taskWorkflow = getTaskWorkflow(task, departments)
+    const newStatus = taskWorkflow.workflow.categories[stage] ?? task.status
+    const blockedReason = getBlockedMoveReason(task, newStatus, tasks) ?? getChecklistBlockReason(task, newStatus)
+    if (blockedReason) {
+      setUpdateError(blockedReason)
+      return
+    }
+    const wipViolation = checkWipLimit(task, newStatus, tasks, departments)
+    if (wipViolation?.mode === 'block') {
+      setUpdateError(wipViolation.message)
+      return
+    }
+    if (wipViolation && !window.confirm(`${wipViolation.message} That is over the work-in-progress limit. Move it anyway?`)) {
+      return
+    }
     setUpdating(taskId)
     setUpdateError(null)
     try {
-      const updates: Partial<Omit<Task, 'id'>> = { status: newStatus }
-      
-      // Set completedAt timestamp when task is marked as Completed
-      if (newStatus === 'Completed' && task?.status !== 'Completed') {
-        updates.completedAt = new Date().toISOString()
-      }
-      
-      await updateTask(taskId, updates)
+      await updateTask(taskId, buildStageUpdates(task, stage, taskWorkflow))
     } catch (error: any) {
       console.error('Failed to update task status', error)
       let errorMessage = 'Failed to update task status. Please try again.'
@@ -219,7 +239,7 @@ export function MyTasksPage() {
           <div className="task-list">
             {myTasks.map((task) => {
               const creatorName = getCreatorName(task)
-              const isSelfAssigned = !task.createdBy || task.createdBy === task.assigneeId
+              const isSelfAssigned = !task.createdBy || task.createdBy === user?.uid
 
               return (
                 <button
@@ -237,7 +257,10 @@ export function MyTasksPage() {
                   <h3>{task.title}</h3>
                   <CollapsibleSummary summary={task.summary} />
                   <div className="task-card-footer">
-                    <span className={statusPillClass[task.status]}>{task.status}</span>
+                    <span className={statusPillClass[task.status]}>
+                      {getTaskStage(task, getTaskWorkflow(task, departments).workflow)}
+                    </span>
+                    <ChecklistProgress task={task} />
                     {(() => {
                       const deadline = getTimeUntilDeadline(task.dueDate, task.status)
                       return (
@@ -300,7 +323,7 @@ export function MyTasksPage() {
                 {(() => {
                   const creatorName = selectedTask ? getCreatorName(selectedTask) : null
                   const isSelfAssigned = selectedTask
-                    ? !selectedTask.createdBy || selectedTask.createdBy === selectedTask.assigneeId
+                    ? !selectedTask.createdBy || selectedTask.createdBy === user?.uid
                     : false
 
                   if (creatorName) {
@@ -345,14 +368,9 @@ export function MyTasksPage() {
               <div>
                 <span className="section-label">Status</span>
                 {canEdit && selectedTask ? (
-                  <select
-                    value={selectedTask.status}
-                    onChange={(e) =>
-                      handleStatusChange(
-                        selectedTask.id,
-                        e.target.value as Task['status'],
-                      )
-                    }
+                  <TaskStageSelect
+                    task={selectedTask}
+                    onChange={(stage) => void handleStageChange(selectedTask.id, stage)}
                     disabled={updating === selectedTask.id}
                     style={{
                       padding: '0.5rem',
@@ -366,14 +384,9 @@ export function MyTasksPage() {
                       width: '100%',
                       marginTop: '0.5rem',
                     }}
-                  >
-                    <option value="Backlog">Backlog</option>
-                    <option value="In Progress">In Progress</option>
-                    <option value="Review">Review</option>
-                    <option value="Completed">Completed</option>
-                  </select>
+                  />
                 ) : (
-                  <p>{selectedTask?.status}</p>
+                  <p>{selectedTask && getTaskStage(selectedTask, getTaskWorkflow(selectedTask, departments).workflow)}</p>
                 )}
               </div>
               <div>
@@ -384,6 +397,12 @@ export function MyTasksPage() {
                 <span className="section-label">Department</span>
                 <p>{selectedTask?.department}</p>
               </div>
+              {selectedTask && selectedTask.assigneeIds.length > 1 && (
+                <div>
+                  <span className="section-label">Assignees</span>
+                  <p>{formatAssignees(selectedTask)}</p>
+                </div>
+              )}
               <div>
                 <span className="section-label">Due</span>
                 {selectedTask?.dueDate ? (
@@ -422,6 +441,20 @@ export function MyTasksPage() {
               </div>
             </section>
 
+            {selectedTask && (
+              <TaskFieldsSection key={selectedTask.id} task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+            )}
+
+            {selectedTask && (
+              <TaskChecklist task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+            )}
+
+            {selectedTask && (
+              <TaskAttachments task={selectedTask} canEdit={canEdit} onError={setUpdateError} />
+            )}
+
+            {selectedTask && <TaskTimeTracker task={selectedTask} onError={setUpdateError} />}
+
             {selectedTask?.fileUrls && selectedTask.fileUrls.length > 0 && (
               <section className="detail-section">
                 <span className="section-label">File Links</span>
@@ -448,6 +481,10 @@ export function MyTasksPage() {
                 </ul>
               </section>
             )}
+
+            {selectedTask && <TaskComments task={selectedTask} />}
+
+            {selectedTask && <TaskHistory taskId={selectedTask.id} />}
           </div>
         </div>
       )}
@@ -1,9 +1,26 @@
-import { useAppData } from '../context/AppDataContext'
+import { useEffect, useState } from 'react'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { getSlaStatus } from '../lib/sla'
 
 export function OverviewPage() {
-  const { tasks, departments } = useAppData()
+  const { tasks, departments, workspaceSettings } = useAppData()
+  const [now, setNow] = useState(() => Date.now())
   const activeTasks = tasks.filter((task) => task.status !== 'Completed')
 
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 60_000)
+    return () => clearInterval(interval)
+  }, [])
+
+  // Open tasks past their SLA or close to it
+  const isAtRisk = (task: Task) => {
+    const sla = getSlaStatus(task, departments, workspaceSettings.defaultSLA, now)
+    return Boolean(sla && (sla.breached || sla.atRisk))
+  }
+  const breachedCount = activeTasks.filter(
+    (task) => getSlaStatus(task, departments, workspaceSettings.defaultSLA, now)?.breached,
+  ).length
+
   return (
     <div className="overview-grid">
       <section className="panel">
@@ -26,10 +43,12 @@ export function OverviewPage() {
           </div>
           <div className="metric-card">
             <span className="section-label">At risk</span>
-            <strong>
-              {tasks.filter((task) => task.status === 'Review').length}
-            </strong>
-            <p>Workstreams needing manager attention.</p>
+            <strong>{activeTasks.filter(isAtRisk).length}</strong>
+            <p>
+              {breachedCount > 0
+                ? `${breachedCount} past SLA, the rest close to it.`
+                : 'Tasks close to breaching their SLA.'}
+            </p>
           </div>
         </div>
       </section>
@@ -53,7 +72,7 @@ export function OverviewPage() {
           ).map((dept) => {
             const deptTasks = tasks.filter((task) => task.department === dept.name)
             const onTrack = deptTasks.filter((task) => task.status === 'In Progress').length
-            const atRisk = deptTasks.filter((task) => task.status === 'Review').length
+            const atRisk = deptTasks.filter(isAtRisk).length
             const overdue = deptTasks.filter((task) => task.status === 'Backlog').length
             return (
               <li key={dept.id ?? dept.name} className="summary-card">
@@ -1,25 +1,62 @@
 import { useMemo, useState } from 'react'
+import { collection, getDocs, query, where } from 'firebase/firestore'
 import { AccessGuard } from '../components/AccessGuard'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import type { Task } from '../context/AppDataContext'
+import { formatAssignees } from '../lib/taskAssignees'
+import { TASK_CSV_HEADERS, toCsvCell } from '../lib/taskCsv'
+import { TaskImportWizard } from '../components/TaskImportWizard'
+import { WEEKDAY_SHORT_LABELS, parseTimesheet, sumTimesheetRows, type Timesheet } from '../lib/timeTracking'
 
 function exportTasksToCSV(tasks: Task[], filename: string) {
-  const headers = ['ID', 'Title', 'Status', 'Priority', 'Department', 'Assignee', 'Due Date', 'Summary']
   const rows = tasks.map((task) => [
     task.id,
     task.title,
     task.status,
     task.priority,
     task.department,
-    task.assignee,
+    formatAssignees(task),
     task.dueDate || 'N/A',
-    task.summary.replace(/"/g, '""'), // Escape quotes for CSV
+    task.summary,
   ])
 
+  // Every cell is quoted and escaped so the file can be imported again
+  const csvContent = [
+    TASK_CSV_HEADERS.join(','),
+    ...rows.map((row) => row.map(toCsvCell).join(',')),
+  ].join('\n')
+
+  const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
+  const link = document.createElement('a')
+  const url = URL.createObjectURL(blob)
+  link.setAttribute('href', url)
+  link.setAttribute('download', filename)
+  link.style.visibility = 'hidden'
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+}
+
+function exportTimesheetsToCSV(timesheets: Timesheet[], filename: string) {
+  const toHours = (minutes: number) => (minutes / 60).toFixed(2)
+  const headers = ['Employee', 'Department', 'Week Start', 'Task', ...WEEKDAY_SHORT_LABELS, 'Total Hours', 'Approved By', 'Approved At']
+  const rows = timesheets.flatMap((timesheet) =>
+    timesheet.rows.map((row) => [
+      timesheet.userName,
+      timesheet.department,
+      timesheet.weekStart,
+      row.taskTitle,
+      ...row.minutesByDay.map(toHours),
+      toHours(sumTimesheetRows([row])),
+      timesheet.reviewedByName ?? '',
+      timesheet.reviewedAt ?? '',
+    ]),
+  )
+
   const csvContent = [
     headers.join(','),
-    ...rows.map((row) => row.map((cell) => `"${cell}"`).join(',')),
+    ...rows.map((row) => row.map((cell) => `"${String(cell).replace(/"/g, '""')}"`).join(',')),
   ].join('\n')
 
   const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' })
@@ -34,9 +71,11 @@ function exportTasksToCSV(tasks: Task[], filename: string) {
 }
 
 export function ReportsPage() {
-  const { tasks, departments, allUserProfiles, userProfile } = useAppData()
+  const { tasks, departments, allUserProfiles, userProfile, firestore } = useAppData()
   const { user } = useAuth()
   const [exporting, setExporting] = useState(false)
+  const [isImportOpen, setIsImportOpen] = useState(false)
+  const [timesheetExportError, setTimesheetExportError] = useState<string | null>(null)
   const [isCreateUpdateOpen, setIsCreateUpdateOpen] = useState(false)
   const [updateDate, setUpdateDate] = useState(new Date().toISOString().split('T')[0])
   // Table rows: each row has a member and their tasks
@@ -88,6 +127,34 @@ export function ReportsPage() {
     }
   }
 
+  const handleExportTimesheets = async () => {
+    if (!firestore || !userProfile) return
+    setExporting(true)
+    setTimesheetExportError(null)
+    try {
+      // Department heads can only read their own department's timesheets
+      const isManagerOrAdmin = userProfile.role === 'Admin' || userProfile.role === 'Manager'
+      const timesheetsQuery = isManagerOrAdmin
+        ? query(collection(firestore, 'timesheets'), where('status', '==', 'Approved'))
+        : query(collection(firestore, 'timesheets'), where('department', '==', userProfile.department))
+      const snapshot = await getDocs(timesheetsQuery)
+      const approved = snapshot.docs
+        .map((docSnapshot) => parseTimesheet(docSnapshot.id, docSnapshot.data()))
+        .filter((timesheet) => timesheet.status === 'Approved')
+        .sort((a, b) => b.weekStart.localeCompare(a.weekStart) || a.userName.localeCompare(b.userName))
+      if (approved.length === 0) {
+        setTimesheetExportError('There are no approved timesheets to export yet.')
+        return
+      }
+      exportTimesheetsToCSV(approved, `approved-timesheets-${new Date().toISOString().split('T')[0]}.csv`)
+    } catch (error) {
+      console.error('Failed to export timesheets', error)
+      setTimesheetExportError('Failed to export timesheets. Please try again.')
+    } finally {
+      setExporting(false)
+    }
+  }
+
   // Get department members (only for department heads)
   const departmentMembers = useMemo(() => {
     if (!userProfile || !userProfile.department || userProfile.department === 'all') {
@@ -333,6 +400,26 @@ export function ReportsPage() {
               {exporting ? 'Exporting...' : 'Export Completed CSV'}
             </button>
           </article>
+          <article className="report-card">
+            <h3>Import Tasks</h3>
+            <p>Create tasks from a spreadsheet, including a CSV exported above.</p>
+            <button type="button" className="primary-button" onClick={() => setIsImportOpen(true)}>
+              Import CSV
+            </button>
+          </article>
+          <article className="report-card">
+            <h3>Timesheets</h3>
+            <p>Approved weekly hours per person and task.</p>
+            {timesheetExportError && <p className="login-error">{timesheetExportError}</p>}
+            <button
+              type="button"
+              className="primary-button"
+              onClick={handleExportTimesheets}
+              disabled={exporting}
+            >
+              {exporting ? 'Exporting...' : 'Export Approved Timesheets CSV'}
+            </button>
+          </article>
           <article className="report-card">
             <h3>Department Performance</h3>
             <div className="summary-list">
@@ -354,6 +441,8 @@ export function ReportsPage() {
         </div>
       </div>
 
+      {isImportOpen && <TaskImportWizard onClose={() => setIsImportOpen(false)} />}
+
       {/* Daily Work Update Modal */}
       {isCreateUpdateOpen && (
         <div className="modal-backdrop" role="presentation">
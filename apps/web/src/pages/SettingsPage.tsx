@@ -1,31 +1,53 @@
 import { useState, useMemo, useRef, useEffect } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { doc, updateDoc, setDoc, getDoc } from 'firebase/firestore'
-import type { UserProfile } from '../context/AppDataContext'
+import type { UserProfile, WorkspaceSettings } from '../context/AppDataContext'
 import { uploadProfileImage, deleteProfileImage } from '../lib/storage'
 import { Avatar } from '../components/Avatar'
-import { resetUserPassword, deleteUser } from '../lib/functions'
+import { resetUserPassword } from '../lib/functions'
 import { PasswordVerificationModal } from '../components/PasswordVerificationModal'
 import { PasswordInput } from '../components/PasswordInput'
+import { WipLimitsEditor } from '../components/WipLimitsEditor'
+import { WorkflowEditor } from '../components/WorkflowEditor'
+import { SlaEditor } from '../components/SlaEditor'
+import { TaskFieldsEditor } from '../components/TaskFieldsEditor'
+import { TrashManager } from '../components/TrashManager'
+import { OffboardingWizard } from '../components/OffboardingWizard'
 
-type SettingsTab = 'workspace' | 'users' | 'departments' | 'profile'
+type SettingsTab = 'workspace' | 'users' | 'departments' | 'taskFields' | 'trash' | 'profile'
 
 export function SettingsPage() {
-  const { userProfile, firestore, departments, allUserProfiles } = useAppData()
+  const { userProfile, firestore, departments, allUserProfiles, deactivatedUserProfiles, workspaceSettings } = useAppData()
   const { user } = useAuth()
   const [activeTab, setActiveTab] = useState<SettingsTab>('workspace')
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  const [linkKey, setLinkKey] = useState<string | null>(null)
+  const scrolledLinkRef = useRef<string | null>(null)
+  // Links can open a tab (?tab=users) and point at a user in it (&user=<id>)
+  const linkedTab = searchParams.get('tab')
+  const linkedUserId = searchParams.get('user')
+
+  if (linkedTab && location.key !== linkKey) {
+    setLinkKey(location.key)
+    if (['workspace', 'users', 'departments', 'taskFields', 'trash', 'profile'].includes(linkedTab)) {
+      setActiveTab(linkedTab as SettingsTab)
+    }
+  }
   const [saving, setSaving] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState(false)
   const [uploadingImage, setUploadingImage] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
-  const [settings, setSettings] = useState({
-    workspaceName: 'SP Office',
-    defaultSLA: 5,
-    requireMFA: true,
-    dataRetention: 18,
-  })
+  const [settings, setSettings] = useState(workspaceSettings)
+  // The form starts over from the saved settings whenever they change in Firestore
+  const [loadedSettings, setLoadedSettings] = useState(workspaceSettings)
+  if (workspaceSettings !== loadedSettings) {
+    setLoadedSettings(workspaceSettings)
+    setSettings(workspaceSettings)
+  }
 
   // User management state
   const [isAddUserOpen, setIsAddUserOpen] = useState(false)
@@ -45,9 +67,8 @@ export function SettingsPage() {
   const [newPasswordValue, setNewPasswordValue] = useState('')
   const [resettingPassword, setResettingPassword] = useState(false)
 
-  // User deletion state
-  const [showDeleteUserModal, setShowDeleteUserModal] = useState(false)
-  const [selectedUserForDeletion, setSelectedUserForDeletion] = useState<UserProfile | null>(null)
+  // User offboarding state
+  const [userToOffboard, setUserToOffboard] = useState<UserProfile | null>(null)
 
   // Automatically set department to "all" when Manager role is selected
   useEffect(() => {
@@ -76,6 +97,8 @@ export function SettingsPage() {
           defaultSLA: settings.defaultSLA,
           requireMFA: settings.requireMFA,
           dataRetention: settings.dataRetention,
+          offboardingChatPolicy: settings.offboardingChatPolicy,
+          chatEditWindowMinutes: settings.chatEditWindowMinutes,
           updatedAt: new Date().toISOString(),
           updatedBy: userProfile?.id ?? 'unknown',
         },
@@ -521,28 +544,13 @@ export function SettingsPage() {
     }
   }
 
-  const handleDeleteUser = async () => {
-    if (!selectedUserForDeletion) return
-
-    setError(null)
-    setSuccess(false)
-
-    try {
-      // Delete user via Cloud Function (handles Auth, Firestore, and all related data)
-      await deleteUser({ userId: selectedUserForDeletion.id })
-
-      setSuccess(true)
-      setShowDeleteUserModal(false)
-      setSelectedUserForDeletion(null)
-      setTimeout(() => setSuccess(false), 3000)
-    } catch (err: any) {
-      console.error('Failed to delete user', err)
-      const errorMessage = err.message || err.code || 'Failed to delete user. Please try again.'
-      setError(errorMessage)
-      setShowDeleteUserModal(false)
-      setSelectedUserForDeletion(null)
-    }
-  }
+  useEffect(() => {
+    if (!linkedUserId || activeTab !== 'users' || scrolledLinkRef.current === linkKey) return
+    const element = document.getElementById(`user-row-${linkedUserId}`)
+    if (!element) return
+    scrolledLinkRef.current = linkKey
+    element.scrollIntoView({ block: 'center' })
+  }, [linkedUserId, activeTab, linkKey, allUserProfiles])
 
   // Profile tab is accessible to all users, other tabs require Admin
   const isAdmin = userProfile?.role === 'Admin'
@@ -550,7 +558,7 @@ export function SettingsPage() {
 
   // Default to profile tab for non-admin users
   useEffect(() => {
-    if (!isAdmin && activeTab !== 'profile' && (activeTab === 'workspace' || activeTab === 'users' || activeTab === 'departments')) {
+    if (!isAdmin && activeTab !== 'profile' && (activeTab === 'workspace' || activeTab === 'users' || activeTab === 'departments' || activeTab === 'taskFields' || activeTab === 'trash')) {
       setActiveTab('profile')
     }
   }, [isAdmin, activeTab])
@@ -588,6 +596,20 @@ export function SettingsPage() {
               >
                 Department Heads
               </button>
+              <button
+                type="button"
+                className={activeTab === 'taskFields' ? 'tab-button active' : 'tab-button'}
+                onClick={() => setActiveTab('taskFields')}
+              >
+                Labels &amp; Fields
+              </button>
+              <button
+                type="button"
+                className={activeTab === 'trash' ? 'tab-button active' : 'tab-button'}
+                onClick={() => setActiveTab('trash')}
+              >
+                Trash
+              </button>
             </>
           )}
           <button
@@ -610,7 +632,7 @@ export function SettingsPage() {
               />
             </label>
             <label>
-              <span>Default task SLA (days)</span>
+              <span>Default task SLA (days, Medium priority; High gets half, Low double)</span>
               <input
                 type="number"
                 min={1}
@@ -631,6 +653,29 @@ export function SettingsPage() {
                 <div className="toggle-display" />
               </div>
             </label>
+            <label>
+              <span>Chat messages of offboarded users</span>
+              <select
+                value={settings.offboardingChatPolicy}
+                onChange={(e) =>
+                  setSettings({ ...settings, offboardingChatPolicy: e.target.value as WorkspaceSettings['offboardingChatPolicy'] })
+                }
+              >
+                <option value="keep">Keep under their name</option>
+                <option value="anonymize">Anonymize</option>
+              </select>
+            </label>
+            <label>
+              <span>Chat edit window (minutes, 0 turns editing off)</span>
+              <input
+                type="number"
+                min={0}
+                value={settings.chatEditWindowMinutes}
+                onChange={(e) =>
+                  setSettings({ ...settings, chatEditWindowMinutes: Math.max(0, parseInt(e.target.value) || 0) })
+                }
+              />
+            </label>
             <label>
               <span>Data retention (months)</span>
               <input
@@ -804,7 +849,11 @@ export function SettingsPage() {
                 </thead>
                 <tbody>
                   {allUserProfiles.map((profile) => (
-                    <tr key={profile.id}>
+                    <tr
+                      key={profile.id}
+                      id={`user-row-${profile.id}`}
+                      style={profile.id === linkedUserId ? { outline: '2px solid var(--accent)' } : undefined}
+                    >
                       <td>{profile.displayName}</td>
                       <td>{profile.email}</td>
                       <td>{profile.department}</td>
@@ -881,19 +930,16 @@ export function SettingsPage() {
                               <button
                                 type="button"
                                 className="ghost-button"
-                                onClick={() => {
-                                  setSelectedUserForDeletion(profile)
-                                  setShowDeleteUserModal(true)
-                                }}
+                                onClick={() => setUserToOffboard(profile)}
                                 style={{ 
                                   fontSize: '0.85rem', 
                                   padding: '0.35rem 0.75rem',
                                   color: '#dc2626',
                                   borderColor: '#dc2626'
                                 }}
-                                title="Delete user"
+                                title="Reassign their work and disable their account"
                               >
-                                Delete
+                                Offboard
                               </button>
                             </>
                           )}
@@ -904,6 +950,38 @@ export function SettingsPage() {
                 </tbody>
               </table>
             </div>
+
+            {deactivatedUserProfiles.length > 0 && (
+              <div style={{ marginTop: '2rem' }}>
+                <h3>Deactivated Users</h3>
+                <p style={{ color: 'var(--text-secondary)', margin: '0.5rem 0 1rem' }}>
+                  Offboarded users cannot sign in. Their profiles are kept so completed work and KPI history stay
+                  attributed to them.
+                </p>
+                <div className="table-container">
+                  <table className="table">
+                    <thead>
+                      <tr>
+                        <th>Name</th>
+                        <th>Email</th>
+                        <th>Department</th>
+                        <th>Deactivated</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {deactivatedUserProfiles.map((profile) => (
+                        <tr key={profile.id} style={{ color: 'var(--text-muted)' }}>
+                          <td>{profile.displayName}</td>
+                          <td>{profile.email}</td>
+                          <td>{profile.department}</td>
+                          <td>{profile.deactivatedAt ? new Date(profile.deactivatedAt).toLocaleDateString() : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+            )}
           </div>
         )}
 
@@ -913,7 +991,8 @@ export function SettingsPage() {
               <h3>Department Heads</h3>
               <p style={{ color: 'var(--text-secondary)', marginTop: '0.5rem' }}>
                 Department heads can view and manage all tasks in their department. You can assign multiple
-                department heads per department to give them oversight of their team&apos;s work.
+                department heads per department to give them oversight of their team&apos;s work. Work-in-progress
+                limits cap how many of a department&apos;s tasks can sit in each Task Board column.
               </p>
             </div>
 
@@ -975,6 +1054,9 @@ export function SettingsPage() {
                         </div>
                       )}
                     </div>
+                    <WipLimitsEditor department={dept} />
+                    <SlaEditor department={dept} />
+                    <WorkflowEditor department={dept} />
                     {availableUsers.length > 0 && (
                       <div>
                         <label style={{ display: 'block', marginBottom: '0.5rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
@@ -1020,6 +1102,31 @@ export function SettingsPage() {
           </div>
         )}
 
+        {showAdminTabs && activeTab === 'taskFields' && (
+          <div className="settings-section">
+            <div style={{ marginBottom: '1.5rem' }}>
+              <h3>Labels &amp; Custom Fields</h3>
+              <p style={{ color: 'var(--text-secondary)', marginTop: '0.5rem' }}>
+                Labels and custom fields are shared by every task in the workspace and can be used to filter the Task Board.
+              </p>
+            </div>
+            <TaskFieldsEditor />
+          </div>
+        )}
+
+        {showAdminTabs && activeTab === 'trash' && (
+          <div className="settings-section">
+            <div style={{ marginBottom: '1.5rem' }}>
+              <h3>Trash</h3>
+              <p style={{ color: 'var(--text-secondary)', marginTop: '0.5rem' }}>
+                Deleted tasks and chat messages stay here until they are restored or permanently deleted. Anything left
+                in the trash is purged automatically after the data retention period ({workspaceSettings.dataRetention} months).
+              </p>
+            </div>
+            <TrashManager />
+          </div>
+        )}
+
         {activeTab === 'profile' && (
           <div className="settings-section">
             <div style={{ marginBottom: '1.5rem' }}>
@@ -1194,17 +1301,7 @@ export function SettingsPage() {
           message={`Enter your password to confirm resetting the password for "${selectedUserForPasswordReset?.displayName}".`}
         />
 
-        {/* Delete User Confirmation Modal */}
-        <PasswordVerificationModal
-          isOpen={showDeleteUserModal}
-          onClose={() => {
-            setShowDeleteUserModal(false)
-            setSelectedUserForDeletion(null)
-          }}
-          onVerify={handleDeleteUser}
-          title="Delete User"
-          message={`Are you sure you want to delete "${selectedUserForDeletion?.displayName}"? This will permanently remove the user account, profile, and all associated data. This action cannot be undone.`}
-        />
+        {userToOffboard && <OffboardingWizard profile={userToOffboard} onClose={() => setUserToOffboard(null)} />}
     </div>
   )
 }
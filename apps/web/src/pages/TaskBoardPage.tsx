@@ -1,4 +1,5 @@
 import { useMemo, useState } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { TaskBoard } from '../components/TaskBoard'
 import { useLayoutActions } from '../layouts/useLayoutActions'
 import { useAppData } from '../context/AppDataContext'
@@ -6,7 +7,18 @@ import { useAppData } from '../context/AppDataContext'
 export function TaskBoardPage() {
   const { openFilter } = useLayoutActions()
   const { filteredTasks } = useAppData()
-  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(null)
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  // Links from other pages can preselect a task with ?task=<id>
+  const taskParam = searchParams.get('task')
+  const [selectedTaskId, setSelectedTaskId] = useState<string | null>(taskParam)
+  const [linkKey, setLinkKey] = useState(location.key)
+
+  // Follow new task links while the board is already open, e.g. from the command palette
+  if (taskParam && location.key !== linkKey) {
+    setLinkKey(location.key)
+    setSelectedTaskId(taskParam)
+  }
 
   const safeSelectedId = useMemo(() => {
     if (selectedTaskId && filteredTasks.some((task) => task.id === selectedTaskId)) {
@@ -15,12 +27,16 @@ export function TaskBoardPage() {
     return filteredTasks[0]?.id ?? ''
   }, [selectedTaskId, filteredTasks])
 
+  const linkedTask = taskParam ? filteredTasks.find((task) => task.id === taskParam) : undefined
+
   return (
     <TaskBoard
+      key={linkKey}
       tasks={filteredTasks}
       selectedId={safeSelectedId}
       onSelect={setSelectedTaskId}
       onFilter={openFilter}
+      initialViewMode={linkedTask?.status === 'Completed' ? 'completed' : 'active'}
     />
   )
 }
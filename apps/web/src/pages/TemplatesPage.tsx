@@ -0,0 +1,507 @@
+import { useEffect, useState } from 'react'
+import { addDoc, collection, deleteDoc, doc, onSnapshot, Timestamp, updateDoc } from 'firebase/firestore'
+import { AccessGuard } from '../components/AccessGuard'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import {
+  NTH_LABELS,
+  WEEKDAY_LABELS,
+  addDays,
+  describeRecurrence,
+  firstRunOnOrAfter,
+  parseTaskTemplate,
+  taskFieldsFromTemplate,
+  toDateKey,
+  type TaskRecurrence,
+  type TaskTemplate,
+} from '../lib/taskTemplates'
+
+type TemplateDraft = Omit<TaskTemplate, 'id' | 'nextRunAt' | 'lastRunAt' | 'generatedCount' | 'createdBy'> & {
+  startDate: string
+}
+
+type Frequency = TaskRecurrence['frequency'] | 'none'
+
+const EMPTY_DRAFT: TemplateDraft = {
+  name: '',
+  title: '',
+  department: '',
+  summary: '',
+  priority: 'Medium',
+  assignee: '',
+  assigneeId: '',
+  checklist: [],
+  recurrence: null,
+  paused: false,
+  startDate: '',
+}
+
+function defaultRecurrence(frequency: Frequency, dueInDays: number): TaskRecurrence | null {
+  switch (frequency) {
+    case 'none':
+      return null
+    case 'daily':
+      return { frequency, interval: 1, dueInDays }
+    case 'weekly':
+      return { frequency, interval: 1, weekday: 1, dueInDays }
+    case 'monthly':
+      return { frequency, interval: 1, dayOfMonth: 1, dueInDays }
+    case 'nthWeekday':
+      return { frequency, nth: 1, weekday: 1, dueInDays }
+  }
+}
+
+function formatRunDate(value: string | null): string {
+  if (!value) return '—'
+  const parsed = new Date(`${value}T00:00:00`)
+  if (isNaN(parsed.getTime())) return value
+  return parsed.toLocaleDateString(undefined, { weekday: 'short', month: 'short', day: 'numeric' })
+}
+
+export function TemplatesPage() {
+  const { firestore, departments, allUserProfiles } = useAppData()
+  const { user } = useAuth()
+  const [templates, setTemplates] = useState<TaskTemplate[]>([])
+  const [loading, setLoading] = useState(true)
+  const [isFormOpen, setIsFormOpen] = useState(false)
+  const [editingId, setEditingId] = useState<string | null>(null)
+  const [draft, setDraft] = useState<TemplateDraft>(EMPTY_DRAFT)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!firestore) return
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, 'taskTemplates'),
+      (snapshot) => {
+        const loaded = snapshot.docs.map((docSnapshot) => parseTaskTemplate(docSnapshot.id, docSnapshot.data()))
+        loaded.sort((a, b) => a.name.localeCompare(b.name))
+        setTemplates(loaded)
+        setLoading(false)
+      },
+      (err) => {
+        console.error('Failed to load task templates', err)
+        setError('Failed to load task templates.')
+        setLoading(false)
+      },
+    )
+
+    return () => unsubscribe()
+  }, [firestore])
+
+  const openCreateForm = () => {
+    setDraft({ ...EMPTY_DRAFT, department: departments[0]?.name ?? '', startDate: toDateKey(new Date()) })
+    setEditingId(null)
+    setError(null)
+    setIsFormOpen(true)
+  }
+
+  const openEditForm = (template: TaskTemplate) => {
+    setDraft({
+      name: template.name,
+      title: template.title,
+      department: template.department,
+      summary: template.summary,
+      priority: template.priority,
+      assignee: template.assignee,
+      assigneeId: template.assigneeId,
+      checklist: template.checklist,
+      recurrence: template.recurrence,
+      paused: template.paused,
+      startDate: template.nextRunAt ?? toDateKey(new Date()),
+    })
+    setEditingId(template.id)
+    setError(null)
+    setIsFormOpen(true)
+  }
+
+  const closeForm = () => {
+    setIsFormOpen(false)
+    setEditingId(null)
+    setDraft(EMPTY_DRAFT)
+  }
+
+  const updateRecurrence = (changes: Partial<Record<string, number>>) => {
+    if (!draft.recurrence) return
+    setDraft({ ...draft, recurrence: { ...draft.recurrence, ...changes } as TaskRecurrence })
+  }
+
+  const handleSave = async () => {
+    if (!firestore) return
+    if (!draft.name.trim() || !draft.title.trim()) {
+      setError('Template name and task title are required.')
+      return
+    }
+    if (!draft.department) {
+      setError('Department is required.')
+      return
+    }
+
+    const today = toDateKey(new Date())
+    const startDate = draft.startDate && draft.startDate > today ? draft.startDate : today
+    const { startDate: _startDate, ...fields } = draft
+    void _startDate
+    const templateData = {
+      ...fields,
+      name: draft.name.trim(),
+      title: draft.title.trim(),
+      summary: draft.summary.trim(),
+      checklist: draft.checklist.map((item) => item.trim()).filter((item) => item.length > 0),
+      // Only the schedule changes; tasks already generated from this template are left alone
+      nextRunAt: draft.recurrence ? firstRunOnOrAfter(draft.recurrence, startDate) : null,
+      updatedAt: new Date().toISOString(),
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      if (editingId) {
+        await updateDoc(doc(firestore, 'taskTemplates', editingId), templateData)
+      } else {
+        await addDoc(collection(firestore, 'taskTemplates'), {
+          ...templateData,
+          lastRunAt: null,
+          generatedCount: 0,
+          createdBy: user?.uid ?? 'unknown',
+          createdAt: new Date().toISOString(),
+        })
+      }
+      closeForm()
+    } catch (err) {
+      console.error('Failed to save task template', err)
+      setError('Failed to save task template. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleTogglePaused = async (template: TaskTemplate) => {
+    if (!firestore) return
+    try {
+      const updates: Record<string, unknown> = { paused: !template.paused, updatedAt: new Date().toISOString() }
+      // Resuming picks up from the next occurrence instead of back-filling the paused period
+      if (template.paused && template.recurrence) {
+        updates.nextRunAt = firstRunOnOrAfter(template.recurrence, toDateKey(new Date()))
+      }
+      await updateDoc(doc(firestore, 'taskTemplates', template.id), updates)
+    } catch (err) {
+      console.error('Failed to update task template', err)
+      setError('Failed to update task template. Please try again.')
+    }
+  }
+
+  const handleDelete = async (template: TaskTemplate) => {
+    if (!firestore) return
+    if (!window.confirm(`Delete the "${template.name}" template? Tasks already created from it are kept.`)) return
+    try {
+      await deleteDoc(doc(firestore, 'taskTemplates', template.id))
+    } catch (err) {
+      console.error('Failed to delete task template', err)
+      setError('Failed to delete task template. Please try again.')
+    }
+  }
+
+  const handleCreateNow = async (template: TaskTemplate) => {
+    if (!firestore || !user) return
+    setError(null)
+    setMessage(null)
+    try {
+      const today = toDateKey(new Date())
+      await addDoc(collection(firestore, 'tasks'), {
+        ...taskFieldsFromTemplate(template),
+        dueDate: template.recurrence ? addDays(today, template.recurrence.dueInDays) : null,
+        status: 'Backlog',
+        createdAt: Timestamp.now(),
+        createdBy: user.uid,
+      })
+      setMessage(`Created "${template.title}" from the ${template.name} template.`)
+    } catch (err) {
+      console.error('Failed to create task from template', err)
+      setError('Failed to create task from template. Please try again.')
+    }
+  }
+
+  const frequency: Frequency = draft.recurrence?.frequency ?? 'none'
+
+  return (
+    <AccessGuard allowedRoles={['Admin', 'Manager']}>
+      <div className="panel">
+        <header className="panel-header">
+          <div>
+            <h2>Task Templates</h2>
+            <p>Reusable tasks and recurring schedules for work that comes around every week or month.</p>
+          </div>
+          <button type="button" className="ghost-button" onClick={() => (isFormOpen ? closeForm() : openCreateForm())}>
+            {isFormOpen ? 'Cancel' : 'New Template'}
+          </button>
+        </header>
+        {error && <p className="login-error">{error}</p>}
+        {message && <p style={{ color: 'var(--accent)', fontSize: '0.9rem' }}>{message}</p>}
+
+        {isFormOpen && (
+          <div className="automation-form">
+            <label>
+              <span>Template Name</span>
+              <input
+                type="text"
+                value={draft.name}
+                onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+                placeholder="e.g., Weekly build review"
+              />
+            </label>
+            <label>
+              <span>Task Title</span>
+              <input
+                type="text"
+                value={draft.title}
+                onChange={(e) => setDraft({ ...draft, title: e.target.value })}
+                placeholder="Title of each generated task"
+              />
+            </label>
+            <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap' }}>
+              <label style={{ flex: 1 }}>
+                <span>Department</span>
+                <select value={draft.department} onChange={(e) => setDraft({ ...draft, department: e.target.value })}>
+                  <option value="">Select department</option>
+                  {departments.map((dept) => (
+                    <option key={dept.id} value={dept.name}>
+                      {dept.name}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ flex: 1 }}>
+                <span>Default Assignee</span>
+                <select
+                  value={draft.assigneeId}
+                  onChange={(e) => {
+                    const profile = allUserProfiles.find((p) => p.id === e.target.value)
+                    setDraft({ ...draft, assigneeId: e.target.value, assignee: profile?.displayName ?? '' })
+                  }}
+                >
+                  <option value="">Unassigned</option>
+                  {allUserProfiles.map((profile) => (
+                    <option key={profile.id} value={profile.id}>
+                      {profile.displayName} ({profile.department})
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label style={{ flex: 1 }}>
+                <span>Priority</span>
+                <select
+                  value={draft.priority}
+                  onChange={(e) => setDraft({ ...draft, priority: e.target.value as Task['priority'] })}
+                >
+                  <option value="Low">Low</option>
+                  <option value="Medium">Medium</option>
+                  <option value="High">High</option>
+                </select>
+              </label>
+            </div>
+            <label>
+              <span>Summary</span>
+              <textarea
+                value={draft.summary}
+                onChange={(e) => setDraft({ ...draft, summary: e.target.value })}
+                rows={3}
+                placeholder="Describe the task"
+              />
+            </label>
+            <label>
+              <span>Checklist (one item per line)</span>
+              <textarea
+                value={draft.checklist.join('\n')}
+                onChange={(e) => setDraft({ ...draft, checklist: e.target.value.split('\n') })}
+                rows={4}
+                placeholder={'Collect metrics\nUpdate dashboard\nShare summary'}
+              />
+            </label>
+
+            <fieldset style={{ border: '1px solid var(--border-soft)', borderRadius: '0.5rem', padding: '0.75rem' }}>
+              <legend>Schedule</legend>
+              <div style={{ display: 'flex', gap: '0.5rem', flexWrap: 'wrap', alignItems: 'center' }}>
+                <select
+                  value={frequency}
+                  onChange={(e) =>
+                    setDraft({
+                      ...draft,
+                      recurrence: defaultRecurrence(e.target.value as Frequency, draft.recurrence?.dueInDays ?? 0),
+                    })
+                  }
+                >
+                  <option value="none">Not recurring</option>
+                  <option value="daily">Daily</option>
+                  <option value="weekly">Weekly</option>
+                  <option value="monthly">Monthly on a date</option>
+                  <option value="nthWeekday">Monthly on a weekday</option>
+                </select>
+                {draft.recurrence && draft.recurrence.frequency !== 'nthWeekday' && (
+                  <label style={{ display: 'flex', flexDirection: 'row', gap: '0.35rem', alignItems: 'center' }}>
+                    <span>every</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={draft.recurrence.interval}
+                      onChange={(e) => updateRecurrence({ interval: Math.max(1, parseInt(e.target.value) || 1) })}
+                      style={{ width: '4rem' }}
+                    />
+                    <span>
+                      {draft.recurrence.frequency === 'daily' ? 'day(s)' : draft.recurrence.frequency === 'weekly' ? 'week(s)' : 'month(s)'}
+                    </span>
+                  </label>
+                )}
+                {draft.recurrence?.frequency === 'nthWeekday' && (
+                  <select
+                    value={draft.recurrence.nth}
+                    onChange={(e) => updateRecurrence({ nth: parseInt(e.target.value) })}
+                  >
+                    {[1, 2, 3, 4, -1].map((nth) => (
+                      <option key={nth} value={nth}>
+                        {NTH_LABELS[nth]}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {(draft.recurrence?.frequency === 'weekly' || draft.recurrence?.frequency === 'nthWeekday') && (
+                  <select
+                    value={draft.recurrence.weekday}
+                    onChange={(e) => updateRecurrence({ weekday: parseInt(e.target.value) })}
+                  >
+                    {WEEKDAY_LABELS.map((label, index) => (
+                      <option key={label} value={index}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                )}
+                {draft.recurrence?.frequency === 'monthly' && (
+                  <label style={{ display: 'flex', flexDirection: 'row', gap: '0.35rem', alignItems: 'center' }}>
+                    <span>on day</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={31}
+                      value={draft.recurrence.dayOfMonth}
+                      onChange={(e) =>
+                        updateRecurrence({ dayOfMonth: Math.min(31, Math.max(1, parseInt(e.target.value) || 1)) })
+                      }
+                      style={{ width: '4rem' }}
+                    />
+                  </label>
+                )}
+              </div>
+              {draft.recurrence && (
+                <div style={{ display: 'flex', gap: '0.75rem', flexWrap: 'wrap', marginTop: '0.5rem' }}>
+                  <label>
+                    <span>Starting from</span>
+                    <input
+                      type="date"
+                      value={draft.startDate}
+                      onChange={(e) => setDraft({ ...draft, startDate: e.target.value })}
+                    />
+                  </label>
+                  <label>
+                    <span>Due after (days)</span>
+                    <input
+                      type="number"
+                      min={0}
+                      value={draft.recurrence.dueInDays}
+                      onChange={(e) => updateRecurrence({ dueInDays: Math.max(0, parseInt(e.target.value) || 0) })}
+                      style={{ width: '6rem' }}
+                    />
+                  </label>
+                </div>
+              )}
+              {draft.recurrence && (
+                <small style={{ display: 'block', color: 'var(--text-muted)', fontSize: '0.75rem', marginTop: '0.5rem' }}>
+                  {describeRecurrence(draft.recurrence)}. Next task on{' '}
+                  {formatRunDate(
+                    firstRunOnOrAfter(
+                      draft.recurrence,
+                      draft.startDate && draft.startDate > toDateKey(new Date()) ? draft.startDate : toDateKey(new Date()),
+                    ),
+                  )}
+                  . Editing a schedule never changes tasks that were already created.
+                </small>
+              )}
+            </fieldset>
+
+            <button type="button" className="primary-button" onClick={handleSave} disabled={saving || !firestore}>
+              {saving ? 'Saving...' : editingId ? 'Save Template' : 'Create Template'}
+            </button>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="loading-state">Loading templates…</div>
+        ) : templates.length === 0 ? (
+          <div className="empty-state">
+            <h3>No templates yet</h3>
+            <p>Create a template for work you set up repeatedly, and optionally put it on a schedule.</p>
+          </div>
+        ) : (
+          <table className="table">
+            <thead>
+              <tr>
+                <th>Template</th>
+                <th>Department</th>
+                <th>Schedule</th>
+                <th>Next Run</th>
+                <th>Generated</th>
+                <th />
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id}>
+                  <td>
+                    <strong>{template.name}</strong>
+                    <div style={{ fontSize: '0.8rem', color: 'var(--text-muted)' }}>
+                      {template.title}
+                      {template.assignee && ` · ${template.assignee}`}
+                      {template.checklist.length > 0 && ` · ${template.checklist.length} checklist items`}
+                    </div>
+                  </td>
+                  <td>{template.department}</td>
+                  <td>
+                    {describeRecurrence(template.recurrence)}
+                    {template.recurrence && template.paused && (
+                      <span className="pill pill-neutral" style={{ marginLeft: '0.5rem' }}>
+                        Paused
+                      </span>
+                    )}
+                  </td>
+                  <td>{template.recurrence && !template.paused ? formatRunDate(template.nextRunAt) : '—'}</td>
+                  <td>{template.generatedCount}</td>
+                  <td>
+                    <div style={{ display: 'flex', gap: '0.5rem', justifyContent: 'flex-end' }}>
+                      <button type="button" className="ghost-button" onClick={() => handleCreateNow(template)}>
+                        Create Now
+                      </button>
+                      {template.recurrence && (
+                        <button type="button" className="ghost-button" onClick={() => handleTogglePaused(template)}>
+                          {template.paused ? 'Resume' : 'Pause'}
+                        </button>
+                      )}
+                      <button type="button" className="ghost-button" onClick={() => openEditForm(template)}>
+                        Edit
+                      </button>
+                      <button type="button" className="ghost-button" onClick={() => handleDelete(template)}>
+                        Delete
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </AccessGuard>
+  )
+}
+
+export default TemplatesPage
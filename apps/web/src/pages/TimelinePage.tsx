@@ -0,0 +1,440 @@
+import { useEffect, useMemo, useState, type PointerEvent } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { collection, doc, onSnapshot, Timestamp, updateDoc } from 'firebase/firestore'
+import { useAppData, type Task } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { isTaskAssignee } from '../lib/taskAssignees'
+import {
+  TIMELINE_ZOOMS,
+  addMonths,
+  buildTimelineGroups,
+  daysBetween,
+  parseTimelineCalendarUpdate,
+  shiftDeadline,
+  shiftDueDate,
+  startOfDay,
+  startOfMonth,
+  type TimelineBar,
+  type TimelineCalendarUpdate,
+  type TimelineGrouping,
+  type TimelineZoom,
+} from '../lib/timeline'
+
+const LABEL_WIDTH = 240
+const HEADER_HEIGHT = 44
+const GROUP_ROW_HEIGHT = 30
+const BAR_ROW_HEIGHT = 30
+const BAR_HEIGHT = 18
+
+// Pointer movement below this many pixels is a click rather than a drag
+const DRAG_THRESHOLD = 4
+
+const statusColor: Record<Task['status'], string> = {
+  Backlog: '#6b7280',
+  'In Progress': '#3b82f6',
+  Review: '#f59e0b',
+  Completed: '#10b981',
+}
+
+const CALENDAR_UPDATE_COLOR = '#7c3aed'
+
+type DragState = {
+  key: string
+  originX: number
+  deltaDays: number
+  moved: boolean
+}
+
+type BarPosition = { x1: number; x2: number; y: number }
+
+function truncate(value: string, length: number): string {
+  return value.length > length ? `${value.substring(0, length - 1)}…` : value
+}
+
+export function TimelinePage() {
+  const { tasks, departments, firestore, userProfile, updateTask } = useAppData()
+  const { user } = useAuth()
+  const navigate = useNavigate()
+  const [calendarUpdates, setCalendarUpdates] = useState<TimelineCalendarUpdate[]>([])
+  const [grouping, setGrouping] = useState<TimelineGrouping>('department')
+  const [zoom, setZoom] = useState<TimelineZoom>('quarter')
+  const [rangeStart, setRangeStart] = useState(() => startOfMonth(new Date()))
+  const [departmentFilter, setDepartmentFilter] = useState('all')
+  const [showCompleted, setShowCompleted] = useState(false)
+  const [showCalendarUpdates, setShowCalendarUpdates] = useState(true)
+  const [drag, setDrag] = useState<DragState | null>(null)
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!firestore) return
+
+    const unsubscribe = onSnapshot(
+      collection(firestore, 'calendarUpdates'),
+      (snapshot) => setCalendarUpdates(snapshot.docs.map((docSnapshot) => parseTimelineCalendarUpdate(docSnapshot.id, docSnapshot.data()))),
+      (err) => console.error('Failed to load calendar updates', err),
+    )
+    return () => unsubscribe()
+  }, [firestore])
+
+  const { months, dayWidth } = TIMELINE_ZOOMS[zoom]
+  const rangeEnd = useMemo(() => addMonths(rangeStart, months), [rangeStart, months])
+  const dayCount = daysBetween(rangeStart, rangeEnd)
+  const chartWidth = LABEL_WIDTH + dayCount * dayWidth
+
+  const groups = useMemo(() => {
+    const visibleTasks = tasks.filter(
+      (task) =>
+        (showCompleted || task.status !== 'Completed') &&
+        (departmentFilter === 'all' || task.department === departmentFilter),
+    )
+    const visibleUpdates = showCalendarUpdates
+      ? calendarUpdates.map((update) =>
+          departmentFilter === 'all'
+            ? update
+            : {
+                ...update,
+                assignees: update.assignees.filter((assignee) => assignee.department === departmentFilter),
+                departmentDeadlines: Object.fromEntries(
+                  Object.entries(update.departmentDeadlines).filter(([department]) => department === departmentFilter),
+                ),
+              },
+        )
+      : []
+    // Only bars that overlap the visible months get a row
+    return buildTimelineGroups(visibleTasks, visibleUpdates, grouping)
+      .map((group) => ({ ...group, bars: group.bars.filter((bar) => bar.end >= rangeStart && bar.start < rangeEnd) }))
+      .filter((group) => group.bars.length > 0)
+  }, [tasks, calendarUpdates, grouping, departmentFilter, showCompleted, showCalendarUpdates, rangeStart, rangeEnd])
+
+  const undatedTaskCount = tasks.filter(
+    (task) => !task.dueDate && (showCompleted || task.status !== 'Completed') && (departmentFilter === 'all' || task.department === departmentFilter),
+  ).length
+
+  const xForDate = (date: Date) => LABEL_WIDTH + daysBetween(rangeStart, date) * dayWidth
+
+  // Where each bar sits once the one being dragged has its end moved
+  const getBarSpan = (bar: TimelineBar) => {
+    const end = new Date(bar.end)
+    if (drag?.key === bar.key) {
+      end.setDate(end.getDate() + drag.deltaDays)
+    }
+    const start = bar.start < end ? bar.start : end
+    return {
+      x1: Math.max(LABEL_WIDTH, xForDate(start)),
+      x2: Math.min(chartWidth, xForDate(end) + dayWidth),
+    }
+  }
+
+  const layout = useMemo(() => {
+    const rows: Array<{ kind: 'group'; label: string; count: number; y: number } | { kind: 'bar'; bar: TimelineBar; y: number }> = []
+    let y = HEADER_HEIGHT
+    groups.forEach((group) => {
+      rows.push({ kind: 'group', label: group.label, count: group.bars.length, y })
+      y += GROUP_ROW_HEIGHT
+      group.bars.forEach((bar) => {
+        rows.push({ kind: 'bar', bar, y })
+        y += BAR_ROW_HEIGHT
+      })
+    })
+    return { rows, height: y + 8 }
+  }, [groups])
+
+  // Dependency arrows are drawn to and from the first row a task appears in
+  const taskPositions = new Map<string, BarPosition>()
+  layout.rows.forEach((row) => {
+    if (row.kind !== 'bar' || row.bar.kind !== 'task' || taskPositions.has(row.bar.task.id)) return
+    taskPositions.set(row.bar.task.id, { ...getBarSpan(row.bar), y: row.y + BAR_ROW_HEIGHT / 2 })
+  })
+  const dependencyArrows = [...taskPositions.entries()].flatMap(([taskId, to]) => {
+    const task = tasks.find((item) => item.id === taskId)
+    return (task?.blockers ?? [])
+      .map((blockerId) => ({ key: `${blockerId}->${taskId}`, from: taskPositions.get(blockerId), to }))
+      .filter((arrow): arrow is { key: string; from: BarPosition; to: BarPosition } => arrow.from !== undefined)
+  })
+
+  // Matches who the task update rules let change a due date
+  const canRescheduleTask = (task: Task): boolean => {
+    if (!user || !userProfile) return false
+    if (userProfile.role === 'Admin' || userProfile.role === 'Manager') return true
+    if (userProfile.isDepartmentHead && task.department === userProfile.department) return true
+    if (userProfile.role === 'Specialist' && task.department === userProfile.department) return true
+    return isTaskAssignee(task, user.uid)
+  }
+
+  // Department deadlines can only be changed by admins, managers and the update's creator
+  const canRescheduleUpdate = (update: TimelineCalendarUpdate): boolean =>
+    userProfile?.role === 'Admin' ||
+    userProfile?.role === 'Manager' ||
+    Boolean(user && update.createdBy === user.uid)
+
+  const canDrag = (bar: TimelineBar) => (bar.kind === 'task' ? canRescheduleTask(bar.task) : canRescheduleUpdate(bar.update))
+
+  const openBar = (bar: TimelineBar) => {
+    if (bar.kind === 'task') {
+      navigate(`/tasks?task=${encodeURIComponent(bar.task.id)}`)
+    } else {
+      navigate(`/update-calendar?year=${bar.update.year}&month=${encodeURIComponent(bar.update.month)}&update=${bar.update.id}`)
+    }
+  }
+
+  const reschedule = async (bar: TimelineBar, days: number) => {
+    if (!firestore) return
+    setSaving(true)
+    setError(null)
+    try {
+      if (bar.kind === 'task') {
+        await updateTask(bar.task.id, { dueDate: shiftDueDate(bar.task.dueDate, days) })
+      } else {
+        const { update, department } = bar
+        await updateDoc(doc(firestore, 'calendarUpdates', update.id), {
+          departmentDeadlines: {
+            ...update.departmentDeadlines,
+            [department]: shiftDeadline(update.departmentDeadlines[department] || update.deadline, days),
+          },
+          updatedAt: Timestamp.now(),
+        })
+      }
+    } catch (err) {
+      console.error('Failed to reschedule', err)
+      setError(`Failed to reschedule "${truncate(bar.label, 40)}". Please try again.`)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handlePointerDown = (event: PointerEvent<SVGGElement>, bar: TimelineBar) => {
+    if (event.button !== 0) return
+    event.currentTarget.setPointerCapture(event.pointerId)
+    setDrag({ key: bar.key, originX: event.clientX, deltaDays: 0, moved: false })
+  }
+
+  const handlePointerMove = (event: PointerEvent<SVGGElement>, bar: TimelineBar) => {
+    if (drag?.key !== bar.key) return
+    const offset = event.clientX - drag.originX
+    const moved = drag.moved || Math.abs(offset) >= DRAG_THRESHOLD
+    setDrag({ ...drag, moved, deltaDays: moved && canDrag(bar) ? Math.round(offset / dayWidth) : 0 })
+  }
+
+  const handlePointerUp = (bar: TimelineBar) => {
+    if (drag?.key !== bar.key) return
+    const { moved, deltaDays } = drag
+    setDrag(null)
+    if (!moved) {
+      openBar(bar)
+    } else if (deltaDays !== 0) {
+      void reschedule(bar, deltaDays)
+    }
+  }
+
+  const monthMarkers = Array.from({ length: months }, (_, index) => addMonths(rangeStart, index))
+  const today = startOfDay(new Date())
+  const showToday = today >= rangeStart && today < rangeEnd
+
+  return (
+    <div className="panel">
+      <header className="panel-header">
+        <div>
+          <h2>Timeline</h2>
+          <p>Tasks from creation to due date and calendar updates up to each department deadline. Drag a bar to reschedule it.</p>
+        </div>
+        <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center', flexWrap: 'wrap' }}>
+          <select value={grouping} onChange={(e) => setGrouping(e.target.value as TimelineGrouping)}>
+            <option value="department">Group by department</option>
+            <option value="assignee">Group by assignee</option>
+          </select>
+          <select value={departmentFilter} onChange={(e) => setDepartmentFilter(e.target.value)}>
+            <option value="all">All departments</option>
+            {departments.map((dept) => (
+              <option key={dept.id} value={dept.name}>
+                {dept.name}
+              </option>
+            ))}
+          </select>
+          <select value={zoom} onChange={(e) => setZoom(e.target.value as TimelineZoom)}>
+            {(Object.keys(TIMELINE_ZOOMS) as TimelineZoom[]).map((option) => (
+              <option key={option} value={option}>
+                {TIMELINE_ZOOMS[option].label}
+              </option>
+            ))}
+          </select>
+          <label style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', fontSize: '0.875rem' }}>
+            <input type="checkbox" checked={showCompleted} onChange={(e) => setShowCompleted(e.target.checked)} />
+            <span>Show completed</span>
+          </label>
+          <label style={{ display: 'flex', gap: '0.35rem', alignItems: 'center', fontSize: '0.875rem' }}>
+            <input type="checkbox" checked={showCalendarUpdates} onChange={(e) => setShowCalendarUpdates(e.target.checked)} />
+            <span>Calendar updates</span>
+          </label>
+        </div>
+      </header>
+
+      <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center', marginBottom: '1rem' }}>
+        <button type="button" className="ghost-button" onClick={() => setRangeStart(addMonths(rangeStart, -1))}>
+          ← Previous
+        </button>
+        <button type="button" className="ghost-button" onClick={() => setRangeStart(startOfMonth(new Date()))}>
+          Today
+        </button>
+        <button type="button" className="ghost-button" onClick={() => setRangeStart(addMonths(rangeStart, 1))}>
+          Next →
+        </button>
+        <span style={{ fontSize: '0.9rem', color: 'var(--text-secondary)' }}>
+          {rangeStart.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          {months > 1 && ` – ${addMonths(rangeEnd, -1).toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}`}
+        </span>
+        {saving && <span style={{ fontSize: '0.85rem', color: 'var(--text-muted)' }}>Saving…</span>}
+      </div>
+
+      {error && <p className="login-error">{error}</p>}
+
+      {groups.length === 0 ? (
+        <div className="empty-state">
+          <h3>Nothing scheduled</h3>
+          <p>No tasks or calendar updates fall in these months. Tasks need a due date to appear here.</p>
+        </div>
+      ) : (
+        <div style={{ overflow: 'auto', border: '1px solid var(--border-soft)', borderRadius: '0.75rem' }}>
+          <svg width={chartWidth} height={layout.height} role="img" aria-label="Timeline of tasks and calendar updates" style={{ userSelect: 'none' }}>
+            <defs>
+              <marker id="timeline-arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="7" markerHeight="7" orient="auto">
+                <path d="M 0 0 L 10 5 L 0 10 z" fill="var(--text-muted)" />
+              </marker>
+            </defs>
+
+            {monthMarkers.map((month) => {
+              const x = xForDate(month)
+              return (
+                <g key={month.toISOString()}>
+                  <line x1={x} y1={0} x2={x} y2={layout.height} stroke="var(--border-soft)" />
+                  <text x={x + 6} y={18} fontSize={12} fontWeight={600} fill="var(--text-primary)">
+                    {month.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })}
+                  </text>
+                </g>
+              )
+            })}
+            {Array.from({ length: dayCount }, (_, index) => {
+              const day = new Date(rangeStart.getFullYear(), rangeStart.getMonth(), rangeStart.getDate() + index)
+              // Label every day when zoomed in, otherwise only Mondays
+              if (zoom !== 'month' && day.getDay() !== 1) return null
+              const x = LABEL_WIDTH + index * dayWidth
+              return (
+                <text key={index} x={x + 2} y={36} fontSize={10} fill="var(--text-muted)">
+                  {day.getDate()}
+                </text>
+              )
+            })}
+            <line x1={0} y1={HEADER_HEIGHT} x2={chartWidth} y2={HEADER_HEIGHT} stroke="var(--border-soft)" />
+            <line x1={LABEL_WIDTH} y1={0} x2={LABEL_WIDTH} y2={layout.height} stroke="var(--border-soft)" />
+
+            {layout.rows.map((row) => {
+              if (row.kind === 'group') {
+                return (
+                  <g key={`group-${row.y}`}>
+                    <rect x={0} y={row.y} width={chartWidth} height={GROUP_ROW_HEIGHT} fill="var(--surface-elevated)" />
+                    <text x={12} y={row.y + 20} fontSize={13} fontWeight={600} fill="var(--text-primary)">
+                      {truncate(row.label, 26)} ({row.count})
+                    </text>
+                  </g>
+                )
+              }
+
+              const { bar } = row
+              const { x1, x2 } = getBarSpan(bar)
+              const color = bar.kind === 'task' ? statusColor[bar.task.status] : CALENDAR_UPDATE_COLOR
+              const draggable = canDrag(bar)
+              const isDragging = drag?.key === bar.key
+              return (
+                <g key={`${bar.key}-${row.y}`}>
+                  <text x={20} y={row.y + 19} fontSize={12} fill="var(--text-secondary)">
+                    {bar.kind === 'calendarUpdate' ? '📅 ' : ''}
+                    {truncate(bar.label, 30)}
+                  </text>
+                  <g
+                    onPointerDown={(e) => handlePointerDown(e, bar)}
+                    onPointerMove={(e) => handlePointerMove(e, bar)}
+                    onPointerUp={() => handlePointerUp(bar)}
+                    onPointerCancel={() => setDrag(null)}
+                    style={{ cursor: draggable ? (isDragging ? 'grabbing' : 'grab') : 'pointer' }}
+                  >
+                    <title>
+                      {bar.kind === 'task'
+                        ? `${bar.task.title}\n${bar.task.department} · ${bar.task.status}\nDue ${bar.task.dueDate}`
+                        : `${bar.label}\n${bar.department} deadline ${bar.end.toLocaleDateString()}`}
+                    </title>
+                    <rect
+                      x={x1}
+                      y={row.y + (BAR_ROW_HEIGHT - BAR_HEIGHT) / 2}
+                      width={Math.max(dayWidth / 2, x2 - x1)}
+                      height={BAR_HEIGHT}
+                      rx={4}
+                      fill={color}
+                      opacity={bar.kind === 'task' && bar.task.status === 'Completed' ? 0.45 : isDragging ? 0.7 : 0.9}
+                      stroke={isDragging ? 'var(--text-primary)' : 'none'}
+                    />
+                  </g>
+                  {isDragging && drag.deltaDays !== 0 && (
+                    <text x={x2 + 6} y={row.y + 19} fontSize={11} fill="var(--text-primary)">
+                      {drag.deltaDays > 0 ? '+' : ''}
+                      {drag.deltaDays}d
+                    </text>
+                  )}
+                </g>
+              )
+            })}
+
+            {dependencyArrows.map(({ key, from, to }) => {
+              const startX = from.x2
+              const endX = to.x1
+              const midX = Math.max(startX + 8, endX - 8)
+              return (
+                <path
+                  key={key}
+                  d={`M ${startX} ${from.y} H ${midX} V ${to.y} H ${endX}`}
+                  fill="none"
+                  stroke="var(--text-muted)"
+                  strokeWidth={1.25}
+                  markerEnd="url(#timeline-arrow)"
+                  pointerEvents="none"
+                />
+              )
+            })}
+
+            {showToday && (
+              <line
+                x1={xForDate(today) + dayWidth / 2}
+                y1={HEADER_HEIGHT}
+                x2={xForDate(today) + dayWidth / 2}
+                y2={layout.height}
+                stroke="#dc2626"
+                strokeDasharray="4 3"
+                pointerEvents="none"
+              />
+            )}
+          </svg>
+        </div>
+      )}
+
+      <div style={{ display: 'flex', gap: '1rem', flexWrap: 'wrap', marginTop: '0.75rem', fontSize: '0.8rem' }}>
+        {(Object.keys(statusColor) as Task['status'][]).map((status) => (
+          <span key={status} style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+            <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: statusColor[status] }} />
+            {status}
+          </span>
+        ))}
+        <span style={{ display: 'inline-flex', alignItems: 'center', gap: '0.35rem' }}>
+          <span style={{ width: '10px', height: '10px', borderRadius: '2px', background: CALENDAR_UPDATE_COLOR }} />
+          Calendar update
+        </span>
+        <span style={{ color: 'var(--text-muted)' }}>→ Blocks</span>
+        {undatedTaskCount > 0 && (
+          <span style={{ color: 'var(--text-muted)' }}>
+            {undatedTaskCount} task{undatedTaskCount === 1 ? '' : 's'} without a due date not shown
+          </span>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default TimelinePage
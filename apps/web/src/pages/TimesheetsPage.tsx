@@ -0,0 +1,352 @@
+import { useEffect, useMemo, useState } from 'react'
+import { collection, doc, onSnapshot, query, updateDoc, where } from 'firebase/firestore'
+import { AccessGuard } from '../components/AccessGuard'
+import { useAppData } from '../context/AppDataContext'
+import { useAuth } from '../context/AuthContext'
+import { submitTimesheet } from '../lib/functions'
+import {
+  WEEKDAY_SHORT_LABELS,
+  buildTimesheetRows,
+  formatMinutes,
+  formatWeekLabel,
+  getWeekDays,
+  getWeekStart,
+  parseTimeEntry,
+  parseTimesheet,
+  shiftWeek,
+  sumTimesheetRows,
+  type TimeEntry,
+  type Timesheet,
+  type TimesheetRow,
+} from '../lib/timeTracking'
+
+const statusPillClass: Record<Timesheet['status'], string> = {
+  Submitted: 'pill pill-review',
+  Approved: 'pill pill-complete',
+  Rejected: 'pill pill-neutral',
+}
+
+function TimesheetTable({ rows, weekStart }: { rows: TimesheetRow[]; weekStart: string }) {
+  const days = getWeekDays(weekStart)
+  const dayTotals = days.map((_, index) => rows.reduce((total, row) => total + row.minutesByDay[index], 0))
+
+  return (
+    <div style={{ overflowX: 'auto' }}>
+      <table className="table">
+        <thead>
+          <tr>
+            <th>Task</th>
+            {days.map((day, index) => (
+              <th key={day} style={{ textAlign: 'right' }}>
+                {WEEKDAY_SHORT_LABELS[index]} {Number(day.slice(8))}
+              </th>
+            ))}
+            <th style={{ textAlign: 'right' }}>Total</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr key={row.taskId}>
+              <td>{row.taskTitle}</td>
+              {row.minutesByDay.map((minutes, index) => (
+                <td key={index} style={{ textAlign: 'right', color: minutes === 0 ? 'var(--text-muted)' : undefined }}>
+                  {minutes === 0 ? '–' : formatMinutes(minutes)}
+                </td>
+              ))}
+              <td style={{ textAlign: 'right', fontWeight: 600 }}>{formatMinutes(sumTimesheetRows([row]))}</td>
+            </tr>
+          ))}
+          <tr>
+            <td style={{ fontWeight: 600 }}>Total</td>
+            {dayTotals.map((minutes, index) => (
+              <td key={index} style={{ textAlign: 'right', fontWeight: 600 }}>
+                {minutes === 0 ? '–' : formatMinutes(minutes)}
+              </td>
+            ))}
+            <td style={{ textAlign: 'right', fontWeight: 700 }}>{formatMinutes(sumTimesheetRows(rows))}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function TimesheetsPage() {
+  const { firestore, userProfile } = useAppData()
+  const { user } = useAuth()
+  const [weekStart, setWeekStart] = useState(() => getWeekStart(new Date()))
+  const [entries, setEntries] = useState<TimeEntry[]>([])
+  const [myTimesheets, setMyTimesheets] = useState<Timesheet[]>([])
+  const [reviewQueue, setReviewQueue] = useState<Timesheet[]>([])
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [rejectingId, setRejectingId] = useState<string | null>(null)
+  const [rejectionReason, setRejectionReason] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const isManagerOrAdmin = userProfile?.role === 'Admin' || userProfile?.role === 'Manager'
+  const isDepartmentHead = (userProfile?.isDepartmentHead ?? false) || userProfile?.role === 'DepartmentHead'
+  const canReview = isManagerOrAdmin || (isDepartmentHead && Boolean(userProfile?.department) && userProfile?.department !== 'all')
+
+  useEffect(() => {
+    if (!firestore || !user) return
+
+    const unsubscribeEntries = onSnapshot(
+      query(collection(firestore, 'timeEntries'), where('userId', '==', user.uid)),
+      (snapshot) => setEntries(snapshot.docs.map((docSnapshot) => parseTimeEntry(docSnapshot.id, docSnapshot.data()))),
+      (err) => {
+        console.error('Failed to load time entries', err)
+        setError('Failed to load time entries.')
+      },
+    )
+    const unsubscribeTimesheets = onSnapshot(
+      query(collection(firestore, 'timesheets'), where('userId', '==', user.uid)),
+      (snapshot) => setMyTimesheets(snapshot.docs.map((docSnapshot) => parseTimesheet(docSnapshot.id, docSnapshot.data()))),
+      (err) => {
+        console.error('Failed to load timesheets', err)
+        setError('Failed to load timesheets.')
+      },
+    )
+
+    return () => {
+      unsubscribeEntries()
+      unsubscribeTimesheets()
+    }
+  }, [firestore, user])
+
+  // Department heads can only query their own department; the status is filtered in memory
+  useEffect(() => {
+    if (!firestore || !userProfile || !canReview) return
+
+    const reviewQuery = isManagerOrAdmin
+      ? query(collection(firestore, 'timesheets'), where('status', '==', 'Submitted'))
+      : query(collection(firestore, 'timesheets'), where('department', '==', userProfile.department))
+
+    const unsubscribe = onSnapshot(
+      reviewQuery,
+      (snapshot) => {
+        setReviewQueue(
+          snapshot.docs
+            .map((docSnapshot) => parseTimesheet(docSnapshot.id, docSnapshot.data()))
+            .filter((timesheet) => timesheet.status === 'Submitted' && timesheet.userId !== user?.uid)
+            .sort((a, b) => a.weekStart.localeCompare(b.weekStart) || a.userName.localeCompare(b.userName)),
+        )
+      },
+      (err) => {
+        console.error('Failed to load timesheets for review', err)
+        setError('Failed to load timesheets awaiting approval.')
+      },
+    )
+    return () => unsubscribe()
+  }, [firestore, userProfile, canReview, isManagerOrAdmin, user])
+
+  const weekEntries = useMemo(() => entries.filter((entry) => entry.weekStart === weekStart), [entries, weekStart])
+  const draftRows = useMemo(() => buildTimesheetRows(weekEntries, weekStart), [weekEntries, weekStart])
+  const hasRunningTimer = weekEntries.some((entry) => entry.endedAt === null)
+  const currentTimesheet = myTimesheets.find((timesheet) => timesheet.weekStart === weekStart)
+  const canSubmit = !currentTimesheet || currentTimesheet.status === 'Rejected'
+  // Once submitted the saved rows are shown, so later changes to entries cannot alter what was approved
+  const displayedRows = canSubmit ? draftRows : (currentTimesheet?.rows ?? [])
+
+  const handleSubmit = async () => {
+    if (!user) return
+    if (draftRows.length === 0) {
+      setError('Log some time this week before submitting.')
+      return
+    }
+    if (hasRunningTimer) {
+      setError('Stop your running timer before submitting this week.')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await submitTimesheet({ weekStart })
+    } catch (err) {
+      console.error('Failed to submit timesheet', err)
+      setError('Failed to submit timesheet. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const handleReview = async (timesheet: Timesheet, status: 'Approved' | 'Rejected') => {
+    if (!firestore || !user || !userProfile) return
+    if (status === 'Rejected' && !rejectionReason.trim()) {
+      setError('A rejection reason is required.')
+      return
+    }
+
+    setSaving(true)
+    setError(null)
+    try {
+      await updateDoc(doc(firestore, 'timesheets', timesheet.id), {
+        status,
+        reviewedBy: user.uid,
+        reviewedByName: userProfile.displayName,
+        reviewedAt: new Date().toISOString(),
+        ...(status === 'Rejected' ? { rejectionReason: rejectionReason.trim() } : {}),
+      })
+      setRejectingId(null)
+      setRejectionReason('')
+    } catch (err) {
+      console.error('Failed to review timesheet', err)
+      setError('Failed to update timesheet. Please try again.')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <AccessGuard allowedRoles={['Admin', 'Manager', 'DepartmentHead', 'Specialist']}>
+      <div className="panel">
+        <header className="panel-header">
+          <div>
+            <h2>Timesheets</h2>
+            <p>Hours logged on tasks, submitted weekly for department head approval.</p>
+          </div>
+          <div style={{ display: 'flex', gap: '0.5rem', alignItems: 'center' }}>
+            <button type="button" className="ghost-button" onClick={() => setWeekStart(shiftWeek(weekStart, -1))} aria-label="Previous week">
+              ←
+            </button>
+            <strong style={{ minWidth: '10rem', textAlign: 'center' }}>{formatWeekLabel(weekStart)}</strong>
+            <button type="button" className="ghost-button" onClick={() => setWeekStart(shiftWeek(weekStart, 1))} aria-label="Next week">
+              →
+            </button>
+            <button type="button" className="ghost-button" onClick={() => setWeekStart(getWeekStart(new Date()))}>
+              This Week
+            </button>
+          </div>
+        </header>
+        {error && <p className="login-error">{error}</p>}
+
+        <section className="detail-section">
+          <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', marginBottom: '0.75rem' }}>
+            <div style={{ display: 'flex', gap: '0.75rem', alignItems: 'center' }}>
+              <span className="section-label">My Week</span>
+              {currentTimesheet && <span className={statusPillClass[currentTimesheet.status]}>{currentTimesheet.status}</span>}
+            </div>
+            {canSubmit && (
+              <button
+                type="button"
+                className="primary-button"
+                onClick={() => void handleSubmit()}
+                disabled={saving || draftRows.length === 0}
+              >
+                {currentTimesheet?.status === 'Rejected' ? 'Resubmit for Approval' : 'Submit for Approval'}
+              </button>
+            )}
+          </div>
+
+          {currentTimesheet?.status === 'Rejected' && currentTimesheet.rejectionReason && (
+            <p className="login-error">
+              Rejected by {currentTimesheet.reviewedByName ?? 'a reviewer'}: {currentTimesheet.rejectionReason}
+            </p>
+          )}
+          {currentTimesheet?.status === 'Approved' && (
+            <p style={{ margin: '0 0 0.75rem', fontSize: '0.85rem', color: 'var(--text-secondary)' }}>
+              Approved by {currentTimesheet.reviewedByName ?? 'a reviewer'}
+              {currentTimesheet.reviewedAt && ` on ${new Date(currentTimesheet.reviewedAt).toLocaleDateString()}`}
+            </p>
+          )}
+          {hasRunningTimer && canSubmit && (
+            <p style={{ margin: '0 0 0.75rem', fontSize: '0.85rem', color: '#f59e0b' }}>
+              A timer is still running this week. Stop it before submitting.
+            </p>
+          )}
+
+          {displayedRows.length === 0 ? (
+            <div className="empty-state">
+              <h3>No time logged</h3>
+              <p>Start a timer or log time from a task's detail view.</p>
+            </div>
+          ) : (
+            <TimesheetTable rows={displayedRows} weekStart={weekStart} />
+          )}
+        </section>
+
+        {canReview && (
+          <section className="detail-section">
+            <span className="section-label">Awaiting Approval {reviewQueue.length > 0 && `(${reviewQueue.length})`}</span>
+            {reviewQueue.length === 0 ? (
+              <p style={{ margin: '0.5rem 0 0', color: 'var(--text-muted)', fontSize: '0.9rem' }}>No timesheets waiting for review</p>
+            ) : (
+              <div className="summary-list" style={{ marginTop: '0.75rem' }}>
+                {reviewQueue.map((timesheet) => (
+                  <div key={timesheet.id} className="summary-card" style={{ display: 'block', padding: '1rem 1.25rem' }}>
+                    <div style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center', gap: '1rem', flexWrap: 'wrap' }}>
+                      <div>
+                        <strong>{timesheet.userName}</strong>
+                        <span style={{ marginLeft: '0.5rem', fontSize: '0.85rem', color: 'var(--text-muted)' }}>
+                          {timesheet.department} · {formatWeekLabel(timesheet.weekStart)} · {formatMinutes(timesheet.totalMinutes)}
+                        </span>
+                      </div>
+                      <div style={{ display: 'flex', gap: '0.5rem' }}>
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          onClick={() => setExpandedId(expandedId === timesheet.id ? null : timesheet.id)}
+                        >
+                          {expandedId === timesheet.id ? 'Hide' : 'View'}
+                        </button>
+                        <button
+                          type="button"
+                          className="ghost-button"
+                          onClick={() => {
+                            setRejectingId(rejectingId === timesheet.id ? null : timesheet.id)
+                            setRejectionReason('')
+                          }}
+                          disabled={saving}
+                          style={{ color: '#dc2626', borderColor: '#dc2626' }}
+                        >
+                          Reject
+                        </button>
+                        <button
+                          type="button"
+                          className="primary-button"
+                          onClick={() => void handleReview(timesheet, 'Approved')}
+                          disabled={saving}
+                        >
+                          Approve
+                        </button>
+                      </div>
+                    </div>
+                    {rejectingId === timesheet.id && (
+                      <div style={{ display: 'flex', gap: '0.5rem', marginTop: '0.75rem' }}>
+                        <input
+                          type="text"
+                          value={rejectionReason}
+                          onChange={(e) => setRejectionReason(e.target.value)}
+                          placeholder="Reason for rejection"
+                          style={{ flex: 1 }}
+                          autoFocus
+                        />
+                        <button
+                          type="button"
+                          className="primary-button"
+                          onClick={() => void handleReview(timesheet, 'Rejected')}
+                          disabled={saving || !rejectionReason.trim()}
+                          style={{ background: '#dc2626' }}
+                        >
+                          Confirm Rejection
+                        </button>
+                      </div>
+                    )}
+                    {expandedId === timesheet.id && (
+                      <div style={{ marginTop: '0.75rem' }}>
+                        <TimesheetTable rows={timesheet.rows} weekStart={timesheet.weekStart} />
+                      </div>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </section>
+        )}
+      </div>
+    </AccessGuard>
+  )
+}
+
+export default TimesheetsPage
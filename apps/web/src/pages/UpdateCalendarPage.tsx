@@ -1,10 +1,12 @@
-import { useState, useMemo, useEffect } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
+import { useLocation, useSearchParams } from 'react-router-dom'
 import { useAppData } from '../context/AppDataContext'
 import { useAuth } from '../context/AuthContext'
 import { collection, addDoc, deleteDoc, doc, onSnapshot, query, Timestamp, updateDoc, where, getDocs } from 'firebase/firestore'
 import { StatusSelector, type DepartmentStatus } from '../components/StatusSelector'
 import { playNotificationSound, showDesktopNotification } from '../lib/notifications'
 import { awardKPIPoints, removeKPIPoints } from '../lib/kpi'
+import { getTaskWorkflow } from '../lib/workflows'
 import './UpdateCalendarPage.css'
 
 type Assignee = {
@@ -15,6 +17,7 @@ type Assignee = {
 
 type DepartmentStatusData = {
   status: DepartmentStatus
+  stage?: string // Working stage of the department's task workflow while In Progress
   requestedBy?: string
   requestedByName?: string
   requestedAt?: string
@@ -44,7 +47,7 @@ const MONTHS = [
 ]
 
 export function UpdateCalendarPage() {
-  const { allUserProfiles, userProfile, firestore } = useAppData()
+  const { allUserProfiles, userProfile, firestore, departments } = useAppData()
   const { user } = useAuth()
   const currentYear = new Date().getFullYear()
   const [selectedYear, setSelectedYear] = useState(currentYear)
@@ -58,6 +61,30 @@ export function UpdateCalendarPage() {
   const [editingDeadline, setEditingDeadline] = useState<{ updateId: string; department: string } | null>(null)
   const [editingAssignees, setEditingAssignees] = useState<{ updateId: string; assignees: Assignee[] } | null>(null)
   const [departmentDeadlines, setDepartmentDeadlines] = useState<Record<string, { date: string; time: string }>>({})
+  const [searchParams] = useSearchParams()
+  const location = useLocation()
+  const [linkKey, setLinkKey] = useState<string | null>(null)
+  // Links to an update (?year=&month=&update=<id>) open its year and expand its month
+  const linkedUpdateId = searchParams.get('update')
+  const linkedYear = Number(searchParams.get('year'))
+  const linkedMonth = searchParams.get('month')
+
+  if (linkedMonth && linkedYear && location.key !== linkKey) {
+    setLinkKey(location.key)
+    setSelectedYear(linkedYear)
+    setExpandedMonths((prev) => new Set(prev).add(`${linkedMonth}-${linkedYear}`))
+  }
+
+  const scrolledLinkRef = useRef<string | null>(null)
+
+  // Scroll once per link, as soon as the linked update has rendered
+  useEffect(() => {
+    if (!linkedUpdateId || scrolledLinkRef.current === linkKey) return
+    const element = document.getElementById(`calendar-update-${linkedUpdateId}`)
+    if (!element) return
+    scrolledLinkRef.current = linkKey
+    element.scrollIntoView({ block: 'center' })
+  }, [linkedUpdateId, linkKey, calendarUpdates])
 
   // Load calendar updates from Firestore
   useEffect(() => {
@@ -484,7 +511,7 @@ export function UpdateCalendarPage() {
   }
 
   // Update department status
-  const handleStatusChange = async (updateId: string, department: string, newStatus: DepartmentStatus) => {
+  const handleStatusChange = async (updateId: string, department: string, newStatus: DepartmentStatus, stage?: string) => {
     if (!firestore || !user || !userProfile) {
       console.error('❌ Cannot update status: missing firestore, user, or userProfile')
       return
@@ -520,6 +547,11 @@ export function UpdateCalendarPage() {
         ...existingStatuses[department],
         status: newStatus,
       }
+      if (stage) {
+        statusUpdate.stage = stage
+      } else {
+        delete statusUpdate.stage
+      }
 
       // If requesting approval (Specialist/DepartmentHead setting to Pending Approval)
       if (newStatus === 'Pending Approval' && !userIsTaskCreator && !canApprove) {
@@ -885,7 +917,9 @@ export function UpdateCalendarPage() {
                             return (
                               <div
                                 key={update.id}
+                                id={`calendar-update-${update.id}`}
                                 className={`calendar-update-card ${isOverdue ? 'calendar-update-overdue' : ''}`}
+                                style={update.id === linkedUpdateId ? { outline: '2px solid var(--accent)' } : undefined}
                               >
                                 <div className="calendar-update-header">
                                   <div className="calendar-deadline-display">
@@ -1026,6 +1060,10 @@ export function UpdateCalendarPage() {
                                       const isEditing = editingDeadline?.updateId === update.id && editingDeadline?.department === dept
                                       const deptStatus = update.departmentStatuses?.[dept]?.status || 'Not Started'
                                       const canEditDeptStatus = canEditDepartmentStatus(update, dept)
+                                      const { workflow: deptWorkflow, workflowId: deptWorkflowId } = getTaskWorkflow({ department: dept }, departments)
+                                      const deptStages = deptWorkflowId
+                                        ? deptWorkflow.states.filter((state) => deptWorkflow.categories[state] === 'In Progress')
+                                        : []
                                       
                                       return (
                                         <div
@@ -1125,8 +1163,10 @@ export function UpdateCalendarPage() {
                                               canEdit={canEditDeptStatus}
                                               canApprove={canApprove}
                                               isTaskCreator={isTaskCreator(update)}
-                                              onStatusChange={(newStatus) => handleStatusChange(update.id, dept, newStatus)}
+                                              onStatusChange={(newStatus, stage) => handleStatusChange(update.id, dept, newStatus, stage)}
                                               isSubmitting={isSubmitting}
+                                              stages={deptStages}
+                                              currentStage={update.departmentStatuses?.[dept]?.stage}
                                             />
                                           </div>
                                         </div>
@@ -4,4 +4,10 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    fs: {
+      // Pure helpers shared with the Cloud Functions live in functions/src/shared
+      allow: ['.', '../../functions/src/shared'],
+    },
+  },
 })
@@ -0,0 +1,24 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+/**
+ * Removes the files shared with a chat message from Storage once the message is permanently
+ * deleted. Trashed messages keep their files so they can still be restored.
+ */
+function buildAttachmentCleanup(collectionName: string) {
+  return functions.firestore.document(`${collectionName}/{messageId}`).onDelete(async (snapshot, context) => {
+    const attachments: Array<{ path?: string }> = snapshot.data().attachments ?? []
+    const paths = attachments.map((attachment) => attachment.path).filter((path): path is string => Boolean(path))
+    const bucket = admin.storage().bucket()
+    for (const path of paths) {
+      try {
+        await bucket.file(path).delete({ ignoreNotFound: true })
+      } catch (error) {
+        console.error(`Failed to delete ${path} for ${collectionName}/${context.params.messageId}`, error)
+      }
+    }
+  })
+}
+
+export const onCompanyChatDeletedAttachments = buildAttachmentCleanup('companyChats')
+export const onDepartmentChatDeletedAttachments = buildAttachmentCleanup('departmentChats')
@@ -0,0 +1,33 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+// Length of the message preview shown in the channel list and desktop notifications
+const PREVIEW_LENGTH = 100
+
+/**
+ * Counts a new direct or group channel message on its channel and records it as the latest.
+ * The author's read count moves with it, so people are not notified of their own messages.
+ */
+export const onChannelMessageCreated = functions.firestore
+  .document('chatChannels/{channelId}/messages/{messageId}')
+  .onCreate(async (snapshot, context) => {
+    const { channelId } = context.params
+    const message = snapshot.data()
+    const text: string = message.text ?? ''
+    const increment = admin.firestore.FieldValue.increment(1)
+    try {
+      await admin
+        .firestore()
+        .collection('chatChannels')
+        .doc(channelId)
+        .update({
+          messageCount: increment,
+          ...(message.authorId ? { [`readCounts.${message.authorId}`]: increment } : {}),
+          lastMessageAt: message.createdAt ?? admin.firestore.FieldValue.serverTimestamp(),
+          lastMessageAuthor: message.author ?? '',
+          lastMessagePreview: text.length > PREVIEW_LENGTH ? `${text.slice(0, PREVIEW_LENGTH)}…` : text,
+        })
+    } catch (error) {
+      console.error(`Failed to update channel ${channelId} for message ${context.params.messageId}`, error)
+    }
+  })
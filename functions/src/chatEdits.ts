@@ -0,0 +1,20 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+/**
+ * Deletes the versions an edited chat message replaced once the message itself is permanently
+ * deleted, since Firestore leaves subcollections behind.
+ */
+function buildVersionCleanup(collectionName: string) {
+  return functions.firestore.document(`${collectionName}/{messageId}`).onDelete(async (snapshot, context) => {
+    if (!snapshot.data().editCount) return
+    try {
+      await admin.firestore().recursiveDelete(snapshot.ref.collection('versions'))
+    } catch (error) {
+      console.error(`Failed to delete edit history of ${collectionName}/${context.params.messageId}`, error)
+    }
+  })
+}
+
+export const onCompanyChatDeletedVersions = buildVersionCleanup('companyChats')
+export const onDepartmentChatDeletedVersions = buildVersionCleanup('departmentChats')
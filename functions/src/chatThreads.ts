@@ -0,0 +1,35 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+// Replies in the trash are not counted, so trashing or restoring one moves the count too
+function countsAsReply(data: admin.firestore.DocumentData | undefined): boolean {
+  return Boolean(data?.parentId) && !data?.deletedAt
+}
+
+/**
+ * Keeps replyCount on a thread's parent message in step with its replies.
+ * Clients cannot be trusted to update someone else's message, so the count is kept here.
+ */
+function buildReplyCounter(collectionName: string) {
+  return functions.firestore.document(`${collectionName}/{messageId}`).onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : undefined
+    const after = change.after.exists ? change.after.data() : undefined
+    const delta = Number(countsAsReply(after)) - Number(countsAsReply(before))
+    if (delta === 0) return
+
+    const parentId: string = (after ?? before)?.parentId
+    try {
+      await admin
+        .firestore()
+        .collection(collectionName)
+        .doc(parentId)
+        .update({ replyCount: admin.firestore.FieldValue.increment(delta) })
+    } catch (error) {
+      // The parent may have been purged from the trash already
+      console.error(`Failed to update reply count for ${collectionName}/${parentId} after ${context.params.messageId}`, error)
+    }
+  })
+}
+
+export const onCompanyChatReplyWritten = buildReplyCounter('companyChats')
+export const onDepartmentChatReplyWritten = buildReplyCounter('departmentChats')
@@ -0,0 +1,41 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+type ChecklistItem = {
+  id: string
+  done: boolean
+  assigneeId?: string
+  completedAt?: string
+}
+
+/**
+ * Ticks or unticks a checklist item for the person it is assigned to. They may not be able to
+ * edit the task itself, and the rules cannot tell which item of the list changed, so this runs
+ * server-side and touches nothing but that item.
+ */
+export async function toggleAssignedChecklistItem(taskId: string, itemId: string, done: boolean, userId: string) {
+  const db = admin.firestore()
+  const taskRef = db.collection('tasks').doc(taskId)
+  await db.runTransaction(async (transaction) => {
+    const task = (await transaction.get(taskRef)).data()
+    if (!task || task.deletedAt) {
+      throw new functions.https.HttpsError('not-found', 'Task not found')
+    }
+    const items: ChecklistItem[] = Array.isArray(task.checklist) ? task.checklist : []
+    const item = items.find((candidate) => candidate?.id === itemId)
+    if (!item) {
+      throw new functions.https.HttpsError('not-found', 'Checklist item not found')
+    }
+    if (item.assigneeId !== userId) {
+      throw new functions.https.HttpsError('permission-denied', 'Only the person assigned to this item can tick it')
+    }
+    const { completedAt: _completedAt, ...rest } = item
+    void _completedAt
+    const updated = done ? { ...rest, done, completedAt: new Date().toISOString() } : { ...rest, done }
+    transaction.update(taskRef, {
+      checklist: items.map((candidate) => (candidate === item ? updated : candidate)),
+      updatedAt: new Date().toISOString(),
+      updatedBy: userId,
+    })
+  })
+}
@@ -0,0 +1,61 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { createNotification } from './notifications'
+
+const PREVIEW_LENGTH = 140
+
+function preview(text: string): string {
+  return text.length > PREVIEW_LENGTH ? `${text.substring(0, PREVIEW_LENGTH - 1)}…` : text
+}
+
+/**
+ * Notifies users mentioned in a new task comment, and the author of the comment being replied to
+ */
+export const onTaskCommentCreated = functions.firestore
+  .document('tasks/{taskId}/comments/{commentId}')
+  .onCreate(async (snapshot, context) => {
+    const db = admin.firestore()
+    const comment = snapshot.data()
+    const { taskId, commentId } = context.params
+    const authorId: string = comment.authorId
+    const author: string = comment.author ?? 'Someone'
+
+    const task = (await db.collection('tasks').doc(taskId).get()).data()
+    const taskTitle = task?.title ?? 'a task'
+    const link = `/tasks?task=${taskId}`
+
+    // Only notify mentions that resolve to real users
+    const mentionIds: string[] = Array.isArray(comment.mentions)
+      ? Array.from(new Set<string>(comment.mentions)).filter((id) => typeof id === 'string' && id !== authorId)
+      : []
+    const mentionProfiles =
+      mentionIds.length > 0 ? await db.getAll(...mentionIds.map((id) => db.collection('userProfiles').doc(id))) : []
+    const notified = new Set<string>()
+
+    for (const profile of mentionProfiles) {
+      if (!profile.exists) continue
+      notified.add(profile.id)
+      await createNotification({
+        userId: profile.id,
+        title: `${author} mentioned you on "${taskTitle}"`,
+        body: preview(comment.text ?? ''),
+        link,
+        source: 'comment',
+        sourceId: commentId,
+      })
+    }
+
+    if (comment.parentId) {
+      const parent = (await db.collection('tasks').doc(taskId).collection('comments').doc(comment.parentId).get()).data()
+      if (parent?.authorId && parent.authorId !== authorId && !notified.has(parent.authorId)) {
+        await createNotification({
+          userId: parent.authorId,
+          title: `${author} replied to your comment on "${taskTitle}"`,
+          body: preview(comment.text ?? ''),
+          link,
+          source: 'comment',
+          sourceId: commentId,
+        })
+      }
+    }
+  })
@@ -1,8 +1,32 @@
 import * as functions from 'firebase-functions'
 import * as admin from 'firebase-admin'
+import { parseRule, simulateRule } from './automation'
+import { offboard, parseOffboardingPlan } from './offboarding'
+import { toggleAssignedChecklistItem } from './checklist'
+import { submitWeekTimesheet } from './timesheets'
+export { onTaskCommentCreated } from './comments'
+export { onTaskWrittenHistory } from './taskEvents'
+export { onTaskDeletedAttachments } from './taskAttachments'
+export { onTaskStatusChangedNotifyWatchers } from './taskWatchers'
+export { onTaskWrittenBlockers } from './taskDependencies'
+export { onTimesheetWritten } from './timesheets'
+export { generateRecurringTasks } from './taskTemplates'
+export { checkTaskSlas } from './sla'
+export { purgeTrash } from './trash'
+export { onCompanyChatReplyWritten, onDepartmentChatReplyWritten } from './chatThreads'
+export { onCompanyChatDeletedAttachments, onDepartmentChatDeletedAttachments } from './chatAttachments'
+export { onCompanyChatDeletedVersions, onDepartmentChatDeletedVersions } from './chatEdits'
+export { onChannelMessageCreated } from './chatChannels'
 
 admin.initializeApp()
 
+export {
+  onTaskStatusChangedAutomation,
+  onCalendarUpdateApprovedAutomation,
+  onLeaveRequestSubmittedAutomation,
+  evaluateDueDateAutomations,
+} from './automation'
+
 /**
  * Verifies that the calling user is an admin
  */
@@ -76,10 +100,10 @@ export const resetUserPassword = functions.https.onCall(async (data, context) =>
 })
 
 /**
- * Delete a user from Firebase Auth and Firestore (admin only)
- * Also deletes all related data: tasks, chat messages, etc.
+ * Offboard a user (admin only)
+ * Reassigns their open work, disables the Auth account and keeps the profile for history
  */
-export const deleteUser = functions.https.onCall(async (data, context) => {
+export const offboardUser = functions.https.onCall(async (data, context) => {
   // Verify authentication
   if (!context.auth) {
     throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
@@ -88,62 +112,125 @@ export const deleteUser = functions.https.onCall(async (data, context) => {
   // Verify admin role
   const isAdmin = await verifyAdmin(context.auth.uid)
   if (!isAdmin) {
-    throw new functions.https.HttpsError('permission-denied', 'Only administrators can delete users')
+    throw new functions.https.HttpsError('permission-denied', 'Only administrators can offboard users')
   }
 
   // Validate input
-  const { userId } = data
-  if (!userId || typeof userId !== 'string') {
-    throw new functions.https.HttpsError('invalid-argument', 'userId is required and must be a string')
+  const plan = parseOffboardingPlan(data)
+
+  // Prevent admins from offboarding themselves
+  if (plan.userId === context.auth.uid) {
+    throw new functions.https.HttpsError('invalid-argument', 'Admins cannot offboard themselves')
   }
 
   try {
-    // Prevent admins from deleting themselves
-    if (userId === context.auth.uid) {
-      throw new functions.https.HttpsError('invalid-argument', 'Admins cannot delete themselves')
+    const result = await offboard(plan, context.auth.uid)
+    return {
+      success: true,
+      ...result,
+      message: 'User offboarded successfully',
+    }
+  } catch (error: any) {
+    console.error('Error offboarding user:', error)
+    if (error instanceof functions.https.HttpsError) {
+      throw error
+    }
+    if (error.code === 'auth/user-not-found') {
+      throw new functions.https.HttpsError('not-found', 'User not found')
     }
+    throw new functions.https.HttpsError('internal', 'Failed to offboard user', error.message)
+  }
+})
 
-    const db = admin.firestore()
-    const batch = db.batch()
+/**
+ * Tick or untick a checklist item (the item's assignee only)
+ * Item assignees may have no edit access to the task, so this is the only way they can change it
+ */
+export const toggleChecklistItem = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
 
-    // Delete all tasks assigned to this user
-    const tasksSnapshot = await db.collection('tasks').where('assigneeId', '==', userId).get()
-    tasksSnapshot.forEach((doc) => {
-      batch.delete(doc.ref)
-    })
+  const { taskId, itemId, done } = data ?? {}
+  if (!taskId || typeof taskId !== 'string' || !itemId || typeof itemId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'taskId and itemId are required and must be strings')
+  }
+  if (typeof done !== 'boolean') {
+    throw new functions.https.HttpsError('invalid-argument', 'done must be a boolean')
+  }
 
-    // Delete all department chat messages by this user
-    const deptChatsSnapshot = await db.collection('departmentChats').where('authorId', '==', userId).get()
-    deptChatsSnapshot.forEach((doc) => {
-      batch.delete(doc.ref)
-    })
+  try {
+    await toggleAssignedChecklistItem(taskId, itemId, done, context.auth.uid)
+    return { success: true }
+  } catch (error) {
+    console.error('Error toggling checklist item:', error)
+    if (error instanceof functions.https.HttpsError) {
+      throw error
+    }
+    throw new functions.https.HttpsError('internal', 'Failed to update checklist item')
+  }
+})
 
-    // Delete all company chat messages by this user
-    const companyChatsSnapshot = await db.collection('companyChats').where('authorId', '==', userId).get()
-    companyChatsSnapshot.forEach((doc) => {
-      batch.delete(doc.ref)
-    })
+/**
+ * Submit the caller's timesheet for a week, totalled from their time entries
+ */
+export const submitTimesheet = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
 
-    // Delete user profile
-    const userProfileRef = db.collection('userProfiles').doc(userId)
-    batch.delete(userProfileRef)
+  const { weekStart } = data ?? {}
+  if (
+    typeof weekStart !== 'string' ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(weekStart) ||
+    new Date(`${weekStart}T00:00:00Z`).getUTCDay() !== 1
+  ) {
+    throw new functions.https.HttpsError('invalid-argument', 'weekStart must be a Monday as YYYY-MM-DD')
+  }
 
-    // Commit all Firestore deletions
-    await batch.commit()
+  try {
+    const totalMinutes = await submitWeekTimesheet(context.auth.uid, weekStart)
+    return { success: true, totalMinutes }
+  } catch (error) {
+    console.error('Error submitting timesheet:', error)
+    if (error instanceof functions.https.HttpsError) {
+      throw error
+    }
+    throw new functions.https.HttpsError('internal', 'Failed to submit timesheet')
+  }
+})
 
-    // Delete user from Firebase Auth
-    await admin.auth().deleteUser(userId)
+const AUTOMATION_TRIGGER_TYPES = ['taskStatusChanged', 'taskDueDate', 'calendarUpdateApproved', 'leaveRequestSubmitted']
 
-    return {
-      success: true,
-      message: 'User and all associated data deleted successfully',
-    }
+/**
+ * Dry-run an automation rule against recent data (admin only)
+ * Accepts unsaved drafts, so the rule is passed in rather than loaded by id
+ */
+export const simulateAutomationRule = functions.https.onCall(async (data, context) => {
+  if (!context.auth) {
+    throw new functions.https.HttpsError('unauthenticated', 'User must be authenticated')
+  }
+
+  const isAdmin = await verifyAdmin(context.auth.uid)
+  if (!isAdmin) {
+    throw new functions.https.HttpsError('permission-denied', 'Only administrators can simulate automation rules')
+  }
+
+  const { rule } = data ?? {}
+  if (!rule || typeof rule !== 'object') {
+    throw new functions.https.HttpsError('invalid-argument', 'rule is required')
+  }
+  if (!rule.trigger || !AUTOMATION_TRIGGER_TYPES.includes(rule.trigger.type)) {
+    throw new functions.https.HttpsError('invalid-argument', 'rule.trigger.type is not a supported trigger')
+  }
+  if (!Array.isArray(rule.actions) || rule.actions.length === 0) {
+    throw new functions.https.HttpsError('invalid-argument', 'rule.actions must contain at least one action')
+  }
+
+  try {
+    return await simulateRule(parseRule(typeof rule.id === 'string' ? rule.id : 'draft', rule))
   } catch (error: any) {
-    console.error('Error deleting user:', error)
-    if (error.code === 'auth/user-not-found') {
-      throw new functions.https.HttpsError('not-found', 'User not found')
-    }
-    throw new functions.https.HttpsError('internal', 'Failed to delete user', error.message)
+    console.error('Error simulating automation rule:', error)
+    throw new functions.https.HttpsError('internal', 'Failed to simulate automation rule', error.message)
   }
 })
-
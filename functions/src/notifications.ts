@@ -0,0 +1,48 @@
+import * as admin from 'firebase-admin'
+
+export type NotificationInput = {
+  userId: string
+  title: string
+  body: string
+  link?: string
+  source: string
+  sourceId?: string
+}
+
+/**
+ * Writes an in-app notification for a single user.
+ * Clients cannot create notifications themselves, so every notification goes through here.
+ */
+export async function createNotification(input: NotificationInput): Promise<void> {
+  await admin.firestore().collection('notifications').add({
+    userId: input.userId,
+    title: input.title,
+    body: input.body,
+    link: input.link ?? null,
+    source: input.source,
+    sourceId: input.sourceId ?? null,
+    read: false,
+    createdAt: admin.firestore.Timestamp.now(),
+  })
+}
+
+/**
+ * Returns the ids of every department head in the given department
+ */
+export async function getDepartmentHeadIds(department: string): Promise<string[]> {
+  const snapshot = await admin
+    .firestore()
+    .collection('userProfiles')
+    .where('department', '==', department)
+    .where('isDepartmentHead', '==', true)
+    .get()
+  return snapshot.docs.filter((doc) => !doc.data().deactivated).map((doc) => doc.id)
+}
+
+/**
+ * Returns the ids of every active user with the Manager role
+ */
+export async function getManagerIds(): Promise<string[]> {
+  const snapshot = await admin.firestore().collection('userProfiles').where('role', '==', 'Manager').get()
+  return snapshot.docs.filter((doc) => !doc.data().deactivated).map((doc) => doc.id)
+}
@@ -0,0 +1,207 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { readTaskAssignees } from './shared/taskAssignees'
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500
+
+// Shown instead of the author on chat messages anonymized under the 'anonymize' chat policy
+const ANONYMIZED_AUTHOR_NAME = 'Former team member'
+
+export type OffboardingPlan = {
+  userId: string
+  // Open task or calendar update id -> colleague taking over; '' removes the user without a replacement
+  taskAssignees: Record<string, string>
+  calendarUpdateAssignees: Record<string, string>
+}
+
+export type OffboardingResult = {
+  tasksReassigned: number
+  calendarUpdatesReassigned: number
+  messagesAnonymized: number
+  channelsLeft: number
+}
+
+type Assignee = { id: string; name: string }
+
+function parseAssignments(value: unknown, field: string): Record<string, string> {
+  if (value === undefined) return {}
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new functions.https.HttpsError('invalid-argument', `${field} must be a map of ids`)
+  }
+  return Object.fromEntries(
+    Object.entries(value).map(([id, colleagueId]) => {
+      if (typeof colleagueId !== 'string') {
+        throw new functions.https.HttpsError('invalid-argument', `${field}.${id} must be a user id or an empty string`)
+      }
+      return [id, colleagueId]
+    }),
+  )
+}
+
+export function parseOffboardingPlan(data: unknown): OffboardingPlan {
+  const input = (data ?? {}) as Record<string, unknown>
+  if (!input.userId || typeof input.userId !== 'string') {
+    throw new functions.https.HttpsError('invalid-argument', 'userId is required and must be a string')
+  }
+  return {
+    userId: input.userId,
+    taskAssignees: parseAssignments(input.taskAssignees, 'taskAssignees'),
+    calendarUpdateAssignees: parseAssignments(input.calendarUpdateAssignees, 'calendarUpdateAssignees'),
+  }
+}
+
+function replaceAssignee<T extends Assignee>(assignees: T[], userId: string, replacement: T | null): T[] {
+  const remaining = assignees.filter((assignee) => assignee.id !== userId)
+  if (!replacement || remaining.some((assignee) => assignee.id === replacement.id)) return remaining
+  const index = assignees.findIndex((assignee) => assignee.id === userId)
+  return [...remaining.slice(0, index), replacement, ...remaining.slice(index)]
+}
+
+/**
+ * Offboards a user: hands their open tasks and calendar update assignments to the chosen
+ * colleagues, removes them from group channels, applies the workspace chat policy to their
+ * messages, marks the profile deactivated and disables the Auth account.
+ * Completed tasks and KPI history are left as they are, still attributed to the user.
+ */
+export async function offboard(plan: OffboardingPlan, adminId: string): Promise<OffboardingResult> {
+  const db = admin.firestore()
+  const { userId } = plan
+
+  const profileRef = db.collection('userProfiles').doc(userId)
+  const profileSnapshot = await profileRef.get()
+  if (!profileSnapshot.exists) {
+    throw new functions.https.HttpsError('not-found', 'User not found')
+  }
+  if (profileSnapshot.data()?.deactivated) {
+    throw new functions.https.HttpsError('failed-precondition', 'This user has already been offboarded')
+  }
+
+  // Every colleague taking over work must be another active user
+  const colleagueIds = [
+    ...new Set([...Object.values(plan.taskAssignees), ...Object.values(plan.calendarUpdateAssignees)].filter(Boolean)),
+  ]
+  const colleagues = new Map<string, admin.firestore.DocumentData>()
+  if (colleagueIds.length > 0) {
+    const colleagueSnapshots = await db.getAll(...colleagueIds.map((id) => db.collection('userProfiles').doc(id)))
+    colleagueSnapshots.forEach((snapshot) => {
+      const colleague = snapshot.data()
+      if (!colleague || colleague.deactivated || snapshot.id === userId) {
+        throw new functions.https.HttpsError('invalid-argument', `User ${snapshot.id} cannot take over work`)
+      }
+      colleagues.set(snapshot.id, colleague)
+    })
+  }
+
+  const settings = (await db.collection('settings').doc('workspace').get()).data() ?? {}
+  const updates: Array<{ ref: admin.firestore.DocumentReference; data: admin.firestore.UpdateData<admin.firestore.DocumentData> }> = []
+  const now = new Date().toISOString()
+  const result: OffboardingResult = {
+    tasksReassigned: 0,
+    calendarUpdatesReassigned: 0,
+    messagesAnonymized: 0,
+    channelsLeft: 0,
+  }
+  const anonymize = settings.offboardingChatPolicy === 'anonymize'
+
+  // Tasks written before multiple assignees are only found by assigneeId
+  const [taskSnapshot, legacyTaskSnapshot] = await Promise.all([
+    db.collection('tasks').where('assigneeIds', 'array-contains', userId).get(),
+    db.collection('tasks').where('assigneeId', '==', userId).get(),
+  ])
+  const taskDocs = new Map([...taskSnapshot.docs, ...legacyTaskSnapshot.docs].map((doc) => [doc.id, doc]))
+  taskDocs.forEach((taskDoc) => {
+    const task = taskDoc.data()
+    if (task.status === 'Completed' || task.deletedAt) return
+    const colleagueId = plan.taskAssignees[taskDoc.id] ?? ''
+    const replacement = colleagueId ? { id: colleagueId, name: colleagues.get(colleagueId)?.displayName ?? '' } : null
+    const assignees = replaceAssignee(readTaskAssignees(task), userId, replacement)
+    updates.push({
+      ref: taskDoc.ref,
+      data: {
+        assignee: assignees[0]?.name ?? '',
+        assigneeId: assignees[0]?.id ?? '',
+        assigneeIds: assignees.map((assignee) => assignee.id),
+        assignees,
+        updatedAt: now,
+        updatedBy: adminId,
+      },
+    })
+    result.tasksReassigned += 1
+  })
+
+  // Calendar update assignees are stored as objects, which cannot be queried by id alone
+  const calendarSnapshot = await db.collection('calendarUpdates').get()
+  calendarSnapshot.docs.forEach((updateDoc) => {
+    const update = updateDoc.data()
+    const assignees: Array<Assignee & { department: string }> = Array.isArray(update.assignees) ? update.assignees : []
+    const current = assignees.find((assignee) => assignee.id === userId)
+    if (!current || update.overallStatus === 'Completed') return
+    const colleagueId = plan.calendarUpdateAssignees[updateDoc.id] ?? ''
+    // The colleague takes over the department the user was assigned for
+    const replacement = colleagueId
+      ? { id: colleagueId, name: colleagues.get(colleagueId)?.displayName ?? '', department: current.department }
+      : null
+    updates.push({
+      ref: updateDoc.ref,
+      data: { assignees: replaceAssignee(assignees, userId, replacement), updatedAt: admin.firestore.Timestamp.now() },
+    })
+    result.calendarUpdatesReassigned += 1
+  })
+
+  // The user leaves their group channels. Direct messages keep both members, so the colleague on the
+  // other end keeps the conversation; the disabled account can no longer read it.
+  const displayName: string = profileSnapshot.data()?.displayName ?? ''
+  const channelSnapshot = await db.collection('chatChannels').where('memberIds', 'array-contains', userId).get()
+  channelSnapshot.docs.forEach((channelDoc) => {
+    const channel = channelDoc.data()
+    const data: admin.firestore.UpdateData<admin.firestore.DocumentData> = {}
+    if (channel.type === 'group') {
+      data.memberIds = admin.firestore.FieldValue.arrayRemove(userId)
+      data[`readCounts.${userId}`] = admin.firestore.FieldValue.delete()
+      result.channelsLeft += 1
+    }
+    // The channel list previews the latest message under its author's name
+    if (anonymize && displayName && channel.lastMessageAuthor === displayName) {
+      data.lastMessageAuthor = ANONYMIZED_AUTHOR_NAME
+    }
+    if (Object.keys(data).length > 0) updates.push({ ref: channelDoc.ref, data })
+  })
+
+  if (anonymize) {
+    const chatSnapshots = await Promise.all([
+      ...['departmentChats', 'companyChats'].map((collectionName) =>
+        db.collection(collectionName).where('authorId', '==', userId).get(),
+      ),
+      // Direct and group channel messages, including channels the user already left
+      db.collectionGroup('messages').where('authorId', '==', userId).get(),
+    ])
+    chatSnapshots.forEach((snapshot) => {
+      snapshot.docs.forEach((messageDoc) => {
+        updates.push({ ref: messageDoc.ref, data: { author: ANONYMIZED_AUTHOR_NAME, authorId: '', anonymized: true } })
+        result.messagesAnonymized += 1
+      })
+    })
+  }
+
+  for (let start = 0; start < updates.length; start += MAX_BATCH_WRITES) {
+    const batch = db.batch()
+    updates.slice(start, start + MAX_BATCH_WRITES).forEach(({ ref, data }) => batch.update(ref, data))
+    await batch.commit()
+  }
+
+  await admin.auth().updateUser(userId, { disabled: true })
+  await admin.auth().revokeRefreshTokens(userId)
+
+  // The profile is deactivated only once the account is disabled, so a run that fails at any
+  // earlier step can be retried from the wizard
+  await profileRef.update({
+    deactivated: true,
+    deactivatedAt: now,
+    deactivatedBy: adminId,
+    // Department head notifications and approvals must not go to someone who has left
+    isDepartmentHead: false,
+  })
+
+  return result
+}
@@ -0,0 +1,7 @@
+/**
+ * The departments document id for a department name, e.g. "UI/UX" -> "ui-ux".
+ * firestore.rules derives it the same way to find the workflow a task has to follow.
+ */
+export function getDepartmentDocId(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-')
+}
@@ -0,0 +1,95 @@
+// Recurrence schedules for task templates, used by generateRecurringTasks and by the web app's
+// template editor (apps/web/src/lib/taskTemplates.ts).
+// Dates are plain YYYY-MM-DD strings and all arithmetic is done in UTC.
+
+export type TaskRecurrence = (
+  | { frequency: 'daily'; interval: number }
+  | { frequency: 'weekly'; interval: number; weekday: number }
+  | { frequency: 'monthly'; interval: number; dayOfMonth: number }
+  // nth is 1-4 for the first to fourth weekday of the month, or -1 for the last one
+  | { frequency: 'nthWeekday'; nth: number; weekday: number }
+) & {
+  // Days between an occurrence and the generated task's due date
+  dueInDays: number
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+function parseDateKey(value: string): Date {
+  return new Date(`${value}T00:00:00Z`)
+}
+
+export function toDateKey(date: Date): string {
+  return date.toISOString().split('T')[0]
+}
+
+export function addDays(value: string, days: number): string {
+  return toDateKey(new Date(parseDateKey(value).getTime() + days * DAY_MS))
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate()
+}
+
+function dayOfMonthIn(year: number, month: number, dayOfMonth: number): string {
+  // Short months clamp to their last day, so the 31st runs on Feb 28/29
+  const day = Math.min(dayOfMonth, daysInMonth(year, month))
+  return toDateKey(new Date(Date.UTC(year, month, day)))
+}
+
+function nthWeekdayIn(year: number, month: number, nth: number, weekday: number): string {
+  if (nth === -1) {
+    const last = new Date(Date.UTC(year, month, daysInMonth(year, month)))
+    const offset = (last.getUTCDay() - weekday + 7) % 7
+    return toDateKey(new Date(last.getTime() - offset * DAY_MS))
+  }
+  const first = new Date(Date.UTC(year, month, 1))
+  const offset = (weekday - first.getUTCDay() + 7) % 7
+  return toDateKey(new Date(first.getTime() + (offset + (nth - 1) * 7) * DAY_MS))
+}
+
+/**
+ * The first occurrence on or after the given date
+ */
+export function firstRunOnOrAfter(recurrence: TaskRecurrence, from: string): string {
+  const start = parseDateKey(from)
+  const year = start.getUTCFullYear()
+  const month = start.getUTCMonth()
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      return from
+    case 'weekly': {
+      const offset = (recurrence.weekday - start.getUTCDay() + 7) % 7
+      return addDays(from, offset)
+    }
+    case 'monthly': {
+      const candidate = dayOfMonthIn(year, month, recurrence.dayOfMonth)
+      return candidate >= from ? candidate : dayOfMonthIn(year, month + 1, recurrence.dayOfMonth)
+    }
+    case 'nthWeekday': {
+      const candidate = nthWeekdayIn(year, month, recurrence.nth, recurrence.weekday)
+      return candidate >= from ? candidate : nthWeekdayIn(year, month + 1, recurrence.nth, recurrence.weekday)
+    }
+  }
+}
+
+/**
+ * The occurrence that follows a previous occurrence
+ */
+export function nextRunAfter(recurrence: TaskRecurrence, previous: string): string {
+  const date = parseDateKey(previous)
+  const year = date.getUTCFullYear()
+  const month = date.getUTCMonth()
+
+  switch (recurrence.frequency) {
+    case 'daily':
+      return addDays(previous, Math.max(1, recurrence.interval))
+    case 'weekly':
+      return addDays(previous, 7 * Math.max(1, recurrence.interval))
+    case 'monthly':
+      return dayOfMonthIn(year, month + Math.max(1, recurrence.interval), recurrence.dayOfMonth)
+    case 'nthWeekday':
+      return nthWeekdayIn(year, month + 1, recurrence.nth, recurrence.weekday)
+  }
+}
@@ -0,0 +1,26 @@
+// SLA windows, used by checkTaskSlas to flag breaches and by the web app (apps/web/src/lib/sla.ts)
+// to show the countdowns
+
+const DAY_MS = 1000 * 60 * 60 * 24
+
+// The workspace default is the SLA of a Medium priority task; the others scale from it
+const PRIORITY_SLA_FACTORS: Record<string, number> = {
+  High: 0.5,
+  Medium: 1,
+  Low: 2,
+}
+
+/**
+ * SLA days for a task: the department's override for its priority, otherwise the workspace
+ * default scaled by priority. Unknown priorities count as Medium.
+ */
+export function getSlaDays(priority: string, overrides: Partial<Record<string, number>> | undefined, defaultSLA: number): number {
+  const level = PRIORITY_SLA_FACTORS[priority] ? priority : 'Medium'
+  const override = overrides?.[level]
+  if (typeof override === 'number' && override > 0) return override
+  return defaultSLA * PRIORITY_SLA_FACTORS[level]
+}
+
+export function getSlaDeadline(createdAt: Date, slaDays: number): Date {
+  return new Date(createdAt.getTime() + slaDays * DAY_MS)
+}
@@ -0,0 +1,25 @@
+export type TaskAssignee = {
+  id: string
+  name: string
+}
+
+/**
+ * Reads the assignee list of a task document, for the web app and the functions alike.
+ * Tasks created before multiple assignees only have assignee/assigneeId, which become a list of one.
+ */
+export function readTaskAssignees(data: Record<string, unknown>): TaskAssignee[] {
+  const assigneeId = typeof data.assigneeId === 'string' ? data.assigneeId : ''
+  const assignee = typeof data.assignee === 'string' ? data.assignee : ''
+  if (Array.isArray(data.assigneeIds) && data.assigneeIds.length > 0) {
+    const names = new Map<string, string>(
+      Array.isArray(data.assignees)
+        ? data.assignees.map((entry: Partial<TaskAssignee>) => [entry.id ?? '', entry.name ?? ''])
+        : [],
+    )
+    return data.assigneeIds.map((id: string) => ({
+      id,
+      name: names.get(id) || (id === assigneeId ? assignee : ''),
+    }))
+  }
+  return assigneeId ? [{ id: assigneeId, name: assignee }] : []
+}
@@ -0,0 +1,45 @@
+// Weekly timesheet rows, built from a user's time entries by submitTimesheet and by the web app
+// (apps/web/src/lib/timeTracking.ts) to preview the week before it is submitted
+
+import { addDays } from './recurrence'
+
+export type TimesheetRow = {
+  taskId: string
+  taskTitle: string
+  minutesByDay: number[] // Monday to Sunday
+}
+
+// The parts of a time entry a timesheet counts. A running timer has endedAt === null.
+export type TimesheetEntry = {
+  taskId: string
+  taskTitle: string
+  date: string
+  endedAt: string | null
+  minutes: number
+}
+
+/**
+ * Groups the finished entries of a week into one row per task with minutes per weekday
+ */
+export function buildTimesheetRows(entries: TimesheetEntry[], weekStart: string): TimesheetRow[] {
+  const days = Array.from({ length: 7 }, (_, index) => addDays(weekStart, index))
+  const rowsByTask = new Map<string, TimesheetRow>()
+
+  entries.forEach((entry) => {
+    const dayIndex = days.indexOf(entry.date)
+    if (dayIndex === -1 || entry.endedAt === null) return
+    const row = rowsByTask.get(entry.taskId) ?? {
+      taskId: entry.taskId,
+      taskTitle: entry.taskTitle,
+      minutesByDay: [0, 0, 0, 0, 0, 0, 0],
+    }
+    row.minutesByDay[dayIndex] += entry.minutes
+    rowsByTask.set(entry.taskId, row)
+  })
+
+  return Array.from(rowsByTask.values()).sort((a, b) => a.taskTitle.localeCompare(b.taskTitle))
+}
+
+export function sumTimesheetRows(rows: TimesheetRow[]): number {
+  return rows.reduce((total, row) => total + row.minutesByDay.reduce((sum, minutes) => sum + minutes, 0), 0)
+}
@@ -0,0 +1,81 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { createNotification, getDepartmentHeadIds, getManagerIds } from './notifications'
+import { getSlaDays, getSlaDeadline } from './shared/sla'
+
+const DEFAULT_SLA_DAYS = 5
+
+type DepartmentSla = {
+  name: string
+  slug: string
+  slaDays: Record<string, number>
+}
+
+function findDepartment(departments: DepartmentSla[], name: string): DepartmentSla | undefined {
+  const normalized = name.trim().toLowerCase()
+  return departments.find((department) => department.name.trim().toLowerCase() === normalized || department.slug === name)
+}
+
+function getTaskSlaDeadline(task: admin.firestore.DocumentData, departments: DepartmentSla[], defaultSLA: number): Date | null {
+  const createdAt: Date | undefined = task.createdAt?.toDate?.()
+  if (!createdAt) return null
+  const overrides = findDepartment(departments, task.department ?? '')?.slaDays
+  return getSlaDeadline(createdAt, getSlaDays(task.priority ?? '', overrides, defaultSLA))
+}
+
+/**
+ * Flags open tasks that passed their SLA deadline and notifies the department heads (or managers,
+ * when the department has none), once per breach.
+ * A task whose deadline moved back into the future (e.g. its priority was lowered) is unflagged,
+ * so a later breach is reported again.
+ */
+export const checkTaskSlas = functions.pubsub.schedule('every 60 minutes').onRun(async () => {
+  const db = admin.firestore()
+  const settings = (await db.collection('settings').doc('workspace').get()).data() ?? {}
+  const defaultSLA = typeof settings.defaultSLA === 'number' && settings.defaultSLA > 0 ? settings.defaultSLA : DEFAULT_SLA_DAYS
+
+  const departmentsSnapshot = await db.collection('departments').get()
+  const departments: DepartmentSla[] = departmentsSnapshot.docs.map((doc) => ({
+    name: doc.data().name ?? '',
+    slug: doc.data().slug ?? doc.id,
+    slaDays: doc.data().slaDays ?? {},
+  }))
+
+  const tasksSnapshot = await db.collection('tasks').where('status', 'in', ['Backlog', 'In Progress', 'Review']).get()
+  const now = new Date()
+
+  for (const taskDoc of tasksSnapshot.docs) {
+    const task = taskDoc.data()
+    if (task.deletedAt) continue
+    const deadline = getTaskSlaDeadline(task, departments, defaultSLA)
+    if (!deadline) continue
+
+    if (deadline > now) {
+      if (task.slaBreachedAt) {
+        await taskDoc.ref.update({ slaBreachedAt: admin.firestore.FieldValue.delete() })
+      }
+      continue
+    }
+    if (task.slaBreachedAt) continue
+
+    try {
+      await taskDoc.ref.update({ slaBreachedAt: now.toISOString() })
+      const headIds = await getDepartmentHeadIds(task.department ?? '')
+      const recipientIds = headIds.length > 0 ? headIds : await getManagerIds()
+      await Promise.all(
+        recipientIds.map((userId) =>
+          createNotification({
+            userId,
+            title: 'SLA breached',
+            body: `"${task.title ?? 'Untitled task'}" passed its SLA deadline of ${deadline.toISOString().split('T')[0]}.`,
+            link: `/tasks?task=${taskDoc.id}`,
+            source: 'sla',
+            sourceId: taskDoc.id,
+          }),
+        ),
+      )
+    } catch (error) {
+      console.error(`Failed to flag SLA breach for task ${taskDoc.id}:`, error)
+    }
+  }
+})
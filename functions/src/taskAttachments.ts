@@ -0,0 +1,17 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+/**
+ * Removes a deleted task's uploaded files from Storage.
+ * Clients only delete the attachments they remove explicitly, so this catches the rest.
+ */
+export const onTaskDeletedAttachments = functions.firestore
+  .document('tasks/{taskId}')
+  .onDelete(async (_snapshot, context) => {
+    const { taskId } = context.params
+    try {
+      await admin.storage().bucket().deleteFiles({ prefix: `task-attachments/${taskId}/` })
+    } catch (error) {
+      console.error(`Failed to delete attachments for task ${taskId}`, error)
+    }
+  })
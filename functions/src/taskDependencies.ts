@@ -0,0 +1,50 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+// A blocker holds a task up until it is completed; trashed or deleted blockers no longer count
+function isOpen(data: admin.firestore.DocumentData | undefined): boolean {
+  return Boolean(data) && !data?.deletedAt && data?.status !== 'Completed'
+}
+
+function readBlockers(data: admin.firestore.DocumentData | undefined): string[] {
+  return Array.isArray(data?.blockers) ? data?.blockers.filter((id: unknown): id is string => typeof id === 'string') : []
+}
+
+async function refreshBlockedFlag(taskRef: admin.firestore.DocumentReference, blockerIds: string[], current: unknown) {
+  const db = admin.firestore()
+  const blockers = blockerIds.length > 0 ? await db.getAll(...blockerIds.map((id) => db.collection('tasks').doc(id))) : []
+  const blocked = blockers.some((blocker) => isOpen(blocker.data()))
+  if (blocked !== current) {
+    await taskRef.update({ isBlocked: blocked })
+  }
+}
+
+/**
+ * Keeps isBlocked on tasks up to date, so the rules can refuse to start or complete a task while
+ * any of its blockers is still open. It is recomputed when a task's blockers change, and for every
+ * task it blocks when it is completed, reopened, trashed, restored or deleted.
+ */
+export const onTaskWrittenBlockers = functions.firestore
+  .document('tasks/{taskId}')
+  .onWrite(async (change, context) => {
+    const db = admin.firestore()
+    const { taskId } = context.params
+    const before = change.before.exists ? change.before.data() : undefined
+    const after = change.after.exists ? change.after.data() : undefined
+
+    // Tasks that had blockers before isBlocked existed are flagged the next time they are written
+    const blockersChanged = readBlockers(before).join(',') !== readBlockers(after).join(',')
+    if (after && (blockersChanged || (after.isBlocked === undefined && readBlockers(after).length > 0))) {
+      await refreshBlockedFlag(change.after.ref, readBlockers(after), after.isBlocked)
+    }
+
+    if (isOpen(before) === isOpen(after)) return
+    const dependents = await db.collection('tasks').where('blockers', 'array-contains', taskId).get()
+    for (const dependent of dependents.docs) {
+      try {
+        await refreshBlockedFlag(dependent.ref, readBlockers(dependent.data()), dependent.data().isBlocked)
+      } catch (error) {
+        console.error(`Failed to update isBlocked on ${dependent.id} after ${taskId} changed`, error)
+      }
+    }
+  })
@@ -0,0 +1,130 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+// Fields whose changes are recorded in the task history
+const TRACKED_FIELDS = ['status', 'stage', 'priority', 'assignees', 'dueDate', 'fileUrls', 'attachments'] as const
+
+type TrackedField = (typeof TRACKED_FIELDS)[number]
+
+const AUTOMATION_ACTOR_ID = 'automation'
+
+// Tasks written before multiple assignees only have the single assignee name
+function readField(field: TrackedField, data: admin.firestore.DocumentData): unknown {
+  if (field === 'assignees' && !Array.isArray(data.assignees)) {
+    return data.assignee ? [{ name: data.assignee }] : []
+  }
+  return data[field]
+}
+
+function normalize(field: TrackedField, value: unknown): unknown {
+  if (field === 'fileUrls') return Array.isArray(value) ? value : []
+  if (field === 'assignees') {
+    return Array.isArray(value) ? value.map((assignee) => assignee?.name ?? '') : []
+  }
+  // Uploaded files are recorded by storage path; the download URLs carry access tokens
+  if (field === 'attachments') {
+    return Array.isArray(value) ? value.map((attachment) => attachment?.path ?? '') : []
+  }
+  return value ?? ''
+}
+
+function isSame(field: TrackedField, before: unknown, after: unknown): boolean {
+  if (field === 'fileUrls' || field === 'attachments' || field === 'assignees') {
+    return JSON.stringify(normalize(field, before)) === JSON.stringify(normalize(field, after))
+  }
+  return normalize(field, before) === normalize(field, after)
+}
+
+async function resolveActorName(actorId: string | null): Promise<string> {
+  if (!actorId) return 'Unknown'
+  if (actorId === AUTOMATION_ACTOR_ID) return 'Automation'
+  const profile = await admin.firestore().collection('userProfiles').doc(actorId).get()
+  return profile.data()?.displayName ?? 'Unknown'
+}
+
+/**
+ * Appends to the taskEvents audit trail on every task create, tracked field change, move to or
+ * from the trash and permanent delete.
+ * Runs server-side so the history cannot be forged or edited by clients.
+ */
+export const onTaskWrittenHistory = functions.firestore
+  .document('tasks/{taskId}')
+  .onWrite(async (change, context) => {
+    const db = admin.firestore()
+    const { taskId } = context.params
+    const before = change.before.exists ? change.before.data() : undefined
+    const after = change.after.exists ? change.after.data() : undefined
+    const at = admin.firestore.Timestamp.fromDate(new Date(context.timestamp))
+
+    // Triggers can be delivered more than once, so each entry's id comes from the event it records
+    // and a redelivered event rewrites the same entries instead of adding duplicates
+    const eventRef = (suffix: string) => db.collection('taskEvents').doc(`${context.eventId}_${suffix}`)
+
+    const source = after ?? before
+    const base = {
+      taskId,
+      taskTitle: source?.title ?? '',
+      department: source?.department ?? '',
+      at,
+    }
+
+    if (!before && after) {
+      const actorId: string | null = after.createdBy ?? null
+      await eventRef('created').set({
+        ...base,
+        type: 'created',
+        actorId,
+        actorName: await resolveActorName(actorId),
+        to: { status: after.status ?? '', assignee: after.assignee ?? '' },
+      })
+      return
+    }
+
+    if (before && !after) {
+      // A task already in the trash was purged; its move to the trash was recorded then
+      await eventRef('removed').set({
+        ...base,
+        type: before.deletedAt ? 'purged' : 'deleted',
+        actorId: null,
+        actorName: 'Unknown',
+      })
+      return
+    }
+
+    if (!before || !after) return
+
+    if (Boolean(before.deletedAt) !== Boolean(after.deletedAt)) {
+      const actorId: string | null = after.deletedAt ? (after.deletedBy ?? null) : (after.updatedBy ?? null)
+      await eventRef('trash').set({
+        ...base,
+        type: after.deletedAt ? 'deleted' : 'restored',
+        actorId,
+        actorName: await resolveActorName(actorId),
+      })
+      return
+    }
+
+    const changedFields = TRACKED_FIELDS.filter(
+      (field) => !isSame(field, readField(field, before), readField(field, after)),
+    )
+    if (changedFields.length === 0) return
+
+    // Automation writes are marked by automationUpdatedAt; client writes carry updatedBy (enforced by the rules)
+    const isAutomation = Boolean(after.automationUpdatedAt) && after.automationUpdatedAt !== before.automationUpdatedAt
+    const actorId: string | null = isAutomation ? AUTOMATION_ACTOR_ID : (after.updatedBy ?? null)
+    const actorName = await resolveActorName(actorId)
+
+    const batch = db.batch()
+    changedFields.forEach((field) => {
+      batch.set(eventRef(field), {
+        ...base,
+        type: 'fieldChanged',
+        field,
+        from: normalize(field, readField(field, before)),
+        to: normalize(field, readField(field, after)),
+        actorId,
+        actorName,
+      })
+    })
+    await batch.commit()
+  })
@@ -0,0 +1,83 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { addDays, nextRunAfter, toDateKey, type TaskRecurrence } from './shared/recurrence'
+
+/**
+ * Creates the task for one occurrence of a template.
+ * The task id is derived from the template and run date, so a retried run never creates a duplicate.
+ */
+async function createTaskFromTemplate(
+  templateId: string,
+  template: admin.firestore.DocumentData,
+  runDate: string,
+): Promise<boolean> {
+  const db = admin.firestore()
+  const checklistTexts: string[] = Array.isArray(template.checklist) ? template.checklist : []
+  const dueInDays: number = template.recurrence?.dueInDays ?? 0
+
+  try {
+    await db
+      .collection('tasks')
+      .doc(`${templateId}_${runDate}`)
+      .create({
+        title: template.title ?? template.name ?? 'Recurring task',
+        department: template.department ?? '',
+        assignee: template.assignee ?? '',
+        assigneeId: template.assigneeId ?? '',
+        assigneeIds: template.assigneeId ? [template.assigneeId] : [],
+        assignees: template.assigneeId ? [{ id: template.assigneeId, name: template.assignee ?? '' }] : [],
+        watcherIds: [],
+        dueDate: addDays(runDate, dueInDays),
+        summary: template.summary ?? '',
+        status: 'Backlog',
+        priority: template.priority ?? 'Medium',
+        checklist: checklistTexts.map((text, index) => ({
+          id: `item-${runDate}-${index}`,
+          text,
+          done: false,
+        })),
+        templateId,
+        createdAt: admin.firestore.Timestamp.now(),
+        createdBy: template.createdBy ?? null,
+      })
+    return true
+  } catch (error: any) {
+    // ALREADY_EXISTS: this occurrence was generated by an earlier run
+    if (error?.code === 6) return false
+    throw error
+  }
+}
+
+/**
+ * Generates task instances for every active recurring template that is due.
+ * Missed occurrences (e.g. while a series was paused) are skipped rather than back-filled.
+ */
+export const generateRecurringTasks = functions.pubsub.schedule('every 60 minutes').onRun(async () => {
+  const db = admin.firestore()
+  const today = toDateKey(new Date())
+  const snapshot = await db.collection('taskTemplates').where('paused', '==', false).get()
+
+  for (const templateDoc of snapshot.docs) {
+    const template = templateDoc.data()
+    const recurrence: TaskRecurrence | null = template.recurrence ?? null
+    const nextRunAt: string | null = template.nextRunAt ?? null
+    if (!recurrence || !nextRunAt || nextRunAt > today) continue
+
+    try {
+      const created = await createTaskFromTemplate(templateDoc.id, template, nextRunAt)
+
+      let following = nextRunAfter(recurrence, nextRunAt)
+      while (following <= today) {
+        following = nextRunAfter(recurrence, following)
+      }
+
+      await templateDoc.ref.update({
+        nextRunAt: following,
+        lastRunAt: nextRunAt,
+        ...(created ? { generatedCount: admin.firestore.FieldValue.increment(1) } : {}),
+      })
+    } catch (error) {
+      console.error(`Failed to generate task for template ${templateDoc.id}:`, error)
+    }
+  }
+})
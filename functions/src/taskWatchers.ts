@@ -0,0 +1,38 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { createNotification } from './notifications'
+
+/**
+ * Notifies the watchers of a task whenever its status changes, except whoever made the change
+ */
+export const onTaskStatusChangedNotifyWatchers = functions.firestore
+  .document('tasks/{taskId}')
+  .onUpdate(async (change, context) => {
+    const before = change.before.data()
+    const after = change.after.data()
+    if (before.status === after.status) return
+
+    const watcherIds: string[] = Array.isArray(after.watcherIds) ? after.watcherIds : []
+    if (watcherIds.length === 0) return
+
+    const { taskId } = context.params
+    const isAutomation = Boolean(after.automationUpdatedAt) && after.automationUpdatedAt !== before.automationUpdatedAt
+    const actorId: string | null = isAutomation ? null : (after.updatedBy ?? null)
+    let actorName = isAutomation ? 'Automation' : 'Someone'
+    if (actorId) {
+      const profile = await admin.firestore().collection('userProfiles').doc(actorId).get()
+      actorName = profile.data()?.displayName ?? actorName
+    }
+
+    const recipients = Array.from(new Set(watcherIds)).filter((id) => typeof id === 'string' && id !== actorId)
+    for (const userId of recipients) {
+      await createNotification({
+        userId,
+        title: `"${after.title ?? 'A task'}" moved to ${after.status}`,
+        body: `${actorName} moved it from ${before.status ?? 'Backlog'} to ${after.status}.`,
+        link: `/tasks?task=${taskId}`,
+        source: 'taskWatch',
+        sourceId: taskId,
+      })
+    }
+  })
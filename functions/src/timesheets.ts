@@ -0,0 +1,110 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+import { createNotification, getDepartmentHeadIds, getManagerIds } from './notifications'
+import { buildTimesheetRows, sumTimesheetRows, type TimesheetEntry } from './shared/timesheets'
+
+function formatHours(minutes: number): string {
+  return `${(minutes / 60).toFixed(1)}h`
+}
+
+/**
+ * Notifies reviewers when a weekly timesheet is submitted, and its owner when it is approved or rejected
+ */
+export const onTimesheetWritten = functions.firestore
+  .document('timesheets/{timesheetId}')
+  .onWrite(async (change, context) => {
+    const before = change.before.exists ? change.before.data() : undefined
+    const after = change.after.exists ? change.after.data() : undefined
+    if (!after || before?.status === after.status) return
+
+    const { timesheetId } = context.params
+    const userName: string = after.userName ?? 'Someone'
+    const week: string = after.weekStart ?? ''
+
+    if (after.status === 'Submitted') {
+      // Department heads submit to the managers instead of themselves
+      const departmentHeadIds = (await getDepartmentHeadIds(after.department ?? '')).filter((id) => id !== after.userId)
+      const reviewerIds =
+        departmentHeadIds.length > 0 ? departmentHeadIds : (await getManagerIds()).filter((id) => id !== after.userId)
+      for (const reviewerId of reviewerIds) {
+        await createNotification({
+          userId: reviewerId,
+          title: `${userName} submitted a timesheet`,
+          body: `Week of ${week}: ${formatHours(after.totalMinutes ?? 0)} logged`,
+          link: '/timesheets',
+          source: 'timesheet',
+          sourceId: timesheetId,
+        })
+      }
+      return
+    }
+
+    if (after.status === 'Approved' || after.status === 'Rejected') {
+      const reviewer: string = after.reviewedByName ?? 'A reviewer'
+      await createNotification({
+        userId: after.userId,
+        title: `Timesheet ${after.status.toLowerCase()}`,
+        body:
+          after.status === 'Approved'
+            ? `${reviewer} approved your timesheet for the week of ${week}`
+            : `${reviewer} rejected your timesheet for the week of ${week}: ${after.rejectionReason ?? ''}`,
+        link: '/timesheets',
+        source: 'timesheet',
+        sourceId: timesheetId,
+      })
+    }
+  })
+
+/**
+ * Submits (or resubmits after a rejection) a user's week. Rows and the total are built here from
+ * the user's time entries rather than taken from the client, so reviewers approve what was logged.
+ */
+export async function submitWeekTimesheet(userId: string, weekStart: string): Promise<number> {
+  const db = admin.firestore()
+  const profile = (await db.collection('userProfiles').doc(userId).get()).data()
+  if (!profile) {
+    throw new functions.https.HttpsError('not-found', 'User profile not found')
+  }
+
+  const timesheetRef = db.collection('timesheets').doc(`${userId}_${weekStart}`)
+  const entriesQuery = db.collection('timeEntries').where('userId', '==', userId).where('weekStart', '==', weekStart)
+
+  return db.runTransaction(async (transaction) => {
+    const existing = (await transaction.get(timesheetRef)).data()
+    if (existing && existing.status !== 'Rejected') {
+      throw new functions.https.HttpsError('failed-precondition', 'This week has already been submitted')
+    }
+
+    const entries: TimesheetEntry[] = (await transaction.get(entriesQuery)).docs.map((entryDoc) => {
+      const data = entryDoc.data()
+      return {
+        taskId: data.taskId ?? '',
+        taskTitle: data.taskTitle ?? '',
+        date: data.date ?? '',
+        endedAt: data.endedAt ?? null,
+        minutes: typeof data.minutes === 'number' ? data.minutes : 0,
+      }
+    })
+    if (entries.some((entry) => entry.endedAt === null)) {
+      throw new functions.https.HttpsError('failed-precondition', 'Stop your running timer before submitting this week')
+    }
+    const rows = buildTimesheetRows(entries, weekStart)
+    if (rows.length === 0) {
+      throw new functions.https.HttpsError('failed-precondition', 'Log some time this week before submitting')
+    }
+
+    const totalMinutes = sumTimesheetRows(rows)
+    // A full write replaces the review fields of a previously rejected submission
+    transaction.set(timesheetRef, {
+      userId,
+      userName: profile.displayName ?? 'Unknown',
+      department: profile.department ?? '',
+      weekStart,
+      rows,
+      totalMinutes,
+      status: 'Submitted',
+      submittedAt: new Date().toISOString(),
+    })
+    return totalMinutes
+  })
+}
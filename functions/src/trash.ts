@@ -0,0 +1,43 @@
+import * as functions from 'firebase-functions'
+import * as admin from 'firebase-admin'
+
+// Trashed documents carry deletedAt and deletedBy; see apps/web/src/lib/trash.ts
+const TRASH_COLLECTIONS = ['tasks', 'departmentChats', 'companyChats']
+
+const DEFAULT_DATA_RETENTION_MONTHS = 18
+
+// Firestore rejects batches with more than 500 writes
+const MAX_BATCH_WRITES = 500
+
+/**
+ * Permanently deletes tasks and chat messages that have been in the trash for longer than
+ * the workspace data retention period. Their attachments are then removed by
+ * onTaskDeletedAttachments and the chat attachment cleanup functions.
+ */
+export const purgeTrash = functions.pubsub.schedule('every 24 hours').onRun(async () => {
+  const db = admin.firestore()
+  const settings = (await db.collection('settings').doc('workspace').get()).data() ?? {}
+  const retentionMonths =
+    typeof settings.dataRetention === 'number' && settings.dataRetention > 0
+      ? settings.dataRetention
+      : DEFAULT_DATA_RETENTION_MONTHS
+
+  const cutoff = new Date()
+  cutoff.setMonth(cutoff.getMonth() - retentionMonths)
+
+  for (const collectionName of TRASH_COLLECTIONS) {
+    try {
+      const snapshot = await db
+        .collection(collectionName)
+        .where('deletedAt', '<=', admin.firestore.Timestamp.fromDate(cutoff))
+        .get()
+      for (let start = 0; start < snapshot.docs.length; start += MAX_BATCH_WRITES) {
+        const batch = db.batch()
+        snapshot.docs.slice(start, start + MAX_BATCH_WRITES).forEach((doc) => batch.delete(doc.ref))
+        await batch.commit()
+      }
+    } catch (error) {
+      console.error(`Failed to purge trashed ${collectionName}:`, error)
+    }
+  }
+})